@@ -0,0 +1,144 @@
+import './style.css'
+import { GameAPI, SolvabilityChecker } from './engine'
+import { LevelLoader } from './levelLoader'
+import { LevelSchema } from './engine/level/LevelSchema'
+import { LevelEditor, type EditorTool } from './engine/editor/LevelEditor'
+
+console.log('🛠️ Mario Level Editor - Starting...')
+
+let editor: LevelEditor
+
+async function initializeEditor() {
+  try {
+    const canvas = document.getElementById('game-canvas') as HTMLCanvasElement
+    if (!canvas) {
+      console.error('Game canvas not found')
+      return
+    }
+
+    // Same sources as play mode: ?json=, ?levelId=, ?data=, otherwise the default level
+    const urlParams = new URLSearchParams(window.location.search)
+    const apiUrl = urlParams.get('api') || urlParams.get('apiUrl')
+    if (apiUrl) {
+      LevelLoader.setApiBaseUrl(apiUrl)
+    }
+    const levelData = await LevelLoader.loadLevelData(apiUrl || undefined)
+
+    const start = LevelSchema.getPlayerStart(levelData)
+    const goal = LevelSchema.getGoal(levelData)
+    const gameAPI = new GameAPI('game-canvas', {
+      width: 1024,
+      height: 576,
+      gravity: 0.5,
+      fps: 60,
+      goal_x: goal?.x,
+      goal_y: goal?.y,
+      start_x: start.x,
+      start_y: start.y
+    })
+    gameAPI.getEngine().setTTSEnabled(false)
+    gameAPI.loadLevel(levelData)
+    // The loaded level is where editing starts, not an undoable step
+    gameAPI.getBuilder().getHistory().clear()
+
+    // Sprites are drawn while editing too
+    await gameAPI.getEngine().initialize()
+
+    editor = new LevelEditor(gameAPI, { onChange: updateToolbar })
+    ;(window as any).gameAPI = gameAPI
+    ;(window as any).levelEditor = editor
+
+    bindToolbar()
+    updateToolbar(editor)
+    console.log('✅ Level editor ready')
+  } catch (error) {
+    console.error('❌ Failed to initialize level editor:', error)
+  }
+}
+
+function bindToolbar() {
+  document.querySelectorAll<HTMLButtonElement>('.tool').forEach(button => {
+    button.addEventListener('click', () => editor.setTool(button.dataset.tool as EditorTool))
+  })
+
+  bindSelect('platform-type', value => editor.setPlatformType(value))
+  bindSelect('enemy-type', value => editor.setEnemyType(value))
+  bindSelect('powerup-type', value => editor.setPowerUpType(value))
+  bindSelect('grid-size', value => editor.setGridSize(parseInt(value, 10)))
+
+  const snapToggle = document.getElementById('snap-toggle') as HTMLInputElement | null
+  snapToggle?.addEventListener('change', () => editor.setSnap(snapToggle.checked))
+
+  bindButton('undo-btn', () => editor.undo())
+  bindButton('redo-btn', () => editor.redo())
+  bindButton('play-btn', () => editor.togglePlayTest())
+  bindButton('check-btn', () => editor.checkSolvability())
+  bindButton('export-btn', exportLevel)
+
+  const fileInput = document.getElementById('import-file') as HTMLInputElement | null
+  bindButton('import-btn', () => fileInput?.click())
+  fileInput?.addEventListener('change', async () => {
+    const file = fileInput.files?.[0]
+    if (!file) return
+    editor.importJSON(await file.text())
+    fileInput.value = ''
+    console.log(`📂 Imported ${file.name}`)
+  })
+}
+
+function bindButton(id: string, handler: () => void) {
+  const button = document.getElementById(id)
+  button?.addEventListener('click', () => {
+    handler()
+    // Give keyboard shortcuts back to the editor
+    button.blur()
+  })
+}
+
+function bindSelect(id: string, handler: (value: string) => void) {
+  const select = document.getElementById(id) as HTMLSelectElement | null
+  select?.addEventListener('change', () => handler(select.value))
+}
+
+function updateToolbar(current: LevelEditor) {
+  document.querySelectorAll<HTMLButtonElement>('.tool').forEach(button => {
+    button.classList.toggle('active', button.dataset.tool === current.getTool())
+    button.disabled = current.isPlayTesting()
+  })
+
+  const undo = document.getElementById('undo-btn') as HTMLButtonElement | null
+  const redo = document.getElementById('redo-btn') as HTMLButtonElement | null
+  if (undo) undo.disabled = !current.canUndo() || current.isPlayTesting()
+  if (redo) redo.disabled = !current.canRedo() || current.isPlayTesting()
+
+  const play = document.getElementById('play-btn')
+  if (play) play.textContent = current.isPlayTesting() ? '⏹️ Stop (P)' : '▶️ Play-test'
+
+  const snapToggle = document.getElementById('snap-toggle') as HTMLInputElement | null
+  if (snapToggle) snapToggle.checked = current.isSnapping()
+
+  const status = document.getElementById('editor-status')
+  const result = current.getSolvability()
+  if (status) {
+    status.textContent = result ? `${result.solvable ? '✅' : '⚠️'} ${SolvabilityChecker.describe(result)}` : ''
+  }
+}
+
+function exportLevel() {
+  const json = editor.exportJSON()
+  const blob = new Blob([json], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'level.json'
+  link.click()
+  URL.revokeObjectURL(url)
+  console.log('💾 Level exported')
+}
+
+// 如果DOM已经加载完成
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initializeEditor)
+} else {
+  initializeEditor()
+}
@@ -1,9 +1,13 @@
 import './style.css'
 import { GameAPI } from './engine'
-import { LevelLoader, type LevelData } from './levelLoader'
+import { LevelLoader } from './levelLoader'
+import { LevelSchema, type LevelDocument } from './engine/level/LevelSchema'
 import { SpeedSelector } from './ui/SpeedSelector'
 import { LevelPackManager } from './engine/LevelPackManager'
 import { LevelPackProgressUI } from './ui/LevelPackProgressUI'
+import { SyncQueue } from './engine/offline/SyncQueue'
+import { EmbedBridge } from './engine/embed/EmbedBridge'
+import { parseAllowedOrigins } from './engine/embed/EmbedProtocol'
 
 console.log('🎮 Mario Game Embed Mode - Starting...')
 
@@ -22,10 +26,34 @@ let gameAPI: GameAPI
 let packManager: LevelPackManager | null = null
 let packUI: LevelPackProgressUI | null = null
 
+// 允许控制游戏的宿主页面 - 未配置时只接受与游戏同源的页面
+const allowedOrigins = parseAllowedOrigins(import.meta.env.VITE_EMBED_ALLOWED_ORIGINS)
+if (allowedOrigins.length === 0) {
+  console.warn('⚠️ VITE_EMBED_ALLOWED_ORIGINS is not set - only accepting embed messages from this origin')
+}
+
+// 与父窗口通信（协议见 engine/embed/EmbedProtocol.ts）- 尽早创建，游戏加载期间也能握手
+const embedBridge = new EmbedBridge({
+  allowedOrigins,
+  parseLevel: data => LevelLoader.parseLevelData(data),
+  setApiUrl: apiUrl => {
+    window.MARIO_API_URL = apiUrl
+    LevelLoader.setApiBaseUrl(apiUrl)
+    console.log(`🔧 API URL updated: ${apiUrl}`)
+  },
+  reloadLevel: levelId => {
+    console.log(`🔄 Reloading level: ${levelId}`)
+    location.search = `?id=${levelId}`
+  }
+})
+
 async function initializeEmbedGame() {
   try {
     console.log('🔧 Initializing embed game...')
 
+    // 上次离线时排队的进度和成绩
+    void SyncQueue.getInstance().flush()
+
     // 检查必要的DOM元素
     const canvas = document.getElementById('game-canvas') as HTMLCanvasElement
     if (!canvas) {
@@ -56,16 +84,14 @@ async function initializeEmbedGame() {
     let startX = 100, startY = 400
     let goalX: number | undefined, goalY: number | undefined
 
-    if (levelData.starting_points && levelData.starting_points.length > 0) {
-      const startPoint = levelData.starting_points[0]
-      startX = startPoint.coordinates[0]
-      startY = startPoint.coordinates[1]
-    }
+    const start = LevelSchema.getPlayerStart(levelData)
+    startX = start.x
+    startY = start.y
 
-    if (levelData.end_points && levelData.end_points.length > 0) {
-      const endPoint = levelData.end_points[0]
-      goalX = endPoint.coordinates[0]
-      goalY = endPoint.coordinates[1] - 30
+    const goal = LevelSchema.getGoal(levelData)
+    if (goal) {
+      goalX = goal.x
+      goalY = goal.y
     }
 
     // 创建游戏API实例，使用标准固定尺寸
@@ -85,6 +111,7 @@ async function initializeEmbedGame() {
     const levelIdParam = urlParams.get('levelId') || urlParams.get('id')
     const levelId = levelIdParam ? parseInt(levelIdParam, 10) : 3 // Embed模式默认关卡ID=3
     gameAPI.getEngine().setLevelId(levelId)
+    gameAPI.getEngine().enablePersonalBests(levelIdParam !== null) // 默认ID不是真实关卡，不保存个人最佳幽灵
     gameAPI.getEngine().enableLeaderboard(true)  // Embed模式支持排行榜（从API加载关卡）
     console.log(`🎮 设置关卡ID: ${levelId}，排行榜已启用`)
 
@@ -123,118 +150,27 @@ async function initializeEmbedGame() {
     // 启动游戏
     await gameAPI.startGame()
 
-    // 发送游戏就绪事件
-    window.dispatchEvent(new CustomEvent('gameReady'))
+    // 通知父窗口并开始接受游戏指令
+    embedBridge.attach(gameAPI)
 
     console.log('🎮 Embed game started successfully!')
 
   } catch (error) {
     console.error('❌ Failed to initialize embed game:', error)
     window.showError(error instanceof Error ? error.message : '初始化失败')
-
-    // 发送错误事件
-    window.dispatchEvent(new ErrorEvent('error', { error: error as Error }))
+    embedBridge.emit('error', { message: error instanceof Error ? error.message : String(error) })
   }
 }
 
-async function buildGameFromLevelData(levelData: LevelData) {
+async function buildGameFromLevelData(levelData: LevelDocument) {
   console.log('🏗️ Building game from level data...', levelData)
 
-  // 清空现有关卡
+  // 清空现有关卡并按统一关卡格式构建（起点、终点、刚体、金币、钉刺、敌人）
   gameAPI.clearLevel()
+  gameAPI.loadLevel(levelData)
 
-  // 设置玩家起始位置
-  if (levelData.starting_points && levelData.starting_points.length > 0) {
-    const startPoint = levelData.starting_points[0]
-    gameAPI.setPlayerStart(startPoint.coordinates[0], startPoint.coordinates[1])
-    console.log(`👨 Player start set to: (${startPoint.coordinates[0]}, ${startPoint.coordinates[1]})`)
-  } else {
-    gameAPI.setPlayerStart(100, 400) // 默认位置
-  }
-
-  // 添加终点（使用 addGoal 而不是 addGoalPipe，与本地引擎保持一致）
-  if (levelData.end_points && levelData.end_points.length > 0) {
-    const endPoint = levelData.end_points[0]
-    gameAPI.addGoal(endPoint.coordinates[0], endPoint.coordinates[1] - 30)
-    console.log(`🏁 Goal added at: (${endPoint.coordinates[0]}, ${endPoint.coordinates[1] - 30})`)
-  }
-
-  // 添加刚体（墙壁和平台）
-  let polygonCount = 0
-  if (levelData.rigid_bodies && levelData.rigid_bodies.length > 0) {
-    levelData.rigid_bodies.forEach((body, index) => {
-      if (body.contour_points && body.contour_points.length >= 3) {
-        try {
-          // 确定多边形类型
-          let polygonType = 'polygon'
-          if (body.contour_points.length === 3) {
-            polygonType = 'triangle'
-          } else if (body.contour_points.length === 5) {
-            polygonType = 'pentagon'
-          } else if (body.contour_points.length === 6) {
-            polygonType = 'hexagon'
-          }
-
-          gameAPI.addPolygon(body.contour_points, polygonType)
-          polygonCount++
-          console.log(`🔷 Added ${polygonType} with ${body.contour_points.length} points`)
-        } catch (error) {
-          console.warn(`⚠️ Failed to add polygon ${index}:`, error)
-        }
-      }
-    })
-  }
-
-  // 添加金币（如果有）
-  let coinCount = 0
-  if (levelData.coins && levelData.coins.length > 0) {
-    levelData.coins.forEach((coin, index) => {
-      try {
-        gameAPI.addCoin(coin.x, coin.y)
-        coinCount++
-        console.log(`🪙 Added coin at: (${coin.x}, ${coin.y})`)
-      } catch (error) {
-        console.warn(`⚠️ Failed to add coin ${index}:`, error)
-      }
-    })
-  }
-
-  // 添加钉刺（新功能，来自本地引擎）
-  let spikeCount = 0
-  if (levelData.spikes && levelData.spikes.length > 0) {
-    levelData.spikes.forEach((spike, index) => {
-      try {
-        const [spikeX, spikeY] = spike.coordinates
-        gameAPI.addSpike(spikeX, spikeY, 32) // 标准 32x32 钉刺
-        spikeCount++
-        console.log(`🔺 Added spike at: (${spikeX}, ${spikeY})`)
-      } catch (error) {
-        console.warn(`⚠️ Failed to add spike ${index}:`, error)
-      }
-    })
-  }
-
-  // 添加敌人（如果有）
-  let enemyCount = 0
-  if (levelData.enemies && levelData.enemies.length > 0) {
-    levelData.enemies.forEach((enemy, index) => {
-      try {
-        gameAPI.addEnemy(enemy.x, enemy.y, enemy.type)
-        enemyCount++
-        console.log(`👾 Added ${enemy.type} at: (${enemy.x}, ${enemy.y})`)
-      } catch (error) {
-        console.warn(`⚠️ Failed to add enemy ${index}:`, error)
-      }
-    })
-  }
-
-  // 构建关卡
-  await gameAPI.buildLevel()
-
-  // 设置关卡数据到引擎（重要：来自本地引擎的改进）
-  gameAPI.getEngine().setLevelData(gameAPI.builder.levelData)
-
-  console.log(`✅ Level built: ${polygonCount} platforms, ${coinCount} coins, ${spikeCount} spikes, ${enemyCount} enemies`)
+  const spikeCount = levelData.enemies.filter(enemy => enemy.type === 'spike').length
+  console.log(`✅ Level built: ${levelData.polygons.length + levelData.platforms.length} platforms, ${levelData.coins.length} coins, ${spikeCount} spikes, ${levelData.enemies.length - spikeCount} enemies`)
 
   // 配置AI对话系统（学习本地引擎）
   await configureAIDialogSystem(gameAPI)
@@ -273,104 +209,6 @@ async function configureAIDialogSystem(gameAPI: GameAPI) {
   }
 }
 
-// 监听父窗口消息
-window.addEventListener('message', (event) => {
-  console.log('📨 Received message from parent:', event.data)
-
-  switch (event.data.type) {
-    case 'SET_API_URL':
-      window.MARIO_API_URL = event.data.apiUrl
-      LevelLoader.setApiBaseUrl(event.data.apiUrl)
-      console.log(`🔧 API URL updated: ${event.data.apiUrl}`)
-      break
-
-    case 'RELOAD_LEVEL':
-      if (event.data.levelId) {
-        console.log(`🔄 Reloading level: ${event.data.levelId}`)
-        // 重新加载指定关卡
-        location.search = `?id=${event.data.levelId}`
-      }
-      break
-
-    case 'PAUSE_GAME':
-      if (gameAPI) {
-        gameAPI.pauseGame()
-        console.log('⏸️ Game paused by parent')
-      }
-      break
-
-    case 'RESUME_GAME':
-      if (gameAPI) {
-        gameAPI.pauseGame() // toggle
-        console.log('▶️ Game resumed by parent')
-      }
-      break
-
-    case 'RESET_GAME':
-      if (gameAPI) {
-        gameAPI.resetGame()
-        console.log('🔄 Game reset by parent')
-      }
-      break
-  }
-})
-
-// 监听游戏事件并转发给父窗口
-// function setupGameEventForwarding() {
-//   // 监听分数变化
-//   let lastScore = 0
-//   setInterval(() => {
-//     if (gameAPI && gameAPI.getScore) {
-//       const currentScore = gameAPI.getScore()
-//       if (currentScore !== lastScore) {
-//         lastScore = currentScore
-//         if (window.parent && window.parent !== window) {
-//           window.parent.postMessage({
-//             type: 'SCORE_UPDATE',
-//             data: { score: currentScore }
-//           }, '*')
-//         }
-//       }
-//     }
-//   }, 100)
-
-//   // 监听游戏结束
-//   window.addEventListener('gameOver', (event: any) => {
-//     if (window.parent && window.parent !== window) {
-//       window.parent.postMessage({
-//         type: 'GAME_OVER',
-//         data: {
-//           score: event.detail?.score || 0,
-//           reason: event.detail?.reason || 'unknown'
-//         }
-//       }, '*')
-//     }
-//   })
-
-//   // 监听游戏开始
-//   window.addEventListener('gameStart', () => {
-//     if (window.parent && window.parent !== window) {
-//       window.parent.postMessage({
-//         type: 'GAME_START',
-//         data: { timestamp: Date.now() }
-//       }, '*')
-//     }
-//   })
-
-//   // 监听胜利
-//   window.addEventListener('gameWin', (event: any) => {
-//     if (window.parent && window.parent !== window) {
-//       window.parent.postMessage({
-//         type: 'GAME_WIN',
-//         data: {
-//           score: event.detail?.score || 0,
-//           time: event.detail?.time || 0
-//         }
-//       }, '*')
-//     }
-//   })
-// }
-
 // Pack Mode Initialization
 async function initializePackMode(packId: number) {
   try {
@@ -404,16 +242,14 @@ async function initializePackMode(packId: number) {
     let startX = 100, startY = 400
     let goalX: number | undefined, goalY: number | undefined
 
-    if (levelData.starting_points && levelData.starting_points.length > 0) {
-      const startPoint = levelData.starting_points[0]
-      startX = startPoint.coordinates[0]
-      startY = startPoint.coordinates[1]
-    }
+    const start = LevelSchema.getPlayerStart(levelData)
+    startX = start.x
+    startY = start.y
 
-    if (levelData.end_points && levelData.end_points.length > 0) {
-      const endPoint = levelData.end_points[0]
-      goalX = endPoint.coordinates[0]
-      goalY = endPoint.coordinates[1] - 30
+    const goal = LevelSchema.getGoal(levelData)
+    if (goal) {
+      goalX = goal.x
+      goalY = goal.y
     }
 
     // 创建游戏API实例
@@ -457,37 +293,35 @@ async function initializePackMode(packId: number) {
       player.setSpeedMultiplier(selectedSpeed)
     }
 
-    // 开始关卡计时
-    packManager.startLevelTimer()
+    // 监听游戏胜利事件，切换到下一关（关卡计时随第一帧开始）
+    setupPackModeEventListeners()
 
     // 启动游戏
     await gameAPI.startGame()
-
-    // 监听游戏胜利事件，切换到下一关
-    setupPackModeEventListeners()
+    embedBridge.attach(gameAPI, packManager)
 
     console.log('✅ Pack mode initialized successfully!')
 
   } catch (error) {
     console.error('❌ Failed to initialize pack mode:', error)
     window.showError(error instanceof Error ? error.message : '关卡包加载失败')
+    embedBridge.emit('error', { message: error instanceof Error ? error.message : String(error) })
   }
 }
 
 // Pack Mode Event Listeners
 function setupPackModeEventListeners() {
+  if (!packManager) return
+
+  // 计时、死亡和完成记录由 pack manager 自己跟踪 - 必须先于下面的胜利处理订阅
+  packManager.trackEvents(gameAPI.getEvents())
+
   // 监听游戏胜利
-  window.addEventListener('gameWin', async () => {
+  gameAPI.on('victory', async () => {
     if (!packManager || !packUI) return
 
     console.log('🎉 Level completed!')
 
-    // 停止计时
-    packManager.stopLevelTimer()
-
-    // 标记关卡完成
-    packManager.markCurrentLevelComplete()
-
     // 检查是否完成所有关卡
     if (packManager.isPackComplete()) {
       console.log('🎊 Pack completed!')
@@ -523,13 +357,8 @@ function setupPackModeEventListeners() {
   })
 
   // 监听玩家死亡
-  window.addEventListener('playerDeath', () => {
-    if (packManager) {
-      packManager.recordDeath()
-      if (packUI) {
-        packUI.update()
-      }
-    }
+  gameAPI.on('death', () => {
+    packUI?.update()
   })
 }
 
@@ -537,12 +366,16 @@ function setupPackModeEventListeners() {
 window.addEventListener('unhandledrejection', (event) => {
   console.error('🚨 Unhandled promise rejection:', event.reason)
   window.showError('游戏加载失败: ' + (event.reason?.message || '未知错误'))
+  embedBridge.emit('error', { message: event.reason?.message || String(event.reason) })
+})
+
+window.addEventListener('error', (event) => {
+  embedBridge.emit('error', { message: event.error?.message || event.message || 'Unknown error' })
 })
 
 // 初始化游戏
 document.addEventListener('DOMContentLoaded', () => {
   console.log('📱 DOM loaded, initializing embed game...')
-  // setupGameEventForwarding() // Commented out
   initializeEmbedGame()
 })
 
@@ -550,11 +383,9 @@ document.addEventListener('DOMContentLoaded', () => {
 if (document.readyState === 'loading') {
   document.addEventListener('DOMContentLoaded', () => {
     console.log('📱 DOM loaded, initializing embed game...')
-    // setupGameEventForwarding() // Commented out
-    initializeEmbedGame()
+      initializeEmbedGame()
   })
 } else {
   console.log('📱 DOM already loaded, initializing embed game...')
-  // setupGameEventForwarding() // Commented out
   initializeEmbedGame()
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from './headless/HeadlessSimulation'
+import { TICK_RATE } from './replay/Replay'
+import { flatLevel, settled } from '../test/fixtures'
+import { type LevelDocument, type LevelPlatform } from './level/LevelSchema'
+
+describe('GameEngine fixed timestep', () => {
+  it('advances one fixed tick per step', () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    const engine = sim.getEngine()
+    expect(engine.getFixedTimeStep()).toBeCloseTo(1 / TICK_RATE)
+
+    const state = sim.run(TICK_RATE)
+    expect(state.tick).toBe(TICK_RATE)
+    expect(state.elapsedTime).toBeCloseTo(1)
+  })
+
+  it('stops stepping once the level is won', () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    const { state } = sim.runUntilVictory(600, { right: true, run: true })
+    expect(sim.step({ right: true })).toBe(false)
+    expect(sim.getState().tick).toBe(state.tick)
+  })
+
+  it('refuses replays recorded at another tick rate', async () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    sim.runUntilVictory(600, { right: true, run: true })
+    const replay = { ...sim.getReplay()!, tickRate: TICK_RATE * 2 }
+
+    expect(await sim.getEngine().playReplay(replay)).toBe(false)
+    expect(sim.getEngine().isPlayingReplay()).toBe(false)
+    expect(() => sim.runReplay(replay)).toThrow()
+  })
+
+  it('refuses replays recorded on another level', async () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel(), { levelId: 7 })
+    sim.runUntilVictory(600, { right: true, run: true })
+    const replay = { ...sim.getReplay()!, levelId: 8 }
+
+    expect(await sim.getEngine().playReplay(replay)).toBe(false)
+    expect(sim.getEngine().isPlayingReplay()).toBe(false)
+    expect(() => sim.runReplay(replay)).toThrow()
+    // The recording itself still plays
+    expect(await sim.getEngine().playReplay(sim.getReplay()!)).toBe(true)
+  })
+})
+
+describe('GameEngine events', () => {
+  it('keeps its own effects when the host clears its listeners', () => {
+    const level = flatLevel()
+    level.coins.push({ x: 200, y: 460 })
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const engine = sim.getEngine()
+    engine.getEffects().setQuality('high') // headless engines turn effects off
+
+    let heard = 0
+    engine.getEvents().on('coinCollected', () => heard++)
+    engine.getEvents().clear()
+    sim.runUntil(state => state.coins > 0, 300, { right: true })
+
+    expect(heard).toBe(0)
+    expect(engine.getEffects().particleCount).toBeGreaterThan(0)
+  })
+})
+
+// A block right above where the player lands
+function blockLevel(block: Partial<LevelPlatform>): LevelDocument {
+  const level = flatLevel()
+  level.platforms.push({ x: 40, y: 380, width: 32, height: 32, ...block })
+  return level
+}
+
+describe('GameEngine blocks', () => {
+  it('only lets a big player break a brick', () => {
+    const small = settled(blockLevel({ type: 'brick' }))
+    const brick = small.getEngine().getCurrentLevel()!.getPlatforms()[1]
+    const hits: boolean[] = []
+    small.getEngine().getEvents().on('blockHit', ({ broken }) => hits.push(broken))
+    small.run(30, { jump: true })
+    expect(hits).toEqual([false])
+    expect(small.getEngine().getCurrentLevel()!.getPlatforms()).toContain(brick)
+
+    const big = settled(blockLevel({ type: 'brick' }))
+    big.getEngine().getPlayer()!.grow()
+    const bigBrick = big.getEngine().getCurrentLevel()!.getPlatforms()[1]
+    big.run(30, { jump: true })
+    expect(big.getEngine().getCurrentLevel()!.getPlatforms()).not.toContain(bigBrick)
+
+    // Restarting puts it back
+    big.restart()
+    expect(big.getEngine().getCurrentLevel()!.getPlatforms()).toContain(bigBrick)
+  })
+
+  it('reveals a hidden block hit from below', () => {
+    const sim = settled(blockLevel({ type: 'hidden' }))
+    const block = sim.getEngine().getCurrentLevel()!.getPlatforms()[1]
+    expect(block.hidden).toBe(true)
+    expect(block.solid).toBe(false)
+
+    const state = sim.run(30, { jump: true })
+    expect(block.hidden).toBe(false)
+    expect(block.solid).toBe(true)
+    expect(state.coins).toBe(1)
+  })
+
+  it('gives a question block\'s contents once', () => {
+    const sim = settled(blockLevel({ type: 'question', contents: 'mushroom' }))
+    sim.run(30, { jump: true })
+    sim.run(30)
+    sim.run(30, { jump: true })
+    const powerUps = sim.getEngine().getEntities().filter(entity => entity.type === 'powerup')
+    expect(powerUps).toHaveLength(1)
+  })
+})
+
+describe('GameEngine lives and checkpoints', () => {
+  it('respawns the player at the last checkpoint reached', () => {
+    const level = flatLevel(1200)
+    level.checkpoints = [{ x: 300, y: 436 }]
+    level.enemies.push({ x: 500, y: 468, type: 'spike', size: 32 })
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const engine = sim.getEngine()
+    const respawns: number[] = []
+    engine.getEvents().on('respawn', ({ x }) => respawns.push(x))
+
+    expect(sim.runUntil(state => state.deaths > 0, 300, { right: true }).reached).toBe(true)
+    expect(engine.getCheckpoint()!.x).toBe(300)
+    expect(respawns).toEqual([300])
+  })
+
+  it('grants a life for every 100 coins', () => {
+    const level = flatLevel()
+    for (let i = 0; i < 100; i++) {
+      level.coins.push({ x: 50, y: 440 })
+    }
+    const sim = HeadlessSimulation.fromLevelData(level, { lives: 3 })
+    const sources: string[] = []
+    sim.getEngine().getEvents().on('lifeGained', ({ source }) => sources.push(source))
+
+    const state = sim.run(30)
+    expect(state.coins).toBe(100)
+    expect(state.lives).toBe(4)
+    expect(sources).toEqual(['coins'])
+  })
+
+  it('ends the game when the last life is lost', () => {
+    const level = flatLevel()
+    level.enemies.push({ x: 150, y: 468, type: 'spike', size: 32 })
+    const sim = HeadlessSimulation.fromLevelData(level, { lives: 2 })
+    const engine = sim.getEngine()
+
+    expect(sim.runUntil(state => state.deaths === 1, 300, { right: true }).state.lives).toBe(1)
+    expect(engine.isGameOver()).toBe(false)
+
+    // Wait out the blinking after the respawn, then walk into the spike again
+    const { state } = sim.runUntil(state => state.gameOver, 600, (_, state) => ({ right: !state.player!.invulnerable }))
+    expect(state.lives).toBe(0)
+    expect(state.deaths).toBe(2)
+    expect(sim.step({ right: true })).toBe(false)
+
+    // Continuing refills the lives and carries on from where the run stopped
+    engine.continueGame()
+    expect(engine.getLives()).toBe(2)
+    expect(sim.step({})).toBe(true)
+  })
+})
@@ -1,18 +1,40 @@
-import { Renderer } from './render/Renderer'
+import { createRenderer, type GameRenderer, type RendererBackend } from './render/GameRenderer'
 import { PhysicsEngine } from './physics/PhysicsEngine'
 import { EntityManager } from './entities/EntityManager'
 import { InputManager } from './input/InputManager'
 import { Camera } from './render/Camera'
-import { Level } from './level/Level'
+import { Level, GOAL_SIZE } from './level/Level'
 import { type LevelData } from './LevelBuilder'
 import { Player } from './entities/Player'
-import { Platform } from './level/Platform'
+import { Platform, type BlockContents } from './level/Platform'
+import { type Polygon } from './level/Polygon'
 import { Entity } from './entities/Entity'
+import { Enemy } from './entities/Enemy'
+import { Fireball } from './entities/Fireball'
+import { PowerUp } from './entities/PowerUp'
+import { Checkpoint } from './entities/Checkpoint'
+import { type EnemyWorld } from './entities/enemies/EnemyBehavior'
+import { type Bounds } from './physics/Geometry'
 import { SpriteLoader } from './sprites/SpriteLoader'
 import { DialogManager } from './ui/DialogManager'
 import { DialogGenerator } from './ui/DialogGenerator'
 import { MobileDetector } from '../utils/MobileDetector'
 import { VictoryModal, type VictoryData } from '../ui/VictoryModal'
+import { GameOverModal } from '../ui/GameOverModal'
+import { type InputState } from './input/InputManager'
+import { InputRecorder } from './replay/InputRecorder'
+import { ReplayPlayer } from './replay/ReplayPlayer'
+import { TICK_RATE, isValidReplay, type ReplayData } from './replay/Replay'
+import { Ghost } from './replay/Ghost'
+import { GhostStore } from './replay/GhostStore'
+import { LeaderboardClient } from './api/LeaderboardClient'
+import { SolvabilityChecker, type SolvabilityOptions, type SolvabilityResult } from './analysis/SolvabilityChecker'
+import { GameEvents, type GameEventMap, type GameEventName, type HitCause } from './events/GameEvents'
+import { ParticleSystem } from './effects/ParticleSystem'
+import { type EffectsQuality } from './effects/Effects'
+import { AudioManager } from './audio/AudioManager'
+import { resolveMusic } from './audio/Sounds'
+import { getViewBounds } from './render/Camera'
 
 export interface GameConfig {
   width?: number
@@ -23,15 +45,39 @@ export interface GameConfig {
   goal_y?: number
   start_x?: number
   start_y?: number
+  seed?: number // Seed recorded with replays; random when omitted
+  lives?: number // Lives per run - losing the last one is game over; unlimited when omitted
+  maxSlopeAngle?: number // Steepest polygon slope (degrees) that can be walked on, default 50
+  broadphase?: boolean // Only test collisions against nearby things (spatial grid), default true - off checks everything
+  renderer?: RendererBackend // 'canvas2d' (default) or 'webgl2' - falls back to Canvas2D where WebGL2 isn't available
+  effectsQuality?: EffectsQuality | 'auto' // Particle effects - 'auto' (default) is 'low' on phones and tablets, 'high' elsewhere
+}
+
+// Coins jumping out of blocks, drawn with GameRenderer.renderParticle
+interface BlockEffect {
+  x: number
+  y: number
+  type: 'blockCoin'
+  ticks: number
+  duration: number
+}
+
+const BLOCK_COIN_TICKS = 30
+const COINS_PER_LIFE = 100
+const COIN_SIZE = 24
+const LANDING_PUFF_SPEED = 6 // px/tick - softer landings don't kick up dust
+const POWER_UP_GLOW_SECONDS = 1
+
+const NO_INPUT: InputState = {
+  left: false, right: false, up: false, down: false, jump: false, run: false, action: false
 }
 
 export class GameEngine {
-  private canvas: HTMLCanvasElement
-  private ctx: CanvasRenderingContext2D
-  private renderer: Renderer
+  private canvas: HTMLCanvasElement | null
+  private renderer: GameRenderer | null = null
   private physics: PhysicsEngine
   private entityManager: EntityManager
-  private inputManager: InputManager
+  private inputManager: InputManager | null = null
   private camera: Camera
   private currentLevel: Level | null = null
   private player: Player | null = null
@@ -40,67 +86,117 @@ export class GameEngine {
   private running = false
   private paused = false
   private victoryState = false  // Add victory state flag
+  private gameOverState = false // Out of lives - the simulation waits for continueGame() or reset()
   private lastTime = 0
   private deltaTime = 0
   private fps = 60
   private frameInterval: number
 
+  // Fixed-timestep simulation state
+  private fixedTimeStep = 1 / TICK_RATE // Seconds per simulation tick
+  private accumulator = 0
+  private tickCount = 0
+  private maxFrameTime = 0.25 // Clamp long frames (tab switches, GC pauses) to avoid a spiral of death
+  private previousPositions: Map<Entity, { x: number; y: number }> = new Map()
+  private loopActive = false // Guards against stacking requestAnimationFrame loops on restart
+
+  // Replay recording and playback
+  private seed: number
+  private inputRecorder: InputRecorder = new InputRecorder()
+  private replayPlayer: ReplayPlayer | null = null
+  private lastReplay: ReplayData | null = null
+  private ghost: Ghost | null = null
+  private events = new GameEvents() // host pages subscribe here, see getEvents
+  private ownEvents = new GameEvents() // effects and audio, out of reach of events.clear()
+  private enemyWorld: EnemyWorld // Shared by every enemy, reads the current level's state
+  private blockEffects: BlockEffect[] = []
+  private effects = new ParticleSystem('off') // Quality is set once the device is known
+  private audio: AudioManager | null = null // null when headless or without Web Audio
+
   private elapsed_time = 0
   private num_deaths = 0
   private coins = 0
+  private maxLives: number | null // null = unlimited lives
+  private lives: number
+  private checkpoint: Checkpoint | null = null // Last checkpoint reached, where the player respawns
   private spriteLoader: SpriteLoader
   private dialogGenerator: DialogGenerator
   private goal_x
   private goal_y
   private start_x
   private start_y
-  private mobileDetector: MobileDetector
+  private mobileDetector: MobileDetector | null = null
   // @ts-ignore - Used for external API compatibility
   private levelData: LevelData | null = null
   private spritesInitialized = false
   private lastDialogCheck = 0
   private dialogCheckInterval = 10000 // Check every 15 seconds
-  private victoryModal: VictoryModal
+  private victoryModal: VictoryModal | null = null
+  private gameOverModal: GameOverModal | null = null
   private currentLevelId: number = 1 // Default level ID
   private leaderboardEnabled: boolean = false // Whether leaderboard is enabled
+  private personalBestsEnabled = false // Ghosts are stored per level id, so only for levels with a real one
+  private headless: boolean // No canvas, window or DOM UI - the simulation is driven by step()
+  private broadphase: boolean // Narrow collision checks down with the level's and entity manager's grids
 
-  constructor(canvas: HTMLCanvasElement, config: GameConfig = {}) {
+  /**
+   * @param canvas - Canvas to render into, or null to run headless (e.g. in Node for tests and level validation)
+   */
+  constructor(canvas: HTMLCanvasElement | null, config: GameConfig = {}) {
     this.canvas = canvas
-    const context = canvas.getContext('2d')
-    if (!context) {
-      throw new Error('Failed to get 2D rendering context from canvas')
-    }
-    this.ctx = context
-
-    // Set canvas size
-    this.canvas.width = config.width || 1024
-    this.canvas.height = config.height || 576
+    this.headless = canvas === null
+    this.broadphase = config.broadphase ?? true
+    const width = config.width || 1024
+    const height = config.height || 576
 
     // Initialize subsystems
-    this.renderer = new Renderer(this.ctx, this.canvas.width, this.canvas.height)
+    if (this.canvas) {
+      // Set canvas size before the renderer sizes itself from it
+      this.canvas.width = width
+      this.canvas.height = height
+      this.renderer = createRenderer(this.canvas, config.renderer)
+      this.inputManager = new InputManager()
+      this.victoryModal = new VictoryModal()
+      this.gameOverModal = new GameOverModal()
+    }
     this.physics = new PhysicsEngine(config.gravity || 0.5)
     this.entityManager = new EntityManager()
-    this.inputManager = new InputManager()
-    this.camera = new Camera(this.canvas.width, this.canvas.height)
+    this.enemyWorld = this.createEnemyWorld()
+    this.camera = new Camera(width, height)
     this.spriteLoader = SpriteLoader.getInstance()
     this.dialogManager = new DialogManager()
     this.dialogGenerator = new DialogGenerator(this.dialogManager)
-    this.victoryModal = new VictoryModal()
 
     // Configure physics engine for optimal performance
     this.configurePhysicsEngine()
-    this.mobileDetector = MobileDetector.getInstance()
+    if (config.maxSlopeAngle !== undefined) {
+      this.physics.setMaxSlopeAngle(config.maxSlopeAngle)
+    }
 
     this.fps = config.fps || 60
     this.frameInterval = 1000 / this.fps
+    this.seed = config.seed ?? Math.floor(Math.random() * 0x7fffffff)
 
     this.goal_x = config.goal_x
     this.goal_y = config.goal_y
     this.start_x = config.start_x
     this.start_y = config.start_y
+    this.maxLives = config.lives ?? null
+    this.lives = this.maxLives ?? 0
 
     // Configure mobile-specific settings
-    this.configureMobileOptimizations()
+    if (!this.headless) {
+      this.mobileDetector = MobileDetector.getInstance()
+      this.configureMobileOptimizations()
+    }
+    this.setEffectsQuality(config.effectsQuality ?? 'auto')
+    this.bindEffects()
+
+    if (!this.headless) {
+      this.audio = AudioManager.create()
+      this.audio?.attachVoice(this.dialogManager.getTextToSpeech())
+      this.bindAudio()
+    }
 
     // Setup default demo level
     // this.setupDemoLevel()
@@ -113,6 +209,7 @@ export class GameEngine {
     // Set optimal physics parameters for both play and embed modes
     this.physics.setFriction(0.85)  // Good balance for control
     this.physics.setMaxVelocity(15, 20)  // Reasonable speed limits
+    this.physics.setCeilingHitHandler((entity, platform) => this.handleBlockHit(entity, platform))
     console.log('🔧 Physics engine configured with optimal settings:')
     console.log('  - Friction: 0.85')
     console.log('  - Max velocity: 15x, 20y')
@@ -127,13 +224,13 @@ export class GameEngine {
     this.adjustCanvasSize()
     
     // 如果是触摸设备，启用虚拟控制器
-    if (this.mobileDetector.shouldShowVirtualControls) {
+    if (this.mobileDetector?.shouldShowVirtualControls) {
       console.log('Configuring mobile optimizations for device:', this.mobileDetector.getDeviceType())
       
       // Enable virtual gamepad
       if (this.inputManager) {
         setTimeout(() => {
-          this.inputManager.showVirtualGamepad()
+          this.inputManager?.showVirtualGamepad()
         }, 100)
       }
     }
@@ -146,6 +243,8 @@ export class GameEngine {
    * 调整画布尺寸以充分利用屏幕空间
    */
   private adjustCanvasSize() {
+    if (!this.canvas || !this.renderer || !this.mobileDetector) return
+
     const recommendedSize = this.mobileDetector.getRecommendedCanvasSize()
     
     // 设置画布尺寸
@@ -153,7 +252,7 @@ export class GameEngine {
     this.canvas.height = recommendedSize.height
     
     // 更新渲染器和摄像机
-    this.renderer = new Renderer(this.ctx, this.canvas.width, this.canvas.height)
+    this.renderer.resize(this.canvas.width, this.canvas.height)
     this.camera = new Camera(this.canvas.width, this.canvas.height)
     
     console.log(`Canvas size adjusted to: ${this.canvas.width}x${this.canvas.height}`)
@@ -185,12 +284,16 @@ export class GameEngine {
 
   public loadLevel(level: Level) {
     this.currentLevel = level
+    this.camera.setWorldWidth(level.getWidth())
     // Store player reference before clearing
     const currentPlayer = this.player
     this.entityManager.clear()
 
     // Load level entities first
     level.getEntities().forEach(entity => {
+      if (entity instanceof Enemy) {
+        entity.setWorld(this.enemyWorld)
+      }
       this.entityManager.addEntity(entity)
     })
 
@@ -200,13 +303,33 @@ export class GameEngine {
     }
   }
 
+  private createEnemyWorld(): EnemyWorld {
+    return {
+      physics: this.physics,
+      getPlatforms: () => this.currentLevel?.getPlatforms() || [],
+      getPolygons: () => this.currentLevel?.getPolygons() || [],
+      queryPlatforms: bounds => this.platformsNear(bounds),
+      queryPolygons: bounds => this.polygonsNear(bounds),
+      getPlayer: () => this.player,
+      getEnemies: () => this.entityManager.getEntities().filter((entity): entity is Enemy => entity instanceof Enemy),
+      spawnEnemy: (x, y, type) => {
+        // Spawned enemies (projectiles) aren't part of the level, so a reset clears them
+        const enemy = new Enemy(x, y, type)
+        enemy.setWorld(this.enemyWorld)
+        this.entityManager.addEntity(enemy)
+        return enemy
+      }
+    }
+  }
+
   public setLevelData(data: LevelData) {
     this.levelData = data
     // Store for API compatibility, currently not used internally
   }
 
   public async initialize() {
-    if (!this.spritesInitialized) {
+    // Sprites are only needed for rendering
+    if (!this.spritesInitialized && !this.headless) {
       console.log('Loading sprites...')
       try {
         await this.spriteLoader.initializeGameSprites()
@@ -222,13 +345,35 @@ export class GameEngine {
   public async start() {
     if (this.running) return
 
-    // Initialize sprites first
-    await this.initialize()
+    // Initialize sprites first (nothing to load headless, so the run starts synchronously)
+    if (!this.headless) {
+      await this.initialize()
+    }
 
     this.running = true
     this.paused = false
     this.lastTime = performance.now()
-    this.gameLoop()
+    this.accumulator = 0
+
+    // Record live runs from their first tick so they can be replayed and verified
+    if (!this.replayPlayer && this.tickCount === 0) {
+      this.inputRecorder.start({
+        levelId: this.currentLevelId,
+        seed: this.seed,
+        speedMultiplier: this.player?.getSpeedMultiplier() ?? 1,
+        tickRate: TICK_RATE
+      })
+      // Frame 0 of the trajectory is the spawn point, so frame N lines up with tick N
+      if (this.player) {
+        this.inputRecorder.recordPosition(this.player.position.x, this.player.position.y, this.player.size === 'big')
+      }
+    }
+
+    // Headless runs are advanced explicitly with step()
+    if (!this.loopActive && !this.headless) {
+      this.loopActive = true
+      this.gameLoop()
+    }
   }
 
   // Getters for debug access
@@ -249,7 +394,33 @@ export class GameEngine {
   }
 
   public pause() {
-    this.paused = !this.paused
+    this.setPaused(!this.paused)
+  }
+
+  /**
+   * Pause or resume explicitly - does nothing if already in that state
+   */
+  public setPaused(paused: boolean) {
+    if (this.paused === paused) return
+    this.paused = paused
+    this.emit(paused ? 'pause' : 'resume', { tick: this.tickCount })
+  }
+
+  public isPaused(): boolean {
+    return this.paused
+  }
+
+  /**
+   * Halt the game loop - start() resumes it (e.g. when leaving an editor play-test)
+   */
+  public stop() {
+    this.running = false
+    this.loopActive = false
+    this.audio?.stopMusic()
+  }
+
+  public isRunning(): boolean {
+    return this.running
   }
 
   public reset() {
@@ -258,23 +429,42 @@ export class GameEngine {
     this.num_deaths = 0
     this.elapsed_time = 0
     this.coins = 0
+    this.lives = this.maxLives ?? 0
+    this.checkpoint = null
+    this.tickCount = 0
+    this.accumulator = 0
+    this.previousPositions.clear()
+    this.inputRecorder.cancel()
+    this.replayPlayer = null
+    this.ghost?.rewind()
     this.entityManager.clear()
+    this.blockEffects = []
+    this.effects.clear()
+    // Bring back broken bricks and refill blocks
+    this.currentLevel?.restorePlatforms()
+    // Restore level entities to their spawn state so every run starts identically
     this.currentLevel?.entities.forEach((entity) => {
-      entity.dead = false
+      entity.respawn()
     });
 
+    this.player?.reset()
     this.player?.setPos(this.start_x!, this.start_y!)
 
     // Don't re-add coins here - they should already be in the level from initial build
 
     this.loadLevel(this.currentLevel!)
     this.victoryState = false  // Reset victory state
+    this.gameOverState = false
+    this.gameOverModal?.hide()
     this.updateUI()
   }
 
   private gameLoop = () => {
+    if (!this.loopActive) return
+
     // Check for restart key in victory state
-    if (this.victoryState && this.inputManager.isKeyPressed('KeyR')) {
+    if (this.victoryState && this.inputManager?.isKeyPressed('KeyR')) {
+      this.loopActive = false
       this.reset()
       this.start()
       return
@@ -286,22 +476,55 @@ export class GameEngine {
     const elapsed = currentTime - this.lastTime
 
     if (elapsed > this.frameInterval) {
-      this.deltaTime = elapsed / 1000 // Convert to seconds
+      this.deltaTime = Math.min(elapsed / 1000, this.maxFrameTime) // Convert to seconds
+      this.lastTime = currentTime - (elapsed % this.frameInterval)
 
       if (!this.paused) {
-        if (!this.victoryState) {
-          this.update(this.deltaTime)
+        if (!this.victoryState && !this.gameOverState) {
+          // Advance the simulation in fixed ticks so gameplay is identical on 60 Hz and 144 Hz displays
+          this.accumulator += this.deltaTime
+          while (this.accumulator >= this.fixedTimeStep && !this.victoryState && !this.gameOverState) {
+            this.capturePreviousPositions()
+            this.update(this.fixedTimeStep)
+            this.accumulator -= this.fixedTimeStep
+          }
         }
-        this.render()
+        this.effects.update(this.deltaTime)
+        // Blend between the last two ticks for smooth rendering
+        this.render(this.victoryState ? 1 : this.accumulator / this.fixedTimeStep)
+      } else {
+        // Don't let paused time pile up in the accumulator
+        this.accumulator = 0
       }
-
-      this.lastTime = currentTime - (elapsed % this.frameInterval)
     }
 
     requestAnimationFrame(this.gameLoop)
   }
 
-  private update(dt: number) {
+  /**
+   * Advance the simulation by exactly one fixed tick without rendering.
+   * Used to drive headless runs; input defaults to no buttons pressed.
+   * @returns false once the level has been won or the game is over and no further ticks run
+   */
+  public step(input?: InputState): boolean {
+    if (this.victoryState || this.gameOverState) return false
+
+    this.capturePreviousPositions()
+    this.update(this.fixedTimeStep, input)
+    return true
+  }
+
+  /**
+   * Record entity positions at the start of a tick for render interpolation
+   */
+  private capturePreviousPositions() {
+    this.previousPositions.clear()
+    this.entityManager.getEntities().forEach(entity => {
+      this.previousPositions.set(entity, { x: entity.position.x, y: entity.position.y })
+    })
+  }
+
+  private update(dt: number, scriptedInput?: InputState) {
 
     // // Don't update game logic if in victory state
     // if (this.victoryState) {
@@ -312,25 +535,58 @@ export class GameEngine {
     this.entityManager.update()
 
     if (!this.victoryState) {
-      this.elapsed_time += dt
+      this.tickCount++
+      // Derive time from the tick count so runs are reproducible (no float drift from summing dt)
+      this.elapsed_time = this.tickCount * dt
+      if (this.tickCount === 1) {
+        this.emit('levelStart', { levelId: this.currentLevelId, replay: this.replayPlayer !== null })
+      }
     }
-    // Update input
-    const input = this.inputManager.getInput()
+    // Update input (from the replay during playback, otherwise scripted or live)
+    const input = this.readInput(scriptedInput)
 
     // Update player with input
     if (this.player) {
       this.player.handleInput(input)
+      this.addThrownFireball(this.player)
+      const jump = this.player.takeJump()
+      if (jump) {
+        this.emit('playerJumped', {
+          x: this.player.position.x + this.player.width / 2,
+          y: this.player.position.y + this.player.height,
+          double: jump === 'air'
+        })
+      }
     }
 
     // Update physics for all entities
     const entities = this.entityManager.getEntities()
     const platforms = this.currentLevel?.getPlatforms() || []
-    const polygons = this.currentLevel?.getPolygons() || []
+
+    // Platforms move first and carry whatever stands on them, bumped blocks settle back
+    this.updatePlatforms(platforms, entities, dt)
+
+    // Falling speed going into this tick, to tell when (and how hard) the player lands. Standing
+    // still flips grounded every other tick with no speed at all, so that doesn't count
+    const fallSpeed = this.player && !this.player.grounded && this.player.velocity.y > 0 ? this.player.velocity.y : null
 
     entities.forEach(entity => {
-      this.physics.updateEntity(entity, dt, platforms, polygons)
+      if (!entity.physics) return
+      const reach = this.physics.getReachBounds(entity)
+      this.physics.updateEntity(entity, dt, this.platformsNear(reach), this.polygonsNear(reach))
     })
 
+    if (this.player?.grounded && fallSpeed !== null) {
+      this.emit('playerLanded', {
+        x: this.player.position.x + this.player.width / 2,
+        y: this.player.position.y + this.player.height,
+        speed: fallSpeed
+      })
+    }
+
+    // Block effects fade
+    this.updateBlockEffects()
+
     // Check collisions
     this.checkCollisions()
 
@@ -341,17 +597,24 @@ export class GameEngine {
       this.enforceWorldBoundaries(entity)
     })
 
+    // Record the player's trajectory and move the ghost racer along its own
+    if (this.player) {
+      this.inputRecorder.recordPosition(this.player.position.x, this.player.position.y, this.player.size === 'big')
+    }
+    this.ghost?.update(dt)
+
     // Update camera to follow player
     if (this.player) {
       this.camera.follow(this.player)
     }
+    this.despawnOffscreenFireballs()
 
     // Update dialogs
     this.dialogManager.update()
 
     // Check for teasing dialog opportunities every 10 seconds
     const currentTime = Date.now()
-    if (currentTime - this.lastDialogCheck > this.dialogCheckInterval) {
+    if (!this.headless && currentTime - this.lastDialogCheck > this.dialogCheckInterval) {
       this.lastDialogCheck = currentTime
       // Fire-and-forget to avoid blocking the game loop
       this.checkForTeasingDialogs().catch(error => {
@@ -366,28 +629,65 @@ export class GameEngine {
     this.updateUI()
   }
 
+  private readInput(scriptedInput?: InputState): InputState {
+    if (this.replayPlayer) {
+      // Once the recording runs out, the player simply stops pressing buttons
+      return this.replayPlayer.next() ?? { ...NO_INPUT }
+    }
+
+    const input = scriptedInput ?? this.inputManager?.getInput() ?? { ...NO_INPUT }
+    this.inputRecorder.record(input)
+    return input
+  }
+
   private checkCollisions() {
     const entities = this.entityManager.getEntities()
-    const polygons = this.currentLevel?.getPolygons() || []
 
     // Note: Basic platform collisions are now handled by Swept AABB in updateEntity
     // We only need additional collision checks here
 
     // Check entity vs polygon collisions (still needed for complex shapes)
     entities.forEach(entity => {
-      polygons.forEach(polygon => {
+      if (!entity.physics?.solid) return
+      this.polygonsNear(this.physics.getReachBounds(entity)).forEach(polygon => {
         this.physics.checkPolygonCollision(entity, polygon)
       })
     })
+    this.entityManager.refreshBounds()
+
+    // Lava burns on contact
+    if (this.player) {
+      const reach = this.physics.getReachBounds(this.player)
+      if (this.physics.touchesMaterial(this.player, material => material.damage === true, this.platformsNear(reach), this.polygonsNear(reach))) {
+        this.playerHit('lava')
+      }
+    }
 
     // Check player vs other entities
     if (this.player) {
-      entities.forEach(entity => {
-        if (entity !== this.player && this.player && this.physics.checkEntityCollision(this.player, entity)) {
+      this.entitiesNear(this.player.getBounds()).forEach(entity => {
+        if (entity === this.player || !this.player) return
+        const touching = entity instanceof Enemy
+          ? entity.touches(this.player.getBounds())
+          : this.physics.checkEntityCollision(this.player, entity)
+        if (touching) {
           this.handlePlayerCollision(entity)
         }
       })
 
+      // Fireballs knock out solid enemies - hazards like spikes and firebars just put them out
+      const enemies = new Set(entities.filter((entity): entity is Enemy => entity instanceof Enemy && !entity.dead))
+      entities.forEach(entity => {
+        if (!(entity instanceof Fireball) || entity.isExploding()) return
+        const target = this.entitiesNear(entity.getBounds())
+          .find((other): other is Enemy => other instanceof Enemy && enemies.has(other) && other.touches(entity.getBounds()))
+        if (!target) return
+        if (target.physics?.solid) {
+          target.strike(entity)
+        }
+        entity.explode()
+      })
+
       // Check for victory condition (player reaching goal coordinates)
       if (this.goal_x !== undefined && this.goal_y !== undefined) {
         const playerReachedGoal = this.checkPlayerGoalOverlap(this.player!)
@@ -402,20 +702,40 @@ export class GameEngine {
     }
   }
 
+  private addThrownFireball(player: Player) {
+    const fireball = player.takeThrownFireball()
+    if (!fireball) return
+    const active = this.entityManager.getEntities().filter(entity => entity instanceof Fireball && !entity.isExploding())
+    if (active.length < Fireball.MAX_ACTIVE) {
+      this.entityManager.addEntity(fireball)
+    }
+  }
+
+  private despawnOffscreenFireballs() {
+    const view = this.camera.getViewport()
+    this.entityManager.getEntities().forEach(entity => {
+      if (entity instanceof Fireball &&
+          (entity.position.x + entity.width < view.left || entity.position.x > view.right ||
+           entity.position.y > view.bottom)) {
+        entity.dead = true
+      }
+    })
+  }
+
   private checkPlayerGoalOverlap(player: Player): boolean {
     if (this.goal_x === undefined || this.goal_y === undefined) return false
     
     // Check if player overlaps with goal coordinates (assuming goal has a 32x32 area)
-    const goalSize = 32 // Default goal area size
-    return player.position.x < this.goal_x + goalSize &&
+    return player.position.x < this.goal_x + GOAL_SIZE &&
            player.position.x + player.width > this.goal_x &&
-           player.position.y < this.goal_y + goalSize &&
+           player.position.y < this.goal_y + GOAL_SIZE &&
            player.position.y + player.height > this.goal_y
   }
 
   private enforceWorldBoundaries(entity: Entity) {
-    const worldWidth = 3000  // Match the ground width
-    const worldHeight = 600  // Allow some space above and below
+    // As far as the level reaches (3000px at least), with some space below to fall into
+    const worldWidth = this.currentLevel?.getWidth() ?? 3000
+    const worldHeight = this.currentLevel?.getHeight() ?? 600
 
     // Store if collision occurred to prevent momentum issues
     let collisionOccurred = false
@@ -458,7 +778,7 @@ export class GameEngine {
     if (entity.position.y > worldHeight + 100) {
       // Entity fell off the world
       if (entity.type === 'player') {
-        this.playerHit() // Player loses a life
+        this.playerHit('fall') // Player loses a life
       } else {
         entity.dead = true // Other entities just die
       }
@@ -469,51 +789,250 @@ export class GameEngine {
     if (!entity || !this.player) return
     
     if (entity.type === 'coin') {
-      this.coins++
       entity.dead = true
-    } else if (entity.type === 'enemy') {
-      // Special handling for spike enemies - they always damage the player
-      if (entity.enemyType === 'spike') {
-        this.playerHit()
-        return
+      this.collectCoin(entity.position.x, entity.position.y)
+    } else if (entity instanceof Checkpoint) {
+      if (!entity.activated) {
+        entity.activate()
+        this.checkpoint = entity
+        console.log(`🚩 Checkpoint reached at (${entity.position.x}, ${entity.position.y})`)
+        this.emit('checkpoint', { x: entity.position.x, y: entity.position.y })
       }
-      
-      if (this.player.velocity.y > 0 && this.player.position.y < entity.position.y) {
-        // Player jumping on enemy
-        entity.dead = true
-        this.player.velocity.y = -10 // Bounce
-      } else {
-        // Player hit by enemy
-        this.playerHit()
+    } else if (entity instanceof Enemy) {
+      // The enemy's behavior decides what the contact means (stomp rules differ per type)
+      const outcome = entity.onPlayerContact(this.player)
+      switch (outcome.type) {
+        case 'stomp':
+          if (outcome.bounce) this.player.bounce()
+          this.emit('enemyStomped', { enemyType: entity.enemyType, x: entity.position.x, y: entity.position.y })
+          break
+        case 'bounce':
+          this.player.bounce()
+          break
+        case 'hurt':
+          this.playerHit(outcome.cause, entity.enemyType)
+          break
       }
     } else if (entity.type === 'powerup') {
       this.handlePowerUp(entity.powerType)
       entity.dead = true
+      this.emit('powerUpGained', { powerType: entity.powerType })
     }
   }
 
-  private playerHit() {
-    if (!this.player || this.player.invulnerable) return
+  private playerHit(cause: HitCause, enemyType?: string) {
+    // Several hazards can land in the tick that took the last life
+    if (!this.player || this.player.invulnerable || this.gameOverState) return
 
-    if (this.player.size === 'big') {
+    const shrunk = this.player.size === 'big'
+    this.emit('playerHit', { cause, enemyType, shrunk })
+    if (shrunk) {
       this.player.shrink()
     } else {
       this.num_deaths++
-      this.respawnPlayer()
+      this.emit('death', { cause, deaths: this.num_deaths })
+      if (this.maxLives !== null && --this.lives <= 0) {
+        this.gameOver(cause)
+      } else {
+        this.respawnPlayer()
+      }
     }
   }
 
   private respawnPlayer() {
     if (this.player) {
-      // Use the level's designated starting position instead of hardcoded values
-      this.player.position.x = this.start_x ?? 100
-      this.player.position.y = this.start_y ?? 400
+      // Back at the last checkpoint, otherwise the level's designated starting position
+      const spawn = this.checkpoint?.getRespawnPoint(this.player.height) ?? this.getStartPosition()
+      this.player.position.x = spawn.x
+      this.player.position.y = spawn.y
       this.player.velocity.x = 0
       this.player.velocity.y = 0
       this.player.makeInvulnerable(2000) // 2 seconds invulnerability
 
       console.log(`🔄 Player respawned at (${this.player.position.x}, ${this.player.position.y})`)
+      this.emit('respawn', { x: this.player.position.x, y: this.player.position.y })
+    }
+  }
+
+  /**
+   * The player's head hit a platform from below: question and hidden blocks give their
+   * contents, bricks break under a big player and just bump under a small one
+   */
+  private handleBlockHit(entity: Entity, platform: Platform) {
+    if (entity !== this.player || !platform.isInteractive()) return
+
+    if (platform.hidden) {
+      platform.reveal()
+    }
+    this.strikeEnemiesOn(platform)
+
+    if (platform.type === 'brick' && !platform.contents) {
+      const broken = this.player.size === 'big'
+      if (broken) {
+        this.currentLevel?.breakPlatform(platform)
+      } else {
+        platform.bump()
+      }
+      this.emit('blockHit', { x: platform.x, y: platform.y, width: platform.width, height: platform.height, blockType: platform.type, contents: null, broken })
+      return
     }
+
+    // Question blocks, hidden blocks and bricks with something inside give it once
+    const contents: BlockContents = platform.contents ?? 'coin'
+    platform.used = true
+    platform.bump()
+    this.releaseBlockContents(platform, contents)
+    this.emit('blockHit', { x: platform.x, y: platform.y, width: platform.width, height: platform.height, blockType: platform.type, contents, broken: false })
+  }
+
+  private releaseBlockContents(platform: Platform, contents: BlockContents) {
+    if (contents === 'coin') {
+      this.addBlockEffect(platform, 'blockCoin', BLOCK_COIN_TICKS)
+      this.collectCoin(platform.x, platform.y)
+      return
+    }
+
+    // The power-up rises out of the top of the block
+    const powerUp = new PowerUp(platform.x + (platform.width - 28) / 2, platform.y - 28, contents)
+    this.entityManager.addEntity(powerUp)
+  }
+
+  /**
+   * Bumping a block knocks out the enemies standing on it
+   */
+  private strikeEnemiesOn(platform: Platform) {
+    this.entityManager.getEntities().forEach(entity => {
+      if (!(entity instanceof Enemy) || entity.dead || !entity.physics?.solid) return
+      const bottom = entity.position.y + entity.height
+      if (Math.abs(bottom - platform.y) <= 2 &&
+          entity.position.x < platform.x + platform.width &&
+          entity.position.x + entity.width > platform.x) {
+        entity.strike(this.player!)
+      }
+    })
+  }
+
+  private addBlockEffect(platform: Platform, type: BlockEffect['type'], duration: number) {
+    this.blockEffects.push({
+      x: platform.x + platform.width / 2,
+      y: platform.y,
+      type,
+      ticks: duration,
+      duration
+    })
+  }
+
+  /**
+   * Particle effects follow gameplay through the engine's own events, like any host page would,
+   * but on a separate emitter so a host clearing its listeners doesn't switch them off
+   */
+  private bindEffects() {
+    const { ownEvents: events, effects } = this
+    events.on('coinCollected', ({ x, y }) => effects.spawn('coinSparkle', x + COIN_SIZE / 2, y + COIN_SIZE / 2))
+    events.on('blockHit', ({ x, y, width, height, broken }) => {
+      if (broken) effects.spawn('brickDebris', x + width / 2, y + height / 2)
+    })
+    events.on('enemyStomped', () => {
+      // Right under the player's feet, where they came down on the enemy
+      if (this.player) effects.spawn('stompDust', this.player.position.x + this.player.width / 2, this.player.position.y + this.player.height)
+    })
+    events.on('playerLanded', ({ x, y, speed }) => {
+      if (speed >= LANDING_PUFF_SPEED) effects.spawn('landingPuff', x, y)
+    })
+    events.on('respawn', () => {
+      if (this.player) effects.spawn('respawnFlash', this.player.position.x + this.player.width / 2, this.player.position.y + this.player.height / 2)
+    })
+    events.on('victory', () => {
+      if (this.goal_x !== undefined && this.goal_y !== undefined) {
+        effects.spawn('victoryBurst', this.goal_x + GOAL_SIZE / 2, this.goal_y + GOAL_SIZE / 2)
+      }
+    })
+    events.on('powerUpGained', ({ powerType }) => {
+      const player = this.player
+      if (!player) return
+      const center = () => ({ x: player.position.x + player.width / 2, y: player.position.y + player.height / 2 })
+      if (powerType === 'star') {
+        // Sparkles for as long as the star lasts
+        effects.attach('starGlow', () => this.player === player && player.invulnerable ? center() : null)
+      } else {
+        effects.attach('powerUpGlow', () => this.player === player ? center() : null, POWER_UP_GLOW_SECONDS)
+      }
+    })
+  }
+
+  /**
+   * Sounds and music follow gameplay through the engine's events, like the particle effects
+   */
+  private bindAudio() {
+    const { ownEvents: events, audio } = this
+    if (!audio) return
+    events.on('levelStart', () => audio.playMusic(this.getLevelMusic()))
+    events.on('pause', () => audio.pauseMusic())
+    events.on('resume', () => audio.resumeMusic())
+    events.on('playerJumped', () => audio.play('jump'))
+    events.on('coinCollected', () => audio.play('coin'))
+    events.on('enemyStomped', () => audio.play('stomp'))
+    events.on('powerUpGained', () => audio.play('powerUp'))
+    events.on('playerHit', ({ shrunk }) => {
+      if (shrunk) audio.play('hit') // otherwise the death sound follows
+    })
+    events.on('death', () => audio.play('death'))
+    events.on('gameOver', () => audio.stopMusic())
+    events.on('victory', () => {
+      audio.stopMusic()
+      audio.play('victory')
+    })
+  }
+
+  // The engine's own listeners hear every event first, then the host's
+  private emit<K extends GameEventName>(event: K, payload: GameEventMap[K]) {
+    this.ownEvents.emit(event, payload)
+    this.events.emit(event, payload)
+  }
+
+  // What the current level plays - see resolveMusic
+  private getLevelMusic(): string | null {
+    if (!this.currentLevel) return null
+    return resolveMusic(this.currentLevel.getAudio(), this.currentLevel.getBackground())
+  }
+
+  private updatePlatforms(platforms: Platform[], entities: Entity[], dt: number) {
+    platforms.forEach(platform => {
+      platform.update(dt)
+      if (platform.deltaX !== 0 || platform.deltaY !== 0) {
+        this.currentLevel?.updatePlatformBounds(platform)
+      }
+      if (platform.deltaX === 0 && platform.deltaY === 0 && !platform.isCrumbling()) return
+      const riders = this.physics.getRiders(platform, entities)
+      riders.forEach(rider => {
+        rider.position.x += platform.deltaX
+        rider.position.y += platform.deltaY
+      })
+      // Crumbling platforms give way under the player only
+      if (this.player && riders.includes(this.player)) {
+        platform.crumble()
+      }
+    })
+  }
+
+  // Broadphase lookups - candidates that may overlap `bounds`, in level order (everything with the broadphase off)
+  private platformsNear(bounds: Bounds): Platform[] {
+    if (!this.currentLevel) return []
+    return this.broadphase ? this.currentLevel.queryPlatforms(bounds) : this.currentLevel.getPlatforms()
+  }
+
+  private polygonsNear(bounds: Bounds): Polygon[] {
+    if (!this.currentLevel) return []
+    return this.broadphase ? this.currentLevel.queryPolygons(bounds) : this.currentLevel.getPolygons()
+  }
+
+  private entitiesNear(bounds: Bounds): Entity[] {
+    return this.broadphase ? this.entityManager.queryEntities(bounds) : this.entityManager.getEntities()
+  }
+
+  private updateBlockEffects() {
+    this.blockEffects.forEach(effect => effect.ticks--)
+    this.blockEffects = this.blockEffects.filter(effect => effect.ticks > 0)
   }
 
   private handlePowerUp(type: string) {
@@ -532,14 +1051,72 @@ export class GameEngine {
         this.player.enableFireball()
         // this.score += 50
         break
+      case '1up':
+        this.addLife('1up')
+        break
+    }
+  }
+
+  private collectCoin(x: number, y: number) {
+    this.coins++
+    this.emit('coinCollected', { x, y, coins: this.coins })
+    if (this.coins % COINS_PER_LIFE === 0) {
+      this.addLife('coins')
+    }
+  }
+
+  /**
+   * Out of lives: stop the simulation and offer to continue or retry
+   */
+  private gameOver(cause: HitCause) {
+    this.gameOverState = true
+    // A run that ended in game over is not a completed run
+    this.inputRecorder.cancel()
+
+    console.log('💀 Game Over! Deaths: ', this.num_deaths, ' Coins: ', this.coins)
+    this.emit('gameOver', {
+      deaths: this.num_deaths,
+      coins: this.coins,
+      elapsedTime: this.elapsed_time,
+      levelId: this.currentLevelId,
+      cause
+    })
+
+    // Watching a replay that runs out of lives just stops there
+    if (this.replayPlayer) {
+      this.replayPlayer = null
+      return
     }
+
+    this.gameOverModal?.show({
+      deaths: this.num_deaths,
+      coins: this.coins,
+      elapsedTime: this.elapsed_time,
+      hasCheckpoint: this.checkpoint !== null
+    }, {
+      onContinue: () => this.continueGame(),
+      onRetry: () => {
+        this.reset()
+        this.start()
+      }
+    })
   }
 
-  // private gameOver() {
-  //   this.running = false
-  //   console.log('Game Over! Score:', this.score)
-  //   // TODO: Show game over screen
-  // }
+  /**
+   * Leave the game-over state with full lives, back at the last checkpoint (or the start).
+   * Time, deaths and coins carry on, so the run no longer records a replay.
+   */
+  public continueGame() {
+    if (!this.gameOverState) return
+    this.gameOverState = false
+    this.gameOverModal?.hide()
+    this.lives = this.maxLives ?? 0
+    this.player?.reset()
+    this.respawnPlayer()
+    this.accumulator = 0
+    this.audio?.playMusic(this.getLevelMusic())
+    this.updateUI()
+  }
 
   private async victory() {
     this.running = false
@@ -553,17 +1130,37 @@ export class GameEngine {
 
     console.log('🎉 Victory! Time elapsed: ', this.elapsed_time, ' Number of deaths: ', this.num_deaths, ' Coins: ', this.coins, ' Score: ', finalScore)
 
-    // Trigger gameWin event for external listeners (e.g., pack mode)
-    window.dispatchEvent(new CustomEvent('gameWin', {
-      detail: {
-        completionTime: Math.round(this.elapsed_time * 1000),
-        deaths: this.num_deaths,
-        coins: this.coins,
-        score: finalScore,
-        levelId: this.currentLevelId
-      }
-    }))
-    console.log('🎮 gameWin event dispatched')
+    // Watching a replay is not a new run - don't report or submit it
+    if (this.replayPlayer) {
+      console.log(`🎬 Replay finished after ${this.tickCount} ticks`)
+      this.replayPlayer = null
+      return
+    }
+
+    const replay = this.inputRecorder.finish({
+      ticks: this.tickCount,
+      deaths: this.num_deaths,
+      coins: this.coins,
+      completionTime: Math.round(this.elapsed_time * 1000)
+    })
+    this.lastReplay = replay
+
+    // Let host pages and the level pack flow react (e.g. move on to the next level)
+    this.emit('victory', {
+      completionTime: Math.round(this.elapsed_time * 1000),
+      deaths: this.num_deaths,
+      coins: this.coins,
+      score: finalScore,
+      levelId: this.currentLevelId,
+      replay
+    })
+
+    // Headless runs have no modal, dialog or saved ghost
+    if (this.headless) return
+
+    if (replay && this.personalBestsEnabled) {
+      GhostStore.savePersonalBest(replay)
+    }
 
     // Generate and display teasing victory quote first
     await this.dialogGenerator.showVictoryQuote(
@@ -578,11 +1175,12 @@ export class GameEngine {
       deaths: this.num_deaths,
       coins: this.coins,
       score: finalScore,
-      levelId: this.currentLevelId
+      levelId: this.currentLevelId,
+      replay: replay ?? undefined
     }
 
     // Show victory modal only if leaderboard is enabled
-    if (this.leaderboardEnabled) {
+    if (this.leaderboardEnabled && this.victoryModal) {
       await this.victoryModal.show(victoryData, {
         onClose: () => {
           console.log('Victory modal closed')
@@ -591,6 +1189,10 @@ export class GameEngine {
           console.log('Restarting game...')
           this.reset()
           this.start()
+        },
+        onWatchReplay: (bestRun: ReplayData) => {
+          console.log('🎬 Watching best run...')
+          this.playReplay(bestRun)
         }
       })
     } else {
@@ -598,9 +1200,14 @@ export class GameEngine {
     }
   }
 
-  private render() {
+  private render(alpha = 1) {
+    const { canvas, renderer } = this
+    if (!canvas || !renderer) return
+    // Everything drawn with the 2D API goes on top - with WebGL that's an overlay, not the canvas itself
+    const ctx = renderer.getOverlayContext()
+
     // Clear canvas
-    this.renderer.clear()
+    renderer.clear()
 
     const formattedTime = this.elapsed_time.toFixed(2)
     const score = Math.max(
@@ -610,35 +1217,39 @@ export class GameEngine {
 
     // If in victory state, show victory screen instead of normal rendering
     if (this.victoryState) {
-      this.ctx.save()
-      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
-      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height)
-
-      this.ctx.fillStyle = '#FFD700'
-      this.ctx.font = 'bold 48px Arial'
-      this.ctx.textAlign = 'center'
-      this.ctx.fillText('🎉 VICTORY! 🎉', this.canvas.width / 2, this.canvas.height / 2 - 80)
-
-      this.ctx.fillStyle = '#FFFFFF'
-      this.ctx.font = '32px Arial'
-      this.ctx.fillText(
+      ctx.save()
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+      ctx.fillStyle = '#FFD700'
+      ctx.font = 'bold 48px Arial'
+      ctx.textAlign = 'center'
+      ctx.fillText('🎉 VICTORY! 🎉', canvas.width / 2, canvas.height / 2 - 80)
+
+      ctx.fillStyle = '#FFFFFF'
+      ctx.font = '32px Arial'
+      ctx.fillText(
         `Time: ${formattedTime}s | Deaths: ${this.num_deaths} | Coins: ${this.coins}`,
-        this.canvas.width / 2,
-        this.canvas.height / 2 - 20
+        canvas.width / 2,
+        canvas.height / 2 - 20
       )
 
-      this.ctx.font = '32px Arial'
-      this.ctx.fillStyle = '#00FF00'
-      this.ctx.fillText(
+      ctx.font = '32px Arial'
+      ctx.fillStyle = '#00FF00'
+      ctx.fillText(
         `Score: ${score}`,
-        this.canvas.width / 2,
-        this.canvas.height / 2 + 30
+        canvas.width / 2,
+        canvas.height / 2 + 30
       )
 
-      this.ctx.font = '20px Arial'
-      this.ctx.fillStyle = '#FFFFFF'
-      this.ctx.fillText('Press R to restart', this.canvas.width / 2, this.canvas.height / 2 + 70)
-      this.ctx.restore()
+      ctx.font = '20px Arial'
+      ctx.fillStyle = '#FFFFFF'
+      ctx.fillText('Press R to restart', canvas.width / 2, canvas.height / 2 + 70)
+      ctx.restore()
+
+      // The burst from the goal plays out over the victory screen
+      this.effects.render(ctx, getViewBounds(ctx, canvas.width, canvas.height))
+      renderer.present()
       return  // Don't render the normal game
     }
 
@@ -646,15 +1257,24 @@ export class GameEngine {
     this.entityManager.update()
 
     // Apply camera transform
-    this.ctx.save()
-    // this.ctx.translate(-this.camera.x, -this.camera.y)
+    ctx.save()
+    // ctx.translate(-this.camera.x, -this.camera.y)
 
-    // Render background
-    this.renderer.renderBackground()
+    // Render background - seen from the origin, like the level (the camera transform above is off)
+    renderer.renderBackground(this.currentLevel?.getBackground())
 
     // Render level
     if (this.currentLevel) {
-      this.renderer.renderLevel(this.currentLevel)
+      renderer.renderLevel(this.currentLevel, alpha)
+    }
+
+    this.blockEffects.forEach(effect => {
+      renderer.renderParticle(effect.x, effect.y, effect.type, effect.ticks / effect.duration)
+    })
+
+    // Render the ghost racer behind the live entities
+    if (this.ghost) {
+      renderer.renderGhost(this.ghost, alpha)
     }
 
     // Render entities
@@ -666,33 +1286,78 @@ export class GameEngine {
     }
 
     entities.forEach(entity => {
-      this.renderer.renderEntity(entity)
+      if (entity instanceof Fireball) {
+        this.renderFireballParticles(renderer, entity)
+      }
+      this.renderInterpolated(renderer, entity, alpha)
     })
 
-    this.ctx.restore()
+    // Effects go over everything in the world, in the same space as the entities
+    this.effects.render(ctx, getViewBounds(ctx, canvas.width, canvas.height, 16))
+
+    ctx.restore()
 
     // Render dialogs (not affected by camera)
     const activeDialogs = this.dialogManager.getActiveDialogs()
     activeDialogs.forEach(dialog => {
-      this.renderer.renderDialog(dialog)
+      renderer.renderDialog(dialog)
     })
 
     // Render UI (not affected by camera)
-    this.renderer.renderUI({
+    renderer.renderUI({
       elapsed_time: this.elapsed_time,
       num_deaths: this.num_deaths,
-      coins: this.coins
+      coins: this.coins,
+      lives: this.maxLives === null ? null : this.lives
+    })
+
+    renderer.present()
+  }
+
+  private renderFireballParticles(renderer: GameRenderer, fireball: Fireball) {
+    const cx = fireball.position.x + fireball.width / 2
+    const cy = fireball.position.y + fireball.height / 2
+    if (fireball.isExploding()) {
+      renderer.renderParticle(cx, cy, 'fireballBurst', fireball.getExplosionProgress())
+      return
+    }
+    const trail = fireball.getTrail()
+    trail.forEach((point, i) => {
+      renderer.renderParticle(point.x, point.y, 'fire', 1 - (i + 1) / (trail.length + 1))
     })
   }
 
+  /**
+   * Render an entity at a position blended between the previous and current tick
+   */
+  private renderInterpolated(renderer: GameRenderer, entity: Entity, alpha: number) {
+    const previous = this.previousPositions.get(entity)
+    if (!previous || alpha >= 1) {
+      renderer.renderEntity(entity)
+      return
+    }
+
+    const currentX = entity.position.x
+    const currentY = entity.position.y
+    entity.position.x = previous.x + (currentX - previous.x) * alpha
+    entity.position.y = previous.y + (currentY - previous.y) * alpha
+    renderer.renderEntity(entity)
+    entity.position.x = currentX
+    entity.position.y = currentY
+  }
+
   private updateUI() {
+    if (this.headless) return
+
     const elapsed_timeEl = document.getElementById('elapsed_time')
     const num_deathsEl = document.getElementById('num_deaths')
     const coinsEl = document.getElementById('coins')
+    const livesEl = document.getElementById('lives')
 
     if (elapsed_timeEl) elapsed_timeEl.textContent = this.elapsed_time.toString()
     if (num_deathsEl) num_deathsEl.textContent = this.num_deaths.toString()
     if (coinsEl) coinsEl.textContent = this.coins.toString()
+    if (livesEl) livesEl.textContent = this.maxLives === null ? '∞' : this.lives.toString()
   }
 
   private async checkForTeasingDialogs(): Promise<void> {
@@ -721,7 +1386,29 @@ export class GameEngine {
   // Public API methods
   public getPhysicsEngine() { return this.physics }
   public getCamera() { return this.camera }
+  public getRendererBackend(): RendererBackend | null { return this.renderer?.backend ?? null } // null when headless
+  public getEffects() { return this.effects }
+  public getAudio() { return this.audio }
+  /**
+   * Particle effect detail - 'auto' picks 'low' on phones and tablets and 'high' elsewhere.
+   * Headless engines never draw, so their effects stay off.
+   */
+  public setEffectsQuality(quality: EffectsQuality | 'auto') {
+    if (this.headless) {
+      this.effects.setQuality('off')
+      return
+    }
+    if (quality === 'auto') {
+      quality = this.mobileDetector?.shouldShowVirtualControls ? 'low' : 'high'
+    }
+    this.effects.setQuality(quality)
+    console.log(`✨ Effects quality: ${quality}`)
+  }
+  public getEffectsQuality(): EffectsQuality {
+    return this.effects.getQuality()
+  }
   public getPlayer() { return this.player }
+  public getEvents() { return this.events }
   public setPlayer(player: Player) {
     // Remove existing player if any
     if (this.player) {
@@ -732,9 +1419,32 @@ export class GameEngine {
   }
   // public addScore(points: number) { this.score += points }
   public addCoin() { this.coins++ }
-  // public addLife() { this.lives++ }
+  /**
+   * One more life - no effect when lives are unlimited
+   */
+  public addLife(source: 'coins' | '1up' = '1up') {
+    if (this.maxLives === null) return
+    this.lives++
+    console.log(`🍄 Extra life! Lives: ${this.lives}`)
+    this.emit('lifeGained', { lives: this.lives, source })
+  }
   // public getScore(): number { return this.score }
-  // public getLives(): number { return this.lives }
+  /**
+   * @returns the lives left, or null when lives are unlimited
+   */
+  public getLives(): number | null {
+    return this.maxLives === null ? null : this.lives
+  }
+  /**
+   * Lives per run (null = unlimited), applied immediately and on every reset
+   */
+  public setLives(lives: number | null) {
+    this.maxLives = lives
+    this.lives = lives ?? 0
+  }
+  public getCheckpoint(): { x: number; y: number } | null {
+    return this.checkpoint ? { x: this.checkpoint.position.x, y: this.checkpoint.position.y } : null
+  }
   public getCoins(): number { return this.coins }
   public getPlatforms(): Platform[] {
     return this.currentLevel ? this.currentLevel.getPlatforms() : []
@@ -747,16 +1457,39 @@ export class GameEngine {
     this.goal_y = y
   }
 
+  public getGoal(): { x: number; y: number } | null {
+    if (this.goal_x === undefined || this.goal_y === undefined) return null
+    return { x: this.goal_x, y: this.goal_y }
+  }
+
   public setStartPosition(x: number, y: number) {
     this.start_x = x
     this.start_y = y
     console.log(`🎯 Player start position updated to (${x}, ${y})`)
   }
 
+  public getStartPosition(): { x: number; y: number } {
+    return { x: this.start_x ?? 100, y: this.start_y ?? 400 }
+  }
+
+  /**
+   * Check whether the current level can be finished with the player's jump physics
+   */
+  public checkSolvability(options?: SolvabilityOptions): SolvabilityResult {
+    const level = this.currentLevel ?? new Level()
+    const player = this.player ?? new Player(0, 0)
+    const profile = SolvabilityChecker.createProfile(player, this.physics)
+    return SolvabilityChecker.check(level, this.getStartPosition(), this.getGoal(), profile, options)
+  }
+
   public setLevelId(levelId: number) {
     this.currentLevelId = levelId
   }
 
+  public getLevelId(): number {
+    return this.currentLevelId
+  }
+
   public enableLeaderboard(enabled: boolean = true) {
     this.leaderboardEnabled = enabled
     console.log(`🏆 Leaderboard ${enabled ? 'enabled' : 'disabled'}`)
@@ -766,6 +1499,14 @@ export class GameEngine {
     return this.leaderboardEnabled
   }
 
+  /**
+   * Save the player's best run as a ghost and offer it back. Only for levels whose id is
+   * really theirs - with a placeholder id, every such level would share one personal best.
+   */
+  public enablePersonalBests(enabled: boolean = true) {
+    this.personalBestsEnabled = enabled
+  }
+
   // Dialog management methods
   public getDialogManager(): DialogManager {
     return this.dialogManager
@@ -791,6 +1532,125 @@ export class GameEngine {
     return this.num_deaths
   }
 
+  public isVictory(): boolean {
+    return this.victoryState
+  }
+
+  public isGameOver(): boolean {
+    return this.gameOverState
+  }
+
+  public isHeadless(): boolean {
+    return this.headless
+  }
+
+  // Replay methods
+  /**
+   * Restart the level and drive the player from a recorded run instead of live input
+   * @returns false if the replay was recorded at another tick rate or on another level and can't be played
+   */
+  public async playReplay(replay: ReplayData): Promise<boolean> {
+    if (replay.tickRate !== TICK_RATE) {
+      console.warn(`Replay was recorded at ${replay.tickRate} ticks per second, the engine runs at ${TICK_RATE} - not playing it`)
+      return false
+    }
+    if (replay.levelId !== this.currentLevelId) {
+      console.warn(`Replay was recorded on level ${replay.levelId}, current level is ${this.currentLevelId} - not playing it`)
+      return false
+    }
+
+    this.reset()
+    this.seed = replay.seed
+    this.player?.setSpeedMultiplier(replay.speedMultiplier)
+    this.replayPlayer = new ReplayPlayer(replay)
+    await this.start()
+    return true
+  }
+
+  public stopReplay(): void {
+    if (!this.replayPlayer) return
+    this.reset()
+    this.start()
+  }
+
+  public isPlayingReplay(): boolean {
+    return this.replayPlayer !== null
+  }
+
+  /**
+   * The replay of the most recent completed live run
+   */
+  public getLastReplay(): ReplayData | null {
+    return this.lastReplay
+  }
+
+  // Ghost racer methods
+  /**
+   * Race against a recorded run (pass null to remove the ghost)
+   */
+  public setGhost(replay: ReplayData | null, label = 'Ghost'): boolean {
+    this.ghost = replay ? Ghost.fromReplay(replay, label) : null
+    if (replay && !this.ghost) {
+      console.warn('👻 Replay has no trajectory, ghost disabled')
+    }
+    // Keep the ghost in sync with the current run
+    for (let i = 0; this.ghost && i < this.tickCount; i++) {
+      this.ghost.update(this.fixedTimeStep)
+    }
+    return this.ghost !== null
+  }
+
+  /**
+   * Load a ghost for the current level from the player's personal best or the leaderboard's top run
+   */
+  public async loadGhost(source: 'personal-best' | 'leaderboard'): Promise<boolean> {
+    if (source === 'personal-best') {
+      if (!this.personalBestsEnabled) return false
+      const best = GhostStore.getPersonalBest(this.currentLevelId)
+      return best ? this.setGhost(best, 'Personal Best') : false
+    }
+
+    try {
+      const client = new LeaderboardClient()
+      const leaderboard = await client.getLevelLeaderboard(this.currentLevelId, { sort_by: 'time', limit: 1 })
+      const top = leaderboard.leaderboard[0]
+      if (!top) return false
+
+      const replay = await client.getReplay(top.record_id)
+      if (!replay) return false
+      if (!isValidReplay(replay)) {
+        console.warn('👻 Leaderboard replay is malformed, ghost disabled')
+        return false
+      }
+      return this.setGhost(replay, `#1 ${top.player.nickname}`)
+    } catch (error) {
+      console.warn('👻 Failed to load leaderboard ghost:', error)
+      return false
+    }
+  }
+
+  public getGhost(): Ghost | null {
+    return this.ghost
+  }
+
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Number of fixed simulation ticks elapsed since the level started
+   */
+  public getTickCount(): number {
+    return this.tickCount
+  }
+
+  /**
+   * Duration of one simulation tick in seconds
+   */
+  public getFixedTimeStep(): number {
+    return this.fixedTimeStep
+  }
+
   public getPlayerPosition(): { x: number, y: number } | null {
     if (this.player) {
       return { x: this.player.position.x, y: this.player.position.y }
@@ -819,6 +1679,9 @@ export class GameEngine {
    * @returns Base64 encoded image data URL
    */
   public captureScreenshot(format: 'png' | 'jpeg' = 'png', quality: number = 0.95): string {
+    if (!this.canvas) {
+      throw new Error('Screenshot capture is not available in headless mode')
+    }
     try {
       if (format === 'jpeg') {
         return this.canvas.toDataURL('image/jpeg', quality)
@@ -838,10 +1701,14 @@ export class GameEngine {
    * @returns Promise<Blob>
    */
   public async captureScreenshotBlob(format: 'png' | 'jpeg' = 'png', quality: number = 0.95): Promise<Blob> {
+    const canvas = this.canvas
+    if (!canvas) {
+      throw new Error('Screenshot capture is not available in headless mode')
+    }
     return new Promise((resolve, reject) => {
       try {
         const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png'
-        this.canvas.toBlob((blob) => {
+        canvas.toBlob((blob) => {
           if (blob) {
             resolve(blob)
           } else {
@@ -1,6 +1,12 @@
 import { GameEngine } from './GameEngine'
 import { Level } from './level/Level'
+import { type BlockContents, type PlatformPath } from './level/Platform'
 import { Player } from './entities/Player'
+import { LevelSchema, type LevelDocument } from './level/LevelSchema'
+import { materialForColor, type MaterialName } from './physics/Materials'
+import { CommandHistory, type HistoryListener } from './history/CommandHistory'
+import { DEFAULT_BACKGROUND, cloneBackground, withBackdrop, type BackgroundSetting } from './render/Backgrounds'
+import { type LevelAudio } from './audio/Sounds'
 
 export interface LevelData {
   platforms: Array<{
@@ -9,10 +15,14 @@ export interface LevelData {
     width: number
     height: number
     type?: string
+    contents?: BlockContents // what a question, brick or hidden block gives when hit from below
+    path?: PlatformPath // route of a 'moving' platform
+    material?: MaterialName // ice, mud, bouncy, conveyor, lava, water...
   }>
   polygons: Array<{
     contours: number[][]
     type?: string
+    material?: MaterialName
   }>
   enemies: Array<{
     x: number
@@ -33,121 +43,318 @@ export interface LevelData {
     x: number
     y: number
   }
+  checkpoints?: Array<{ // flags that move the respawn point once reached
+    x: number
+    y: number
+  }>
   goal?: {
     x: number
     y: number
   }
+  background?: BackgroundSetting // preset name or parallax layers, the sky when omitted
+  audio?: LevelAudio // music choice, following the background when omitted
 }
 
+type LevelItems = 'platforms' | 'polygons' | 'enemies' | 'coins' | 'powerUps'
+
+/**
+ * LevelBuilder - builds levels from a simple data description
+ *
+ * Every mutator goes through a command log, so changes can be undone and redone,
+ * grouped into transactions and observed with onChange(). The helpers that add
+ * several items (addPipe, addCoinRow, addPlatformStairs...) are a single step.
+ * Editing levelData directly bypasses the log - use edit() instead.
+ */
 export class LevelBuilder {
   private engine: GameEngine
-  public levelData: LevelData = {
-    platforms: [],
-    polygons: [],
-    enemies: [],
-    coins: [],
-    powerUps: [],
-    playerStart: { x: 100, y: 400 }
-  }
+  private history = new CommandHistory()
+  public levelData: LevelData = emptyLevel()
 
   constructor(engine: GameEngine) {
     this.engine = engine
-    this.clear()
   }
 
   public clear(): this {
-    this.levelData = {
-      platforms: [],
-      polygons: [],
-      enemies: [],
-      coins: [],
-      powerUps: [],
-      playerStart: { x: 100, y: 400 }
-    }
-    return this
+    return this.replace('clear', emptyLevel())
   }
 
-  public addPlatform(x: number, y: number, width: number, height: number, type = 'normal'): this {
-    this.levelData.platforms.push({ x, y, width, height, type })
-    return this
+  public addPlatform(x: number, y: number, width: number, height: number, type = 'normal', contents?: BlockContents, material?: MaterialName): this {
+    return this.addItem('addPlatform', 'platforms', () => ({
+      x, y, width, height, type,
+      ...(contents ? { contents } : {}),
+      ...(material ? { material } : {})
+    }))
   }
 
-  public addPolygon(contours: number[][], type = 'polygon'): this {
-    this.levelData.polygons.push({ contours, type })
-    return this
+  /**
+   * A lift that carries the player along `path` (a linear back-and-forth or a circle)
+   */
+  public addMovingPlatform(x: number, y: number, width: number, path: PlatformPath, height = 16): this {
+    return this.addItem('addMovingPlatform', 'platforms', () => ({ x, y, width, height, type: 'moving', path: { ...path } }))
+  }
+
+  public addPolygon(contours: number[][], type = 'polygon', material?: MaterialName): this {
+    // Copy so later changes to the caller's array don't leak into the history
+    const points = contours.map(point => [...point])
+    return this.addItem('addPolygon', 'polygons', () => ({
+      contours: points.map(point => [...point]),
+      type,
+      ...(material ? { material } : {})
+    }))
   }
 
   public addEnemy(x: number, y: number, type: string, size = 32): this {
-    this.levelData.enemies.push({ x, y, type, size })
-    return this
+    return this.addItem('addEnemy', 'enemies', () => ({ x, y, type, size }))
   }
 
   public addCoin(x: number, y: number): this {
-    this.levelData.coins.push({ x, y })
-    return this
+    return this.addItem('addCoin', 'coins', () => ({ x, y }))
   }
 
   public addPowerUp(x: number, y: number, type: string): this {
-    this.levelData.powerUps.push({ x, y, type })
-    return this
+    return this.addItem('addPowerUp', 'powerUps', () => ({ x, y, type }))
   }
 
   public setPlayerStart(x: number, y: number): this {
-    this.levelData.playerStart = { x, y }
+    const previous = { ...this.levelData.playerStart }
+    this.history.execute({
+      name: 'setPlayerStart',
+      execute: () => { this.levelData.playerStart = { x, y } },
+      undo: () => { this.levelData.playerStart = { ...previous } }
+    })
+    return this
+  }
+
+  public addCheckpoint(x: number, y: number): this {
+    this.history.execute({
+      name: 'addCheckpoint',
+      execute: () => { (this.levelData.checkpoints ??= []).push({ x, y }) },
+      undo: () => { this.levelData.checkpoints?.pop() }
+    })
     return this
   }
 
   public addGoal(x: number, y: number): this {
-    this.levelData.goal = { x, y }
+    const previous = this.levelData.goal ? { ...this.levelData.goal } : undefined
+    this.history.execute({
+      name: 'addGoal',
+      execute: () => { this.levelData.goal = { x, y } },
+      undo: () => {
+        if (previous) {
+          this.levelData.goal = { ...previous }
+        } else {
+          delete this.levelData.goal
+        }
+      }
+    })
     return this
   }
 
-  public addPipe(x: number, y: number, height = 100, isGoal = false): this {
-    this.addPlatform(x, y, 64, height, isGoal ? 'goal_pipe' : 'pipe')
+  /**
+   * A background preset ('sky', 'underground', 'castle', 'night') or a definition with its own layers
+   */
+  public setBackground(background: BackgroundSetting): this {
+    const previous = this.levelData.background
+    const next = cloneBackground(background)
+    this.history.execute({
+      name: 'setBackground',
+      execute: () => { this.levelData.background = cloneBackground(next) },
+      undo: () => {
+        if (previous) {
+          this.levelData.background = cloneBackground(previous)
+        } else {
+          delete this.levelData.background
+        }
+      }
+    })
     return this
   }
 
-  public addBlock(x: number, y: number, type = 'brick'): this {
-    this.addPlatform(x, y, 32, 32, type)
+  /**
+   * Show an image (usually the drawing the level was traced from) in front of the background,
+   * lined up with the level so the traced shapes sit on its strokes
+   */
+  public setBackdrop(image: string, opacity = 0.5): this {
+    return this.setBackground(withBackdrop(this.levelData.background ?? DEFAULT_BACKGROUND, image, opacity))
+  }
+
+  /**
+   * A built-in track ('overworld', 'underground', 'sky', 'castle', 'night'), an audio file URL,
+   * or null for no music - undefined goes back to following the background
+   */
+  public setMusic(music: string | null | undefined): this {
+    const previous = this.levelData.audio
+    this.history.execute({
+      name: 'setMusic',
+      execute: () => {
+        const { music: _music, ...rest } = this.levelData.audio ?? {}
+        this.levelData.audio = music === undefined ? rest : { ...rest, music }
+        if (Object.keys(this.levelData.audio).length === 0) delete this.levelData.audio
+      },
+      undo: () => {
+        if (previous) {
+          this.levelData.audio = { ...previous }
+        } else {
+          delete this.levelData.audio
+        }
+      }
+    })
     return this
   }
 
+  public addPipe(x: number, y: number, height = 100, isGoal = false): this {
+    return this.transaction('addPipe', () => this.addPlatform(x, y, 64, height, isGoal ? 'goal_pipe' : 'pipe'))
+  }
+
+  /**
+   * @param contents - What hitting it from below releases (question and hidden blocks give a coin by default)
+   */
+  public addBlock(x: number, y: number, type = 'brick', contents?: BlockContents): this {
+    return this.transaction('addBlock', () => this.addPlatform(x, y, 32, 32, type, contents))
+  }
+
   public addCoinRow(startX: number, y: number, count: number, spacing = 40): this {
-    for (let i = 0; i < count; i++) {
-      this.addCoin(startX + i * spacing, y)
-    }
-    return this
+    return this.transaction('addCoinRow', () => {
+      for (let i = 0; i < count; i++) {
+        this.addCoin(startX + i * spacing, y)
+      }
+    })
   }
 
   public addPlatformStairs(startX: number, startY: number, steps: number, stepWidth = 32, stepHeight = 32): this {
-    for (let i = 0; i < steps; i++) {
-      const width = stepWidth * (steps - i)
-      const x = startX + i * stepWidth
-      const y = startY - i * stepHeight
-      this.addPlatform(x, y, width, stepHeight, 'brick')
-    }
-    return this
+    return this.transaction('addPlatformStairs', () => {
+      for (let i = 0; i < steps; i++) {
+        const width = stepWidth * (steps - i)
+        const x = startX + i * stepWidth
+        const y = startY - i * stepHeight
+        this.addPlatform(x, y, width, stepHeight, 'brick')
+      }
+    })
   }
 
   public addGapWithPlatforms(startX: number, y: number, _gapWidth: number, platformCount: number, platformWidth = 80, spacing = 120): this {
-    for (let i = 0; i < platformCount; i++) {
-      const x = startX + i * (platformWidth + spacing)
-      this.addPlatform(x, y, platformWidth, 20, 'platform')
-    }
+    return this.transaction('addGapWithPlatforms', () => {
+      for (let i = 0; i < platformCount; i++) {
+        const x = startX + i * (platformWidth + spacing)
+        this.addPlatform(x, y, platformWidth, 20, 'platform')
+      }
+    })
+  }
+
+  /**
+   * Scatter enemies between startX and endX
+   * @param random - source of randomness, e.g. SeededRandom.next for repeatable levels
+   */
+  public generateEnemies(count: number, startX: number, endX: number, y: number, random: () => number = Math.random, types = ['goomba', 'koopa']): this {
+    return this.transaction('generateEnemies', () => {
+      for (let i = 0; i < count; i++) {
+        const x = startX + random() * (endX - startX)
+        const type = types[Math.floor(random() * types.length)]
+        this.addEnemy(x, y, type)
+      }
+    })
+  }
+
+  /**
+   * Make an arbitrary change to levelData as one undoable step
+   */
+  public edit(name: string, mutate: (data: LevelData) => void): this {
+    const before = cloneLevel(this.levelData)
+    const after = cloneLevel(this.levelData)
+    mutate(after)
+    return this.record(name, before, after)
+  }
+
+  /**
+   * Record changes already made to levelData (e.g. while dragging) as one undoable step
+   * @param before - a copy of levelData from before the changes
+   */
+  public commitEdit(name: string, before: LevelData): this {
+    return this.record(name, cloneLevel(before), cloneLevel(this.levelData))
+  }
+
+  // ==================== HISTORY ====================
+
+  /**
+   * Undo the last change (a whole transaction counts as one)
+   * @returns false if there was nothing to undo
+   */
+  public undo(): boolean {
+    return this.history.undo()
+  }
+
+  /**
+   * @returns false if there was nothing to redo
+   */
+  public redo(): boolean {
+    return this.history.redo()
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo()
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo()
+  }
+
+  /**
+   * Apply several changes as one undoable step - if `body` throws they are all reverted
+   */
+  public transaction(name: string, body: (builder: this) => void): this {
+    this.history.transaction(name, () => body(this))
     return this
   }
 
+  /**
+   * Subscribe to level changes, including undo and redo
+   * @returns a function that removes the listener
+   */
+  public onChange(listener: HistoryListener): () => void {
+    return this.history.onChange(listener)
+  }
+
+  public getHistory(): CommandHistory {
+    return this.history
+  }
+
   public build(): Level {
+    const level = this.createLevel()
+
+    // Set player start position
+    const player = new Player(this.levelData.playerStart.x, this.levelData.playerStart.y)
+    this.engine.setPlayer(player)
+
+    // Update engine's start position for respawning
+    this.engine.setStartPosition(this.levelData.playerStart.x, this.levelData.playerStart.y)
+
+    // Also set goal coordinates in the engine for victory condition
+    if (this.levelData.goal) {
+      this.engine.setGoal(this.levelData.goal.x, this.levelData.goal.y)
+    }
+
+    // Load level into engine
+    this.engine.loadLevel(level)
+
+    return level
+  }
+
+  /**
+   * Create the Level without loading it into the engine - e.g. to analyse it first
+   */
+  public createLevel(): Level {
     const level = new Level()
 
     // Add platforms
     this.levelData.platforms.forEach(p => {
-      level.addPlatform(p.x, p.y, p.width, p.height, p.type)
+      const platform = level.addPlatform(p.x, p.y, p.width, p.height, p.type, p.contents, p.path)
+      if (p.material) platform.setMaterial(p.material)
     })
 
     // Add polygons
     this.levelData.polygons.forEach(p => {
-      level.addPolygon(p.contours, p.type)
+      const polygon = level.addPolygon(p.contours, p.type)
+      if (p.material) polygon.setMaterial(p.material)
     })
 
     // Add coins
@@ -165,42 +372,44 @@ export class LevelBuilder {
       level.addPowerUp(p.x, p.y, p.type)
     })
 
-    // Set player start position
-    const player = new Player(this.levelData.playerStart.x, this.levelData.playerStart.y)
-    this.engine.setPlayer(player)
-
-    // Update engine's start position for respawning
-    this.engine.setStartPosition(this.levelData.playerStart.x, this.levelData.playerStart.y)
+    // Add checkpoints
+    this.levelData.checkpoints?.forEach(c => {
+      level.addCheckpoint(c.x, c.y)
+    })
 
     // Set goal if defined
     if (this.levelData.goal) {
       level.setGoal(this.levelData.goal.x, this.levelData.goal.y)
-      // Also set goal coordinates in the engine for victory condition
-      this.engine.setGoal(this.levelData.goal.x, this.levelData.goal.y)
     }
 
-    // Load level into engine
-    this.engine.loadLevel(level)
+    if (this.levelData.background) {
+      level.setBackground(cloneBackground(this.levelData.background))
+    }
+
+    if (this.levelData.audio) {
+      level.setAudio({ ...this.levelData.audio })
+    }
 
     return level
   }
 
   // Preset level templates
   public loadPreset(preset: string): this {
-    switch(preset) {
-      case 'classic':
-        this.createClassicLevel()
-        break
-      case 'underground':
-        this.createUndergroundLevel()
-        break
-      case 'castle':
-        this.createCastleLevel()
-        break
-      default:
-        this.createClassicLevel()
-    }
-    return this
+    return this.transaction(`loadPreset:${preset}`, () => {
+      switch(preset) {
+        case 'classic':
+          this.createClassicLevel()
+          break
+        case 'underground':
+          this.createUndergroundLevel()
+          break
+        case 'castle':
+          this.createCastleLevel()
+          break
+        default:
+          this.createClassicLevel()
+      }
+    })
   }
 
   private createClassicLevel() {
@@ -248,6 +457,7 @@ export class LevelBuilder {
 
   private createUndergroundLevel() {
     this.clear()
+    this.setBackground('underground')
 
     // Underground floor and ceiling
     this.addPlatform(0, 550, 3000, 26, 'underground')
@@ -283,6 +493,7 @@ export class LevelBuilder {
 
   private createCastleLevel() {
     this.clear()
+    this.setBackground('castle')
 
     // Castle floor
     this.addPlatform(0, 550, 3000, 26, 'castle')
@@ -314,11 +525,27 @@ export class LevelBuilder {
     this.setPlayerStart(100, 450)
   }
 
-  // Import level from JSON
+  // Load a level in the canonical format
+  public loadDocument(level: LevelDocument): this {
+    return this.replace('loadDocument', LevelSchema.toBuilderLevel(level))
+  }
+
+  // Current level in the canonical format
+  public toDocument(): LevelDocument {
+    return LevelSchema.fromBuilderLevel(this.levelData)
+  }
+
+  // Import level from JSON (any format LevelSchema understands)
   public importJSON(json: string): this {
     try {
       const data = JSON.parse(json)
-      this.levelData = data
+      const result = LevelSchema.validate(data)
+      result.issues.forEach(issue => {
+        console.warn(`[${issue.code}] ${issue.path || 'level'}: ${issue.message}`)
+      })
+      if (result.level) {
+        this.loadDocument(result.level)
+      }
       return this
     } catch (e) {
       console.error('Failed to import level JSON:', e)
@@ -326,39 +553,81 @@ export class LevelBuilder {
     }
   }
 
-  // Export level to JSON
+  // Export level to JSON in the canonical format
   public exportJSON(): string {
-    return JSON.stringify(this.levelData, null, 2)
+    return JSON.stringify(this.toDocument(), null, 2)
   }
 
   // Generate level from image recognition data
   public generateFromImageData(imageData: any[]): this {
-    this.clear()
+    return this.transaction('generateFromImageData', () => {
+      this.clear()
+
+      // Parse image recognition data
+      // Expected format: array of objects with type, x, y, width, height
+      // (platforms may add a strokeColor - colored strokes draw ice, lava, water...)
+      imageData.forEach(obj => {
+        switch(obj.type) {
+          case 'platform':
+          case 'brick':
+          case 'pipe': {
+            const material = typeof obj.strokeColor === 'string' ? materialForColor(obj.strokeColor) : null
+            this.addPlatform(obj.x, obj.y, obj.width || 32, obj.height || 32, obj.type, undefined, material ?? undefined)
+            break
+          }
+          case 'coin':
+            this.addCoin(obj.x, obj.y)
+            break
+          case 'enemy':
+            this.addEnemy(obj.x, obj.y, obj.enemyType || 'goomba')
+            break
+          case 'powerup':
+            this.addPowerUp(obj.x, obj.y, obj.powerType || 'mushroom')
+            break
+          case 'player':
+            this.setPlayerStart(obj.x, obj.y)
+            break
+        }
+      })
+    })
+  }
 
-    // Parse image recognition data
-    // Expected format: array of objects with type, x, y, width, height
-    imageData.forEach(obj => {
-      switch(obj.type) {
-        case 'platform':
-        case 'brick':
-        case 'pipe':
-          this.addPlatform(obj.x, obj.y, obj.width || 32, obj.height || 32, obj.type)
-          break
-        case 'coin':
-          this.addCoin(obj.x, obj.y)
-          break
-        case 'enemy':
-          this.addEnemy(obj.x, obj.y, obj.enemyType || 'goomba')
-          break
-        case 'powerup':
-          this.addPowerUp(obj.x, obj.y, obj.powerType || 'mushroom')
-          break
-        case 'player':
-          this.setPlayerStart(obj.x, obj.y)
-          break
-      }
+  private addItem<K extends LevelItems>(name: string, key: K, create: () => LevelData[K][number]): this {
+    // Undo runs in reverse order, so the item being undone is always the last one
+    this.history.execute({
+      name,
+      execute: () => { (this.levelData[key] as LevelData[K][number][]).push(create()) },
+      undo: () => { this.levelData[key].pop() }
     })
+    return this
+  }
 
+  private replace(name: string, data: LevelData): this {
+    return this.record(name, cloneLevel(this.levelData), data)
+  }
+
+  private record(name: string, before: LevelData, after: LevelData): this {
+    // Apply copies - the snapshots must survive later in-place edits
+    this.history.execute({
+      name,
+      execute: () => { this.levelData = cloneLevel(after) },
+      undo: () => { this.levelData = cloneLevel(before) }
+    })
     return this
   }
-}
\ No newline at end of file
+}
+
+function emptyLevel(): LevelData {
+  return {
+    platforms: [],
+    polygons: [],
+    enemies: [],
+    coins: [],
+    powerUps: [],
+    playerStart: { x: 100, y: 400 }
+  }
+}
+
+function cloneLevel(data: LevelData): LevelData {
+  return JSON.parse(JSON.stringify(data))
+}
@@ -1,36 +1,15 @@
 /**
  * Level Pack Manager
  * Manages multi-level gameplay flow and player progress
+ *
+ * Works offline: packs are cached in IndexedDB after every successful load, progress is
+ * kept locally, and writes go through the SyncQueue until the backend can be reached.
  */
 
-export interface LevelData {
-  starting_points: Array<{
-    coordinates: [number, number]
-  }>
-  end_points: Array<{
-    coordinates: [number, number]
-  }>
-  rigid_bodies: Array<{
-    contour_points: Array<[number, number]>
-  }>
-  coins?: Array<{
-    x: number
-    y: number
-  }>
-  enemies?: Array<{
-    x: number
-    y: number
-    type: string
-  }>
-  spikes?: Array<{
-    coordinates: [number, number]
-  }>
-  metadata?: {
-    is_public: boolean
-    level_id: string
-    title?: string
-  }
-}
+import { LevelSchema, type LevelDocument } from './level/LevelSchema'
+import { type GameEvents } from './events/GameEvents'
+import { OfflineStore } from './offline/OfflineStore'
+import { SyncQueue } from './offline/SyncQueue'
 
 export interface LevelPackData {
   pack: {
@@ -74,20 +53,26 @@ export class LevelPackManager {
   private totalDeaths: number = 0
   private levelStartTime: number = 0
   private backendUrl: string
+  private store: OfflineStore
+  private syncQueue: SyncQueue
+  private offline = false
 
-  constructor(packId: number, nickname: string) {
+  constructor(packId: number, nickname: string, store?: OfflineStore, syncQueue?: SyncQueue) {
     this.packId = packId
     this.playerNickname = nickname
     this.backendUrl = import.meta.env.VITE_BACKEND_URL || 'https://25hackmit--hackmit25-backend.modal.run'
+    this.store = store || OfflineStore.getInstance()
+    this.syncQueue = syncQueue || SyncQueue.getInstance()
   }
 
   /**
-   * Load level pack data from backend
+   * Load level pack data from backend, or from the offline cache when the backend is unreachable
+   * @throws if the pack can't be fetched and was never cached
    */
   async loadLevelPack(): Promise<void> {
-    try {
-      console.log(`📦 Loading level pack ${this.packId}...`)
+    console.log(`📦 Loading level pack ${this.packId}...`)
 
+    try {
       const response = await fetch(`${this.backendUrl}/api/level-packs/${this.packId}`)
 
       if (!response.ok) {
@@ -95,35 +80,41 @@ export class LevelPackManager {
       }
 
       this.packData = await response.json()
-
-      console.log(`✅ Level pack loaded: ${this.packData?.pack.name}`)
-      console.log(`📊 Total levels: ${this.packData?.pack.total_levels}`)
-
-      return Promise.resolve()
+      this.offline = false
+      await this.store.savePack(this.packId, this.packData!)
     } catch (error) {
-      console.error('❌ Error loading level pack:', error)
-      throw error
+      const cached = await this.store.getPack(this.packId)
+      if (!cached) {
+        console.error('❌ Error loading level pack:', error)
+        throw error
+      }
+      console.warn(`📴 Backend unreachable - using the copy cached ${new Date(cached.cachedAt).toLocaleString()}:`, error)
+      this.packData = cached.data
+      this.offline = true
     }
+
+    console.log(`✅ Level pack loaded: ${this.packData?.pack.name}`)
+    console.log(`📊 Total levels: ${this.packData?.pack.total_levels}`)
   }
 
   /**
-   * Load player progress from backend
+   * Load player progress, merging the backend's copy with progress saved on this device
    */
   async loadProgress(): Promise<void> {
     try {
       console.log(`💾 Loading progress for ${this.playerNickname}...`)
 
-      const response = await fetch(
-        `${this.backendUrl}/api/level-packs/${this.packId}/progress/${this.playerNickname}`
-      )
+      const local = await this.store.getProgress(this.packId, this.playerNickname)
+      const remote = await this.fetchRemoteProgress()
+      const progress = local && remote
+        ? SyncQueue.mergeProgress(local.progress, remote)
+        : local?.progress ?? remote
 
-      if (!response.ok) {
+      if (!progress) {
         console.warn('No existing progress found, starting fresh')
         return
       }
 
-      const progress: PlayerProgress = await response.json()
-
       this.currentLevelIndex = progress.current_level_index || 0
       this.completedLevels = progress.completed_levels || []
       this.totalTimeMs = progress.total_time_ms || 0
@@ -140,54 +131,48 @@ export class LevelPackManager {
   }
 
   /**
-   * Save current progress to backend
+   * Save current progress on this device and queue it for the backend.
+   * Resolves once it is stored - the upload happens in the background, and the queue keeps retrying.
    */
   async saveProgress(): Promise<void> {
     try {
-      const progressData = {
+      const progress: PlayerProgress = {
+        pack_id: this.packId,
         player_nickname: this.playerNickname,
         current_level_index: this.currentLevelIndex,
-        completed_levels: this.completedLevels,
+        completed_levels: [...this.completedLevels],
         total_time_ms: this.totalTimeMs,
-        total_deaths: this.totalDeaths
-      }
-
-      const response = await fetch(
-        `${this.backendUrl}/api/level-packs/${this.packId}/progress`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(progressData)
-        }
-      )
-
-      if (!response.ok) {
-        throw new Error(`Failed to save progress: ${response.status}`)
+        total_deaths: this.totalDeaths,
+        completed: this.isPackComplete()
       }
 
-      const result = await response.json()
-      console.log(`💾 Progress saved${result.completed ? ' - Pack completed! 🎉' : ''}`)
-
-      return Promise.resolve()
+      await this.store.saveProgress(progress)
+      await this.syncQueue.enqueue({ kind: 'progress', baseUrl: this.backendUrl, progress }, false)
     } catch (error) {
       console.error('❌ Error saving progress:', error)
       // Don't throw - progress save failure shouldn't break game
     }
   }
 
+  /**
+   * Whether the pack was loaded from the offline cache
+   */
+  isOffline(): boolean {
+    return this.offline
+  }
+
   /**
    * Get current level data
+   * @throws LevelValidationError if the stored level cannot be loaded
    */
-  getCurrentLevel(): LevelData {
+  getCurrentLevel(): LevelDocument {
     if (!this.packData || !this.packData.levels[this.currentLevelIndex]) {
       throw new Error('Level pack not loaded or invalid level index')
     }
 
     const level = this.packData.levels[this.currentLevelIndex]
 
-    return level.data as LevelData
+    return LevelSchema.parse(level.data)
   }
 
   /**
@@ -303,6 +288,25 @@ export class LevelPackManager {
     }
   }
 
+  /**
+   * Keep the pack's timer, deaths and completed levels in step with the game.
+   * Subscribe before any listener that reads the progress on victory.
+   * @returns a function that stops tracking
+   */
+  trackEvents(events: GameEvents): () => void {
+    const subscriptions = [
+      events.on('levelStart', ({ replay }) => {
+        if (!replay) this.startLevelTimer()
+      }),
+      events.on('death', () => this.recordDeath()),
+      events.on('victory', () => {
+        this.stopLevelTimer()
+        this.markCurrentLevelComplete()
+      })
+    ]
+    return () => subscriptions.forEach(unsubscribe => unsubscribe())
+  }
+
   /**
    * Get statistics for display
    */
@@ -353,21 +357,28 @@ export class LevelPackManager {
   }
 
   /**
-   * Increment pack play count
+   * Increment pack play count, without waiting for the backend
    */
   async incrementPlayCount(): Promise<void> {
     try {
-      await fetch(`${this.backendUrl}/api/level-packs/${this.packId}/stats`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          plays_count: 1
-        })
-      })
+      await this.syncQueue.enqueue({ kind: 'playCount', baseUrl: this.backendUrl, packId: this.packId }, false)
     } catch (error) {
       console.warn('Failed to increment play count:', error)
     }
   }
+
+  /**
+   * @returns null if the backend has no progress or can't be reached
+   */
+  private async fetchRemoteProgress(): Promise<PlayerProgress | null> {
+    try {
+      const response = await fetch(
+        `${this.backendUrl}/api/level-packs/${this.packId}/progress/${encodeURIComponent(this.playerNickname)}`
+      )
+      return response.ok ? await response.json() : null
+    } catch (error) {
+      console.warn('📴 Could not reach the backend for progress, using this device\'s copy:', error)
+      return null
+    }
+  }
 }
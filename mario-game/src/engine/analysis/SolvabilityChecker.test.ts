@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { LevelSchema, type LevelDocument } from '../level/LevelSchema'
+import { SolvabilityChecker } from './SolvabilityChecker'
+import { replayWitness } from '../../test/fixtures'
+
+function level(setup: (level: LevelDocument) => void): LevelDocument {
+  const doc = LevelSchema.createEmpty()
+  doc.starts = [{ x: 50, y: 400 }]
+  doc.platforms.push({ x: 0, y: 500, width: 300, height: 50 })
+  setup(doc)
+  return doc
+}
+
+describe('SolvabilityChecker', () => {
+  it('finds a path across a jumpable gap, and the engine agrees', () => {
+    const doc = level(d => {
+      d.platforms.push({ x: 420, y: 500, width: 300, height: 50 })
+      d.goals = [{ x: 650, y: 436 }]
+    })
+    const result = HeadlessSimulation.fromLevelData(doc).checkSolvability()
+    expect(result.solvable).toBe(true)
+    expect(result.path.some(step => step.kind === 'jump' || step.kind === 'double_jump')).toBe(true)
+    expect(replayWitness(doc, result.path).victory).toBe(true)
+  })
+
+  it('climbs to a raised goal with a double jump', () => {
+    const doc = level(d => {
+      d.platforms.push({ x: 200, y: 330, width: 200, height: 20 })
+      d.goals = [{ x: 300, y: 290 }]
+    })
+    const result = HeadlessSimulation.fromLevelData(doc).checkSolvability()
+    expect(result.solvable).toBe(true)
+    expect(replayWitness(doc, result.path).victory).toBe(true)
+  })
+
+  it('rejects a gap too wide to jump', () => {
+    const doc = level(d => {
+      d.platforms.push({ x: 1000, y: 500, width: 300, height: 50 })
+      d.goals = [{ x: 1200, y: 436 }]
+    })
+    const result = HeadlessSimulation.fromLevelData(doc).checkSolvability()
+    expect(result.solvable).toBe(false)
+    expect(result.reasonCode).toBe('goal_unreachable')
+    expect(result.closestApproach!.distance).toBeGreaterThan(0)
+  })
+
+  it('jumps spikes rather than walking into them', () => {
+    const doc = level(d => {
+      d.platforms[0].width = 800
+      d.enemies.push({ x: 400, y: 468, type: 'spike', size: 32 })
+      d.goals = [{ x: 700, y: 436 }]
+    })
+    const result = HeadlessSimulation.fromLevelData(doc).checkSolvability()
+    expect(result.solvable).toBe(true)
+    expect(result.path.some(step => step.kind !== 'walk')).toBe(true)
+    expect(replayWitness(doc, result.path).deaths).toBe(0)
+  })
+
+  it('gives up on a floor of spikes too long to clear', () => {
+    const doc = level(d => {
+      d.platforms[0].width = 1200
+      for (let x = 350; x < 1000; x += 32) d.enemies.push({ x, y: 468, type: 'spike', size: 32 })
+      d.goals = [{ x: 1100, y: 436 }]
+    })
+    expect(HeadlessSimulation.fromLevelData(doc).checkSolvability().reasonCode).toBe('goal_unreachable')
+  })
+
+  it('explains a level with no goal', () => {
+    const result = HeadlessSimulation.fromLevelData(level(() => {})).checkSolvability()
+    expect(result.reasonCode).toBe('no_goal')
+    expect(SolvabilityChecker.describe(result)).toBe('The level has no goal')
+  })
+
+  it('notices a start point over the void', () => {
+    const doc = level(d => {
+      d.starts = [{ x: 600, y: 400 }]
+      d.goals = [{ x: 200, y: 436 }]
+    })
+    expect(HeadlessSimulation.fromLevelData(doc).checkSolvability().reasonCode).toBe('start_falls_out')
+  })
+})
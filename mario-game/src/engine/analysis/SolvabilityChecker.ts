@@ -0,0 +1,615 @@
+import { Level } from '../level/Level'
+import { Platform } from '../level/Platform'
+import { Polygon } from '../level/Polygon'
+import { Entity } from '../entities/Entity'
+import { Enemy } from '../entities/Enemy'
+import { type Player } from '../entities/Player'
+import { PhysicsEngine, type Vector2D, type AABB } from '../physics/PhysicsEngine'
+import { type InputState } from '../input/InputManager'
+import { TICK_RATE } from '../replay/Replay'
+
+/**
+ * Everything the checker needs to know about how the player moves.
+ * Values are per tick, like the engine's own physics.
+ */
+export interface MovementProfile {
+  jumpPower: number
+  moveSpeed: number
+  runSpeed: number
+  maxJumps: number
+  jumpCooldownTicks: number
+  releasedJumpVelocity: number
+  speedMultiplier: number
+  width: number
+  height: number
+  gravity: number
+  friction: number
+  airResistance: number
+  maxVelocity: Vector2D
+  maxSlopeAngle: number // degrees
+}
+
+export type PathStepKind = 'walk' | 'fall' | 'jump' | 'double_jump'
+
+/**
+ * One move of the witness path, from one standing position to the next
+ */
+export interface PathStep {
+  kind: PathStepKind
+  direction: -1 | 0 | 1
+  run: boolean
+  from: Vector2D
+  to: Vector2D
+  ticks: number
+  jumpHoldTicks?: number // ticks the first jump is held before release
+  secondJumpTick?: number // tick (from the start of the step) the double jump is pressed
+  inputs: Array<Pick<InputState, 'left' | 'right' | 'jump' | 'run'>> // buttons held on every tick
+  trajectory: Vector2D[] // player position after every tick
+}
+
+export type SolvabilityReasonCode =
+  | 'no_goal'
+  | 'start_blocked'
+  | 'start_falls_out'
+  | 'goal_blocked'
+  | 'goal_unreachable'
+  | 'search_limit'
+  | 'witness_failed' // set by the level generator when the engine disagrees
+
+export interface SolvabilityResult {
+  solvable: boolean
+  path: PathStep[]
+  reasonCode?: SolvabilityReasonCode
+  reason?: string
+  explored: number // standing positions visited
+  closestApproach?: { position: Vector2D; distance: number }
+}
+
+export interface SolvabilityOptions {
+  worldWidth?: number // the level's own width by default, like the engine
+  deathY?: number // falling below this is death, as in GameEngine
+  goalSize?: number
+  cellSize?: number // standing positions closer than this are treated as the same
+  maxNodes?: number
+  maxAirTicks?: number
+}
+
+interface BodyState {
+  position: Vector2D
+  velocity: Vector2D
+  previousPosition?: Vector2D
+  grounded: boolean
+  wallCollision: { left: boolean; right: boolean }
+  ceilingCollision: boolean
+  remainingJumps: number
+  jumpCD: number
+  running: boolean
+}
+
+interface Move {
+  kind: PathStepKind
+  direction: -1 | 0 | 1
+  run: boolean
+  jumpHoldTicks?: number
+  secondJumpTick?: number
+  walkTicks?: number
+}
+
+interface MoveOutcome {
+  end: BodyState | null // null when the player died
+  reachedGoal: boolean
+  ticks: number
+  inputs: PathStep['inputs']
+  trajectory: Vector2D[]
+}
+
+interface SearchNode {
+  state: BodyState
+  parent: SearchNode | null
+  step: PathStep | null
+}
+
+const DEFAULTS: Omit<Required<SolvabilityOptions>, 'worldWidth'> = {
+  deathY: 700,
+  goalSize: 32,
+  cellSize: 16,
+  maxNodes: 2500,
+  maxAirTicks: 240
+}
+
+const DIRECTIONS: Array<-1 | 0 | 1> = [1, -1, 0]
+const SHORT_HOP_TICKS = 3
+const DOUBLE_JUMP_DELAYS = [0, 5, 11, 19] // ticks after the cooldown expires
+const WALK_TICKS = 3
+const REST_SPEED = 0.5
+const TICK = 1 / TICK_RATE
+
+/**
+ * Decides whether a level can be finished and, if so, how.
+ *
+ * Drives a stand-in player through the real PhysicsEngine, tick by tick, and
+ * searches breadth-first over the places the player can stand, trying walks,
+ * drops, short hops, full jumps and double jumps in both directions. The moves that
+ * reach the goal come back as a witness path, with the buttons for every tick so it
+ * can be replayed in the engine; otherwise the result explains why not.
+ *
+ * The model only covers the level's layout: static hazards (spikes, lava) always kill, power-ups are
+ * not used and water can't be swum through, so a small player can make every jump of an accepted
+ * level. Walking enemies are ignored, though - one standing on the path may still have to be
+ * stomped or jumped over.
+ *
+ * @example
+ * const result = SolvabilityChecker.check(level, start, goal, SolvabilityChecker.createProfile(player, physics))
+ * if (!result.solvable) console.warn(result.reason)
+ */
+export class SolvabilityChecker {
+  /**
+   * Build a movement profile from a live player and physics engine
+   */
+  static createProfile(player: Player, physics: PhysicsEngine): MovementProfile {
+    return {
+      ...player.getMovementProfile(),
+      gravity: physics.getGravity(),
+      friction: physics.getFriction(),
+      airResistance: physics.getAirResistance(),
+      maxVelocity: physics.getMaxVelocity(),
+      maxSlopeAngle: physics.getMaxSlopeAngle()
+    }
+  }
+
+  static check(
+    level: Level,
+    start: Vector2D,
+    goal: Vector2D | null,
+    profile: MovementProfile,
+    options: SolvabilityOptions = {}
+  ): SolvabilityResult {
+    if (!goal) {
+      return failure('no_goal', 'The level has no goal', 0)
+    }
+    return new ReachabilitySearch(level, goal, profile, { ...DEFAULTS, ...options, worldWidth: options.worldWidth ?? level.getWidth() }).run(start)
+  }
+
+  /**
+   * Human-readable summary of a result, for the editor and upload checks
+   */
+  static describe(result: SolvabilityResult): string {
+    if (!result.solvable) return result.reason ?? 'The level cannot be finished'
+
+    const jumps = result.path.filter(step => step.kind === 'jump' || step.kind === 'double_jump').length
+    const ticks = result.path.reduce((total, step) => total + step.ticks, 0)
+    return `Solvable in ${result.path.length} moves (${jumps} jumps, about ${(ticks / 60).toFixed(1)}s)`
+  }
+}
+
+/**
+ * Stand-in for the player that the search can rewind and replay
+ */
+class ProbeBody extends Entity {
+  public remainingJumps: number
+  public jumpCD = 0
+  public running = false
+
+  constructor(profile: MovementProfile) {
+    super(0, 0, profile.width, profile.height, 'player')
+    this.setPhysics({ solid: true, gravity: true, mass: 1 })
+    this.remainingJumps = profile.maxJumps
+  }
+
+  public update() {}
+
+  public render() {}
+
+  public save(): BodyState {
+    return {
+      position: { ...this.position },
+      velocity: { ...this.velocity },
+      previousPosition: this.previousPosition ? { ...this.previousPosition } : undefined,
+      grounded: this.grounded,
+      wallCollision: { ...this.wallCollision },
+      ceilingCollision: this.ceilingCollision,
+      remainingJumps: this.remainingJumps,
+      jumpCD: this.jumpCD,
+      running: this.running
+    }
+  }
+
+  public restore(state: BodyState) {
+    this.position = { ...state.position }
+    this.velocity = { ...state.velocity }
+    this.previousPosition = state.previousPosition ? { ...state.previousPosition } : undefined
+    this.grounded = state.grounded
+    this.wallCollision = { ...state.wallCollision }
+    this.ceilingCollision = state.ceilingCollision
+    this.remainingJumps = state.remainingJumps
+    this.jumpCD = state.jumpCD
+    this.running = state.running
+  }
+}
+
+class ReachabilitySearch {
+  private platforms: Platform[]
+  private polygons: Polygon[]
+  private hazards: AABB[] = []
+  private goalBox: AABB
+  private profile: MovementProfile
+  private options: Required<SolvabilityOptions>
+  private physics: PhysicsEngine
+  private probe: ProbeBody
+  private closest: { position: Vector2D; distance: number } | null = null
+
+  constructor(level: Level, goal: Vector2D, profile: MovementProfile, options: Required<SolvabilityOptions>) {
+    this.profile = profile
+    this.options = options
+    this.platforms = level.getPlatforms().filter(platform => platform.solid)
+    this.polygons = level.getPolygons().filter(polygon => polygon.solid && polygon.contours.length >= 3)
+    for (const entity of level.getEntities()) {
+      if (entity instanceof Enemy && entity.isHazard()) {
+        this.hazards.push({ x: entity.position.x, y: entity.position.y, width: entity.width, height: entity.height })
+      }
+    }
+    // Lava burns on touch, so its box grows by a pixel to catch standing on it
+    for (const surface of [...level.getPlatforms(), ...level.getPolygons()]) {
+      if (surface.getMaterial()?.damage) {
+        const bounds = surface.getBounds()
+        this.hazards.push({ x: bounds.left - 1, y: bounds.top - 1, width: bounds.right - bounds.left + 2, height: bounds.bottom - bounds.top + 2 })
+      }
+    }
+    this.goalBox = { x: goal.x, y: goal.y, width: options.goalSize, height: options.goalSize }
+
+    // A private engine so the search can't disturb the game's own
+    this.physics = new PhysicsEngine(profile.gravity)
+    this.physics.setFriction(profile.friction)
+    this.physics.setAirResistance(profile.airResistance)
+    this.physics.setMaxSlopeAngle(profile.maxSlopeAngle)
+    this.physics.setMaxVelocity(profile.maxVelocity.x, profile.maxVelocity.y)
+    this.probe = new ProbeBody(profile)
+  }
+
+  public run(start: Vector2D): SolvabilityResult {
+    const { goalBox } = this
+    const goalCenter = { x: goalBox.x + goalBox.width / 2, y: goalBox.y + goalBox.height / 2 }
+
+    if (this.blocked(start.x, start.y)) {
+      return failure('start_blocked', `The start (${round(start.x)}, ${round(start.y)}) is inside solid ground`, 0)
+    }
+    if (this.pointBlocked(goalCenter.x, goalCenter.y)) {
+      return failure('goal_blocked', `The goal (${round(goalBox.x)}, ${round(goalBox.y)}) is buried inside solid ground`, 0)
+    }
+
+    // Let the player drop from the spawn point onto whatever is below it
+    const drop: Move = { kind: 'fall', direction: 0, run: false }
+    const spawn: SearchNode = { state: this.spawnState(start), parent: null, step: null }
+    const initial = this.simulate(spawn.state, drop)
+
+    if (initial.reachedGoal) {
+      return this.success(this.extend(spawn, initial, drop), 0)
+    }
+    if (!initial.end) {
+      return failure(
+        'start_falls_out',
+        `Nothing to stand on below the start (${round(start.x)}, ${round(start.y)}) - the player falls out of the level`,
+        0
+      )
+    }
+
+    const root = this.extend(spawn, initial, drop)
+    const visited = new Set<string>([this.key(root.state)])
+    const queue: SearchNode[] = [root]
+
+    for (let head = 0; head < queue.length; head++) {
+      if (visited.size > this.options.maxNodes) {
+        return {
+          ...failure(
+            'search_limit',
+            `Gave up after exploring ${visited.size} standing positions without reaching the goal`,
+            visited.size
+          ),
+          closestApproach: this.closest ?? undefined
+        }
+      }
+
+      const node = queue[head]
+      for (const move of this.moves()) {
+        const outcome = this.simulate(node.state, move)
+        if (outcome.reachedGoal) {
+          return this.success(this.extend(node, outcome, move), visited.size)
+        }
+        if (!outcome.end) continue
+
+        const key = this.key(outcome.end)
+        if (visited.has(key)) continue
+        visited.add(key)
+        queue.push(this.extend(node, outcome, move))
+      }
+    }
+
+    const closest = this.closest
+    const detail = closest
+      ? ` - the closest the player gets is ${round(closest.distance)}px away, at (${round(closest.position.x)}, ${round(closest.position.y)})`
+      : ''
+    return {
+      ...failure(
+        'goal_unreachable',
+        `The goal (${round(goalBox.x)}, ${round(goalBox.y)}) cannot be reached from the start${detail}`,
+        visited.size
+      ),
+      closestApproach: closest ?? undefined
+    }
+  }
+
+  private *moves(): Generator<Move> {
+    for (const direction of DIRECTIONS) {
+      for (const run of [false, true]) {
+        if (direction !== 0) {
+          yield { kind: 'walk', direction, run, walkTicks: WALK_TICKS }
+        }
+        yield { kind: 'jump', direction, run, jumpHoldTicks: SHORT_HOP_TICKS }
+        // Releasing just as the cooldown ends gives full height without the automatic double jump
+        yield { kind: 'jump', direction, run, jumpHoldTicks: this.profile.jumpCooldownTicks }
+        if (this.profile.maxJumps > 1) {
+          for (const delay of DOUBLE_JUMP_DELAYS) {
+            const secondJumpTick = this.profile.jumpCooldownTicks + 1 + delay
+            yield { kind: 'double_jump', direction, run, jumpHoldTicks: secondJumpTick - 1, secondJumpTick }
+          }
+        }
+        // Running makes no difference when standing still
+        if (direction === 0) break
+      }
+    }
+  }
+
+  /**
+   * Play one move from a standing state until the player stands still again
+   */
+  private simulate(from: BodyState, move: Move): MoveOutcome {
+    const { probe } = this
+    probe.restore(from)
+
+    const inputs: PathStep['inputs'] = []
+    const trajectory: Vector2D[] = []
+    // Buttons are pressed for the first tick (the walk's length for walks) and held while in the air
+    const inputTicks = move.walkTicks ?? 1
+    const maxTicks = this.options.maxAirTicks + inputTicks
+    let airborne = false
+
+    for (let tick = 1; tick <= maxTicks; tick++) {
+      const landed = airborne && this.supported(probe)
+      const holding = !landed && (tick <= inputTicks || airborne)
+      const direction = holding ? move.direction : 0
+      const jump = holding && this.jumpHeld(move, tick)
+
+      this.step(direction, jump, move.run)
+      inputs.push({ left: direction < 0, right: direction > 0, jump, run: move.run })
+      trajectory.push({ x: probe.position.x, y: probe.position.y })
+
+      this.trackClosest(probe)
+      if (this.overlaps(probe, this.goalBox)) {
+        return { end: probe.save(), reachedGoal: true, ticks: tick, inputs, trajectory }
+      }
+      if (probe.position.y > this.options.deathY || this.hazards.some(hazard => this.overlaps(probe, hazard))) {
+        return { end: null, reachedGoal: false, ticks: tick, inputs, trajectory }
+      }
+
+      const supported = this.supported(probe)
+      if (!supported) airborne = true
+
+      const settled = supported && Math.abs(probe.velocity.x) < REST_SPEED && Math.abs(probe.velocity.y) <= this.profile.gravity
+      // A jump only counts once it has left the ground and come back down
+      const finishedInput = tick > inputTicks && (airborne || move.kind === 'walk' || move.kind === 'fall')
+      if (settled && finishedInput) {
+        return { end: probe.save(), reachedGoal: false, ticks: tick, inputs, trajectory }
+      }
+    }
+
+    // Still airborne, sliding or stuck against a wall after the time limit - treat as lost
+    return { end: null, reachedGoal: false, ticks: maxTicks, inputs, trajectory }
+  }
+
+  private spawnState(start: Vector2D): BodyState {
+    return {
+      position: { x: start.x, y: start.y },
+      velocity: { x: 0, y: 0 },
+      grounded: false,
+      wallCollision: { left: false, right: false },
+      ceilingCollision: false,
+      remainingJumps: this.profile.maxJumps,
+      jumpCD: 0,
+      running: false
+    }
+  }
+
+  private jumpHeld(move: Move, tick: number): boolean {
+    if (move.kind === 'walk' || move.kind === 'fall') return false
+    if (tick <= (move.jumpHoldTicks ?? 0)) return true
+    // Hold the second jump to its full height
+    return move.secondJumpTick !== undefined && tick >= move.secondJumpTick
+  }
+
+  /**
+   * One engine tick for the probe: Player.handleInput, PhysicsEngine.updateEntity,
+   * polygon collisions, the double jump reset in Player.update and the world edges
+   */
+  private step(direction: number, jump: boolean, run: boolean) {
+    const { probe, profile } = this
+
+    const speed = (probe.running ? profile.runSpeed : profile.moveSpeed) * profile.speedMultiplier
+    if (direction < 0 && !probe.wallCollision.left) {
+      probe.velocity.x = -speed
+    } else if (direction > 0 && !probe.wallCollision.right) {
+      probe.velocity.x = speed
+    }
+
+    if (jump && probe.jumpCD === 0 && probe.remainingJumps > 0) {
+      probe.jumpCD = profile.jumpCooldownTicks
+      probe.remainingJumps -= 1
+      if (!probe.ceilingCollision) {
+        probe.velocity.y = -profile.jumpPower
+      }
+    } else if (probe.jumpCD > 0) {
+      probe.jumpCD -= 1
+    }
+    if (!jump && probe.velocity.y < -profile.releasedJumpVelocity) {
+      probe.velocity.y = -profile.releasedJumpVelocity
+    }
+    probe.running = run
+
+    this.physics.updateEntity(probe, TICK, this.platforms, this.polygons)
+    for (const polygon of this.polygons) {
+      this.physics.checkPolygonCollision(probe, polygon)
+    }
+
+    if (probe.grounded) probe.remainingJumps = profile.maxJumps
+
+    const maxX = this.options.worldWidth - profile.width
+    if (probe.position.x < 0 || probe.position.x > maxX) {
+      probe.position.x = clamp(probe.position.x, 0, maxX)
+      probe.velocity.x = 0
+    }
+  }
+
+  /**
+   * Whether something solid is directly under the box. The engine's own grounded flag
+   * flickers while walking, so it can't be used to tell standing from falling.
+   */
+  private supported(body: Entity): boolean {
+    const { x, y } = body.position
+    const feet = { x, y: y + body.height, width: body.width, height: 1 }
+    return this.blocked(x, y + 1) ||
+           this.platforms.some(platform => platform.isJumpThrough() && intersects(feet, platform))
+  }
+
+  private blocked(x: number, y: number): boolean {
+    const box = { x, y, width: this.profile.width, height: this.profile.height }
+    return this.platforms.some(platform => !platform.isJumpThrough() && intersects(box, platform)) ||
+           this.polygons.some(polygon => polygonOverlapsBox(polygon, box))
+  }
+
+  private pointBlocked(x: number, y: number): boolean {
+    return this.platforms.some(platform => !platform.isJumpThrough() && platform.contains(x, y)) ||
+           this.polygons.some(polygon => polygon.contains(x, y))
+  }
+
+  private overlaps(body: Entity, box: AABB): boolean {
+    return intersects({ x: body.position.x, y: body.position.y, width: body.width, height: body.height }, box)
+  }
+
+  private trackClosest(body: Entity) {
+    const { goalBox } = this
+    const { x, y } = body.position
+    const dx = Math.max(goalBox.x - (x + body.width), x - (goalBox.x + goalBox.width), 0)
+    const dy = Math.max(goalBox.y - (y + body.height), y - (goalBox.y + goalBox.height), 0)
+    const distance = Math.hypot(dx, dy)
+    if (!this.closest || distance < this.closest.distance) {
+      this.closest = { position: { x, y }, distance }
+    }
+  }
+
+  private key(state: BodyState): string {
+    return `${Math.round(state.position.x / this.options.cellSize)}:${Math.round(state.position.y / 4)}`
+  }
+
+  private extend(parent: SearchNode, outcome: MoveOutcome, move: Move): SearchNode {
+    const from = parent.state.position
+    const to = outcome.trajectory[outcome.trajectory.length - 1] ?? from
+    return {
+      state: outcome.end ?? parent.state,
+      parent,
+      step: {
+        kind: move.kind === 'walk' && to.y - from.y > this.profile.height / 2 ? 'fall' : move.kind,
+        direction: move.direction,
+        run: move.run,
+        from: { ...from },
+        to: { ...to },
+        ticks: outcome.ticks,
+        jumpHoldTicks: move.jumpHoldTicks,
+        secondJumpTick: move.secondJumpTick,
+        inputs: outcome.inputs,
+        trajectory: outcome.trajectory
+      }
+    }
+  }
+
+  private success(node: SearchNode, explored: number): SolvabilityResult {
+    const path: PathStep[] = []
+    for (let current: SearchNode | null = node; current; current = current.parent) {
+      if (current.step) path.unshift(current.step)
+    }
+    return { solvable: true, path, explored }
+  }
+}
+
+function failure(reasonCode: SolvabilityReasonCode, reason: string, explored: number): SolvabilityResult {
+  return { solvable: false, path: [], reasonCode, reason, explored }
+}
+
+function intersects(a: AABB, b: AABB): boolean {
+  return a.x < b.x + b.width &&
+         a.x + a.width > b.x &&
+         a.y < b.y + b.height &&
+         a.y + a.height > b.y
+}
+
+function polygonOverlapsBox(polygon: Polygon, box: AABB): boolean {
+  const bounds = polygon.getBounds()
+  if (bounds.right <= box.x || bounds.left >= box.x + box.width ||
+      bounds.bottom <= box.y || bounds.top >= box.y + box.height) {
+    return false
+  }
+
+  // A polygon vertex inside the box
+  for (const [x, y] of polygon.contours) {
+    if (x > box.x && x < box.x + box.width && y > box.y && y < box.y + box.height) return true
+  }
+
+  // The box centre or a corner inside the polygon (shrunk slightly so touching edges don't count)
+  const inset = 0.5
+  const samples: Array<[number, number]> = [
+    [box.x + box.width / 2, box.y + box.height / 2],
+    [box.x + inset, box.y + inset],
+    [box.x + box.width - inset, box.y + inset],
+    [box.x + inset, box.y + box.height - inset],
+    [box.x + box.width - inset, box.y + box.height - inset]
+  ]
+  if (samples.some(([x, y]) => polygon.contains(x, y))) return true
+
+  // An edge crossing the box
+  return polygon.getSegments().some(segment => segmentCrossesBox(segment, box))
+}
+
+function segmentCrossesBox(segment: { x1: number; y1: number; x2: number; y2: number }, box: AABB): boolean {
+  // Liang-Barsky clipping against the box interior
+  const dx = segment.x2 - segment.x1
+  const dy = segment.y2 - segment.y1
+  let t0 = 0
+  let t1 = 1
+  const edges: Array<[number, number]> = [
+    [-dx, segment.x1 - box.x],
+    [dx, box.x + box.width - segment.x1],
+    [-dy, segment.y1 - box.y],
+    [dy, box.y + box.height - segment.y1]
+  ]
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q <= 0) return false
+      continue
+    }
+    const t = q / p
+    if (p < 0) {
+      if (t > t1) return false
+      t0 = Math.max(t0, t)
+    } else {
+      if (t < t0) return false
+      t1 = Math.min(t1, t)
+    }
+  }
+  return t1 - t0 > 1e-6
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function round(value: number): number {
+  return Math.round(value)
+}
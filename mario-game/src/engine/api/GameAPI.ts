@@ -1,6 +1,18 @@
 import { GameEngine } from '../GameEngine'
 import type { GameConfig } from '../GameEngine'
 import { LevelBuilder } from '../LevelBuilder'
+import type { HistoryListener } from '../history/CommandHistory'
+import type { GameEvents, GameEventName, GameEventListener } from '../events/GameEvents'
+import type { ReplayData } from '../replay/Replay'
+import type { LevelDocument } from '../level/LevelSchema'
+import type { BlockContents, PlatformPath } from '../level/Platform'
+import type { MaterialName } from '../physics/Materials'
+import type { BackgroundSetting } from '../render/Backgrounds'
+import type { EffectsQuality } from '../effects/Effects'
+import type { AudioBus } from '../audio/AudioManager'
+import { SolvabilityChecker, type SolvabilityOptions, type SolvabilityResult } from '../analysis/SolvabilityChecker'
+import { LevelGenerator, type GeneratorOptions, type GeneratedLevel } from '../generation/LevelGenerator'
+import { Player } from '../entities/Player'
 
 /**
  * GameAPI - Complete API interface for the Mario Game Engine
@@ -47,19 +59,31 @@ export class GameAPI {
 
   /**
    * Add a platform to the level
+   * @param material - Optional surface: 'ice', 'mud', 'bouncy', 'conveyor', 'conveyor_left', 'lava' or 'water'
    */
-  addPlatform(x: number, y: number, width: number, height: number, type = 'normal'): this {
-    this.builder.addPlatform(x, y, width, height, type)
-    this.log(`Platform added at (${x}, ${y}) size: ${width}x${height} type: ${type}`)
+  addPlatform(x: number, y: number, width: number, height: number, type = 'normal', material?: MaterialName): this {
+    this.builder.addPlatform(x, y, width, height, type, undefined, material)
+    this.log(`Platform added at (${x}, ${y}) size: ${width}x${height} type: ${type}${material ? ` material: ${material}` : ''}`)
+    return this
+  }
+
+  /**
+   * Add a lift that carries the player along a path
+   * @param path - { type: 'linear', dx, dy, period } or { type: 'circular', radius, period } (period in seconds)
+   */
+  addMovingPlatform(x: number, y: number, width: number, path: PlatformPath, height = 16): this {
+    this.builder.addMovingPlatform(x, y, width, path, height)
+    this.log(`Moving platform (${path.type}) added at (${x}, ${y})`)
     return this
   }
 
   /**
    * Add a polygon to the level
+   * @param material - Optional surface, as for addPlatform
    */
-  addPolygon(contours: number[][], type = 'polygon'): this {
-    this.builder.addPolygon(contours, type)
-    this.log(`Polygon added with ${contours.length} vertices`)
+  addPolygon(contours: number[][], type = 'polygon', material?: MaterialName): this {
+    this.builder.addPolygon(contours, type, material)
+    this.log(`Polygon added with ${contours.length} vertices${material ? ` material: ${material}` : ''}`)
     return this
   }
 
@@ -112,6 +136,44 @@ export class GameAPI {
     return this
   }
 
+  /**
+   * Add a checkpoint flag - once reached, the player respawns there
+   */
+  addCheckpoint(x: number, y: number): this {
+    this.builder.addCheckpoint(x, y)
+    this.log(`Checkpoint added at (${x}, ${y})`)
+    return this
+  }
+
+  /**
+   * Set the background: a preset ('sky', 'underground', 'castle', 'night') or { layers: [...] }
+   * with parallax layers of colors, sprites or images
+   */
+  setBackground(background: BackgroundSetting): this {
+    this.builder.setBackground(background)
+    this.log(`Background set to ${typeof background === 'string' ? background : `${background.layers.length} custom layers`}`)
+    return this
+  }
+
+  /**
+   * Set the level's music: a built-in track ('overworld', 'underground', 'sky', 'castle', 'night'),
+   * an audio file URL, null for silence, or undefined to follow the background
+   */
+  setMusic(music: string | null | undefined): this {
+    this.builder.setMusic(music)
+    this.log(`Music set to ${music === undefined ? 'follow the background' : music ?? 'none'}`)
+    return this
+  }
+
+  /**
+   * Show an image - usually the drawing the level was traced from - behind the level, lined up with it
+   */
+  setBackdrop(image: string, opacity = 0.5): this {
+    this.builder.setBackdrop(image, opacity)
+    this.log(`Backdrop image set (opacity ${opacity})`)
+    return this
+  }
+
   /**
    * Add a goal star at the specified coordinates (victory condition)
    */
@@ -141,10 +203,12 @@ export class GameAPI {
 
   /**
    * Add a block
+   * @param type - 'brick', 'question' or 'hidden' (invisible until hit from below)
+   * @param contents - What hitting it releases: 'coin', 'mushroom', 'flower', 'star' or '1up'
    */
-  addBlock(x: number, y: number, type = 'brick'): this {
-    this.builder.addBlock(x, y, type)
-    this.log(`Block (${type}) added at (${x}, ${y})`)
+  addBlock(x: number, y: number, type = 'brick', contents?: BlockContents): this {
+    this.builder.addBlock(x, y, type, contents)
+    this.log(`Block (${type}${contents ? `, ${contents}` : ''}) added at (${x}, ${y})`)
     return this
   }
 
@@ -187,11 +251,13 @@ export class GameAPI {
    * Generate multiple platforms
    */
   generatePlatforms(count: number, startX: number, startY: number, spacingX: number, spacingY: number): this {
-    for (let i = 0; i < count; i++) {
-      const x = startX + i * spacingX
-      const y = startY + (Math.sin(i) * spacingY)
-      this.addPlatform(x, y, 80, 20)
-    }
+    this.builder.transaction('generatePlatforms', () => {
+      for (let i = 0; i < count; i++) {
+        const x = startX + i * spacingX
+        const y = startY + (Math.sin(i) * spacingY)
+        this.addPlatform(x, y, 80, 20)
+      }
+    })
     this.log(`Generated ${count} platforms`)
     return this
   }
@@ -200,11 +266,7 @@ export class GameAPI {
    * Generate enemies
    */
   generateEnemies(count: number, startX: number, endX: number, y: number): this {
-    for (let i = 0; i < count; i++) {
-      const x = startX + Math.random() * (endX - startX)
-      const type = Math.random() > 0.5 ? 'goomba' : 'koopa'
-      this.addEnemy(x, y, type)
-    }
+    this.builder.generateEnemies(count, startX, endX, y)
     this.log(`Generated ${count} enemies`)
     return this
   }
@@ -220,6 +282,17 @@ export class GameAPI {
     return this
   }
 
+  /**
+   * Replace the current level with a level document and build it
+   */
+  loadLevel(level: LevelDocument): this {
+    this.builder.loadDocument(level)
+    this.builder.build()
+    this.engine.setLevelData(this.builder.levelData)
+    this.log(`Level loaded (${level.polygons.length + level.platforms.length} platforms, ${level.coins.length} coins, ${level.enemies.length} enemies)`)
+    return this
+  }
+
   /**
    * Clear the current level
    */
@@ -256,6 +329,15 @@ export class GameAPI {
     return json
   }
 
+  /**
+   * Check that the built level can be finished, with a witness path if it can
+   */
+  checkSolvability(options?: SolvabilityOptions): SolvabilityResult {
+    const result = this.engine.checkSolvability(options)
+    this.log(SolvabilityChecker.describe(result))
+    return result
+  }
+
   /**
    * Generate level from AI/image recognition data
    */
@@ -265,6 +347,52 @@ export class GameAPI {
     return this
   }
 
+  // ==================== HISTORY ====================
+
+  /**
+   * Undo the last level change - a whole generator, preset or transaction counts as one.
+   * Call buildLevel() to see the result.
+   */
+  undo(): this {
+    this.log(this.builder.undo() ? 'Undid last level change' : 'Nothing to undo')
+    return this
+  }
+
+  /**
+   * Redo the last undone level change
+   */
+  redo(): this {
+    this.log(this.builder.redo() ? 'Redid level change' : 'Nothing to redo')
+    return this
+  }
+
+  canUndo(): boolean {
+    return this.builder.canUndo()
+  }
+
+  canRedo(): boolean {
+    return this.builder.canRedo()
+  }
+
+  /**
+   * Apply several changes as one undoable step - if `body` throws they are all reverted
+   * @example
+   * api.transaction('towers', api => api.addPlatformStairs(400, 500, 4).addPipe(600, 400))
+   */
+  transaction(name: string, body: (api: this) => void): this {
+    this.builder.transaction(name, () => body(this))
+    this.log(`Transaction "${name}" applied`)
+    return this
+  }
+
+  /**
+   * Subscribe to level changes, including undo and redo
+   * @returns a function that removes the listener
+   */
+  onLevelChange(listener: HistoryListener): () => void {
+    return this.builder.onChange(listener)
+  }
+
   // ==================== GAME CONTROL ====================
 
   /**
@@ -285,6 +413,19 @@ export class GameAPI {
     return this
   }
 
+  /**
+   * Pause or resume explicitly (pauseGame toggles)
+   */
+  setPaused(paused: boolean): this {
+    this.engine.setPaused(paused)
+    this.log(paused ? 'Game paused' : 'Game resumed')
+    return this
+  }
+
+  isPaused(): boolean {
+    return this.engine.isPaused()
+  }
+
   /**
    * Reset the game
    */
@@ -294,6 +435,148 @@ export class GameAPI {
     return this
   }
 
+  /**
+   * After a game over: refill lives and carry on from the last checkpoint
+   */
+  continueGame(): this {
+    this.engine.continueGame()
+    this.log('Game continued')
+    return this
+  }
+
+  isGameOver(): boolean {
+    return this.engine.isGameOver()
+  }
+
+  /**
+   * Lives per run (null = unlimited)
+   */
+  setLives(lives: number | null): this {
+    this.engine.setLives(lives)
+    this.log(`Lives set to ${lives ?? 'unlimited'}`)
+    return this
+  }
+
+  /**
+   * Lives left, or null when unlimited
+   */
+  getLives(): number | null {
+    return this.engine.getLives()
+  }
+
+  /**
+   * Particle effect detail: 'high', 'low', 'off', or 'auto' to pick from the device
+   */
+  setEffectsQuality(quality: EffectsQuality | 'auto'): this {
+    this.engine.setEffectsQuality(quality)
+    this.log(`Effects quality set to ${this.engine.getEffectsQuality()}`)
+    return this
+  }
+
+  getEffectsQuality(): EffectsQuality {
+    return this.engine.getEffectsQuality()
+  }
+
+  // ==================== SOUND ====================
+
+  /**
+   * Volume of the 'master', 'music', 'sfx' or 'voice' bus (0-1), remembered between visits
+   */
+  setVolume(bus: AudioBus, volume: number): this {
+    this.engine.getAudio()?.setVolume(bus, volume)
+    this.log(`${bus} volume set to ${volume}`)
+    return this
+  }
+
+  getVolume(bus: AudioBus): number {
+    return this.engine.getAudio()?.getVolume(bus) ?? 0
+  }
+
+  setMuted(muted: boolean): this {
+    this.engine.getAudio()?.setMuted(muted)
+    this.log(muted ? 'Sound muted' : 'Sound unmuted')
+    return this
+  }
+
+  isMuted(): boolean {
+    return this.engine.getAudio()?.isMuted() ?? true
+  }
+
+  // ==================== REPLAYS ====================
+
+  /**
+   * Watch a recorded run on the current level
+   */
+  async playReplay(replay: ReplayData): Promise<this> {
+    if (await this.engine.playReplay(replay)) {
+      this.log(`Replay started (${replay.totalTicks} ticks)`)
+    }
+    return this
+  }
+
+  /**
+   * Stop watching a replay and return to live play
+   */
+  stopReplay(): this {
+    this.engine.stopReplay()
+    this.log('Replay stopped')
+    return this
+  }
+
+  /**
+   * Get the replay of the last completed run
+   */
+  getLastReplay(): ReplayData | null {
+    return this.engine.getLastReplay()
+  }
+
+  /**
+   * Race against a translucent ghost of a recorded run (null removes it)
+   */
+  setGhost(replay: ReplayData | null, label?: string): this {
+    const loaded = this.engine.setGhost(replay, label)
+    this.log(loaded ? 'Ghost racer enabled' : 'Ghost racer disabled')
+    return this
+  }
+
+  /**
+   * Load a ghost of the personal best or the leaderboard's top run for the current level
+   */
+  async loadGhost(source: 'personal-best' | 'leaderboard'): Promise<boolean> {
+    const loaded = await this.engine.loadGhost(source)
+    this.log(loaded ? `Ghost loaded from ${source}` : `No ${source} ghost available`)
+    return loaded
+  }
+
+  // ==================== EVENTS ====================
+
+  /**
+   * Subscribe to a gameplay event (coinCollected, enemyStomped, powerUpGained, blockHit, playerHit,
+   * death, respawn, playerLanded, checkpoint, lifeGained, gameOver, levelStart, pause, resume, victory)
+   * @returns a function that removes the listener
+   * @example
+   * const off = api.on('victory', ({ completionTime, deaths }) => submitScore(completionTime, deaths))
+   */
+  on<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+    return this.engine.getEvents().on(event, listener)
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+    return this.engine.getEvents().once(event, listener)
+  }
+
+  off<K extends GameEventName>(event: K, listener: GameEventListener<K>): this {
+    this.engine.getEvents().off(event, listener)
+    return this
+  }
+
+  getEvents(): GameEvents {
+    return this.engine.getEvents()
+  }
+
   // ==================== GETTERS ====================
 
   /**
@@ -358,13 +641,39 @@ export class GameAPI {
     return this
   }
 
+  // ==================== PROCEDURAL GENERATION ====================
+
+  /**
+   * Generate and build a level from a seed - the same seed always gives the same level,
+   * and every jump is checked against this game's physics
+   * @example
+   * api.generateLevel({ seed: 'speedrun-7', biome: 'sky', length: 4000, difficulty: [0.3, 0.9] })
+   */
+  generateLevel(options: GeneratorOptions): GeneratedLevel {
+    const result = LevelGenerator.generate(this.builder, {
+      profile: SolvabilityChecker.createProfile(new Player(0, 0), this.engine.getPhysicsEngine()),
+      ...options
+    })
+    this.buildLevel()
+    this.log(`Generated ${result.biome} level from seed "${result.seed}" (${result.sections.length} sections, ${result.attempts} attempt(s))`)
+    return result
+  }
+
+  /**
+   * Today's daily challenge - the same level for every player on the same UTC day
+   */
+  generateDailyLevel(options: Omit<GeneratorOptions, 'seed'> = {}): GeneratedLevel {
+    return this.generateLevel({ ...options, seed: LevelGenerator.dailySeed() })
+  }
+
   // ==================== PRESET LEVELS ====================
 
   /**
    * Load classic level
    */
   loadClassicLevel(): this {
-    return this.clearLevel()
+    return this.transaction('loadClassicLevel', api => api
+      .clearLevel()
       .generateGround(0, 3000, 500)
       .addPlatform(300, 400, 100, 20)
       .addPlatform(500, 350, 100, 20)
@@ -382,14 +691,16 @@ export class GameAPI {
       .addPowerUp(1400, 250, 'flower')
       .addPowerUp(1800, 200, 'star')
       .setPlayerStart(100, 400)
-      .buildLevel()
+    ).buildLevel()
   }
 
   /**
    * Load underground level
    */
   loadUndergroundLevel(): this {
-    return this.clearLevel()
+    return this.transaction('loadUndergroundLevel', api => api
+      .clearLevel()
+      .setBackground('underground')
       .addPlatform(0, 550, 3000, 50, 'underground')
       .addPlatform(0, 0, 3000, 100, 'underground')
       .addPipe(100, 450)
@@ -400,14 +711,15 @@ export class GameAPI {
       .addPowerUp(1750, 400, 'star')
       .addPipe(2600, 450)
       .setPlayerStart(200, 450)
-      .buildLevel()
+    ).buildLevel()
   }
 
   /**
    * Load sky level
    */
   loadSkyLevel(): this {
-    return this.clearLevel()
+    return this.transaction('loadSkyLevel', api => api
+      .clearLevel()
       .addPlatform(0, 550, 200, 50, 'platform')
       .addPlatform(2800, 550, 200, 50, 'platform')
       .generatePlatforms(20, 200, 400, 130, 100)
@@ -417,59 +729,61 @@ export class GameAPI {
       .addPowerUp(800, 200, 'star')
       .addPowerUp(1600, 200, 'flower')
       .setPlayerStart(50, 450)
-      .buildLevel()
+    ).buildLevel()
   }
 
   /**
    * Generate a random level
    */
   generateRandomLevel(): this {
-    this.clearLevel()
-
-    // Ground
-    this.generateGround(0, 3000, 500)
-
-    // Random platforms
-    const platformCount = 8 + Math.floor(Math.random() * 7)
-    for (let i = 0; i < platformCount; i++) {
-      const x = 200 + Math.random() * 2600
-      const y = 200 + Math.random() * 200
-      const width = 60 + Math.random() * 60
-      this.addPlatform(x, y, width, 20, 'platform')
-    }
+    this.builder.transaction('generateRandomLevel', () => {
+      this.clearLevel()
+
+      // Ground
+      this.generateGround(0, 3000, 500)
+
+      // Random platforms
+      const platformCount = 8 + Math.floor(Math.random() * 7)
+      for (let i = 0; i < platformCount; i++) {
+        const x = 200 + Math.random() * 2600
+        const y = 200 + Math.random() * 200
+        const width = 60 + Math.random() * 60
+        this.addPlatform(x, y, width, 20, 'platform')
+      }
 
-    // Random coins
-    const coinGroups = 3 + Math.floor(Math.random() * 4)
-    for (let i = 0; i < coinGroups; i++) {
-      const x = 200 + Math.random() * 2600
-      const y = 150 + Math.random() * 200
-      const count = 3 + Math.floor(Math.random() * 5)
-      this.addCoinRow(x, y, count)
-    }
+      // Random coins
+      const coinGroups = 3 + Math.floor(Math.random() * 4)
+      for (let i = 0; i < coinGroups; i++) {
+        const x = 200 + Math.random() * 2600
+        const y = 150 + Math.random() * 200
+        const count = 3 + Math.floor(Math.random() * 5)
+        this.addCoinRow(x, y, count)
+      }
 
-    // Random enemies
-    const enemyCount = 4 + Math.floor(Math.random() * 6)
-    this.generateEnemies(enemyCount, 300, 2700, 450)
-
-    // Random power-ups
-    const powerUpCount = 2 + Math.floor(Math.random() * 2)
-    const powerUpTypes = ['mushroom', 'flower', 'star']
-    for (let i = 0; i < powerUpCount; i++) {
-      const x = 400 + Math.random() * 2200
-      const y = 200 + Math.random() * 150
-      const type = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)]
-      this.addPowerUp(x, y, type)
-    }
+      // Random enemies
+      const enemyCount = 4 + Math.floor(Math.random() * 6)
+      this.generateEnemies(enemyCount, 300, 2700, 450)
+
+      // Random power-ups
+      const powerUpCount = 2 + Math.floor(Math.random() * 2)
+      const powerUpTypes = ['mushroom', 'flower', 'star']
+      for (let i = 0; i < powerUpCount; i++) {
+        const x = 400 + Math.random() * 2200
+        const y = 200 + Math.random() * 150
+        const type = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)]
+        this.addPowerUp(x, y, type)
+      }
 
-    // Random pipes
-    const pipeCount = 2 + Math.floor(Math.random() * 3)
-    for (let i = 0; i < pipeCount; i++) {
-      const x = 500 + Math.random() * 2000
-      const height = 100 + Math.random() * 100
-      this.addPipe(x, 500 - height, height)
-    }
+      // Random pipes
+      const pipeCount = 2 + Math.floor(Math.random() * 3)
+      for (let i = 0; i < pipeCount; i++) {
+        const x = 500 + Math.random() * 2000
+        const height = 100 + Math.random() * 100
+        this.addPipe(x, 500 - height, height)
+      }
 
-    this.setPlayerStart(100, 400)
+      this.setPlayerStart(100, 400)
+    })
     this.buildLevel()
 
     this.log('Random level generated')
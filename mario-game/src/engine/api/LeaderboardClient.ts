@@ -3,6 +3,8 @@
  * 提供与后端排行榜API的交互功能
  */
 
+import { type ReplayData } from '../replay/Replay'
+
 export interface Player {
   id: number
   nickname: string
@@ -20,6 +22,7 @@ export interface ScoreSubmission {
   deaths_count?: number
   coins_collected?: number
   attempts_count?: number
+  replay?: ReplayData  // 输入回放，用于校验可疑成绩和观看最佳记录
 }
 
 export interface LeaderboardEntry {
@@ -43,6 +46,7 @@ export interface LeaderboardEntry {
     coins_collected: number
     is_perfect_run: boolean
   }
+  has_replay?: boolean
   played_at: string
 }
 
@@ -129,6 +133,10 @@ export class LeaderboardClient {
     this.baseUrl = baseUrl || import.meta.env.VITE_BACKEND_URL || 'https://25hackmit--hackmit25-backend.modal.run'
   }
 
+  getBaseUrl(): string {
+    return this.baseUrl
+  }
+
   // ============================================================================
   // 玩家管理
   // ============================================================================
@@ -220,6 +228,30 @@ export class LeaderboardClient {
     }
   }
 
+  /**
+   * 获取成绩记录的输入回放
+   */
+  async getReplay(recordId: number): Promise<ReplayData | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/leaderboard/scores/${recordId}/replay`)
+
+      if (response.status === 404) {
+        return null
+      }
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.detail || '获取回放失败')
+      }
+
+      const result = await response.json()
+      return result.replay ?? null
+    } catch (error) {
+      console.error('获取回放失败:', error)
+      throw error
+    }
+  }
+
   // ============================================================================
   // 排行榜查询
   // ============================================================================
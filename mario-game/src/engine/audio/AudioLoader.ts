@@ -0,0 +1,98 @@
+/**
+ * Loads and decodes sound files, the audio counterpart of SpriteLoader. Named sounds replace
+ * the built-in sound of the same name (see SOUNDS); music files are loaded by URL.
+ *
+ * Decoding needs an audio context, which the AudioManager hands over when it's created -
+ * files requested before that are fetched right away and decoded once it's there.
+ */
+export class AudioLoader {
+  private static instance: AudioLoader
+  private sounds: Map<string, AudioBuffer> = new Map()
+  private loadedAudio: Map<string, AudioBuffer> = new Map()
+  private pendingAudio: Map<string, Promise<AudioBuffer>> = new Map()
+  private requestedAudio: Set<string> = new Set()
+  private context: Promise<BaseAudioContext>
+  private provideContext: (context: BaseAudioContext) => void = () => {}
+
+  private constructor() {
+    this.context = new Promise(resolve => {
+      this.provideContext = resolve
+    })
+  }
+
+  public static getInstance(): AudioLoader {
+    if (!AudioLoader.instance) {
+      AudioLoader.instance = new AudioLoader()
+    }
+    return AudioLoader.instance
+  }
+
+  /**
+   * The context files are decoded with - only the first one given is used
+   */
+  public setContext(context: BaseAudioContext) {
+    this.provideContext(context)
+  }
+
+  public async loadAudio(path: string): Promise<AudioBuffer> {
+    const loaded = this.loadedAudio.get(path)
+    if (loaded) return loaded
+
+    // Several sounds (or a sound and the music) can share a file - fetch it once
+    let pending = this.pendingAudio.get(path)
+    if (!pending) {
+      pending = this.fetchAudio(path)
+      this.pendingAudio.set(path, pending)
+    }
+    try {
+      const buffer = await pending
+      this.loadedAudio.set(path, buffer)
+      return buffer
+    } finally {
+      this.pendingAudio.delete(path)
+    }
+  }
+
+  /**
+   * The decoded file at `path` if it has loaded - otherwise starts loading it (once) and
+   * returns null, like SpriteLoader.requestImage
+   */
+  public requestAudio(path: string): AudioBuffer | null {
+    const buffer = this.loadedAudio.get(path)
+    if (buffer) return buffer
+    if (!this.requestedAudio.has(path)) {
+      this.requestedAudio.add(path)
+      this.loadAudio(path).catch(() => {}) // fetchAudio already logged it, and it isn't retried
+    }
+    return null
+  }
+
+  public async loadSound(name: string, path: string): Promise<void> {
+    try {
+      this.sounds.set(name, await this.loadAudio(path))
+    } catch (error) {
+      console.warn(`🚨 Failed to load sound '${name}' from '${path}':`, error)
+      // Don't throw - the built-in sound plays instead
+    }
+  }
+
+  public getSound(name: string): AudioBuffer | null {
+    return this.sounds.get(name) || null
+  }
+
+  private async fetchAudio(path: string): Promise<AudioBuffer> {
+    try {
+      const response = await fetch(path)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      const data = await response.arrayBuffer()
+      const buffer = await (await this.context).decodeAudioData(data)
+      console.log(`✅ Loaded audio: ${path}`)
+      return buffer
+    } catch (error) {
+      console.error(`❌ Failed to load audio: ${path}`, error)
+      throw new Error(`Failed to load audio: ${path}`)
+    }
+  }
+}
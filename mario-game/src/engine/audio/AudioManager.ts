@@ -0,0 +1,371 @@
+import { AudioLoader } from './AudioLoader'
+import { SONGS, SOUNDS, isMusicTrack, noteFrequency, type MusicTrack, type SoundName, type Tone } from './Sounds'
+import { type TextToSpeechManager } from '../ui/TextToSpeechManager'
+
+export type AudioBus = 'master' | 'music' | 'sfx' | 'voice'
+
+interface AudioSettings {
+  muted: boolean
+  volumes: Record<AudioBus, number>
+}
+
+// A song voice as it's played: at each step either a note starting (and how many steps it lasts) or nothing new
+interface SongVoice {
+  wave: OscillatorType
+  volume: number
+  steps: Array<{ frequency: number; length: number } | null>
+}
+
+const SETTINGS_KEY = 'mario_audio_settings'
+const DEFAULT_VOLUMES: Record<AudioBus, number> = { master: 0.8, music: 0.5, sfx: 0.8, voice: 1 }
+const DUCK_LEVEL = 0.3 // share of the music volume left while the narrator speaks
+const SCHEDULE_AHEAD = 0.1 // seconds of music queued up at a time
+const SCHEDULER_INTERVAL = 25 // ms
+const MAX_LAG = 0.2 // seconds the music may fall behind (a throttled background tab) before skipping ahead
+const UNLOCK_EVENTS = ['pointerdown', 'touchend', 'keydown']
+
+/**
+ * AudioManager - sound effects, music and the narrator's volume, through Web Audio
+ *
+ * Everything plays through a master gain and one gain per bus: music and sound effects are
+ * Web Audio nodes, the voice bus sets the text-to-speech volume (speech synthesis can't be
+ * routed through Web Audio) and ducks the music while it talks. Mute and the volumes are
+ * saved in localStorage.
+ *
+ * Browsers - mobile ones especially - keep audio locked until the player touches or presses
+ * something, so the first interaction unlocks it. Until then sound effects are dropped and
+ * the music waits.
+ *
+ * Sounds and music are synthesized (see Sounds.ts) unless files were loaded with AudioLoader.
+ */
+export class AudioManager {
+  private context: AudioContext
+  private master: GainNode
+  private musicBus: GainNode
+  private sfxBus: GainNode
+  private loader = AudioLoader.getInstance()
+  private settings: AudioSettings
+  private voice: TextToSpeechManager | null = null
+  private ducked = false
+
+  private music: string | null = null // built-in track or file URL, while playing or paused
+  private musicPaused = false
+  // Built-in tracks are scheduled a little ahead, step by step
+  private songs = new Map<MusicTrack, SongVoice[]>()
+  private songVoices: SongVoice[] = []
+  private stepDuration = 0
+  private step = 0
+  private nextStepTime = 0
+  private scheduler: number | null = null
+  // Files loop in a buffer source
+  private musicSource: AudioBufferSourceNode | null = null
+  private musicStartedAt = 0
+  private musicOffset = 0
+
+  /**
+   * An AudioManager, or null where Web Audio isn't available
+   */
+  public static create(): AudioManager | null {
+    const AudioContextClass = typeof window === 'undefined'
+      ? undefined
+      : window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    if (!AudioContextClass) {
+      console.warn('⚠️ Web Audio is not available, the game will be silent')
+      return null
+    }
+    try {
+      return new AudioManager(new AudioContextClass())
+    } catch (error) {
+      console.warn('⚠️ Failed to start Web Audio, the game will be silent:', error)
+      return null
+    }
+  }
+
+  private constructor(context: AudioContext) {
+    this.context = context
+    this.master = context.createGain()
+    this.master.connect(context.destination)
+    this.musicBus = context.createGain()
+    this.musicBus.connect(this.master)
+    this.sfxBus = context.createGain()
+    this.sfxBus.connect(this.master)
+    this.loader.setContext(context)
+
+    this.settings = loadSettings()
+    this.applyVolumes()
+    this.listenForUnlock()
+  }
+
+  /**
+   * Whether the browser lets sound out yet - false until the first touch, click or key press
+   */
+  public isUnlocked(): boolean {
+    return this.context.state === 'running'
+  }
+
+  public play(sound: SoundName) {
+    // Locked: don't let every sound of the run so far go off at the first tap
+    if (!this.isUnlocked()) return
+
+    const buffer = this.loader.getSound(sound)
+    if (buffer) {
+      const source = this.context.createBufferSource()
+      source.buffer = buffer
+      source.connect(this.sfxBus)
+      source.start()
+      return
+    }
+    const now = this.context.currentTime
+    SOUNDS[sound].forEach(tone => this.playTone(tone, now, this.sfxBus))
+  }
+
+  /**
+   * Loop a built-in track ('overworld', 'underground', 'sky', 'castle', 'night') or an audio
+   * file, from the start - null stops the music
+   */
+  public playMusic(music: string | null) {
+    this.stopMusic()
+    this.music = music
+    if (!music) return
+    if (isMusicTrack(music)) {
+      this.startSong(music, 0)
+    } else {
+      this.startFile(music, 0)
+    }
+  }
+
+  public stopMusic() {
+    this.stopPlayback()
+    this.music = null
+    this.musicPaused = false
+    this.musicOffset = 0
+  }
+
+  public pauseMusic() {
+    if (!this.music || this.musicPaused) return
+    if (this.musicSource) {
+      this.musicOffset = this.context.currentTime - this.musicStartedAt
+    }
+    this.stopPlayback()
+    this.musicPaused = true
+  }
+
+  /**
+   * Carry on from where pauseMusic() left off
+   */
+  public resumeMusic() {
+    if (!this.music || !this.musicPaused) return
+    this.musicPaused = false
+    if (isMusicTrack(this.music)) {
+      this.startSong(this.music, this.step)
+    } else {
+      this.startFile(this.music, this.musicOffset)
+    }
+  }
+
+  public getMusic(): string | null {
+    return this.music
+  }
+
+  /**
+   * @param volume - 0-1
+   */
+  public setVolume(bus: AudioBus, volume: number) {
+    this.settings.volumes[bus] = Math.max(0, Math.min(1, volume))
+    this.applyVolumes()
+    saveSettings(this.settings)
+  }
+
+  public getVolume(bus: AudioBus): number {
+    return this.settings.volumes[bus]
+  }
+
+  /**
+   * Silence everything, narrator included - remembered across sessions
+   */
+  public setMuted(muted: boolean) {
+    this.settings.muted = muted
+    this.applyVolumes()
+    saveSettings(this.settings)
+    console.log(muted ? '🔇 Audio muted' : '🔊 Audio unmuted')
+  }
+
+  public isMuted(): boolean {
+    return this.settings.muted
+  }
+
+  /**
+   * @returns whether audio is muted now
+   */
+  public toggleMute(): boolean {
+    this.setMuted(!this.settings.muted)
+    return this.settings.muted
+  }
+
+  /**
+   * Put the narrator on the voice bus: its volume follows the bus, and the music ducks while it talks
+   */
+  public attachVoice(voice: TextToSpeechManager) {
+    this.voice = voice
+    voice.onSpeakingChange(speaking => {
+      this.ducked = speaking
+      this.applyVolumes()
+    })
+    this.applyVolumes()
+  }
+
+  private applyVolumes() {
+    const { muted, volumes } = this.settings
+    const now = this.context.currentTime
+    this.master.gain.setTargetAtTime(muted ? 0 : volumes.master, now, 0.02)
+    this.sfxBus.gain.setTargetAtTime(volumes.sfx, now, 0.02)
+    // Duck quickly, come back up gently
+    this.musicBus.gain.setTargetAtTime(volumes.music * (this.ducked ? DUCK_LEVEL : 1), now, this.ducked ? 0.1 : 0.4)
+    this.voice?.setVolume(muted ? 0 : volumes.master * volumes.voice)
+  }
+
+  private listenForUnlock() {
+    if (this.isUnlocked()) return
+
+    const unlock = () => {
+      // iOS only opens up once something has started playing inside the gesture itself
+      const source = this.context.createBufferSource()
+      source.buffer = this.context.createBuffer(1, 1, this.context.sampleRate)
+      source.connect(this.context.destination)
+      source.start()
+      this.context.resume().then(() => {
+        if (!this.isUnlocked()) return
+        UNLOCK_EVENTS.forEach(event => window.removeEventListener(event, unlock, true))
+        console.log('🔊 Audio unlocked')
+      }).catch(error => {
+        console.warn('⚠️ Failed to unlock audio:', error)
+      })
+    }
+    UNLOCK_EVENTS.forEach(event => window.addEventListener(event, unlock, true))
+  }
+
+  private startSong(track: MusicTrack, step: number) {
+    let voices = this.songs.get(track)
+    if (!voices) {
+      voices = SONGS[track].voices.map(voice => ({ wave: voice.wave, volume: voice.volume, steps: parseNotes(voice.notes) }))
+      this.songs.set(track, voices)
+    }
+    this.songVoices = voices
+    this.stepDuration = 60 / SONGS[track].tempo / 2 // eighth notes
+    this.step = step
+    this.nextStepTime = this.context.currentTime + 0.05
+    this.scheduleSong()
+    this.scheduler = window.setInterval(() => this.scheduleSong(), SCHEDULER_INTERVAL)
+  }
+
+  // Queue every step that starts within the next SCHEDULE_AHEAD seconds. While audio is locked
+  // its clock stands still, so nothing piles up
+  private scheduleSong() {
+    const now = this.context.currentTime
+    if (this.nextStepTime < now - MAX_LAG) {
+      this.nextStepTime = now
+    }
+    const length = Math.max(...this.songVoices.map(voice => voice.steps.length))
+    while (this.nextStepTime < now + SCHEDULE_AHEAD) {
+      this.songVoices.forEach(voice => {
+        const note = voice.steps[this.step % voice.steps.length]
+        if (!note) return
+        this.playTone(
+          { wave: voice.wave, frequency: note.frequency, start: 0, duration: note.length * this.stepDuration * 0.95, volume: voice.volume },
+          this.nextStepTime,
+          this.musicBus
+        )
+      })
+      this.step = (this.step + 1) % length
+      this.nextStepTime += this.stepDuration
+    }
+  }
+
+  private startFile(url: string, offset: number) {
+    this.loader.loadAudio(url).then(buffer => {
+      // Something else may be playing by the time it has loaded
+      if (this.music !== url || this.musicPaused || this.musicSource) return
+      const source = this.context.createBufferSource()
+      source.buffer = buffer
+      source.loop = true
+      source.connect(this.musicBus)
+      const start = offset % buffer.duration
+      source.start(0, start)
+      this.musicSource = source
+      this.musicStartedAt = this.context.currentTime - start
+    }).catch(() => {}) // AudioLoader logged it - the level just plays without music
+  }
+
+  private stopPlayback() {
+    if (this.scheduler !== null) {
+      window.clearInterval(this.scheduler)
+      this.scheduler = null
+    }
+    if (this.musicSource) {
+      this.musicSource.stop()
+      this.musicSource.disconnect()
+      this.musicSource = null
+    }
+  }
+
+  private playTone(tone: Tone, time: number, output: AudioNode) {
+    const start = time + tone.start
+    const end = start + tone.duration
+    const volume = tone.volume ?? 0.5
+
+    const oscillator = this.context.createOscillator()
+    oscillator.type = tone.wave
+    oscillator.frequency.setValueAtTime(noteFrequency(tone.frequency), start)
+    if (tone.to !== undefined) {
+      oscillator.frequency.exponentialRampToValueAtTime(noteFrequency(tone.to), end)
+    }
+
+    // Short attack, then die away - no clicks at either end
+    const gain = this.context.createGain()
+    gain.gain.setValueAtTime(0, start)
+    gain.gain.linearRampToValueAtTime(volume, start + 0.005)
+    gain.gain.exponentialRampToValueAtTime(0.001, end)
+
+    oscillator.connect(gain)
+    gain.connect(output)
+    oscillator.start(start)
+    oscillator.stop(end + 0.02)
+  }
+}
+
+function parseNotes(notes: string): SongVoice['steps'] {
+  const tokens = notes.trim().split(/\s+/)
+  return tokens.map((token, i) => {
+    if (token === '-' || token === '.') return null
+    let length = 1
+    while (tokens[i + length] === '-') length++
+    return { frequency: noteFrequency(token), length }
+  })
+}
+
+function loadSettings(): AudioSettings {
+  const settings: AudioSettings = { muted: false, volumes: { ...DEFAULT_VOLUMES } }
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null')
+    if (stored && typeof stored === 'object') {
+      settings.muted = stored.muted === true
+      Object.keys(DEFAULT_VOLUMES).forEach(bus => {
+        const volume = stored.volumes?.[bus]
+        if (typeof volume === 'number' && volume >= 0 && volume <= 1) {
+          settings.volumes[bus as AudioBus] = volume
+        }
+      })
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to read audio settings:', error)
+  }
+  return settings
+}
+
+function saveSettings(settings: AudioSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.warn('⚠️ Failed to save audio settings:', error)
+  }
+}
@@ -0,0 +1,155 @@
+import { type BackgroundPreset, type BackgroundSetting } from '../render/Backgrounds'
+
+export type SoundName = 'jump' | 'coin' | 'stomp' | 'powerUp' | 'hit' | 'death' | 'victory'
+
+export const SOUND_NAMES: SoundName[] = ['jump', 'coin', 'stomp', 'powerUp', 'hit', 'death', 'victory']
+
+export type MusicTrack = 'overworld' | 'underground' | 'sky' | 'castle' | 'night'
+
+export const MUSIC_TRACKS: MusicTrack[] = ['overworld', 'underground', 'sky', 'castle', 'night']
+
+/**
+ * A level's audio settings, as saved in the level JSON
+ */
+export interface LevelAudio {
+  music?: string | null // a built-in track or an audio file URL, null for silence - follows the background when omitted
+}
+
+/**
+ * One synthesized note of a sound effect. Frequencies are Hz or note names ('C5', 'F#4'),
+ * times seconds from the start of the sound.
+ */
+export interface Tone {
+  wave: OscillatorType
+  frequency: number | string
+  to?: number | string // slide here over the tone's duration
+  start: number
+  duration: number
+  volume?: number // 0-1, default 0.5
+}
+
+/**
+ * A looping tune: each voice is a space-separated list of eighth notes - a note name starts a
+ * note, '-' holds the one before, '.' is a rest. Every voice should have the same length.
+ */
+export interface Song {
+  tempo: number // beats per minute
+  voices: Array<{ wave: OscillatorType; notes: string; volume: number }>
+}
+
+// Built-in sounds, used unless a sound of the same name was loaded with AudioLoader
+export const SOUNDS: Record<SoundName, Tone[]> = {
+  jump: [
+    { wave: 'square', frequency: 300, to: 620, start: 0, duration: 0.15, volume: 0.3 }
+  ],
+  coin: [
+    { wave: 'square', frequency: 'B5', start: 0, duration: 0.08, volume: 0.3 },
+    { wave: 'square', frequency: 'E6', start: 0.08, duration: 0.3, volume: 0.3 }
+  ],
+  stomp: [
+    { wave: 'triangle', frequency: 220, to: 60, start: 0, duration: 0.12, volume: 0.7 },
+    { wave: 'square', frequency: 120, to: 40, start: 0, duration: 0.08, volume: 0.2 }
+  ],
+  powerUp: [
+    { wave: 'square', frequency: 'C5', start: 0, duration: 0.07, volume: 0.3 },
+    { wave: 'square', frequency: 'E5', start: 0.07, duration: 0.07, volume: 0.3 },
+    { wave: 'square', frequency: 'G5', start: 0.14, duration: 0.07, volume: 0.3 },
+    { wave: 'square', frequency: 'C6', start: 0.21, duration: 0.07, volume: 0.3 },
+    { wave: 'square', frequency: 'E6', start: 0.28, duration: 0.07, volume: 0.3 },
+    { wave: 'square', frequency: 'G6', start: 0.35, duration: 0.2, volume: 0.3 }
+  ],
+  hit: [
+    { wave: 'sawtooth', frequency: 440, to: 110, start: 0, duration: 0.3, volume: 0.35 }
+  ],
+  death: [
+    { wave: 'square', frequency: 'B4', start: 0, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'F5', start: 0.15, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'F5', start: 0.3, duration: 0.1, volume: 0.3 },
+    { wave: 'square', frequency: 'E5', start: 0.42, duration: 0.1, volume: 0.3 },
+    { wave: 'triangle', frequency: 'D5', to: 'C3', start: 0.55, duration: 0.6, volume: 0.6 }
+  ],
+  victory: [
+    { wave: 'square', frequency: 'G4', start: 0, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'C5', start: 0.12, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'E5', start: 0.24, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'G5', start: 0.36, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'C6', start: 0.48, duration: 0.12, volume: 0.3 },
+    { wave: 'square', frequency: 'E6', start: 0.6, duration: 0.5, volume: 0.3 },
+    { wave: 'triangle', frequency: 'C4', start: 0.6, duration: 0.5, volume: 0.6 },
+    { wave: 'square', frequency: 'G6', start: 1.15, duration: 0.6, volume: 0.3 },
+    { wave: 'triangle', frequency: 'C3', start: 1.15, duration: 0.6, volume: 0.6 }
+  ]
+}
+
+// Built-in music, one track per biome
+export const SONGS: Record<MusicTrack, Song> = {
+  overworld: {
+    tempo: 150,
+    voices: [
+      { wave: 'square', volume: 0.12, notes: 'C5 - E5 G5 - E5 C5 - D5 - F5 A5 - F5 D5 - E5 - G5 C6 - G5 E5 - D5 E5 F5 D5 C5 - - .' },
+      { wave: 'triangle', volume: 0.3, notes: 'C3 . G3 . C3 . G3 . D3 . A3 . D3 . A3 . E3 . B3 . E3 . B3 . G2 . D3 . C3 . G2 .' }
+    ]
+  },
+  underground: {
+    tempo: 112,
+    voices: [
+      { wave: 'square', volume: 0.1, notes: 'A3 . . C4 . . A3 . E4 . D4 . C4 - - . F3 . . A3 . . F3 . E4 . D4 . B3 - - .' },
+      { wave: 'triangle', volume: 0.35, notes: 'A2 . A2 . A2 . A2 . A2 . A2 . A2 . A2 . F2 . F2 . F2 . F2 . E2 . E2 . E2 . E2 .' }
+    ]
+  },
+  sky: {
+    tempo: 126,
+    voices: [
+      { wave: 'triangle', volume: 0.3, notes: 'G4 A4 C5 - D5 - E5 - D5 C5 A4 - G4 - - . E4 G4 A4 - C5 - D5 - C5 A4 G4 - E4 - - .' },
+      { wave: 'sine', volume: 0.3, notes: 'C3 - - - G3 - - - A2 - - - E3 - - - F2 - - - C3 - - - G2 - - - C3 - - -' }
+    ]
+  },
+  castle: {
+    tempo: 100,
+    voices: [
+      { wave: 'sawtooth', volume: 0.06, notes: 'E4 - F4 - E4 - D#4 - E4 - - - B3 - - . C4 - D4 - C4 - B3 - A3 - - - - - - .' },
+      { wave: 'triangle', volume: 0.35, notes: 'E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 E2 A2 A2 A2 A2 A2 A2 A2 A2 B2 B2 B2 B2 B2 B2 B2 B2' }
+    ]
+  },
+  night: {
+    tempo: 84,
+    voices: [
+      { wave: 'triangle', volume: 0.3, notes: 'A4 - - C5 - - E5 - - - D5 - C5 - - . G4 - - B4 - - D5 - - - C5 - B4 - - .' },
+      { wave: 'sine', volume: 0.3, notes: 'A2 - - - E3 - - - A2 - - - E3 - - - G2 - - - D3 - - - G2 - - - E3 - - -' }
+    ]
+  }
+}
+
+const NOTE_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+const BACKGROUND_MUSIC: Record<BackgroundPreset, MusicTrack> = {
+  sky: 'overworld',
+  underground: 'underground',
+  castle: 'castle',
+  night: 'night'
+}
+
+export function isMusicTrack(name: string): name is MusicTrack {
+  return (MUSIC_TRACKS as string[]).includes(name)
+}
+
+/**
+ * What a level plays: its own choice if it made one, otherwise the track for its background
+ * preset (custom backgrounds get the overworld tune). Null means silence.
+ */
+export function resolveMusic(audio: LevelAudio, background: BackgroundSetting): string | null {
+  if (audio.music !== undefined) return audio.music
+  return typeof background === 'string' ? BACKGROUND_MUSIC[background] : 'overworld'
+}
+
+/**
+ * Hz for a note name like 'A4' or 'C#5' (or a number, passed through)
+ */
+export function noteFrequency(note: number | string): number {
+  if (typeof note === 'number') return note
+  const match = /^([A-G])(#?)(-?\d)$/.exec(note)
+  if (!match) throw new Error(`Invalid note: ${note}`)
+  const semitone = NOTE_SEMITONES[match[1]] + (match[2] ? 1 : 0)
+  const midi = (Number(match[3]) + 1) * 12 + semitone
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
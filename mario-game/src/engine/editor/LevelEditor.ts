@@ -0,0 +1,994 @@
+import { type GameAPI } from '../api/GameAPI'
+import { GameEngine } from '../GameEngine'
+import { LevelBuilder, type LevelData } from '../LevelBuilder'
+import { Level } from '../level/Level'
+import { type PlatformPath } from '../level/Platform'
+import { Renderer } from '../render/Renderer'
+import { Camera } from '../render/Camera'
+import { Entity } from '../entities/Entity'
+import { Coin } from '../entities/Coin'
+import { Enemy } from '../entities/Enemy'
+import { PowerUp } from '../entities/PowerUp'
+import { SolvabilityChecker, type SolvabilityResult } from '../analysis/SolvabilityChecker'
+import { type Vector2D } from '../physics/PhysicsEngine'
+import { type HistoryChange } from '../history/CommandHistory'
+
+export type EditorTool = 'select' | 'platform' | 'polygon' | 'enemy' | 'coin' | 'powerUp' | 'start' | 'goal'
+
+export type EditorItemKind = 'platform' | 'polygon' | 'enemy' | 'coin' | 'powerUp'
+
+export type EditorSelection =
+  | { kind: EditorItemKind; index: number }
+  | { kind: 'start' | 'goal' }
+
+export interface LevelEditorOptions {
+  gridSize?: number
+  snap?: boolean
+  onChange?: (editor: LevelEditor) => void // tool, selection, history or mode changed
+}
+
+type Corner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight'
+
+type DragState =
+  | { mode: 'move'; start: Vector2D; original: LevelData; moved: boolean }
+  | { mode: 'resize'; corner: Corner; original: LevelData; moved: boolean }
+  | { mode: 'vertex'; vertex: number; original: LevelData; moved: boolean }
+  | { mode: 'draw'; start: Vector2D; current: Vector2D }
+  | { mode: 'pan'; screenStart: Vector2D; cameraStart: Vector2D }
+
+// Keyboard shortcuts 1-8 pick tools in this order
+export const EDITOR_TOOLS: EditorTool[] = ['select', 'platform', 'polygon', 'enemy', 'coin', 'powerUp', 'start', 'goal']
+
+const MARKER_SIZE = 32 // start and goal are 32x32, like the player and the goal area
+const HANDLE_SIZE = 8
+const DEFAULT_BLOCK = { width: 64, height: 32 } // platform tool click without dragging
+const DEFAULT_LIFT_PATH: PlatformPath = { type: 'linear', dx: 128, dy: 0, period: 4 }
+const PAN_STEP = 64
+
+/**
+ * LevelEditor - interactive editing mode on top of LevelBuilder
+ *
+ * Edits go through the builder's command history (drags are committed on mouse-up)
+ * and the level is rebuilt after every change, so what is drawn is exactly what the
+ * game will load. Picking uses Level.getPlatformAt, getPolygonAt and getEntityAt;
+ * panning moves the engine's Camera.
+ *
+ * Mouse: click/drag with the current tool, drag empty space (or right-drag) to pan.
+ * Keys: 1-8 tools, G snap, Ctrl+Z / Ctrl+Shift+Z undo/redo, Delete, Esc, P play-test, arrows pan.
+ */
+export class LevelEditor {
+  private api: GameAPI
+  private engine: GameEngine
+  private builder: LevelBuilder
+  private canvas: HTMLCanvasElement
+  private ctx: CanvasRenderingContext2D
+  private renderer: Renderer
+  private camera: Camera
+  private level: Level
+  private onChange?: (editor: LevelEditor) => void
+
+  private tool: EditorTool = 'select'
+  private platformType = 'ground'
+  private enemyType = 'goomba'
+  private powerUpType = 'mushroom'
+  private gridSize: number
+  private snap: boolean
+
+  private selection: EditorSelection | null = null
+  private selectedVertex: number | null = null
+  private drag: DragState | null = null
+  private draftPolygon: number[][] = []
+  private pointer: Vector2D = { x: 0, y: 0 }
+
+  private solvability: SolvabilityResult | null = null
+
+  private playTesting = false
+  private editCamera: Vector2D = { x: 0, y: 0 }
+  private frameId: number | null = null
+  private destroyed = false
+  private unsubscribe: () => void
+
+  constructor(api: GameAPI, options: LevelEditorOptions = {}) {
+    this.api = api
+    this.engine = api.getEngine()
+    this.builder = api.getBuilder()
+    this.canvas = api.getCanvas()
+    const ctx = this.canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('LevelEditor needs a 2D canvas context')
+    }
+    this.ctx = ctx
+    this.renderer = new Renderer(ctx, this.canvas.width, this.canvas.height)
+    this.camera = this.engine.getCamera()
+    this.gridSize = options.gridSize ?? 16
+    this.snap = options.snap ?? true
+    this.onChange = options.onChange
+
+    // The editor owns the canvas until play-testing starts
+    this.engine.stop()
+    this.level = this.builder.build()
+    this.unsubscribe = this.builder.onChange(this.handleLevelChange)
+
+    this.canvas.addEventListener('mousedown', this.handleMouseDown)
+    this.canvas.addEventListener('dblclick', this.handleDoubleClick)
+    this.canvas.addEventListener('contextmenu', this.handleContextMenu)
+    window.addEventListener('mousemove', this.handleMouseMove)
+    window.addEventListener('mouseup', this.handleMouseUp)
+    window.addEventListener('keydown', this.handleKeyDown)
+
+    this.renderLoop()
+  }
+
+  // ==================== TOOLS ====================
+
+  public setTool(tool: EditorTool) {
+    this.tool = tool
+    this.draftPolygon = []
+    if (tool !== 'select') {
+      this.setSelection(null)
+    }
+    this.notify()
+  }
+
+  public getTool(): EditorTool {
+    return this.tool
+  }
+
+  public setPlatformType(type: string) {
+    this.platformType = type
+  }
+
+  public setEnemyType(type: string) {
+    this.enemyType = type
+  }
+
+  public setPowerUpType(type: string) {
+    this.powerUpType = type
+  }
+
+  public setSnap(enabled: boolean) {
+    this.snap = enabled
+    this.notify()
+  }
+
+  public isSnapping(): boolean {
+    return this.snap
+  }
+
+  public setGridSize(size: number) {
+    this.gridSize = Math.max(1, Math.round(size))
+  }
+
+  public getSelection(): EditorSelection | null {
+    return this.selection
+  }
+
+  // ==================== HISTORY ====================
+
+  public undo() {
+    this.builder.undo()
+  }
+
+  public redo() {
+    this.builder.redo()
+  }
+
+  public canUndo(): boolean {
+    return this.builder.canUndo()
+  }
+
+  public canRedo(): boolean {
+    return this.builder.canRedo()
+  }
+
+  // ==================== EDITING ====================
+
+  /**
+   * Delete the selected item (or the selected polygon vertex)
+   */
+  public deleteSelection() {
+    const selection = this.selection
+    if (!selection || !('index' in selection)) return
+
+    const { kind, index } = selection
+    if (kind === 'polygon' && this.selectedVertex !== null) {
+      if (this.builder.levelData.polygons[index].contours.length > 3) {
+        const vertex = this.selectedVertex
+        this.builder.edit('deleteVertex', data => data.polygons[index].contours.splice(vertex, 1))
+        this.selectedVertex = null
+        return
+      }
+    }
+
+    this.builder.edit(`delete ${kind}`, data => data[itemKey(kind)].splice(index, 1))
+    this.setSelection(null)
+  }
+
+  /**
+   * Replace the level being edited (starts a fresh history)
+   */
+  public importJSON(json: string) {
+    this.stopPlayTest()
+    this.builder.importJSON(json)
+    this.builder.getHistory().clear()
+    this.setSelection(null)
+  }
+
+  public exportJSON(): string {
+    return this.builder.exportJSON()
+  }
+
+  /**
+   * Run the solvability check and draw its witness path on the level
+   */
+  public checkSolvability(): SolvabilityResult {
+    this.solvability = this.engine.checkSolvability()
+    console.log(`🧭 ${SolvabilityChecker.describe(this.solvability)}`)
+    this.notify()
+    return this.solvability
+  }
+
+  public getSolvability(): SolvabilityResult | null {
+    return this.solvability
+  }
+
+  // ==================== PLAY-TEST ====================
+
+  public togglePlayTest() {
+    if (this.playTesting) {
+      this.stopPlayTest()
+    } else {
+      this.startPlayTest()
+    }
+  }
+
+  public isPlayTesting(): boolean {
+    return this.playTesting
+  }
+
+  private startPlayTest() {
+    if (this.playTesting) return
+    this.cancelDraft()
+    this.playTesting = true
+    this.editCamera = { x: this.camera.x, y: this.camera.y }
+    this.stopRenderLoop()
+
+    this.rebuild()
+    this.engine.reset()
+    void this.api.startGame()
+    this.notify()
+  }
+
+  private stopPlayTest() {
+    if (!this.playTesting) return
+    this.playTesting = false
+    this.engine.stop()
+    this.engine.reset()
+    this.rebuild()
+    this.camera.setPosition(this.editCamera.x, this.editCamera.y)
+    this.renderLoop()
+    this.notify()
+  }
+
+  public destroy() {
+    this.destroyed = true
+    this.stopRenderLoop()
+    this.canvas.removeEventListener('mousedown', this.handleMouseDown)
+    this.canvas.removeEventListener('dblclick', this.handleDoubleClick)
+    this.canvas.removeEventListener('contextmenu', this.handleContextMenu)
+    window.removeEventListener('mousemove', this.handleMouseMove)
+    window.removeEventListener('mouseup', this.handleMouseUp)
+    window.removeEventListener('keydown', this.handleKeyDown)
+    this.unsubscribe()
+  }
+
+  // ==================== INPUT ====================
+
+  private handleMouseDown = (e: MouseEvent) => {
+    if (this.playTesting) return
+    const point = this.toWorld(e)
+    this.pointer = point
+
+    // Right or middle button always pans
+    if (e.button !== 0) {
+      this.beginPan(e)
+      return
+    }
+
+    switch (this.tool) {
+      case 'select':
+        this.pickAt(point, e)
+        break
+      case 'platform':
+        this.drag = { mode: 'draw', start: this.snapPoint(point), current: this.snapPoint(point) }
+        break
+      case 'polygon':
+        this.addDraftVertex(point)
+        break
+      case 'enemy': {
+        const p = this.snapPoint(point)
+        this.builder.addEnemy(p.x, p.y, this.enemyType)
+        break
+      }
+      case 'coin': {
+        const p = this.snapPoint(point)
+        this.builder.addCoin(p.x, p.y)
+        break
+      }
+      case 'powerUp': {
+        const p = this.snapPoint(point)
+        this.builder.addPowerUp(p.x, p.y, this.powerUpType)
+        break
+      }
+      case 'start': {
+        const p = this.snapPoint(point)
+        this.builder.setPlayerStart(p.x, p.y)
+        break
+      }
+      case 'goal': {
+        const p = this.snapPoint(point)
+        this.builder.addGoal(p.x, p.y)
+        break
+      }
+    }
+  }
+
+  private handleMouseMove = (e: MouseEvent) => {
+    if (this.playTesting) return
+    const point = this.toWorld(e)
+    this.pointer = point
+    const drag = this.drag
+    if (!drag) return
+
+    switch (drag.mode) {
+      case 'pan': {
+        const scale = this.canvas.width / this.canvas.getBoundingClientRect().width
+        this.camera.setPosition(
+          drag.cameraStart.x - (e.clientX - drag.screenStart.x) * scale,
+          drag.cameraStart.y - (e.clientY - drag.screenStart.y) * scale
+        )
+        break
+      }
+      case 'draw':
+        drag.current = this.snapPoint(point)
+        break
+      case 'move':
+        this.moveSelection(drag.original, this.snapValue(point.x - drag.start.x), this.snapValue(point.y - drag.start.y))
+        drag.moved = true
+        break
+      case 'resize':
+        this.resizeSelection(drag.original, drag.corner, this.snapPoint(point))
+        drag.moved = true
+        break
+      case 'vertex':
+        this.moveVertex(drag.vertex, this.snapPoint(point))
+        drag.moved = true
+        break
+    }
+  }
+
+  private handleMouseUp = () => {
+    const drag = this.drag
+    this.drag = null
+    if (!drag || this.playTesting) return
+
+    if (drag.mode === 'draw') {
+      this.finishPlatform(drag.start, drag.current)
+    } else if (drag.mode !== 'pan' && drag.moved) {
+      // The item was edited live - record it against the state from before the drag
+      this.builder.commitEdit(drag.mode, drag.original)
+    }
+  }
+
+  private handleDoubleClick = (e: MouseEvent) => {
+    if (this.playTesting) return
+    const point = this.toWorld(e)
+
+    if (this.tool === 'polygon') {
+      this.finishPolygon()
+      return
+    }
+
+    // Double-click on the selected polygon's edge inserts a vertex there
+    const selection = this.selection
+    if (this.tool === 'select' && selection?.kind === 'polygon') {
+      const { index } = selection
+      const edge = nearestEdge(this.builder.levelData.polygons[index].contours, point)
+      if (edge && edge.distance <= HANDLE_SIZE) {
+        const vertex = this.snapPoint(point)
+        this.builder.edit('insertVertex', data => data.polygons[index].contours.splice(edge.index + 1, 0, [vertex.x, vertex.y]))
+        this.selectedVertex = edge.index + 1
+      }
+    }
+  }
+
+  private handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault()
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null
+    if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return
+
+    if (e.code === 'KeyP' && !e.ctrlKey && !e.metaKey) {
+      this.togglePlayTest()
+      return
+    }
+    if (this.playTesting) {
+      if (e.code === 'Escape') this.stopPlayTest()
+      return
+    }
+
+    const modifier = e.ctrlKey || e.metaKey
+    if (modifier && e.code === 'KeyZ') {
+      e.preventDefault()
+      if (e.shiftKey) this.redo()
+      else this.undo()
+      return
+    }
+    if (modifier && e.code === 'KeyY') {
+      e.preventDefault()
+      this.redo()
+      return
+    }
+    if (modifier) return
+
+    const toolIndex = parseInt(e.key, 10)
+    if (toolIndex >= 1 && toolIndex <= EDITOR_TOOLS.length) {
+      this.setTool(EDITOR_TOOLS[toolIndex - 1])
+      return
+    }
+
+    switch (e.code) {
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault()
+        if (this.tool === 'polygon' && this.draftPolygon.length > 0) {
+          this.draftPolygon.pop()
+        } else {
+          this.deleteSelection()
+        }
+        break
+      case 'Enter':
+        if (this.tool === 'polygon') this.finishPolygon()
+        break
+      case 'Escape':
+        this.cancelDraft()
+        this.setSelection(null)
+        break
+      case 'KeyG':
+        this.setSnap(!this.snap)
+        break
+      case 'ArrowLeft':
+        e.preventDefault()
+        this.camera.move(-PAN_STEP, 0)
+        break
+      case 'ArrowRight':
+        e.preventDefault()
+        this.camera.move(PAN_STEP, 0)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        this.camera.move(0, -PAN_STEP)
+        break
+      case 'ArrowDown':
+        e.preventDefault()
+        this.camera.move(0, PAN_STEP)
+        break
+    }
+  }
+
+  // ==================== PICKING ====================
+
+  private pickAt(point: Vector2D, e: MouseEvent) {
+    const data = this.builder.levelData
+    const selection = this.selection
+
+    // Handles of the current selection take priority
+    if (selection?.kind === 'platform') {
+      const corner = this.cornerAt(data.platforms[selection.index], point)
+      if (corner) {
+        this.drag = { mode: 'resize', corner, original: this.cloneLevelData(), moved: false }
+        return
+      }
+    }
+    if (selection?.kind === 'polygon') {
+      const vertex = data.polygons[selection.index].contours.findIndex(([x, y]) => nearPoint(point, x, y))
+      if (vertex >= 0) {
+        this.selectedVertex = vertex
+        this.drag = { mode: 'vertex', vertex, original: this.cloneLevelData(), moved: false }
+        return
+      }
+    }
+
+    const picked = this.findItemAt(point)
+    this.setSelection(picked)
+    if (picked) {
+      this.drag = { mode: 'move', start: point, original: this.cloneLevelData(), moved: false }
+    } else {
+      this.beginPan(e)
+    }
+  }
+
+  private findItemAt(point: Vector2D): EditorSelection | null {
+    const { playerStart, goal } = this.builder.levelData
+    if (insideBox(point, playerStart.x, playerStart.y, MARKER_SIZE, MARKER_SIZE)) {
+      return { kind: 'start' }
+    }
+    if (goal && insideBox(point, goal.x, goal.y, MARKER_SIZE, MARKER_SIZE)) {
+      return { kind: 'goal' }
+    }
+
+    const entity = this.level.getEntityAt(point.x, point.y)
+    if (entity) {
+      const kind = entityKind(entity)
+      if (kind) {
+        // build() creates entities in level data order, so the index within each kind matches
+        const index = this.level.getEntities().filter(other => entityKind(other) === kind).indexOf(entity)
+        return { kind, index }
+      }
+    }
+
+    const platform = this.level.getPlatformAt(point.x, point.y)
+    if (platform) {
+      return { kind: 'platform', index: this.level.getPlatforms().indexOf(platform) }
+    }
+
+    const polygon = this.level.getPolygonAt(point.x, point.y)
+    if (polygon) {
+      return { kind: 'polygon', index: this.level.getPolygons().indexOf(polygon) }
+    }
+
+    return null
+  }
+
+  private cornerAt(rect: { x: number; y: number; width: number; height: number }, point: Vector2D): Corner | null {
+    const corners: Array<[Corner, number, number]> = [
+      ['topLeft', rect.x, rect.y],
+      ['topRight', rect.x + rect.width, rect.y],
+      ['bottomLeft', rect.x, rect.y + rect.height],
+      ['bottomRight', rect.x + rect.width, rect.y + rect.height]
+    ]
+    const hit = corners.find(([, x, y]) => nearPoint(point, x, y))
+    return hit ? hit[0] : null
+  }
+
+  // ==================== MUTATIONS ====================
+
+  private moveSelection(original: LevelData, dx: number, dy: number) {
+    const selection = this.selection
+    if (!selection) return
+    const data = this.builder.levelData
+
+    switch (selection.kind) {
+      case 'start':
+        data.playerStart = { x: original.playerStart.x + dx, y: original.playerStart.y + dy }
+        break
+      case 'goal':
+        if (original.goal) data.goal = { x: original.goal.x + dx, y: original.goal.y + dy }
+        break
+      case 'polygon':
+        data.polygons[selection.index].contours = original.polygons[selection.index].contours.map(([x, y]) => [x + dx, y + dy])
+        break
+      default: {
+        const from = (original[itemKey(selection.kind)] as Array<{ x: number; y: number }>)[selection.index]
+        const item = this.itemsOf(selection.kind)[selection.index] as { x: number; y: number }
+        item.x = from.x + dx
+        item.y = from.y + dy
+      }
+    }
+    this.rebuild()
+  }
+
+  private resizeSelection(original: LevelData, corner: Corner, point: Vector2D) {
+    const selection = this.selection
+    if (selection?.kind !== 'platform') return
+
+    const from = original.platforms[selection.index]
+    // The opposite corner stays where it is
+    const fixedX = corner === 'topLeft' || corner === 'bottomLeft' ? from.x + from.width : from.x
+    const fixedY = corner === 'topLeft' || corner === 'topRight' ? from.y + from.height : from.y
+    const minSize = this.snap ? this.gridSize : 4
+
+    const platform = this.builder.levelData.platforms[selection.index]
+    platform.width = Math.max(minSize, Math.abs(point.x - fixedX))
+    platform.height = Math.max(minSize, Math.abs(point.y - fixedY))
+    platform.x = point.x < fixedX ? fixedX - platform.width : fixedX
+    platform.y = point.y < fixedY ? fixedY - platform.height : fixedY
+    this.rebuild()
+  }
+
+  private moveVertex(vertex: number, point: Vector2D) {
+    const selection = this.selection
+    if (selection?.kind !== 'polygon') return
+    this.builder.levelData.polygons[selection.index].contours[vertex] = [point.x, point.y]
+    this.rebuild()
+  }
+
+  private finishPlatform(start: Vector2D, end: Vector2D) {
+    let x = Math.min(start.x, end.x)
+    let y = Math.min(start.y, end.y)
+    let width = Math.abs(end.x - start.x)
+    let height = Math.abs(end.y - start.y)
+
+    // A click without a drag drops a standard block
+    if (width < 4 || height < 4) {
+      x = start.x
+      y = start.y
+      width = DEFAULT_BLOCK.width
+      height = DEFAULT_BLOCK.height
+    }
+
+    if (this.platformType === 'moving') {
+      // Starts as a horizontal lift - the path can be changed in the level JSON
+      this.builder.addMovingPlatform(x, y, width, DEFAULT_LIFT_PATH, height)
+    } else {
+      this.builder.addPlatform(x, y, width, height, this.platformType)
+    }
+    this.setSelection({ kind: 'platform', index: this.builder.levelData.platforms.length - 1 })
+  }
+
+  private addDraftVertex(point: Vector2D) {
+    // Clicking the first vertex closes the shape
+    if (this.draftPolygon.length >= 3) {
+      const [firstX, firstY] = this.draftPolygon[0]
+      if (nearPoint(point, firstX, firstY)) {
+        this.finishPolygon()
+        return
+      }
+    }
+    const vertex = this.snapPoint(point)
+    this.draftPolygon.push([vertex.x, vertex.y])
+  }
+
+  private finishPolygon() {
+    // dblclick also delivers two clicks, which may have added duplicate vertices
+    const contours = this.draftPolygon.filter((point, i, all) => {
+      const previous = all[i - 1]
+      return !previous || previous[0] !== point[0] || previous[1] !== point[1]
+    })
+    this.draftPolygon = []
+    if (contours.length < 3) return
+
+    this.builder.addPolygon(contours)
+    this.setTool('select')
+    this.setSelection({ kind: 'polygon', index: this.builder.levelData.polygons.length - 1 })
+  }
+
+  private cancelDraft() {
+    this.draftPolygon = []
+    this.drag = null
+  }
+
+  /**
+   * Every change to the level goes through the builder's history - including
+   * undo/redo and edits scripted through GameAPI while the editor is open
+   */
+  private handleLevelChange = (change: HistoryChange) => {
+    if (change.type !== 'execute') {
+      // The selected item may no longer exist
+      this.setSelection(null)
+    }
+    // Play-testing builds its own copy when it stops
+    if (!this.playTesting) {
+      this.rebuild()
+    }
+    this.notify()
+  }
+
+  private rebuild() {
+    this.level = this.builder.build()
+    // Any previous verdict is stale now
+    this.solvability = null
+  }
+
+  private itemsOf(kind: EditorItemKind): unknown[] {
+    return this.builder.levelData[itemKey(kind)]
+  }
+
+  private cloneLevelData(): LevelData {
+    return JSON.parse(JSON.stringify(this.builder.levelData))
+  }
+
+  private setSelection(selection: EditorSelection | null) {
+    this.selection = selection
+    this.selectedVertex = null
+    this.notify()
+  }
+
+  private notify() {
+    this.onChange?.(this)
+  }
+
+  // ==================== COORDINATES ====================
+
+  private toWorld(e: MouseEvent): Vector2D {
+    const rect = this.canvas.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) * (this.canvas.width / rect.width) + this.camera.x,
+      y: (e.clientY - rect.top) * (this.canvas.height / rect.height) + this.camera.y
+    }
+  }
+
+  private beginPan(e: MouseEvent) {
+    this.drag = {
+      mode: 'pan',
+      screenStart: { x: e.clientX, y: e.clientY },
+      cameraStart: { x: this.camera.x, y: this.camera.y }
+    }
+  }
+
+  private snapValue(value: number): number {
+    return this.snap ? Math.round(value / this.gridSize) * this.gridSize : Math.round(value)
+  }
+
+  private snapPoint(point: Vector2D): Vector2D {
+    return { x: this.snapValue(point.x), y: this.snapValue(point.y) }
+  }
+
+  // ==================== RENDERING ====================
+
+  private renderLoop = () => {
+    if (this.destroyed || this.playTesting) return
+    this.render()
+    this.frameId = requestAnimationFrame(this.renderLoop)
+  }
+
+  private stopRenderLoop() {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId)
+      this.frameId = null
+    }
+  }
+
+  private render() {
+    const { ctx, renderer } = this
+
+    renderer.clear()
+    ctx.save()
+    ctx.translate(-this.camera.x, -this.camera.y)
+
+    renderer.renderBackground(this.level.getBackground(), this.camera)
+    if (this.snap) this.renderGrid()
+    renderer.renderLevel(this.level)
+    this.level.getEntities().forEach(entity => renderer.renderEntity(entity))
+    const player = this.engine.getPlayer()
+    if (player) renderer.renderEntity(player)
+
+    this.renderMarkers()
+    this.renderSolvabilityPath()
+    this.renderSelection()
+    this.renderDrafts()
+
+    ctx.restore()
+    this.renderStatusBar()
+  }
+
+  private renderGrid() {
+    const { ctx, gridSize } = this
+    const view = this.camera.getViewport()
+    // Keep the grid readable when it is very fine
+    const step = gridSize < 8 ? gridSize * 4 : gridSize
+
+    ctx.save()
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)'
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    for (let x = Math.floor(view.left / step) * step; x <= view.right; x += step) {
+      ctx.moveTo(x + 0.5, view.top)
+      ctx.lineTo(x + 0.5, view.bottom)
+    }
+    for (let y = Math.floor(view.top / step) * step; y <= view.bottom; y += step) {
+      ctx.moveTo(view.left, y + 0.5)
+      ctx.lineTo(view.right, y + 0.5)
+    }
+    ctx.stroke()
+    ctx.restore()
+  }
+
+  private renderMarkers() {
+    const { ctx } = this
+    const { playerStart, goal } = this.builder.levelData
+
+    ctx.save()
+    ctx.lineWidth = 2
+    ctx.font = 'bold 12px Arial'
+    ctx.textAlign = 'center'
+
+    ctx.strokeStyle = '#FF4081'
+    ctx.setLineDash([4, 3])
+    ctx.strokeRect(playerStart.x, playerStart.y, MARKER_SIZE, MARKER_SIZE)
+    ctx.setLineDash([])
+    ctx.fillStyle = '#FF4081'
+    ctx.fillText('START', playerStart.x + MARKER_SIZE / 2, playerStart.y - 6)
+
+    if (goal) {
+      ctx.strokeStyle = '#00C853'
+      ctx.strokeRect(goal.x, goal.y, MARKER_SIZE, MARKER_SIZE)
+      ctx.fillStyle = '#00C853'
+      ctx.fillText('GOAL', goal.x + MARKER_SIZE / 2, goal.y - 6)
+    }
+    ctx.restore()
+  }
+
+  private renderSolvabilityPath() {
+    const result = this.solvability
+    if (!result) return
+    const { ctx } = this
+
+    ctx.save()
+    ctx.lineWidth = 2
+    if (result.solvable) {
+      ctx.strokeStyle = 'rgba(0, 230, 118, 0.9)'
+      ctx.beginPath()
+      result.path.forEach(step => {
+        ctx.moveTo(step.from.x + 16, step.from.y + 16)
+        step.trajectory.forEach(point => ctx.lineTo(point.x + 16, point.y + 16))
+      })
+      ctx.stroke()
+    } else if (result.closestApproach) {
+      // Show where the player gets stuck
+      const { position } = result.closestApproach
+      ctx.strokeStyle = '#FF1744'
+      ctx.setLineDash([6, 4])
+      ctx.strokeRect(position.x, position.y, MARKER_SIZE, MARKER_SIZE)
+    }
+    ctx.restore()
+  }
+
+  private renderSelection() {
+    const selection = this.selection
+    if (!selection) return
+    const { ctx } = this
+    const data = this.builder.levelData
+
+    ctx.save()
+    ctx.strokeStyle = '#FFEB3B'
+    ctx.fillStyle = '#FFEB3B'
+    ctx.lineWidth = 2
+
+    switch (selection.kind) {
+      case 'start':
+        ctx.strokeRect(data.playerStart.x - 2, data.playerStart.y - 2, MARKER_SIZE + 4, MARKER_SIZE + 4)
+        break
+      case 'goal':
+        if (data.goal) ctx.strokeRect(data.goal.x - 2, data.goal.y - 2, MARKER_SIZE + 4, MARKER_SIZE + 4)
+        break
+      case 'platform': {
+        const platform = data.platforms[selection.index]
+        ctx.strokeRect(platform.x, platform.y, platform.width, platform.height)
+        this.drawHandle(platform.x, platform.y)
+        this.drawHandle(platform.x + platform.width, platform.y)
+        this.drawHandle(platform.x, platform.y + platform.height)
+        this.drawHandle(platform.x + platform.width, platform.y + platform.height)
+        break
+      }
+      case 'polygon': {
+        const contours = data.polygons[selection.index].contours
+        tracePolygon(ctx, contours)
+        ctx.stroke()
+        contours.forEach(([x, y], i) => this.drawHandle(x, y, i === this.selectedVertex))
+        break
+      }
+      default: {
+        const kind = selection.kind
+        const entity = this.level.getEntities().filter(other => entityKind(other) === kind)[selection.index]
+        if (entity) {
+          ctx.strokeRect(entity.position.x - 2, entity.position.y - 2, entity.width + 4, entity.height + 4)
+        }
+      }
+    }
+    ctx.restore()
+  }
+
+  private renderDrafts() {
+    const { ctx } = this
+    const drag = this.drag
+
+    ctx.save()
+    ctx.strokeStyle = '#FFFFFF'
+    ctx.lineWidth = 2
+    ctx.setLineDash([6, 4])
+
+    if (drag?.mode === 'draw') {
+      const x = Math.min(drag.start.x, drag.current.x)
+      const y = Math.min(drag.start.y, drag.current.y)
+      ctx.strokeRect(x, y, Math.abs(drag.current.x - drag.start.x), Math.abs(drag.current.y - drag.start.y))
+    }
+
+    if (this.draftPolygon.length > 0) {
+      const pointer = this.snapPoint(this.pointer)
+      ctx.beginPath()
+      ctx.moveTo(this.draftPolygon[0][0], this.draftPolygon[0][1])
+      this.draftPolygon.forEach(([x, y]) => ctx.lineTo(x, y))
+      ctx.lineTo(pointer.x, pointer.y)
+      ctx.stroke()
+      ctx.setLineDash([])
+      this.draftPolygon.forEach(([x, y], i) => this.drawHandle(x, y, i === 0))
+    }
+    ctx.restore()
+  }
+
+  private drawHandle(x: number, y: number, highlighted = false) {
+    const { ctx } = this
+    ctx.save()
+    ctx.fillStyle = highlighted ? '#FF5722' : '#FFFFFF'
+    ctx.strokeStyle = '#000000'
+    ctx.lineWidth = 1
+    ctx.fillRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE)
+    ctx.strokeRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE)
+    ctx.restore()
+  }
+
+  private renderStatusBar() {
+    const { ctx, canvas } = this
+    const parts = [
+      `Tool: ${this.tool}`,
+      `Snap: ${this.snap ? this.gridSize + 'px' : 'off'}`,
+      `Cursor: ${Math.round(this.pointer.x)}, ${Math.round(this.pointer.y)}`
+    ]
+    if (this.solvability) {
+      parts.push(SolvabilityChecker.describe(this.solvability))
+    }
+
+    ctx.save()
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.fillRect(0, canvas.height - 24, canvas.width, 24)
+    ctx.fillStyle = this.solvability && !this.solvability.solvable ? '#FF8A80' : '#FFFFFF'
+    ctx.font = '13px Arial'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(parts.join('  |  '), 8, canvas.height - 12)
+    ctx.restore()
+  }
+}
+
+function itemKey(kind: EditorItemKind): 'platforms' | 'polygons' | 'enemies' | 'coins' | 'powerUps' {
+  switch (kind) {
+    case 'platform': return 'platforms'
+    case 'polygon': return 'polygons'
+    case 'enemy': return 'enemies'
+    case 'coin': return 'coins'
+    case 'powerUp': return 'powerUps'
+  }
+}
+
+function entityKind(entity: Entity): 'enemy' | 'coin' | 'powerUp' | null {
+  if (entity instanceof Enemy) return 'enemy'
+  if (entity instanceof Coin) return 'coin'
+  if (entity instanceof PowerUp) return 'powerUp'
+  return null
+}
+
+function insideBox(point: Vector2D, x: number, y: number, width: number, height: number): boolean {
+  return point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height
+}
+
+function nearPoint(point: Vector2D, x: number, y: number): boolean {
+  return Math.abs(point.x - x) <= HANDLE_SIZE && Math.abs(point.y - y) <= HANDLE_SIZE
+}
+
+function nearestEdge(contours: number[][], point: Vector2D): { index: number; distance: number } | null {
+  let best: { index: number; distance: number } | null = null
+  for (let i = 0; i < contours.length; i++) {
+    const [x1, y1] = contours[i]
+    const [x2, y2] = contours[(i + 1) % contours.length]
+    const dx = x2 - x1
+    const dy = y2 - y1
+    const lengthSquared = dx * dx + dy * dy
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((point.x - x1) * dx + (point.y - y1) * dy) / lengthSquared)) : 0
+    const distance = Math.hypot(point.x - (x1 + t * dx), point.y - (y1 + t * dy))
+    if (!best || distance < best.distance) {
+      best = { index: i, distance }
+    }
+  }
+  return best
+}
+
+function tracePolygon(ctx: CanvasRenderingContext2D, contours: number[][]) {
+  ctx.beginPath()
+  contours.forEach(([x, y], i) => {
+    if (i === 0) ctx.moveTo(x, y)
+    else ctx.lineTo(x, y)
+  })
+  ctx.closePath()
+}
@@ -0,0 +1,101 @@
+export type ParticleShape = 'square' | 'circle' | 'spark' | 'ring'
+
+export type EffectsQuality = 'high' | 'low' | 'off'
+
+export type EffectName =
+  | 'coinSparkle'
+  | 'brickDebris'
+  | 'stompDust'
+  | 'landingPuff'
+  | 'respawnFlash'
+  | 'victoryBurst'
+  | 'powerUpGlow'
+  | 'starGlow'
+
+// Picked uniformly between the two
+export type Range = [number, number]
+
+/**
+ * One kind of particle an effect throws out. Speeds are px/s, angles radians with 0 pointing
+ * right and -PI/2 straight up, times seconds.
+ */
+export interface ParticleLayer {
+  count: number // per burst, at high quality
+  shape: ParticleShape
+  colors: string[]
+  speed: Range
+  angle?: Range // every direction when omitted
+  spread?: number // start this far from the origin at most
+  gravity?: number // px/s², negative floats up
+  drag?: number // share of the speed lost per second
+  life: Range
+  size: Range // side, diameter or ring radius
+  endScale?: number // size at the end of the particle's life, relative to the start (default 1)
+  spin?: number // rad/s at most, either way
+  fade?: boolean // fade out over the whole life (default true) - otherwise only at the very end
+  additive?: boolean // add light instead of painting over
+}
+
+export interface EffectDefinition {
+  layers: ParticleLayer[]
+  rate?: number // bursts per second when attached as an emitter
+}
+
+const UP: Range = [-Math.PI * 0.85, -Math.PI * 0.15]
+const UPPER_HALF: Range = [-Math.PI, 0]
+
+export const EFFECTS: Record<EffectName, EffectDefinition> = {
+  coinSparkle: {
+    layers: [
+      { count: 10, shape: 'spark', colors: ['#FFD700', '#FFF8DC', '#FFA500'], speed: [60, 160], spread: 6, drag: 3, life: [0.3, 0.55], size: [6, 10], endScale: 0.3, additive: true }
+    ]
+  },
+  brickDebris: {
+    layers: [
+      { count: 8, shape: 'square', colors: ['#8B4513', '#A0522D', '#6B3410'], speed: [180, 320], angle: UP, spread: 10, gravity: 1100, life: [0.8, 1.1], size: [6, 10], spin: 12, fade: false }
+    ]
+  },
+  stompDust: {
+    layers: [
+      { count: 8, shape: 'circle', colors: ['#E8DCC8', '#C8B89A'], speed: [50, 120], angle: UPPER_HALF, spread: 6, gravity: -30, drag: 4, life: [0.35, 0.6], size: [4, 7], endScale: 2.2 }
+    ]
+  },
+  landingPuff: {
+    layers: [
+      { count: 6, shape: 'circle', colors: ['#F0E6D2', '#D8C8A8'], speed: [30, 80], angle: [-Math.PI, -Math.PI * 0.75], gravity: -20, drag: 5, life: [0.25, 0.45], size: [3, 5], endScale: 2 },
+      { count: 6, shape: 'circle', colors: ['#F0E6D2', '#D8C8A8'], speed: [30, 80], angle: [-Math.PI * 0.25, 0], gravity: -20, drag: 5, life: [0.25, 0.45], size: [3, 5], endScale: 2 }
+    ]
+  },
+  respawnFlash: {
+    layers: [
+      { count: 1, shape: 'ring', colors: ['#FFFFFF'], speed: [0, 0], life: [0.45, 0.45], size: [8, 8], endScale: 6, additive: true },
+      { count: 14, shape: 'spark', colors: ['#FFFFFF', '#AEEBFF'], speed: [80, 200], drag: 2, life: [0.5, 0.8], size: [5, 8], endScale: 0.3, additive: true }
+    ]
+  },
+  victoryBurst: {
+    layers: [
+      { count: 1, shape: 'ring', colors: ['#FFD700'], speed: [0, 0], life: [0.7, 0.7], size: [12, 12], endScale: 10, additive: true },
+      { count: 60, shape: 'spark', colors: ['#FFD700', '#FFF8DC', '#FFA500'], speed: [150, 420], gravity: 200, drag: 1.2, life: [1.2, 2], size: [6, 12], endScale: 0.4, additive: true },
+      { count: 50, shape: 'square', colors: ['#FF4136', '#2ECC40', '#0074D9', '#FFDC00', '#B10DC9', '#FFFFFF'], speed: [200, 450], angle: UP, gravity: 500, drag: 0.8, life: [1.5, 2.5], size: [5, 8], spin: 10, fade: false }
+    ]
+  },
+  powerUpGlow: {
+    rate: 20,
+    layers: [
+      { count: 2, shape: 'circle', colors: ['#FFF59D', '#FFD54F', '#FFFFFF'], speed: [10, 40], angle: UP, spread: 16, gravity: -60, life: [0.4, 0.7], size: [3, 5], endScale: 0.2, additive: true }
+    ]
+  },
+  starGlow: {
+    rate: 30,
+    layers: [
+      { count: 2, shape: 'spark', colors: ['#FF4136', '#FFDC00', '#2ECC40', '#7FDBFF', '#F012BE'], speed: [10, 50], spread: 18, gravity: -40, life: [0.3, 0.6], size: [5, 9], endScale: 0.2, additive: true }
+    ]
+  }
+}
+
+// How many particles each quality level throws out, relative to the counts above, and keeps alive at most
+export const QUALITY_SETTINGS: Record<EffectsQuality, { particleScale: number; capacity: number }> = {
+  high: { particleScale: 1, capacity: 1500 },
+  low: { particleScale: 0.4, capacity: 300 },
+  off: { particleScale: 0, capacity: 0 }
+}
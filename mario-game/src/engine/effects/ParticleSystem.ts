@@ -0,0 +1,278 @@
+import { type Bounds } from '../physics/Geometry'
+import { EFFECTS, QUALITY_SETTINGS, type EffectName, type EffectsQuality, type ParticleLayer, type ParticleShape, type Range } from './Effects'
+
+interface Particle {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  gravity: number
+  drag: number
+  age: number
+  life: number
+  size: number
+  endSize: number
+  rotation: number
+  spin: number
+  color: string
+  shape: ParticleShape
+  fade: boolean
+  additive: boolean
+}
+
+// An effect spawned over and over at a moving point, e.g. the glow around a powered-up player
+interface Emitter {
+  effect: EffectName
+  follow: () => { x: number; y: number } | null // null stops the emitter
+  remaining: number // seconds
+  interval: number
+  timer: number
+}
+
+/**
+ * Particles live in a fixed-size pool: the first `size` slots are alive, and a particle that
+ * dies swaps places with the last live one, so nothing is allocated once the pool has grown.
+ * A full pool drops new particles rather than growing.
+ */
+class ParticlePool {
+  public size = 0
+  public capacity: number
+  private particles: Particle[] = []
+
+  constructor(capacity: number) {
+    this.capacity = capacity
+  }
+
+  public get(index: number): Particle {
+    return this.particles[index]
+  }
+
+  public acquire(): Particle | null {
+    if (this.size >= this.capacity) return null
+    let particle = this.particles[this.size]
+    if (!particle) {
+      particle = createParticle()
+      this.particles.push(particle)
+    }
+    this.size++
+    return particle
+  }
+
+  public release(index: number) {
+    const last = this.size - 1
+    if (index !== last) {
+      const dead = this.particles[index]
+      this.particles[index] = this.particles[last]
+      this.particles[last] = dead
+    }
+    this.size--
+  }
+
+  public resize(capacity: number) {
+    this.capacity = capacity
+    this.size = Math.min(this.size, capacity)
+    this.particles.length = Math.min(this.particles.length, capacity)
+  }
+}
+
+/**
+ * ParticleSystem - short-lived visual effects (sparkles, debris, dust, flashes) in world space
+ *
+ * Effects are bursts of particles described in Effects.ts. spawn() throws one out, attach()
+ * keeps spawning one at a point that moves, until it goes away or time runs out. Particles
+ * move on real frame time, not simulation ticks, so they keep playing on the victory and game
+ * over screens, and they never feed back into the game - Math.random is fine here and replays
+ * stay exact.
+ */
+export class ParticleSystem {
+  private quality: EffectsQuality
+  private pool: ParticlePool
+  private emitters: Emitter[] = []
+
+  constructor(quality: EffectsQuality = 'high') {
+    this.quality = quality
+    this.pool = new ParticlePool(QUALITY_SETTINGS[quality].capacity)
+  }
+
+  public getQuality(): EffectsQuality {
+    return this.quality
+  }
+
+  /**
+   * 'low' throws out fewer particles and keeps fewer alive, 'off' drops every effect
+   */
+  public setQuality(quality: EffectsQuality) {
+    this.quality = quality
+    this.pool.resize(QUALITY_SETTINGS[quality].capacity)
+    if (quality === 'off') this.emitters = []
+  }
+
+  public get particleCount(): number {
+    return this.pool.size
+  }
+
+  public spawn(effect: EffectName, x: number, y: number) {
+    const scale = QUALITY_SETTINGS[this.quality].particleScale
+    if (scale === 0) return
+    EFFECTS[effect].layers.forEach(layer => {
+      // Low quality thins effects out, but never down to nothing
+      const count = Math.max(1, Math.round(layer.count * scale))
+      for (let i = 0; i < count; i++) {
+        const particle = this.pool.acquire()
+        if (!particle) return
+        initParticle(particle, layer, x, y)
+      }
+    })
+  }
+
+  /**
+   * Spawn `effect` at wherever `follow` says, at the effect's rate, for `duration` seconds or
+   * until `follow` returns null
+   */
+  public attach(effect: EffectName, follow: () => { x: number; y: number } | null, duration = Infinity) {
+    if (this.quality === 'off') return
+    const rate = EFFECTS[effect].rate ?? 10
+    this.emitters.push({ effect, follow, remaining: duration, interval: 1 / rate, timer: 0 })
+  }
+
+  /**
+   * @param dt - seconds since the last frame
+   */
+  public update(dt: number) {
+    this.emitters = this.emitters.filter(emitter => {
+      const point = emitter.follow()
+      if (!point || emitter.remaining <= 0) return false
+      emitter.remaining -= dt
+      emitter.timer += dt
+      while (emitter.timer >= emitter.interval) {
+        emitter.timer -= emitter.interval
+        this.spawn(emitter.effect, point.x, point.y)
+      }
+      return true
+    })
+
+    // Backwards, so releasing a particle only moves ones already updated
+    for (let i = this.pool.size - 1; i >= 0; i--) {
+      const p = this.pool.get(i)
+      p.age += dt
+      if (p.age >= p.life) {
+        this.pool.release(i)
+        continue
+      }
+      const damping = Math.max(0, 1 - p.drag * dt)
+      p.vx *= damping
+      p.vy = p.vy * damping + p.gravity * dt
+      p.x += p.vx * dt
+      p.y += p.vy * dt
+      p.rotation += p.spin * dt
+    }
+  }
+
+  /**
+   * Draw every live particle that's inside `view`, through the context's current transform
+   */
+  public render(ctx: CanvasRenderingContext2D, view: Bounds) {
+    if (this.pool.size === 0) return
+    ctx.save()
+    let additive = false
+    for (let i = 0; i < this.pool.size; i++) {
+      const p = this.pool.get(i)
+      const t = p.age / p.life
+      const size = p.size + (p.endSize - p.size) * t
+      if (p.x + size < view.left || p.x - size > view.right || p.y + size < view.top || p.y - size > view.bottom) continue
+
+      if (p.additive !== additive) {
+        additive = p.additive
+        ctx.globalCompositeOperation = additive ? 'lighter' : 'source-over'
+      }
+      // Particles that don't fade still vanish over the last fifth of their life rather than pop
+      ctx.globalAlpha = p.fade ? 1 - t : Math.min(1, (1 - t) * 5)
+      drawParticle(ctx, p, size)
+    }
+    ctx.restore()
+  }
+
+  public clear() {
+    this.pool.size = 0
+    this.emitters = []
+  }
+}
+
+function createParticle(): Particle {
+  return {
+    x: 0, y: 0, vx: 0, vy: 0, gravity: 0, drag: 0, age: 0, life: 1, size: 1, endSize: 1,
+    rotation: 0, spin: 0, color: '#FFFFFF', shape: 'square', fade: true, additive: false
+  }
+}
+
+function initParticle(p: Particle, layer: ParticleLayer, x: number, y: number) {
+  const angle = layer.angle ? between(layer.angle) : Math.random() * Math.PI * 2
+  const speed = between(layer.speed)
+  const offset = Math.random() * (layer.spread ?? 0)
+  const offsetAngle = Math.random() * Math.PI * 2
+  p.x = x + Math.cos(offsetAngle) * offset
+  p.y = y + Math.sin(offsetAngle) * offset
+  p.vx = Math.cos(angle) * speed
+  p.vy = Math.sin(angle) * speed
+  p.gravity = layer.gravity ?? 0
+  p.drag = layer.drag ?? 0
+  p.age = 0
+  p.life = between(layer.life)
+  p.size = between(layer.size)
+  p.endSize = p.size * (layer.endScale ?? 1)
+  p.rotation = Math.random() * Math.PI * 2
+  p.spin = layer.spin ? (Math.random() * 2 - 1) * layer.spin : 0
+  p.color = layer.colors[Math.floor(Math.random() * layer.colors.length)]
+  p.shape = layer.shape
+  p.fade = layer.fade ?? true
+  p.additive = layer.additive ?? false
+}
+
+function between([min, max]: Range): number {
+  return min + Math.random() * (max - min)
+}
+
+function drawParticle(ctx: CanvasRenderingContext2D, p: Particle, size: number) {
+  const half = size / 2
+  switch (p.shape) {
+    case 'square':
+      ctx.fillStyle = p.color
+      if (p.spin === 0) {
+        ctx.fillRect(p.x - half, p.y - half, size, size)
+      } else {
+        ctx.translate(p.x, p.y)
+        ctx.rotate(p.rotation)
+        ctx.fillRect(-half, -half, size, size)
+        ctx.rotate(-p.rotation)
+        ctx.translate(-p.x, -p.y)
+      }
+      break
+
+    case 'circle':
+      ctx.fillStyle = p.color
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, half, 0, Math.PI * 2)
+      ctx.fill()
+      break
+
+    case 'spark':
+      // Four-pointed twinkle, pinched in towards the middle
+      ctx.fillStyle = p.color
+      ctx.beginPath()
+      ctx.moveTo(p.x, p.y - half)
+      ctx.quadraticCurveTo(p.x, p.y, p.x + half, p.y)
+      ctx.quadraticCurveTo(p.x, p.y, p.x, p.y + half)
+      ctx.quadraticCurveTo(p.x, p.y, p.x - half, p.y)
+      ctx.quadraticCurveTo(p.x, p.y, p.x, p.y - half)
+      ctx.fill()
+      break
+
+    case 'ring':
+      ctx.strokeStyle = p.color
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, size, 0, Math.PI * 2)
+      ctx.stroke()
+      break
+  }
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { EmbedBridge, type EmbedBridgeOptions } from './EmbedBridge'
+import { EMBED_PROTOCOL, EMBED_PROTOCOL_VERSION, type EmbedCommand, type EmbedParams, type EmbedRequest } from './EmbedProtocol'
+
+const GAME_ORIGIN = 'https://game.example'
+const HOST_ORIGIN = 'https://host.example'
+
+// Just enough of a browser window for the bridge - tests run without a DOM
+class FakeWindow extends EventTarget {
+  location = { origin: GAME_ORIGIN }
+}
+
+let parent: { postMessage: ReturnType<typeof vi.fn> }
+let bridge: EmbedBridge | null = null
+
+function createBridge(options: Partial<EmbedBridgeOptions> = {}): EmbedBridge {
+  bridge = new EmbedBridge({ allowedOrigins: [HOST_ORIGIN], target: parent as unknown as Window, ...options })
+  return bridge
+}
+
+function receive(data: unknown, origin = HOST_ORIGIN) {
+  window.dispatchEvent(new MessageEvent('message', { data, origin }))
+}
+
+function request<C extends EmbedCommand>(command: C, params: EmbedParams<C>, origin = HOST_ORIGIN) {
+  const message: EmbedRequest<C> = { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, kind: 'request', id: 'r1', command, params }
+  receive(message, origin)
+}
+
+// Everything the bridge posted to the host page, with the origin it was addressed to
+function posted(): Array<{ message: any; origin: string }> {
+  return parent.postMessage.mock.calls.map(([message, origin]) => ({ message, origin }))
+}
+
+describe('EmbedBridge', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', new FakeWindow())
+    parent = { postMessage: vi.fn() }
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    bridge?.destroy()
+    bridge = null
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('answers a request with a response carrying its id', () => {
+    createBridge()
+    request('ping', {})
+    expect(posted()).toEqual([{
+      message: expect.objectContaining({ kind: 'response', id: 'r1', ok: true, result: { time: expect.any(Number) } }),
+      origin: HOST_ORIGIN
+    }])
+  })
+
+  it('answers commands that need the game with NOT_READY while it loads', () => {
+    createBridge()
+    request('pause', {})
+    expect(posted()[0].message).toMatchObject({ id: 'r1', ok: false, error: { code: 'NOT_READY' } })
+  })
+
+  it('ignores messages from origins that are not allowed', () => {
+    createBridge()
+    request('ping', {}, 'https://evil.example')
+    expect(posted()).toEqual([])
+    expect(console.warn).toHaveBeenCalledTimes(1)
+  })
+
+  it('only accepts the game\'s own origin when no origins are configured', () => {
+    createBridge({ allowedOrigins: [] })
+    request('ping', {})
+    request('ping', {}, GAME_ORIGIN)
+    expect(posted().map(({ origin }) => origin)).toEqual([GAME_ORIGIN])
+  })
+
+  it('refuses setApiUrl while every origin is allowed', () => {
+    const setApiUrl = vi.fn()
+    createBridge({ allowedOrigins: ['*'], setApiUrl })
+    request('setApiUrl', { apiUrl: 'https://uploads.evil.example' }, 'https://evil.example')
+    expect(setApiUrl).not.toHaveBeenCalled()
+    expect(posted()[0].message).toMatchObject({ ok: false, error: { code: 'COMMAND_FAILED' } })
+  })
+
+  it('maps legacy messages onto commands', () => {
+    const setApiUrl = vi.fn()
+    const reloadLevel = vi.fn()
+    createBridge({ setApiUrl, reloadLevel })
+    receive({ type: 'SET_API_URL', apiUrl: 'https://api.example' })
+    receive({ type: 'RELOAD_LEVEL', levelId: 4 })
+    receive({ type: 'RELOAD_LEVEL', levelId: 4 }, 'https://evil.example')
+
+    expect(setApiUrl).toHaveBeenCalledWith('https://api.example')
+    expect(reloadLevel).toHaveBeenCalledTimes(1)
+    expect(reloadLevel).toHaveBeenCalledWith(4)
+    expect(posted()).toEqual([]) // legacy messages get no response
+  })
+
+  it('posts the legacy outbound message next to the event', () => {
+    createBridge()
+    bridge!.emit('error', { message: 'Level not found' })
+    expect(posted().map(({ message }) => message)).toEqual([
+      expect.objectContaining({ kind: 'event', event: 'error', data: { message: 'Level not found' } }),
+      { type: 'GAME_ERROR', data: { error: 'Level not found', timestamp: expect.any(Number) } }
+    ])
+  })
+
+  it('sends events to the origin that said hello', () => {
+    createBridge({ allowedOrigins: ['*'] })
+    request('hello', { version: EMBED_PROTOCOL_VERSION })
+    bridge!.emit('start', { levelId: 3 })
+    expect(posted().map(({ origin }) => origin)).toEqual([HOST_ORIGIN, HOST_ORIGIN, HOST_ORIGIN])
+    expect(posted()[2].message).toEqual({ type: 'GAME_START', data: { timestamp: expect.any(Number) } })
+  })
+})
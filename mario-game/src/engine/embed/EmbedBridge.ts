@@ -0,0 +1,404 @@
+import { type GameAPI } from '../api/GameAPI'
+import { type LevelPackManager } from '../LevelPackManager'
+import { LevelSchema, LevelValidationError, type LevelDocument } from '../level/LevelSchema'
+import {
+  EMBED_PROTOCOL,
+  EMBED_PROTOCOL_VERSION,
+  isEmbedMessage,
+  type EmbedCommand,
+  type EmbedError,
+  type EmbedErrorCode,
+  type EmbedEvent,
+  type EmbedEventMap,
+  type EmbedEventName,
+  type EmbedRequest,
+  type EmbedResponse,
+  type EmbedResult,
+  type EmbedState
+} from './EmbedProtocol'
+
+export interface EmbedBridgeOptions {
+  allowedOrigins: string[] // '*' allows any origin (setApiUrl is then refused); an empty list allows the game's own origin only
+  progressInterval?: number // ms between progress events, default 250
+  parseLevel?: (data: unknown) => LevelDocument // default: LevelSchema.validate, throwing on errors
+  setApiUrl?: (apiUrl: string) => void
+  reloadLevel?: (levelId: number) => void
+  target?: Window // default: window.parent
+}
+
+// Messages sent by embed hosts before the protocol existed
+const LEGACY_COMMANDS: Record<string, EmbedCommand> = {
+  SET_API_URL: 'setApiUrl',
+  RELOAD_LEVEL: 'reloadLevel',
+  PAUSE_GAME: 'pause',
+  RESUME_GAME: 'resume',
+  RESET_GAME: 'reset'
+}
+
+// Messages embed.html sent before the protocol, still posted next to their events for old hosts
+interface LegacyMessage {
+  type: string
+  data: Record<string, unknown>
+}
+
+const LEGACY_EVENTS: { [E in EmbedEventName]?: (data: EmbedEventMap[E]) => LegacyMessage } = {
+  ready: () => ({ type: 'GAME_READY', data: { timestamp: Date.now() } }),
+  start: () => ({ type: 'GAME_START', data: { timestamp: Date.now() } }),
+  error: ({ message }) => ({ type: 'GAME_ERROR', data: { error: message, timestamp: Date.now() } })
+}
+
+class EmbedCommandError extends Error {
+  public code: EmbedErrorCode
+  public issues?: EmbedError['issues']
+
+  constructor(code: EmbedErrorCode, message: string, issues?: EmbedError['issues']) {
+    super(message)
+    this.code = code
+    this.issues = issues
+  }
+}
+
+/**
+ * EmbedBridge - game side of the embed protocol (see EmbedProtocol)
+ *
+ * Listens for requests from the host page, answers each one with a response carrying the
+ * same id, and forwards gameplay events. Messages from origins outside `allowedOrigins`
+ * are ignored. Events go to the origin that sent `hello`, or to every allowed origin
+ * until one has.
+ */
+export class EmbedBridge {
+  private options: EmbedBridgeOptions
+  private target: Window
+  private api: GameAPI | null = null
+  private pack: LevelPackManager | null = null
+  private connectedOrigin: string | null = null
+  private unsubscribers: Array<() => void> = []
+  private progressTimer: ReturnType<typeof setInterval> | null = null
+  private lastProgress = ''
+  private droppedOrigins = new Set<string>() // warned about once each
+
+  constructor(options: EmbedBridgeOptions) {
+    this.options = options
+    this.target = options.target ?? window.parent
+    window.addEventListener('message', this.handleMessage)
+  }
+
+  /**
+   * Whether this page runs inside a frame at all
+   */
+  public isEmbedded(): boolean {
+    return this.target !== window
+  }
+
+  /**
+   * Start serving game commands and events once the game is running.
+   * Commands that need the game fail with NOT_READY until then.
+   */
+  public attach(api: GameAPI, pack: LevelPackManager | null = null): void {
+    this.detach()
+    this.api = api
+    this.pack = pack
+
+    this.unsubscribers = [
+      api.on('levelStart', ({ levelId, replay }) => {
+        if (!replay) this.emit('start', { levelId })
+      }),
+      api.on('victory', ({ levelId, completionTime, deaths, coins }) => {
+        this.emit('win', { levelId, completionTime, deaths, coins })
+      }),
+      api.on('death', ({ cause, deaths }) => this.emit('death', { cause, deaths })),
+      api.on('coinCollected', ({ coins, x, y }) => this.emit('coin', { coins, x, y })),
+      // The protocol has no game over event - old hosts still get theirs (the game keeps no score)
+      api.on('gameOver', () => this.postLegacy({ type: 'GAME_OVER', data: { score: 0, timestamp: Date.now() } }))
+    ]
+    this.progressTimer = setInterval(this.sendProgress, this.options.progressInterval ?? 250)
+
+    this.emit('ready', this.getState())
+  }
+
+  public detach(): void {
+    this.unsubscribers.forEach(off => off())
+    this.unsubscribers = []
+    if (this.progressTimer !== null) {
+      clearInterval(this.progressTimer)
+      this.progressTimer = null
+    }
+    this.api = null
+    this.pack = null
+  }
+
+  public destroy(): void {
+    this.detach()
+    window.removeEventListener('message', this.handleMessage)
+  }
+
+  /**
+   * Send an event to the host page
+   */
+  public emit<E extends EmbedEventName>(event: E, data: EmbedEventMap[E]): void {
+    const message: EmbedEvent<E> = { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, kind: 'event', event, data }
+    this.getTargetOrigins().forEach(origin => this.post(message, origin))
+
+    const legacy = LEGACY_EVENTS[event]
+    if (legacy) this.postLegacy(legacy(data))
+  }
+
+  public getState(): EmbedState {
+    const api = this.api
+    if (!api) return loadingState()
+
+    const engine = api.getEngine()
+    const player = engine.getPlayerPosition()
+    return {
+      ready: true,
+      running: engine.isRunning(),
+      paused: engine.isPaused(),
+      victory: engine.isVictory(),
+      levelId: engine.getLevelId(),
+      coins: engine.getCoins(),
+      deaths: engine.getNumDeaths(),
+      elapsedTime: engine.getElapsedTime(),
+      speedMultiplier: engine.getPlayer()?.getSpeedMultiplier() ?? 1,
+      player,
+      progress: this.getProgress(),
+      pack: this.pack ? { level: this.pack.getCurrentLevelNumber(), totalLevels: this.pack.getTotalLevels() } : null
+    }
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (!this.isAllowedOrigin(event.origin)) {
+      this.warnDropped(event)
+      return
+    }
+
+    if (isEmbedMessage(event.data)) {
+      if (event.data.kind === 'request') {
+        this.handleRequest(event.data, event.origin)
+      }
+      return
+    }
+
+    // Legacy { type: 'PAUSE_GAME' } messages - no response is sent
+    const legacy = event.data && typeof event.data === 'object' ? LEGACY_COMMANDS[event.data.type] : undefined
+    if (legacy) {
+      console.warn(`⚠️ Legacy embed message ${event.data.type} - use the "${legacy}" command instead`)
+      try {
+        this.execute(legacy, event.data, event.origin)
+      } catch (error) {
+        console.error(`❌ ${event.data.type} failed:`, error)
+      }
+    }
+  }
+
+  private handleRequest(request: EmbedRequest, origin: string) {
+    console.log(`📨 Embed command: ${request.command}`, request.params)
+
+    let response: EmbedResponse
+    try {
+      if (request.version > EMBED_PROTOCOL_VERSION) {
+        throw new EmbedCommandError(
+          'UNSUPPORTED_VERSION',
+          `Protocol version ${request.version} is not supported (game speaks ${EMBED_PROTOCOL_VERSION})`
+        )
+      }
+      const result = this.execute(request.command, request.params ?? {}, origin)
+      response = { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, kind: 'response', id: request.id, ok: true, result }
+    } catch (error) {
+      response = { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, kind: 'response', id: request.id, ok: false, error: toEmbedError(error) }
+    }
+    this.post(response, origin)
+  }
+
+  private execute(command: EmbedCommand, params: any, origin: string): EmbedResult<EmbedCommand> {
+    switch (command) {
+      case 'hello':
+        this.connectedOrigin = origin
+        return { version: EMBED_PROTOCOL_VERSION, state: this.getState() }
+
+      case 'ping':
+        return { time: Date.now() }
+
+      case 'pause':
+      case 'resume':
+        this.requireApi().setPaused(command === 'pause')
+        return this.getState()
+
+      case 'reset':
+        this.requireApi().resetGame()
+        void this.requireApi().startGame()
+        return this.getState()
+
+      case 'loadLevel':
+        return this.loadLevel(params.level)
+
+      case 'reloadLevel': {
+        const levelId = Number(params.levelId)
+        if (!Number.isInteger(levelId) || levelId <= 0) {
+          throw new EmbedCommandError('INVALID_PARAMS', 'levelId must be a positive integer')
+        }
+        if (!this.options.reloadLevel) {
+          throw new EmbedCommandError('COMMAND_FAILED', 'Reloading levels is not supported here')
+        }
+        this.options.reloadLevel(levelId)
+        return { levelId }
+      }
+
+      case 'setApiUrl': {
+        if (typeof params.apiUrl !== 'string' || params.apiUrl.length === 0) {
+          throw new EmbedCommandError('INVALID_PARAMS', 'apiUrl must be a non-empty string')
+        }
+        // Any page could frame the game and send uploads to its own server
+        if (this.options.allowedOrigins.includes('*')) {
+          throw new EmbedCommandError('COMMAND_FAILED', 'setApiUrl is disabled while every origin is allowed')
+        }
+        this.options.setApiUrl?.(params.apiUrl)
+        return { apiUrl: params.apiUrl }
+      }
+
+      case 'setSpeed': {
+        const multiplier = Number(params.multiplier)
+        if (!Number.isFinite(multiplier) || multiplier <= 0) {
+          throw new EmbedCommandError('INVALID_PARAMS', 'multiplier must be a positive number')
+        }
+        const player = this.requireApi().getEngine().getPlayer()
+        if (!player) {
+          throw new EmbedCommandError('NOT_READY', 'No player in the level')
+        }
+        player.setSpeedMultiplier(multiplier)
+        return { speedMultiplier: player.getSpeedMultiplier() }
+      }
+
+      case 'getState':
+        return this.getState()
+
+      default:
+        throw new EmbedCommandError('UNKNOWN_COMMAND', `Unknown command "${command}"`)
+    }
+  }
+
+  /**
+   * Replace the running level with inline level JSON and restart, keeping the chosen speed
+   */
+  private loadLevel(data: unknown): EmbedState {
+    const api = this.requireApi()
+    if (data === undefined || data === null) {
+      throw new EmbedCommandError('INVALID_PARAMS', 'level is required')
+    }
+
+    let level: LevelDocument
+    try {
+      level = (this.options.parseLevel ?? parseLevel)(data)
+    } catch (error) {
+      const issues = error instanceof LevelValidationError ? error.issues : undefined
+      throw new EmbedCommandError('INVALID_LEVEL', error instanceof Error ? error.message : String(error), issues)
+    }
+
+    const engine = api.getEngine()
+    const speed = engine.getPlayer()?.getSpeedMultiplier() ?? 1
+    api.loadLevel(level)
+    engine.getPlayer()?.setSpeedMultiplier(speed)
+    api.resetGame()
+    void api.startGame()
+    return this.getState()
+  }
+
+  private sendProgress = () => {
+    const engine = this.api?.getEngine()
+    if (!engine || !engine.isRunning() || engine.isPaused() || engine.isVictory()) return
+
+    const position = engine.getPlayerPosition()
+    if (!position) return
+    const data = { x: Math.round(position.x), y: Math.round(position.y), progress: this.getProgress(), elapsedTime: engine.getElapsedTime() }
+
+    // Standing still is not progress
+    const key = `${data.x},${data.y}`
+    if (key === this.lastProgress) return
+    this.lastProgress = key
+    this.emit('progress', data)
+  }
+
+  private getProgress(): number {
+    const engine = this.api?.getEngine()
+    const position = engine?.getPlayerPosition()
+    const goal = engine?.getGoal()
+    if (!engine || !position || !goal) return 0
+    if (engine.isVictory()) return 1
+
+    const start = engine.getStartPosition()
+    const distance = goal.x - start.x
+    if (distance === 0) return 0
+    return Math.min(1, Math.max(0, (position.x - start.x) / distance))
+  }
+
+  private requireApi(): GameAPI {
+    if (!this.api) {
+      throw new EmbedCommandError('NOT_READY', 'Game is still loading')
+    }
+    return this.api
+  }
+
+  private isAllowedOrigin(origin: string): boolean {
+    const allowed = this.options.allowedOrigins
+    if (allowed.includes('*')) return true
+    if (allowed.length === 0) return origin === window.location.origin
+    return allowed.includes(origin)
+  }
+
+  // Only messages that look like commands - other scripts on the page post messages too
+  private warnDropped(event: MessageEvent) {
+    const data = event.data
+    const command = isEmbedMessage(data) || Boolean(data && typeof data === 'object' && LEGACY_COMMANDS[data.type])
+    if (!command || this.droppedOrigins.has(event.origin)) return
+    this.droppedOrigins.add(event.origin)
+    console.warn(`⚠️ Ignoring embed messages from ${event.origin} - add it to VITE_EMBED_ALLOWED_ORIGINS to accept them`)
+  }
+
+  private getTargetOrigins(): string[] {
+    if (this.connectedOrigin) return [this.connectedOrigin]
+    const allowed = this.options.allowedOrigins
+    if (allowed.includes('*')) return ['*']
+    // postMessage drops messages whose target origin does not match, so only the real host gets them
+    return allowed.length > 0 ? allowed : [window.location.origin]
+  }
+
+  private postLegacy(message: LegacyMessage) {
+    this.getTargetOrigins().forEach(origin => this.post(message, origin))
+  }
+
+  private post(message: EmbedEvent | EmbedResponse | LegacyMessage, origin: string) {
+    if (!this.isEmbedded()) return
+    this.target.postMessage(message, origin)
+  }
+}
+
+function parseLevel(data: unknown): LevelDocument {
+  const result = LevelSchema.validate(data)
+  if (!result.level) {
+    throw new LevelValidationError(result.issues)
+  }
+  return result.level
+}
+
+function toEmbedError(error: unknown): EmbedError {
+  if (error instanceof EmbedCommandError) {
+    return { code: error.code, message: error.message, ...(error.issues ? { issues: error.issues } : {}) }
+  }
+  return { code: 'COMMAND_FAILED', message: error instanceof Error ? error.message : String(error) }
+}
+
+function loadingState(): EmbedState {
+  return {
+    ready: false,
+    running: false,
+    paused: false,
+    victory: false,
+    levelId: 0,
+    coins: 0,
+    deaths: 0,
+    elapsedTime: 0,
+    speedMultiplier: 1,
+    player: null,
+    progress: 0,
+    pack: null
+  }
+}
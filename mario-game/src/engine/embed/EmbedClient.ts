@@ -0,0 +1,198 @@
+import {
+  EMBED_PROTOCOL,
+  EMBED_PROTOCOL_VERSION,
+  EmbedRequestError,
+  isEmbedMessage,
+  type EmbedCommand,
+  type EmbedEventMap,
+  type EmbedEventName,
+  type EmbedParams,
+  type EmbedRequest,
+  type EmbedResponse,
+  type EmbedResult,
+  type EmbedState,
+  type HelloResult
+} from './EmbedProtocol'
+
+export interface EmbedClientOptions {
+  origin?: string // origin of the game, default: taken from the iframe's src
+  timeout?: number // ms to wait for each response, default 5000
+}
+
+export type EmbedEventListener<E extends EmbedEventName> = (data: EmbedEventMap[E]) => void
+
+interface PendingRequest {
+  command: EmbedCommand
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * EmbedClient - parent page side of the embed protocol
+ *
+ * Only depends on EmbedProtocol, so host pages can bundle it without the engine.
+ *
+ * @example
+ * const client = new EmbedClient(document.querySelector('iframe')!)
+ * client.on('win', ({ completionTime }) => showResult(completionTime))
+ * await client.connect()
+ * await client.loadLevel(levelJson)
+ * const state = await client.getState()
+ */
+export class EmbedClient {
+  private frame: HTMLIFrameElement
+  private origin: string
+  private timeout: number
+  private nextId = 1
+  private pending = new Map<string, PendingRequest>()
+  private listeners = new Map<EmbedEventName, Array<EmbedEventListener<any>>>()
+
+  constructor(frame: HTMLIFrameElement, options: EmbedClientOptions = {}) {
+    this.frame = frame
+    this.origin = options.origin ?? new URL(frame.src, window.location.href).origin
+    this.timeout = options.timeout ?? 5000
+    window.addEventListener('message', this.handleMessage)
+  }
+
+  /**
+   * Handshake with the game. Retries until the iframe has loaded far enough to answer,
+   * and from then on the game sends its events to this page.
+   */
+  public async connect(timeout = 10000): Promise<HelloResult> {
+    const deadline = Date.now() + timeout
+    for (;;) {
+      try {
+        return await this.request('hello', { version: EMBED_PROTOCOL_VERSION }, Math.min(500, timeout))
+      } catch (error) {
+        const timedOut = error instanceof EmbedRequestError && error.code === 'TIMEOUT'
+        if (!timedOut || Date.now() >= deadline) throw error
+      }
+    }
+  }
+
+  /**
+   * Send any command and wait for its response
+   * @throws EmbedRequestError with the game's error code, or TIMEOUT
+   */
+  public request<C extends EmbedCommand>(command: C, params: EmbedParams<C>, timeout = this.timeout): Promise<EmbedResult<C>> {
+    const id = `${Date.now().toString(36)}-${this.nextId++}`
+    const message: EmbedRequest<C> = { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, kind: 'request', id, command, params }
+
+    return new Promise((resolve, reject) => {
+      const target = this.frame.contentWindow
+      if (!target) {
+        reject(new Error('Embed iframe is not attached to the document'))
+        return
+      }
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new EmbedRequestError(command, { code: 'TIMEOUT', message: `no response after ${timeout}ms` }))
+      }, timeout)
+      this.pending.set(id, { command, resolve, reject, timer })
+      target.postMessage(message, this.origin)
+    })
+  }
+
+  public pause(): Promise<EmbedState> {
+    return this.request('pause', {})
+  }
+
+  public resume(): Promise<EmbedState> {
+    return this.request('resume', {})
+  }
+
+  public reset(): Promise<EmbedState> {
+    return this.request('reset', {})
+  }
+
+  /**
+   * Replace the level with inline level JSON (any format the game can load) and restart
+   */
+  public loadLevel(level: unknown): Promise<EmbedState> {
+    return this.request('loadLevel', { level })
+  }
+
+  /**
+   * Load a level from the backend by id - the iframe navigates, so call connect() again afterwards
+   */
+  public reloadLevel(levelId: number): Promise<{ levelId: number }> {
+    return this.request('reloadLevel', { levelId })
+  }
+
+  public setApiUrl(apiUrl: string): Promise<{ apiUrl: string }> {
+    return this.request('setApiUrl', { apiUrl })
+  }
+
+  /**
+   * @returns the multiplier actually applied (clamped to 0.5..2)
+   */
+  public async setSpeed(multiplier: number): Promise<number> {
+    const { speedMultiplier } = await this.request('setSpeed', { multiplier })
+    return speedMultiplier
+  }
+
+  public getState(): Promise<EmbedState> {
+    return this.request('getState', {})
+  }
+
+  /**
+   * Listen for a game event
+   * @returns a function that removes the listener
+   */
+  public on<E extends EmbedEventName>(event: E, listener: EmbedEventListener<E>): () => void {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener])
+    return () => this.off(event, listener)
+  }
+
+  public off<E extends EmbedEventName>(event: E, listener: EmbedEventListener<E>): void {
+    const listeners = this.listeners.get(event)
+    if (!listeners) return
+    this.listeners.set(event, listeners.filter(l => l !== listener))
+  }
+
+  /**
+   * Stop listening and fail every request still waiting for an answer
+   */
+  public destroy(): void {
+    window.removeEventListener('message', this.handleMessage)
+    this.pending.forEach(pending => {
+      clearTimeout(pending.timer)
+      pending.reject(new Error('EmbedClient destroyed'))
+    })
+    this.pending.clear()
+    this.listeners.clear()
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (event.source !== this.frame.contentWindow) return
+    if (this.origin !== '*' && event.origin !== this.origin) return
+    if (!isEmbedMessage(event.data)) return
+
+    const message = event.data
+    if (message.kind === 'response') {
+      this.settle(message)
+    } else if (message.kind === 'event') {
+      this.listeners.get(message.event)?.forEach(listener => {
+        try {
+          listener(message.data)
+        } catch (error) {
+          console.error(`❌ ${message.event} listener failed:`, error)
+        }
+      })
+    }
+  }
+
+  private settle(response: EmbedResponse) {
+    const pending = this.pending.get(response.id)
+    if (!pending) return
+    this.pending.delete(response.id)
+    clearTimeout(pending.timer)
+
+    if (response.ok) {
+      pending.resolve(response.result)
+    } else {
+      pending.reject(new EmbedRequestError(pending.command, response.error))
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Embed protocol - the postMessage contract between embed.html and the page hosting it
+ *
+ * Every message is a plain object tagged with `protocol` and `version`:
+ * - request  (parent → game): `{ kind: 'request', id, command, params }`
+ * - response (game → parent): `{ kind: 'response', id, ok, result | error }`, same id as the request
+ * - event    (game → parent): `{ kind: 'event', event, data }`
+ *
+ * The version only changes for breaking changes. A request with a newer version than the
+ * game speaks is answered with an UNSUPPORTED_VERSION error.
+ */
+import { type LevelIssue } from '../level/LevelSchema'
+import { type HitCause } from '../events/GameEvents'
+
+export const EMBED_PROTOCOL = 'mario-embed'
+export const EMBED_PROTOCOL_VERSION = 1
+
+export interface EmbedState {
+  ready: boolean // false until the level is built and the player picked a speed
+  running: boolean
+  paused: boolean
+  victory: boolean
+  levelId: number
+  coins: number
+  deaths: number
+  elapsedTime: number // ms
+  speedMultiplier: number
+  player: { x: number; y: number } | null
+  progress: number // 0..1 along the way from start to goal
+  pack: { level: number; totalLevels: number } | null // only in pack mode
+}
+
+export interface HelloResult {
+  version: number
+  state: EmbedState
+}
+
+/**
+ * Every command the game accepts, with its params and result
+ */
+export interface EmbedCommandMap {
+  hello: { params: { version: number }; result: HelloResult } // handshake - also selects the origin events go to
+  ping: { params: Record<string, never>; result: { time: number } }
+  pause: { params: Record<string, never>; result: EmbedState }
+  resume: { params: Record<string, never>; result: EmbedState }
+  reset: { params: Record<string, never>; result: EmbedState }
+  loadLevel: { params: { level: unknown }; result: EmbedState } // level JSON in any format LevelLoader reads
+  reloadLevel: { params: { levelId: number }; result: { levelId: number } } // navigates the iframe
+  setApiUrl: { params: { apiUrl: string }; result: { apiUrl: string } }
+  setSpeed: { params: { multiplier: number }; result: { speedMultiplier: number } } // clamped to 0.5..2
+  getState: { params: Record<string, never>; result: EmbedState }
+}
+
+export type EmbedCommand = keyof EmbedCommandMap
+export type EmbedParams<C extends EmbedCommand> = EmbedCommandMap[C]['params']
+export type EmbedResult<C extends EmbedCommand> = EmbedCommandMap[C]['result']
+
+/**
+ * Every event the game sends on its own
+ */
+export interface EmbedEventMap {
+  ready: EmbedState
+  start: { levelId: number }
+  win: { levelId: number; completionTime: number; deaths: number; coins: number }
+  death: { cause: HitCause; deaths: number }
+  coin: { coins: number; x: number; y: number }
+  progress: { x: number; y: number; progress: number; elapsedTime: number } // throttled while playing
+  error: { message: string; issues?: LevelIssue[] }
+}
+
+export type EmbedEventName = keyof EmbedEventMap
+
+export type EmbedErrorCode =
+  | 'UNSUPPORTED_VERSION'
+  | 'UNKNOWN_COMMAND'
+  | 'INVALID_PARAMS'
+  | 'NOT_READY'
+  | 'INVALID_LEVEL'
+  | 'COMMAND_FAILED'
+  | 'TIMEOUT' // client side only - the game never answered
+
+export interface EmbedError {
+  code: EmbedErrorCode
+  message: string
+  issues?: LevelIssue[] // INVALID_LEVEL only
+}
+
+interface EmbedEnvelope {
+  protocol: typeof EMBED_PROTOCOL
+  version: number
+}
+
+export interface EmbedRequest<C extends EmbedCommand = EmbedCommand> extends EmbedEnvelope {
+  kind: 'request'
+  id: string
+  command: C
+  params: EmbedParams<C>
+}
+
+export type EmbedResponse<C extends EmbedCommand = EmbedCommand> = EmbedEnvelope & {
+  kind: 'response'
+  id: string
+} & ({ ok: true; result: EmbedResult<C> } | { ok: false; error: EmbedError })
+
+export interface EmbedEvent<E extends EmbedEventName = EmbedEventName> extends EmbedEnvelope {
+  kind: 'event'
+  event: E
+  data: EmbedEventMap[E]
+}
+
+export type EmbedMessage = EmbedRequest | EmbedResponse | EmbedEvent
+
+/**
+ * Check that a received message belongs to this protocol (any version)
+ */
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+  if (!data || typeof data !== 'object') return false
+  const message = data as Partial<EmbedMessage>
+  return message.protocol === EMBED_PROTOCOL
+    && typeof message.version === 'number'
+    && (message.kind === 'request' || message.kind === 'response' || message.kind === 'event')
+}
+
+/**
+ * Thrown by EmbedClient when the game answers a request with an error
+ */
+export class EmbedRequestError extends Error {
+  public code: EmbedErrorCode
+  public issues?: LevelIssue[]
+
+  constructor(command: string, error: EmbedError) {
+    super(`${command} failed: ${error.message}`)
+    this.name = 'EmbedRequestError'
+    this.code = error.code
+    this.issues = error.issues
+  }
+}
+
+/**
+ * Parse a comma separated origin list (e.g. VITE_EMBED_ALLOWED_ORIGINS).
+ * '*' allows every origin and must be listed explicitly.
+ */
+export function parseAllowedOrigins(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(origin => origin.length > 0)
+}
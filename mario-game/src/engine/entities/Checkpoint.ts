@@ -0,0 +1,64 @@
+import { Entity } from './Entity'
+
+/**
+ * Mid-level checkpoint flag. Once the player touches it, deaths respawn them here
+ * instead of at the level start. (x, y) is the top-left of the pole area.
+ */
+export class Checkpoint extends Entity {
+  public activated = false
+  private flagHeight = 0 // 0 = lowered, 1 = raised
+
+  constructor(x: number, y: number) {
+    super(x, y, 32, 64, 'checkpoint')
+    this.setPhysics({ solid: false, gravity: false })
+  }
+
+  public activate() {
+    this.activated = true
+  }
+
+  /**
+   * Where the player reappears - standing at the foot of the pole
+   */
+  public getRespawnPoint(playerHeight = 32): { x: number; y: number } {
+    return { x: this.position.x, y: this.position.y + this.height - playerHeight }
+  }
+
+  public update(dt: number) {
+    // Raise the flag after activation
+    if (this.activated && this.flagHeight < 1) {
+      this.flagHeight = Math.min(1, this.flagHeight + dt * 3)
+    }
+  }
+
+  public respawn() {
+    super.respawn()
+    this.activated = false
+    this.flagHeight = 0
+  }
+
+  public render(ctx: CanvasRenderingContext2D) {
+    ctx.save()
+
+    const poleX = this.position.x + this.width / 2 - 2
+    const bottom = this.position.y + this.height
+
+    // Pole and its base
+    ctx.fillStyle = '#C0C0C0'
+    ctx.fillRect(poleX, this.position.y, 4, this.height)
+    ctx.fillStyle = '#555555'
+    ctx.fillRect(this.position.x + 8, bottom - 6, this.width - 16, 6)
+
+    // Flag: grey and low until reached, then raised and green
+    const flagTop = bottom - 22 - this.flagHeight * (this.height - 26)
+    ctx.fillStyle = this.activated ? '#00C000' : '#888888'
+    ctx.beginPath()
+    ctx.moveTo(poleX + 4, flagTop)
+    ctx.lineTo(poleX + 20, flagTop + 7)
+    ctx.lineTo(poleX + 4, flagTop + 14)
+    ctx.closePath()
+    ctx.fill()
+
+    ctx.restore()
+  }
+}
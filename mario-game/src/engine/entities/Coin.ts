@@ -25,6 +25,13 @@ export class Coin extends Entity {
     }
   }
 
+  public respawn() {
+    super.respawn()
+    this.animationFrame = 0
+    this.animationTimer = 0
+    this.rotation = 0
+  }
+
   public render(ctx: CanvasRenderingContext2D) {
     ctx.save()
 
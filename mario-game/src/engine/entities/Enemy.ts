@@ -1,151 +1,87 @@
 import { Entity } from './Entity'
+import { type Player } from './Player'
+import { EnemyRegistry } from './enemies/EnemyRegistry'
+import { type ContactOutcome, type EnemyBehavior, type EnemyDefinition, type EnemyWorld } from './enemies/EnemyBehavior'
+import { boundsOverlap, type Bounds } from '../physics/Geometry'
 
 export class Enemy extends Entity {
   public enemyType: string
-  private direction: number = 1
-  private speed: number = 2
-  private animationFrame = 0
-  private animationTimer = 0
+  public direction: number = 1
+  private definition: EnemyDefinition
+  private behavior: EnemyBehavior
+  private world: EnemyWorld | null = null
 
   constructor(x: number, y: number, type: string, size = 32) {
-    // Default size based on type, but allow custom size for spikes
-    const defaultSize = type === 'bowser' ? 64 : 32
-    const finalSize = type === 'spike' ? size : defaultSize
+    // Size comes from the enemy's definition, only scalable types (spikes) use the level's size
+    const definition = EnemyRegistry.get(type)
+    const finalSize = definition.scalable ? size : definition.size ?? 32
     super(x, y, finalSize, finalSize, 'enemy')
     this.enemyType = type
-    this.setPhysics({ solid: true, gravity: true, mass: 1 })
+    this.definition = definition
+    this.behavior = definition.create()
+    this.setPhysics(definition.physics ?? { solid: true, gravity: true, mass: 1 })
+  }
 
-    // Set speed based on enemy type
-    switch(type) {
-      case 'goomba':
-        this.speed = 1
-        break
-      case 'koopa':
-        this.speed = 1.5
-        break
-      case 'firebar':
-        this.speed = 0
-        this.setPhysics({ solid: false, gravity: false })
-        break
-      case 'bowser':
-        this.speed = 0.5
-        break
-      case 'spike':
-        this.speed = 0  // Static hazard
-        this.setPhysics({ solid: false, gravity: false })
-        break
-    }
+  /**
+   * Give the enemy access to the level it lives in - it stands still until it has one
+   */
+  public setWorld(world: EnemyWorld) {
+    this.world = world
   }
 
   public update(dt: number) {
-    // Simple patrol AI
-    if (this.enemyType !== 'firebar' && this.enemyType !== 'spike') {
-      this.velocity.x = this.speed * this.direction
-    } else if (this.enemyType === 'firebar') {
-      // Firebar rotation
-      this.animationFrame += dt * 5
-    }
-    // Spikes don't move or animate
-
-    // Animation
-    if (this.enemyType !== 'spike') {
-      this.animationTimer += dt
-      if (this.animationTimer > 0.2) {
-        this.animationFrame = (this.animationFrame + 1) % 4
-        this.animationTimer = 0
-      }
+    if (this.world) {
+      this.behavior.update(this, dt, this.world)
     }
   }
 
   public render(ctx: CanvasRenderingContext2D) {
     ctx.save()
+    this.behavior.render(this, ctx)
+    ctx.restore()
+  }
 
-    switch(this.enemyType) {
-      case 'goomba':
-        ctx.fillStyle = '#8B4513'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-        // Draw mushroom cap
-        ctx.fillStyle = '#654321'
-        ctx.fillRect(this.position.x - 4, this.position.y, this.width + 8, this.height / 2)
-        break
-
-      case 'koopa':
-        ctx.fillStyle = '#00FF00'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-        // Draw shell pattern
-        ctx.strokeStyle = '#008800'
-        ctx.lineWidth = 2
-        ctx.strokeRect(this.position.x + 4, this.position.y + 4, this.width - 8, this.height - 8)
-        break
-
-      case 'firebar':
-        // Draw rotating fire bar
-        ctx.translate(this.position.x + this.width/2, this.position.y + this.height/2)
-        ctx.rotate(this.animationFrame)
-        ctx.fillStyle = '#FF4500'
-        for (let i = 0; i < 4; i++) {
-          ctx.fillRect(i * 20, -4, 16, 8)
-        }
-        break
-
-      case 'bowser':
-        ctx.fillStyle = '#FF0000'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-        // Draw spikes
-        ctx.fillStyle = '#FFFF00'
-        for (let i = 0; i < 4; i++) {
-          ctx.fillRect(this.position.x + i * 16, this.position.y - 8, 8, 8)
-        }
-        break
-
-      case 'spike':
-        // Draw triangular metallic gray spike
-
-        // Main spike body - equilateral triangle
-        ctx.fillStyle = '#808080'  // Metallic gray base
-        ctx.beginPath()
-        ctx.moveTo(this.position.x + this.width/2, this.position.y)  // Top point
-        ctx.lineTo(this.position.x, this.position.y + this.height)   // Bottom left
-        ctx.lineTo(this.position.x + this.width, this.position.y + this.height)  // Bottom right
-        ctx.closePath()
-        ctx.fill()
-
-        // Metallic highlight on left side
-        ctx.fillStyle = '#A0A0A0'  // Lighter gray for highlight
-        ctx.beginPath()
-        ctx.moveTo(this.position.x + this.width/2, this.position.y)
-        ctx.lineTo(this.position.x + this.width/4, this.position.y + this.height/2)
-        ctx.lineTo(this.position.x + this.width/2, this.position.y + this.height)
-        ctx.closePath()
-        ctx.fill()
+  /**
+   * Whether the enemy touches `bounds` (e.g. the player) - firebars only hurt with their fireballs
+   */
+  public touches(bounds: Bounds): boolean {
+    return this.behavior.hitTest ? this.behavior.hitTest(this, bounds) : boundsOverlap(this.getBounds(), bounds)
+  }
 
-        // Darker shadow on right side
-        ctx.fillStyle = '#606060'  // Darker gray for shadow
-        ctx.beginPath()
-        ctx.moveTo(this.position.x + this.width/2, this.position.y)
-        ctx.lineTo(this.position.x + this.width*3/4, this.position.y + this.height/2)
-        ctx.lineTo(this.position.x + this.width/2, this.position.y + this.height)
-        ctx.closePath()
-        ctx.fill()
+  public getHitBounds(): Bounds {
+    return this.behavior.getHitBounds ? this.behavior.getHitBounds(this) : this.getBounds()
+  }
 
-        // Bottom edge highlight
-        ctx.strokeStyle = '#C0C0C0'
-        ctx.lineWidth = 1
-        ctx.beginPath()
-        ctx.moveTo(this.position.x, this.position.y + this.height)
-        ctx.lineTo(this.position.x + this.width, this.position.y + this.height)
-        ctx.stroke()
-        break
+  public onPlayerContact(player: Player): ContactOutcome {
+    return this.behavior.onPlayerContact(this, player)
+  }
 
-      default:
-        ctx.fillStyle = '#FF00FF'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
+  /**
+   * Hit by an attack, e.g. a sliding shell or a fireball
+   */
+  public strike(source: Entity) {
+    if (this.behavior.onStruck) {
+      this.behavior.onStruck(this, source)
+    } else {
+      this.dead = true
     }
+  }
 
-    ctx.restore()
+  public isHazard(): boolean {
+    return this.definition.hazard ?? false
+  }
+
+  public getSpawnPosition(): { x: number; y: number } {
+    return { x: this.spawnPosition.x, y: this.spawnPosition.y }
   }
 
   public turnAround() {
     this.direction *= -1
   }
-}
\ No newline at end of file
+
+  public respawn() {
+    super.respawn()
+    this.direction = 1
+    this.behavior.reset?.(this)
+  }
+}
@@ -1,3 +1,5 @@
+import { type MaterialName } from '../physics/Materials'
+
 export interface EntityPhysics {
   solid: boolean
   gravity: boolean
@@ -16,9 +18,14 @@ export abstract class Entity {
   public previousPosition?: { x: number; y: number }
   public wallCollision: { left: boolean; right: boolean } = { left: false, right: false }
   public ceilingCollision = false
+  public surface: MaterialName | null = null // material of what it stands on, kept up to date by the physics engine
+  public inLiquid = false // its center is in water
+  public groundNormal: { x: number; y: number } | null = null // slope of the polygon it stands on
+  protected spawnPosition: { x: number; y: number }
 
   constructor(x: number, y: number, width: number, height: number, type: string) {
     this.position = { x, y }
+    this.spawnPosition = { x, y }
     this.velocity = { x: 0, y: 0 }
     this.width = width
     this.height = height
@@ -37,7 +44,30 @@ export abstract class Entity {
     }
   }
 
+  /**
+   * Everything the entity can touch something with - its box, unless (like a firebar's arm) it reaches further
+   */
+  public getHitBounds() {
+    return this.getBounds()
+  }
+
   public setPhysics(physics: EntityPhysics) {
     this.physics = physics
   }
+
+  /**
+   * Restore the entity to the state it was spawned in (used when a level restarts)
+   */
+  public respawn() {
+    this.position = { x: this.spawnPosition.x, y: this.spawnPosition.y }
+    this.velocity = { x: 0, y: 0 }
+    this.previousPosition = undefined
+    this.dead = false
+    this.grounded = false
+    this.wallCollision = { left: false, right: false }
+    this.ceilingCollision = false
+    this.surface = null
+    this.inLiquid = false
+    this.groundNormal = null
+  }
 }
\ No newline at end of file
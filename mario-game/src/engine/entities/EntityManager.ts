@@ -1,7 +1,10 @@
 import { Entity } from './Entity'
+import { type Bounds } from '../physics/Geometry'
+import { SpatialGrid } from '../physics/SpatialGrid'
 
 export class EntityManager {
   private entities: Entity[] = []
+  private grid = new SpatialGrid<Entity>() // hit bounds as of the last refreshBounds()
   private entitiesToAdd: Entity[] = []
   private entitiesToRemove: Entity[] = []
 
@@ -21,8 +24,23 @@ export class EntityManager {
     return this.entities.filter(e => e.type === type)
   }
 
+  /**
+   * Entities that may touch `bounds`, in the order they were added - a broadphase,
+   * callers still test each one. Positions are as of the last refreshBounds().
+   */
+  public queryEntities(bounds: Bounds): Entity[] {
+    return this.grid.query(bounds)
+  }
+
+  /**
+   * Re-file every entity under where it is now - the engine calls this each tick once things have moved
+   */
+  public refreshBounds() {
+    this.entities.forEach(entity => this.grid.update(entity, entity.getHitBounds()))
+  }
+
   public getEntityAt(x: number, y: number): Entity | null {
-    for (const entity of this.entities) {
+    for (const entity of this.grid.queryPoint(x, y)) {
       const bounds = entity.getBounds()
       if (x >= bounds.left && x <= bounds.right &&
           y >= bounds.top && y <= bounds.bottom) {
@@ -36,6 +54,7 @@ export class EntityManager {
     // Add new entities
     if (this.entitiesToAdd.length > 0) {
       this.entities.push(...this.entitiesToAdd)
+      this.entitiesToAdd.forEach(entity => this.grid.insert(entity, entity.getHitBounds()))
       this.entitiesToAdd = []
     }
 
@@ -45,6 +64,7 @@ export class EntityManager {
         const index = this.entities.indexOf(entity)
         if (index > -1) {
           this.entities.splice(index, 1)
+          this.grid.remove(entity)
         }
       })
       this.entitiesToRemove = []
@@ -52,11 +72,15 @@ export class EntityManager {
   }
 
   public removeDeadEntities() {
+    this.entities.forEach(e => {
+      if (e.dead) this.grid.remove(e)
+    })
     this.entities = this.entities.filter(e => !e.dead)
   }
 
   public clear() {
     this.entities = []
+    this.grid.clear()
     this.entitiesToAdd = []
     this.entitiesToRemove = []
   }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { Enemy } from './Enemy'
+import { Fireball } from './Fireball'
+import { flatLevel, settled } from '../../test/fixtures'
+import { type LevelDocument } from '../level/LevelSchema'
+
+// The player lands on a fire flower, with an enemy of `type` further right
+function fireLevel(type: string): LevelDocument {
+  const level = flatLevel()
+  level.powerUps.push({ x: 50, y: 468, type: 'flower' })
+  level.enemies.push({ x: 300, y: 468, type })
+  return level
+}
+
+// Wait for the flower to rise out of the ground and the player to pick it up
+function withFlower(level: LevelDocument): HeadlessSimulation {
+  const sim = HeadlessSimulation.fromLevelData(level)
+  expect(sim.runUntil(state => state.player!.size === 'big', 120).reached).toBe(true)
+  return sim
+}
+
+// Press the action button once - the fireball joins the level on the next tick
+function throwFireball(sim: HeadlessSimulation): Fireball {
+  sim.run(1, { action: true })
+  sim.run(1)
+  const fireball = sim.getEngine().getEntities().find((entity): entity is Fireball => entity instanceof Fireball)
+  expect(fireball).toBeDefined()
+  return fireball!
+}
+
+describe('Fireball', () => {
+  it('kills a goomba', () => {
+    const sim = withFlower(fireLevel('goomba'))
+    const goomba = sim.getEngine().getEntities().find(entity => entity instanceof Enemy)!
+
+    throwFireball(sim)
+    expect(sim.runUntil(() => goomba.dead, 60).reached).toBe(true)
+  })
+
+  it('only goes out against a spike', () => {
+    const sim = withFlower(fireLevel('spike'))
+    const spike = sim.getEngine().getEntities().find(entity => entity instanceof Enemy)!
+
+    const fireball = throwFireball(sim)
+    expect(sim.runUntil(() => fireball.isExploding(), 60).reached).toBe(true)
+    expect(spike.dead).toBe(false)
+  })
+
+  it('needs the fire flower', () => {
+    const level = flatLevel()
+    level.enemies.push({ x: 300, y: 468, type: 'goomba' })
+    const sim = settled(level)
+    sim.run(30, tick => ({ action: tick % 2 === 0 }))
+    expect(sim.getEngine().getEntities().some(entity => entity instanceof Fireball)).toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import { Entity } from './Entity'
+
+const SPEED = 7
+const BOUNCE_VELOCITY = -5
+const LIFETIME_TICKS = 240 // burns out after 4 seconds even if it never leaves the screen
+const EXPLOSION_TICKS = 8
+const TRAIL_LENGTH = 4
+
+/**
+ * Fireball thrown by a player with the fire flower. Bounces along platforms and
+ * polygons, explodes against walls and enemies, and is gone once off screen.
+ */
+export class Fireball extends Entity {
+  static readonly SIZE = 12
+  static readonly MAX_ACTIVE = 2 // on screen per player, like the original
+
+  public direction: number
+  private ticks = 0
+  private explosionTicks = 0
+  private trail: Array<{ x: number; y: number }> = []
+
+  constructor(x: number, y: number, direction: number) {
+    super(x, y, Fireball.SIZE, Fireball.SIZE, 'fireball')
+    this.direction = direction
+    this.velocity = { x: SPEED * direction, y: 0 }
+    this.setPhysics({ solid: true, gravity: true, mass: 0.1 })
+  }
+
+  public update(_dt: number) {
+    if (this.isExploding()) {
+      this.explosionTicks--
+      if (this.explosionTicks === 0) this.dead = true
+      return
+    }
+
+    this.ticks++
+    this.trail.unshift({ x: this.position.x + this.width / 2, y: this.position.y + this.height / 2 })
+    this.trail.length = Math.min(this.trail.length, TRAIL_LENGTH)
+
+    // Anything that stopped us sideways (walls, slopes too steep, the world edge) puts the fire out
+    if (this.wallCollision.left || this.wallCollision.right || this.velocity.x === 0 || this.ticks > LIFETIME_TICKS) {
+      this.explode()
+      return
+    }
+
+    if (this.grounded) {
+      this.velocity.y = BOUNCE_VELOCITY
+    }
+    this.velocity.x = SPEED * this.direction
+  }
+
+  /**
+   * Stop and play the burst - it no longer hits anything
+   */
+  public explode() {
+    if (this.isExploding()) return
+    this.explosionTicks = EXPLOSION_TICKS
+    this.velocity = { x: 0, y: 0 }
+    this.physics = null
+    this.trail = []
+  }
+
+  public isExploding(): boolean {
+    return this.explosionTicks > 0
+  }
+
+  /**
+   * 1 when the burst starts, falling to 0 as it fades
+   */
+  public getExplosionProgress(): number {
+    return this.explosionTicks / EXPLOSION_TICKS
+  }
+
+  /**
+   * Recent centre points, newest first, for the particle trail
+   */
+  public getTrail(): ReadonlyArray<{ x: number; y: number }> {
+    return this.trail
+  }
+
+  public render(ctx: CanvasRenderingContext2D) {
+    if (this.isExploding()) return // drawn as particles by the renderer
+
+    const cx = this.position.x + this.width / 2
+    const cy = this.position.y + this.height / 2
+    ctx.save()
+    ctx.fillStyle = '#FF4500'
+    ctx.beginPath()
+    ctx.arc(cx, cy, this.width / 2, 0, Math.PI * 2)
+    ctx.fill()
+    ctx.fillStyle = '#FFD700'
+    ctx.beginPath()
+    ctx.arc(cx, cy, this.width / 4, 0, Math.PI * 2)
+    ctx.fill()
+    ctx.restore()
+  }
+}
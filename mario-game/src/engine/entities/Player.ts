@@ -1,10 +1,23 @@
 import { Entity } from './Entity'
+import { Fireball } from './Fireball'
 import { SpriteLoader } from '../sprites/SpriteLoader'
-import { AnimationController, AnimationPresets } from '../sprites/Animation'
+import { AnimationController, AnimationPresets, getPlayerAnimationName, getPlayerSpriteName } from '../sprites/Animation'
 
 export type PlayerSize = 'small' | 'big'
 export type PlayerState = 'idle' | 'running' | 'jumping' | 'falling'
 
+export interface PlayerMovementProfile {
+  jumpPower: number
+  moveSpeed: number
+  runSpeed: number
+  maxJumps: number
+  jumpCooldownTicks: number
+  releasedJumpVelocity: number
+  speedMultiplier: number
+  width: number
+  height: number
+}
+
 export class Player extends Entity {
   public size: PlayerSize = 'small'
   public state: PlayerState = 'idle'
@@ -20,9 +33,19 @@ export class Player extends Entity {
   private moveSpeed = 5
   private runSpeed = 8
   private isRunning = false
+  private maxJumps = 2 // ground jump plus one double jump
   private remainingJumps = 2
-  private jumpCD = 0 // frames of cooldown between jumps
+  private jumpCD = 0 // fixed simulation ticks of cooldown between jumps
+  private jumpCooldownTicks = 10
+  private releasedJumpVelocity = 6 // upward speed is capped to this once jump is released
+  private jumping = false // rising from our own jump (not e.g. a springboard launch)
   private speedMultiplier = 1.0 // Speed multiplier for difficulty adjustment
+  private swimPower = 4 // upward speed of a swim stroke
+  private swimCooldownTicks = 12
+  private fireCD = 0 // fixed simulation ticks until the next fireball can be thrown
+  private fireCooldownTicks = 15
+  private thrownFireball: Fireball | null = null // waiting for the engine to add it to the level
+  private jumped: 'ground' | 'air' | null = null // a jump made this tick, waiting for the engine to announce it
 
   constructor(x: number, y: number) {
     super(x, y, 32, 32, 'player')
@@ -30,17 +53,7 @@ export class Player extends Entity {
 
     // Initialize sprite system
     this.spriteLoader = SpriteLoader.getInstance()
-    this.animationController = new AnimationController()
-
-    // Setup animations for different directions
-    this.animationController.addAnimation('idle_right', AnimationPresets.createPlayerIdleRightAnimation())
-    this.animationController.addAnimation('idle_left', AnimationPresets.createPlayerIdleLeftAnimation())
-    this.animationController.addAnimation('running_right', AnimationPresets.createPlayerRunRightAnimation())
-    this.animationController.addAnimation('running_left', AnimationPresets.createPlayerRunLeftAnimation())
-    this.animationController.addAnimation('jumping', AnimationPresets.createPlayerJumpAnimation())
-
-    // Start with idle animation facing right
-    this.animationController.playAnimation('idle_right')
+    this.animationController = AnimationPresets.createPlayerAnimationController()
   }
 
   public setPos(x: number, y: number) {
@@ -63,20 +76,7 @@ export class Player extends Entity {
 
     // Update animation based on state change or facing direction
     const currentAnimName = this.animationController.getCurrentAnimationName()
-    let newAnimName = ''
-
-    switch (this.state) {
-      case 'idle':
-        newAnimName = this.facing === 'left' ? 'idle_left' : 'idle_right'
-        break
-      case 'running':
-        newAnimName = this.facing === 'left' ? 'running_left' : 'running_right'
-        break
-      case 'jumping':
-      case 'falling':
-        newAnimName = 'jumping'
-        break
-    }
+    const newAnimName = getPlayerAnimationName(this.state, this.facing)
 
     // Only change animation if it's different from current
     if (currentAnimName !== newAnimName) {
@@ -100,7 +100,7 @@ export class Player extends Entity {
 
     // Reset double jump when landing on ground
     if (this.grounded) {
-      this.remainingJumps = 2
+      this.remainingJumps = this.maxJumps
     }
   }
 
@@ -133,31 +133,7 @@ export class Player extends Entity {
     }
 
     // Get current sprite name based on animation
-    const currentAnimName = this.animationController.getCurrentAnimationName()
-    let spriteName = 'player_idle_right' // default fallback
-
-    // Map animation names to sprite names
-    switch (currentAnimName) {
-      case 'idle_left':
-        spriteName = 'player_idle_left'
-        break
-      case 'idle_right':
-        spriteName = 'player_idle_right'
-        break
-      case 'running_left':
-        // Alternate between two running sprites
-        const leftFrame = this.animationController.getCurrentFrame()
-        spriteName = leftFrame === 0 ? 'player_run_left_01' : 'player_run_left_02'
-        break
-      case 'running_right':
-        // Alternate between two running sprites
-        const rightFrame = this.animationController.getCurrentFrame()
-        spriteName = rightFrame === 0 ? 'player_run_right_01' : 'player_run_right_02'
-        break
-      case 'jumping':
-        spriteName = 'player_jump'
-        break
-    }
+    const spriteName = getPlayerSpriteName(this.animationController)
 
     // Try to draw sprite, fallback to rectangle if failed
     const spriteDrawn = this.spriteLoader.drawSprite(
@@ -198,6 +174,23 @@ export class Player extends Entity {
     return this.speedMultiplier
   }
 
+  /**
+   * Movement constants, for tools that predict what the player can reach
+   */
+  public getMovementProfile(): PlayerMovementProfile {
+    return {
+      jumpPower: this.jumpPower,
+      moveSpeed: this.moveSpeed,
+      runSpeed: this.runSpeed,
+      maxJumps: this.maxJumps,
+      jumpCooldownTicks: this.jumpCooldownTicks,
+      releasedJumpVelocity: this.releasedJumpVelocity,
+      speedMultiplier: this.speedMultiplier,
+      width: this.width,
+      height: this.height
+    }
+  }
+
   public handleInput(input: any) {
     if (!input) return
 
@@ -211,28 +204,46 @@ export class Player extends Entity {
       this.velocity.x = speed
     }
 
-    // Jump - respect ceiling collision
-    if (input.jump && this.jumpCD == 0 && this.remainingJumps > 0){
-      this.jumpCD = 10
+    // Swim - in water every jump press is a stroke upwards and costs no jumps,
+    // so the player can still jump out once at the surface
+    if (this.inLiquid) {
+      this.remainingJumps = this.maxJumps
+      this.jumping = false
+      if (input.jump && this.jumpCD == 0) {
+        this.jumpCD = this.swimCooldownTicks
+        this.velocity.y = -this.swimPower
+      } else if (this.jumpCD > 0) {
+        this.jumpCD -= 1
+      }
+    } else if (input.jump && this.jumpCD == 0 && this.remainingJumps > 0){
+      // Jump - respect ceiling collision
+      this.jumpCD = this.jumpCooldownTicks
       this.remainingJumps -= 1
       if (!this.ceilingCollision) {
         console.log('Performing jump')
         this.velocity.y = -this.jumpPower
+        this.jumping = true
+        this.jumped = this.remainingJumps < this.maxJumps - 1 ? 'air' : 'ground'
       }
     } else if (this.jumpCD > 0) {
       this.jumpCD -= 1
     }
 
-    // Variable jump height
-    if (!input.jump && this.velocity.y < -6) {
-      this.velocity.y = -6
+    // Variable jump height - only for our own jumps, springboards always launch at full power
+    if (this.velocity.y >= 0) {
+      this.jumping = false
+    }
+    if (this.jumping && !input.jump && this.velocity.y < -this.releasedJumpVelocity) {
+      this.velocity.y = -this.releasedJumpVelocity
     }
 
     // Run
     this.isRunning = input.run
 
     // Fireball
-    if (input.action && this.fireballEnabled) {
+    if (this.fireCD > 0) {
+      this.fireCD -= 1
+    } else if (input.action && this.fireballEnabled) {
       this.throwFireball()
     }
   }
@@ -280,10 +291,19 @@ export class Player extends Entity {
       this.height = 32
       // Adjust position so Mario's feet stay at the same level
       this.position.y += 32
+      this.fireballEnabled = false // Getting hit costs the fire flower too
       this.makeInvulnerable(1500)
     }
   }
 
+  /**
+   * Bounce off an enemy - like a jump, holding jump makes it go higher
+   */
+  public bounce(velocity = 10) {
+    this.velocity.y = -velocity
+    this.jumping = true
+  }
+
   public makeInvulnerable(duration: number) {
     this.invulnerable = true
     this.invulnerableTime = duration
@@ -297,15 +317,45 @@ export class Player extends Entity {
   }
 
   private throwFireball() {
-    // TODO: Implement fireball throwing
-    console.log('Fireball!')
+    this.fireCD = this.fireCooldownTicks
+    const direction = this.facing === 'right' ? 1 : -1
+    const x = direction > 0 ? this.position.x + this.width : this.position.x - Fireball.SIZE
+    const y = this.position.y + this.height / 2 - Fireball.SIZE / 2
+    this.thrownFireball = new Fireball(x, y, direction)
+  }
+
+  /**
+   * The fireball thrown this tick, if any - the engine adds it to the level
+   */
+  public takeThrownFireball(): Fireball | null {
+    const fireball = this.thrownFireball
+    this.thrownFireball = null
+    return fireball
+  }
+
+  /**
+   * The jump made this tick, if any: 'air' for a double jump
+   */
+  public takeJump(): 'ground' | 'air' | null {
+    const jump = this.jumped
+    this.jumped = null
+    return jump
   }
 
   public reset() {
+    if (this.size === 'big') {
+      this.height = 32
+    }
     this.size = 'small'
     this.state = 'idle'
     this.invulnerable = false
     this.fireballEnabled = false
     this.velocity = { x: 0, y: 0 }
+    this.jumpCD = 0
+    this.remainingJumps = this.maxJumps
+    this.jumping = false
+    this.fireCD = 0
+    this.thrownFireball = null
+    this.jumped = null
   }
 }
@@ -1,4 +1,4 @@
-import { Entity } from './Entity'
+import { Entity, type EntityPhysics } from './Entity'
 
 export class PowerUp extends Entity {
   public powerType: string
@@ -7,14 +7,17 @@ export class PowerUp extends Entity {
   private emerging = true
   private emergeSpeed = 50
   private targetY: number
+  private emergedPhysics: EntityPhysics
+  private direction = 1
 
   constructor(x: number, y: number, type: string) {
     super(x, y, 28, 28, 'powerup')
     this.powerType = type
     this.targetY = y
     this.position.y = y + 32 // Start below block
-    // Mushrooms and stars need solid collision to stand on platforms
-    this.setPhysics({ solid: type === 'mushroom' || type === 'star', gravity: type !== 'flower' })
+    // Mushrooms and stars need solid collision to stand on platforms. Until it has risen
+    // out of its block, physics would push it around inside the block, so it has none.
+    this.emergedPhysics = { solid: type === 'mushroom' || type === 'star' || type === '1up', gravity: type !== 'flower' }
   }
 
   public update(dt: number) {
@@ -24,10 +27,16 @@ export class PowerUp extends Entity {
       if (this.position.y <= this.targetY) {
         this.position.y = this.targetY
         this.emerging = false
-        if (this.powerType === 'mushroom') {
-          this.velocity.x = 2 // Start moving
-        }
+        this.setPhysics(this.emergedPhysics)
+      }
+    }
+
+    // Mushrooms slide along, turning at walls
+    if ((this.powerType === 'mushroom' || this.powerType === '1up') && !this.emerging) {
+      if (this.direction > 0 ? this.wallCollision.right : this.wallCollision.left) {
+        this.direction *= -1
       }
+      this.velocity.x = 2 * this.direction
     }
 
     // Animation
@@ -46,6 +55,16 @@ export class PowerUp extends Entity {
     }
   }
 
+  public respawn() {
+    super.respawn()
+    this.position.y = this.targetY + 32 // Emerge from the block again
+    this.emerging = true
+    this.physics = null
+    this.direction = 1
+    this.animationFrame = 0
+    this.animationTimer = 0
+  }
+
   public render(ctx: CanvasRenderingContext2D) {
     ctx.save()
 
@@ -0,0 +1,150 @@
+import { type Enemy } from '../Enemy'
+import { type Player } from '../Player'
+import { isStomp, type ContactOutcome, type EnemyBehavior, type EnemyWorld } from './EnemyBehavior'
+import { isStanding } from './PatrolBehavior'
+
+const WALK_SPEED = 0.5
+const PACE_RANGE = 96 // px either side of the spawn point
+const JUMP_INTERVAL = 2.5 // s
+const JUMP_VELOCITY = -9
+const THROW_INTERVAL = 2 // s
+const THROW_RANGE = 480 // px - only throws at a player this close
+const HIT_POINTS = 3
+const HURT_TIME = 1 // s of invulnerability after a hit
+
+const FIRE_SPEED = 4
+const FIRE_RANGE = 640 // px a fireball flies before burning out
+
+/**
+ * Bowser: paces around his spawn point facing the player, jumps every few seconds
+ * and throws fireballs ('bowserFire' enemies) when the player is in range. Takes
+ * three stomps (or shell hits) to beat.
+ */
+export class BowserBehavior implements EnemyBehavior {
+  private hitPoints = HIT_POINTS
+  private hurtTimer = 0
+  private jumpTimer = 0
+  private throwTimer = 0
+  private facing = -1
+
+  update(enemy: Enemy, dt: number, world: EnemyWorld) {
+    this.hurtTimer = Math.max(0, this.hurtTimer - dt)
+    this.jumpTimer += dt
+    this.throwTimer += dt
+
+    // Pace back and forth around the spawn point
+    const home = enemy.getSpawnPosition().x
+    if ((enemy.position.x > home + PACE_RANGE && enemy.direction > 0) ||
+        (enemy.position.x < home - PACE_RANGE && enemy.direction < 0) ||
+        (enemy.direction > 0 ? enemy.wallCollision.right : enemy.wallCollision.left)) {
+      enemy.turnAround()
+    }
+    enemy.velocity.x = WALK_SPEED * enemy.direction
+
+    const player = world.getPlayer()
+    const center = enemy.position.x + enemy.width / 2
+    if (player) {
+      this.facing = player.position.x + player.width / 2 < center ? -1 : 1
+    }
+
+    if (this.jumpTimer >= JUMP_INTERVAL && isStanding(enemy, world)) {
+      this.jumpTimer = 0
+      enemy.velocity.y = JUMP_VELOCITY
+      enemy.grounded = false
+    }
+
+    if (this.throwTimer >= THROW_INTERVAL) {
+      this.throwTimer = 0
+      if (player && Math.abs(player.position.x - center) <= THROW_RANGE) {
+        const x = this.facing > 0 ? enemy.position.x + enemy.width : enemy.position.x - 16
+        const fire = world.spawnEnemy(x, enemy.position.y + enemy.height / 4, 'bowserFire')
+        fire.direction = this.facing
+      }
+    }
+  }
+
+  onPlayerContact(enemy: Enemy, player: Player): ContactOutcome {
+    if (!isStomp(enemy, player)) return { type: 'hurt', cause: 'enemy' }
+    if (this.hurtTimer > 0) return { type: 'bounce' }
+
+    this.damage(enemy)
+    return { type: 'stomp', bounce: true }
+  }
+
+  onStruck(enemy: Enemy) {
+    if (this.hurtTimer === 0) this.damage(enemy)
+  }
+
+  reset() {
+    this.hitPoints = HIT_POINTS
+    this.hurtTimer = 0
+    this.jumpTimer = 0
+    this.throwTimer = 0
+    this.facing = -1
+  }
+
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+
+    // Flash while invulnerable
+    if (this.hurtTimer > 0 && Math.floor(this.hurtTimer * 10) % 2 === 0) {
+      ctx.globalAlpha = 0.4
+    }
+
+    ctx.fillStyle = '#FF0000'
+    ctx.fillRect(x, y, enemy.width, enemy.height)
+    // Draw spikes
+    ctx.fillStyle = '#FFFF00'
+    for (let i = 0; i < 4; i++) {
+      ctx.fillRect(x + i * 16, y - 8, 8, 8)
+    }
+    // Eye on the side facing the player
+    ctx.fillStyle = '#FFFFFF'
+    ctx.fillRect(this.facing > 0 ? x + enemy.width - 20 : x + 8, y + 12, 12, 12)
+  }
+
+  private damage(enemy: Enemy) {
+    this.hitPoints--
+    this.hurtTimer = HURT_TIME
+    if (this.hitPoints <= 0) {
+      enemy.dead = true
+    }
+  }
+}
+
+/**
+ * Bowser's fireball: flies straight through everything until it burns out.
+ * Can't be stomped.
+ */
+export class BowserFireBehavior implements EnemyBehavior {
+  private travelled = 0
+
+  update(enemy: Enemy) {
+    enemy.velocity.x = FIRE_SPEED * enemy.direction
+    enemy.velocity.y = 0
+    this.travelled += FIRE_SPEED
+    if (this.travelled > FIRE_RANGE) {
+      enemy.dead = true
+    }
+  }
+
+  onPlayerContact(): ContactOutcome {
+    return { type: 'hurt', cause: 'enemy' }
+  }
+
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+    const cx = x + enemy.width / 2
+    const cy = y + enemy.height / 2
+
+    ctx.fillStyle = '#FF4500'
+    ctx.beginPath()
+    ctx.ellipse(cx, cy, enemy.width / 2, enemy.height / 3, 0, 0, Math.PI * 2)
+    ctx.fill()
+    // Hot core towards the front
+    ctx.fillStyle = '#FFD700'
+    ctx.beginPath()
+    ctx.ellipse(cx + enemy.direction * enemy.width / 6, cy, enemy.width / 4, enemy.height / 6, 0, 0, Math.PI * 2)
+    ctx.fill()
+  }
+}
@@ -0,0 +1,71 @@
+import { type Enemy } from '../Enemy'
+import { type Entity, type EntityPhysics } from '../Entity'
+import { type Player } from '../Player'
+import { type PhysicsEngine } from '../../physics/PhysicsEngine'
+import { type Platform } from '../../level/Platform'
+import { type Polygon } from '../../level/Polygon'
+import { type HitCause } from '../../events/GameEvents'
+import { type Bounds } from '../../physics/Geometry'
+
+/**
+ * What an enemy can see of the game while it thinks. The engine hands the same
+ * object to every enemy, so its getters always return the current level's state.
+ */
+export interface EnemyWorld {
+  physics: PhysicsEngine
+  getPlatforms(): Platform[]
+  getPolygons(): Polygon[]
+  // Just the platforms and polygons that may overlap `bounds` - cheaper than scanning the whole level
+  queryPlatforms(bounds: Bounds): Platform[]
+  queryPolygons(bounds: Bounds): Polygon[]
+  getPlayer(): Player | null
+  getEnemies(): Enemy[]
+  spawnEnemy(x: number, y: number, type: string): Enemy // e.g. projectiles - gone again after a reset
+}
+
+/**
+ * Result of the player touching an enemy, applied by the engine
+ * - stomp: counts as an enemyStomped event, the player bounces if `bounce`
+ * - bounce: the player bounces off without it counting as a stomp
+ * - hurt: the player takes a hit
+ * - none: harmless contact (e.g. a resting shell being kicked)
+ */
+export type ContactOutcome =
+  | { type: 'stomp'; bounce: boolean }
+  | { type: 'bounce' }
+  | { type: 'hurt'; cause: HitCause }
+  | { type: 'none' }
+
+/**
+ * Per-enemy AI. One instance is created for every enemy, so behaviors can keep
+ * their own state in fields. Everything time-based must count ticks or sum `dt`
+ * (never read the clock or Math.random) so replays stay deterministic.
+ */
+export interface EnemyBehavior {
+  update(enemy: Enemy, dt: number, world: EnemyWorld): void
+  onPlayerContact(enemy: Enemy, player: Player): ContactOutcome
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D): void
+  // Whether the enemy touches `bounds` - defaults to its bounding box
+  hitTest?(enemy: Enemy, bounds: Bounds): boolean
+  // Box around everything hitTest can report - required when that reaches outside the enemy's own box
+  getHitBounds?(enemy: Enemy): Bounds
+  // Hit by an attack, e.g. a sliding shell or a fireball - defaults to dying
+  onStruck?(enemy: Enemy, source: Entity): void
+  // Back to the spawn state when the level restarts
+  reset?(enemy: Enemy): void
+}
+
+export interface EnemyDefinition {
+  size?: number // default 32
+  scalable?: boolean // use the size given by the level instead (spikes)
+  physics?: EntityPhysics // default: solid with gravity
+  hazard?: boolean // a static hazard the solvability check has to route around
+  create(): EnemyBehavior
+}
+
+/**
+ * The classic stomp rule: falling onto the enemy from above
+ */
+export function isStomp(enemy: Enemy, player: Player): boolean {
+  return player.velocity.y > 0 && player.position.y < enemy.position.y
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from '../../headless/HeadlessSimulation'
+import { Enemy } from '../Enemy'
+import { EnemyRegistry } from './EnemyRegistry'
+import { type EnemyBehavior } from './EnemyBehavior'
+import { flatLevel } from '../../../test/fixtures'
+
+// Floats straight up and never hurts anyone
+class BalloonBehavior implements EnemyBehavior {
+  public ticks = 0
+
+  update(enemy: Enemy) {
+    this.ticks++
+    enemy.position.y -= 1
+  }
+
+  onPlayerContact() {
+    return { type: 'none' } as const
+  }
+
+  render() {}
+}
+
+// The level's first enemy - the engine only takes the level's entities in on its first tick
+function enemyIn(sim: HeadlessSimulation): Enemy {
+  return sim.getEngine().getCurrentLevel()!.getEntities().find((entity): entity is Enemy => entity instanceof Enemy)!
+}
+
+describe('EnemyRegistry', () => {
+  it('runs a registered type with its own behavior in levels', () => {
+    const behavior = new BalloonBehavior()
+    EnemyRegistry.register('testBalloon', {
+      size: 24,
+      physics: { solid: false, gravity: false },
+      create: () => behavior
+    })
+    expect(EnemyRegistry.has('testBalloon')).toBe(true)
+
+    const level = flatLevel()
+    level.enemies.push({ x: 100, y: 300, type: 'testBalloon' })
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const enemy = enemyIn(sim)
+    expect(enemy.width).toBe(24)
+
+    sim.run(30)
+    expect(behavior.ticks).toBe(30)
+    expect(enemy.position.y).toBe(270)
+  })
+
+  it('lets the behavior decide what touching the player does', () => {
+    EnemyRegistry.register('testGhost', {
+      physics: { solid: false, gravity: false },
+      create: () => new BalloonBehavior()
+    })
+    const level = flatLevel()
+    level.enemies.push({ x: 50, y: 460, type: 'testGhost' })
+    const sim = HeadlessSimulation.fromLevelData(level)
+    expect(sim.run(30).deaths).toBe(0)
+  })
+
+  it('turns unknown types into a patrolling box', () => {
+    expect(EnemyRegistry.has('noSuchEnemy')).toBe(false)
+    const level = flatLevel()
+    level.enemies.push({ x: 400, y: 468, type: 'noSuchEnemy' })
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const enemy = enemyIn(sim)
+    expect(enemy.width).toBe(32)
+
+    sim.run(60)
+    expect(enemy.position.x).not.toBe(400)
+    expect(enemy.position.y + enemy.height).toBeCloseTo(500, 0)
+  })
+
+  it('kills a goomba the player lands on', () => {
+    const level = flatLevel()
+    level.enemies.push({ x: 60, y: 468, type: 'goomba' })
+    level.starts = [{ x: 60, y: 300 }]
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const enemy = enemyIn(sim)
+    let stomped = 0
+    sim.getEngine().getEvents().on('enemyStomped', () => stomped++)
+
+    const state = sim.run(60)
+    expect(enemy.dead).toBe(true)
+    expect(stomped).toBe(1)
+    expect(state.deaths).toBe(0)
+  })
+})
@@ -0,0 +1,83 @@
+import { type EnemyDefinition } from './EnemyBehavior'
+import { PatrolBehavior } from './PatrolBehavior'
+import { KoopaBehavior } from './KoopaBehavior'
+import { FirebarBehavior } from './FirebarBehavior'
+import { BowserBehavior, BowserFireBehavior } from './BowserBehavior'
+import { SpikeBehavior } from './SpikeBehavior'
+
+/**
+ * Maps the `type` of an enemy in level JSON to its definition. Register a custom
+ * type before the level loads and levels can use it right away:
+ *
+ *   EnemyRegistry.register('hammerBro', { create: () => new HammerBroBehavior() })
+ */
+export class EnemyRegistry {
+  private static definitions: Map<string, EnemyDefinition> | null = null
+
+  static register(type: string, definition: EnemyDefinition) {
+    this.getDefinitions().set(type, definition)
+  }
+
+  /**
+   * Unknown types fall back to a plain patrolling magenta box so broken levels stay playable
+   */
+  static get(type: string): EnemyDefinition {
+    return this.getDefinitions().get(type) ?? FALLBACK_ENEMY
+  }
+
+  static has(type: string): boolean {
+    return this.getDefinitions().has(type)
+  }
+
+  static types(): string[] {
+    return Array.from(this.getDefinitions().keys())
+  }
+
+  private static getDefinitions(): Map<string, EnemyDefinition> {
+    if (!this.definitions) {
+      this.definitions = new Map(Object.entries(BUILTIN_ENEMIES))
+    }
+    return this.definitions
+  }
+}
+
+const FALLBACK_ENEMY: EnemyDefinition = {
+  create: () => new PatrolBehavior({ speed: 2 })
+}
+
+const BUILTIN_ENEMIES: Record<string, EnemyDefinition> = {
+  goomba: {
+    create: () => new PatrolBehavior({
+      speed: 1,
+      draw: (enemy, ctx) => {
+        ctx.fillStyle = '#8B4513'
+        ctx.fillRect(enemy.position.x, enemy.position.y, enemy.width, enemy.height)
+        // Draw mushroom cap
+        ctx.fillStyle = '#654321'
+        ctx.fillRect(enemy.position.x - 4, enemy.position.y, enemy.width + 8, enemy.height / 2)
+      }
+    })
+  },
+  koopa: {
+    create: () => new KoopaBehavior()
+  },
+  firebar: {
+    physics: { solid: false, gravity: false },
+    create: () => new FirebarBehavior()
+  },
+  bowser: {
+    size: 64,
+    create: () => new BowserBehavior()
+  },
+  bowserFire: {
+    size: 16,
+    physics: { solid: false, gravity: false },
+    create: () => new BowserFireBehavior()
+  },
+  spike: {
+    scalable: true,
+    hazard: true,
+    physics: { solid: false, gravity: false },
+    create: () => new SpikeBehavior()
+  }
+}
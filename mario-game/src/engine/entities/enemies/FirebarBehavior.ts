@@ -0,0 +1,86 @@
+import { type Enemy } from '../Enemy'
+import { type ContactOutcome, type EnemyBehavior } from './EnemyBehavior'
+import { type Bounds } from '../../physics/Geometry'
+
+const FIREBALLS = 5
+const FIREBALL_RADIUS = 7
+const FIREBALL_SPACING = 16
+const ANGULAR_SPEED = 1.6 // radians per second, counter-clockwise on screen
+
+/**
+ * Firebar: a block with an arm of fireballs rotating around its centre, starting
+ * with one on the block itself. Only the fireballs hurt, and nothing can be stomped.
+ */
+export class FirebarBehavior implements EnemyBehavior {
+  private angle = 0
+
+  update(_enemy: Enemy, dt: number) {
+    this.angle = (this.angle - ANGULAR_SPEED * dt) % (Math.PI * 2)
+  }
+
+  onPlayerContact(): ContactOutcome {
+    return { type: 'hurt', cause: 'enemy' }
+  }
+
+  hitTest(enemy: Enemy, bounds: Bounds): boolean {
+    return this.getFireballs(enemy).some(ball => circleOverlaps(ball.x, ball.y, FIREBALL_RADIUS, bounds))
+  }
+
+  getHitBounds(enemy: Enemy): Bounds {
+    // The arm can point anywhere, so cover the whole circle it sweeps
+    const reach = (FIREBALLS - 1) * FIREBALL_SPACING + FIREBALL_RADIUS
+    const cx = enemy.position.x + enemy.width / 2
+    const cy = enemy.position.y + enemy.height / 2
+    return {
+      left: Math.min(enemy.position.x, cx - reach),
+      right: Math.max(enemy.position.x + enemy.width, cx + reach),
+      top: Math.min(enemy.position.y, cy - reach),
+      bottom: Math.max(enemy.position.y + enemy.height, cy + reach)
+    }
+  }
+
+  reset() {
+    this.angle = 0
+  }
+
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    // Pivot block
+    ctx.fillStyle = '#8B4513'
+    ctx.fillRect(enemy.position.x, enemy.position.y, enemy.width, enemy.height)
+    ctx.strokeStyle = '#5A2D0C'
+    ctx.lineWidth = 2
+    ctx.strokeRect(enemy.position.x + 1, enemy.position.y + 1, enemy.width - 2, enemy.height - 2)
+
+    this.getFireballs(enemy).forEach(ball => {
+      ctx.fillStyle = '#FF4500'
+      ctx.beginPath()
+      ctx.arc(ball.x, ball.y, FIREBALL_RADIUS, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.fillStyle = '#FFD700'
+      ctx.beginPath()
+      ctx.arc(ball.x, ball.y, FIREBALL_RADIUS / 2, 0, Math.PI * 2)
+      ctx.fill()
+    })
+  }
+
+  private getFireballs(enemy: Enemy): Array<{ x: number; y: number }> {
+    const cx = enemy.position.x + enemy.width / 2
+    const cy = enemy.position.y + enemy.height / 2
+    const cos = Math.cos(this.angle)
+    const sin = Math.sin(this.angle)
+    const balls = []
+    for (let i = 0; i < FIREBALLS; i++) {
+      const distance = i * FIREBALL_SPACING
+      balls.push({ x: cx + cos * distance, y: cy + sin * distance })
+    }
+    return balls
+  }
+}
+
+function circleOverlaps(x: number, y: number, radius: number, bounds: Bounds): boolean {
+  const nearestX = Math.max(bounds.left, Math.min(x, bounds.right))
+  const nearestY = Math.max(bounds.top, Math.min(y, bounds.bottom))
+  const dx = x - nearestX
+  const dy = y - nearestY
+  return dx * dx + dy * dy < radius * radius
+}
@@ -0,0 +1,104 @@
+import { type Enemy } from '../Enemy'
+import { type Player } from '../Player'
+import { isStomp, type ContactOutcome, type EnemyBehavior, type EnemyWorld } from './EnemyBehavior'
+import { boundsOverlap } from '../../physics/Geometry'
+import { patrol } from './PatrolBehavior'
+
+type KoopaState = 'walking' | 'shell' | 'sliding'
+
+const WALK_SPEED = 1.5
+const SHELL_SPEED = 6
+// After a kick the shell can't hurt the player who kicked it for a moment
+const KICK_GRACE = 0.25
+
+/**
+ * Koopa: patrols until stomped, then hides in its shell. Touching a resting shell
+ * kicks it; a sliding shell bounces off walls, knocks out every enemy in its way
+ * and hurts the player unless stomped, which stops it again.
+ */
+export class KoopaBehavior implements EnemyBehavior {
+  private state: KoopaState = 'walking'
+  private grace = 0
+
+  update(enemy: Enemy, dt: number, world: EnemyWorld) {
+    this.grace = Math.max(0, this.grace - dt)
+
+    switch (this.state) {
+      case 'walking':
+        patrol(enemy, WALK_SPEED, world, true)
+        break
+
+      case 'shell':
+        enemy.velocity.x = 0
+        break
+
+      case 'sliding': {
+        // Shells don't care about ledges
+        patrol(enemy, SHELL_SPEED, world, false)
+        const bounds = enemy.getBounds()
+        world.getEnemies().forEach(other => {
+          if (other !== enemy && other.physics?.solid && boundsOverlap(bounds, other.getBounds())) {
+            other.strike(enemy)
+          }
+        })
+        break
+      }
+    }
+  }
+
+  onPlayerContact(enemy: Enemy, player: Player): ContactOutcome {
+    const stomped = isStomp(enemy, player)
+
+    switch (this.state) {
+      case 'walking':
+        if (!stomped) return { type: 'hurt', cause: 'enemy' }
+        this.state = 'shell'
+        enemy.velocity.x = 0
+        return { type: 'stomp', bounce: true }
+
+      case 'shell': {
+        // Kick it away from the player
+        const playerCenter = player.position.x + player.width / 2
+        enemy.direction = playerCenter < enemy.position.x + enemy.width / 2 ? 1 : -1
+        this.state = 'sliding'
+        this.grace = KICK_GRACE
+        return stomped ? { type: 'bounce' } : { type: 'none' }
+      }
+
+      case 'sliding':
+        if (this.grace > 0) return { type: 'none' }
+        if (!stomped) return { type: 'hurt', cause: 'enemy' }
+        this.state = 'shell'
+        enemy.velocity.x = 0
+        return { type: 'stomp', bounce: true }
+    }
+  }
+
+  reset() {
+    this.state = 'walking'
+    this.grace = 0
+  }
+
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+
+    if (this.state === 'walking') {
+      ctx.fillStyle = '#00FF00'
+      ctx.fillRect(x, y, enemy.width, enemy.height)
+      // Draw shell pattern
+      ctx.strokeStyle = '#008800'
+      ctx.lineWidth = 2
+      ctx.strokeRect(x + 4, y + 4, enemy.width - 8, enemy.height - 8)
+      return
+    }
+
+    // Just the shell, sitting on the ground
+    const shellHeight = enemy.height * 0.6
+    const top = y + enemy.height - shellHeight
+    ctx.fillStyle = '#00AA00'
+    ctx.fillRect(x, top, enemy.width, shellHeight)
+    ctx.strokeStyle = '#FFFFFF'
+    ctx.lineWidth = 2
+    ctx.strokeRect(x + 3, top + 3, enemy.width - 6, shellHeight - 6)
+  }
+}
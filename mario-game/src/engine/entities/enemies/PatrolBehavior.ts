@@ -0,0 +1,83 @@
+import { type Enemy } from '../Enemy'
+import { type Player } from '../Player'
+import { isStomp, type ContactOutcome, type EnemyBehavior, type EnemyWorld } from './EnemyBehavior'
+
+export interface PatrolOptions {
+  speed: number
+  ledgeAware?: boolean // turn around at cliff edges instead of walking off (default true)
+  draw?: (enemy: Enemy, ctx: CanvasRenderingContext2D) => void // default: a magenta box
+}
+
+// How far below its feet an enemy still counts as standing on something
+const GROUND_PROBE = 6
+// Deepest drop a patrolling enemy will step down (anything deeper is a cliff)
+const MAX_STEP_DOWN = 20
+
+/**
+ * Walk back and forth, turning at walls and (unless disabled) at cliff edges.
+ * Dies when stomped, hurts the player otherwise.
+ */
+export class PatrolBehavior implements EnemyBehavior {
+  private options: PatrolOptions
+
+  constructor(options: PatrolOptions) {
+    this.options = options
+  }
+
+  update(enemy: Enemy, _dt: number, world: EnemyWorld) {
+    patrol(enemy, this.options.speed, world, this.options.ledgeAware ?? true)
+  }
+
+  onPlayerContact(enemy: Enemy, player: Player): ContactOutcome {
+    if (isStomp(enemy, player)) {
+      enemy.dead = true
+      return { type: 'stomp', bounce: true }
+    }
+    return { type: 'hurt', cause: 'enemy' }
+  }
+
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    if (this.options.draw) {
+      this.options.draw(enemy, ctx)
+      return
+    }
+    ctx.fillStyle = '#FF00FF'
+    ctx.fillRect(enemy.position.x, enemy.position.y, enemy.width, enemy.height)
+  }
+}
+
+/**
+ * One tick of patrolling - shared by every enemy that walks
+ */
+export function patrol(enemy: Enemy, speed: number, world: EnemyWorld, ledgeAware: boolean) {
+  const blocked = enemy.direction > 0 ? enemy.wallCollision.right : enemy.wallCollision.left
+  if (blocked || (ledgeAware && isStanding(enemy, world) && !hasGroundAhead(enemy, world))) {
+    enemy.turnAround()
+  }
+  enemy.velocity.x = speed * enemy.direction
+}
+
+/**
+ * Whether there is ground right below the enemy's feet
+ */
+export function isStanding(enemy: Enemy, world: EnemyWorld): boolean {
+  const bottom = enemy.position.y + enemy.height
+  const center = enemy.position.x + enemy.width / 2
+  return probeDown(world, center, bottom - 2, GROUND_PROBE + 2)
+}
+
+/**
+ * Whether the next step in the walking direction still has ground under it
+ */
+export function hasGroundAhead(enemy: Enemy, world: EnemyWorld): boolean {
+  const bottom = enemy.position.y + enemy.height
+  const front = enemy.direction > 0 ? enemy.position.x + enemy.width + 1 : enemy.position.x - 1
+  return probeDown(world, front, bottom - 2, MAX_STEP_DOWN + 2)
+}
+
+function probeDown(world: EnemyWorld, x: number, y: number, depth: number): boolean {
+  const ray = { left: x, right: x, top: y, bottom: y + depth }
+  const platforms = world.queryPlatforms(ray).filter(platform => platform.solid)
+  const polygons = world.queryPolygons(ray).filter(polygon => polygon.solid)
+  return world.physics.raycast({ x, y }, { x: 0, y: 1 }, depth, platforms, polygons) !== null
+}
@@ -0,0 +1,57 @@
+import { type Enemy } from '../Enemy'
+import { type ContactOutcome, type EnemyBehavior } from './EnemyBehavior'
+
+/**
+ * Spike: a static hazard. Hurts on any contact, including from above.
+ */
+export class SpikeBehavior implements EnemyBehavior {
+  update() {
+    // Spikes don't move or animate
+  }
+
+  onPlayerContact(): ContactOutcome {
+    return { type: 'hurt', cause: 'spike' }
+  }
+
+  render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+    const { width, height } = enemy
+
+    // Draw triangular metallic gray spike
+
+    // Main spike body - equilateral triangle
+    ctx.fillStyle = '#808080'  // Metallic gray base
+    ctx.beginPath()
+    ctx.moveTo(x + width/2, y)  // Top point
+    ctx.lineTo(x, y + height)   // Bottom left
+    ctx.lineTo(x + width, y + height)  // Bottom right
+    ctx.closePath()
+    ctx.fill()
+
+    // Metallic highlight on left side
+    ctx.fillStyle = '#A0A0A0'  // Lighter gray for highlight
+    ctx.beginPath()
+    ctx.moveTo(x + width/2, y)
+    ctx.lineTo(x + width/4, y + height/2)
+    ctx.lineTo(x + width/2, y + height)
+    ctx.closePath()
+    ctx.fill()
+
+    // Darker shadow on right side
+    ctx.fillStyle = '#606060'  // Darker gray for shadow
+    ctx.beginPath()
+    ctx.moveTo(x + width/2, y)
+    ctx.lineTo(x + width*3/4, y + height/2)
+    ctx.lineTo(x + width/2, y + height)
+    ctx.closePath()
+    ctx.fill()
+
+    // Bottom edge highlight
+    ctx.strokeStyle = '#C0C0C0'
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(x, y + height)
+    ctx.lineTo(x + width, y + height)
+    ctx.stroke()
+  }
+}
@@ -0,0 +1,115 @@
+import { type ReplayData } from '../replay/Replay'
+import { type BlockContents } from '../level/Platform'
+
+export type HitCause = 'enemy' | 'spike' | 'fall' | 'lava'
+
+export interface VictoryEvent {
+  completionTime: number // ms
+  deaths: number
+  coins: number
+  score: number
+  levelId: number
+  replay: ReplayData | null
+}
+
+export interface GameOverEvent {
+  deaths: number
+  coins: number
+  elapsedTime: number // seconds
+  levelId: number
+  cause: HitCause // what took the last life
+}
+
+/**
+ * Every event the engine emits, with its payload
+ */
+export interface GameEventMap {
+  levelStart: { levelId: number; replay: boolean } // first tick of a run (start, reset or restart)
+  coinCollected: { x: number; y: number; coins: number }
+  enemyStomped: { enemyType: string; x: number; y: number }
+  powerUpGained: { powerType: string }
+  blockHit: { x: number; y: number; width: number; height: number; blockType: string; contents: BlockContents | null; broken: boolean } // hit from below by the player
+  playerHit: { cause: HitCause; enemyType?: string; shrunk: boolean } // shrunk = survived by losing the power-up
+  death: { cause: HitCause; deaths: number }
+  respawn: { x: number; y: number }
+  playerJumped: { x: number; y: number; double: boolean } // double = the jump made in mid-air
+  playerLanded: { x: number; y: number; speed: number } // feet touched ground after a jump or fall, at `speed` px/tick
+  checkpoint: { x: number; y: number } // a checkpoint flag was reached, deaths respawn here from now on
+  lifeGained: { lives: number; source: 'coins' | '1up' } // every 100 coins or a 1-up mushroom
+  gameOver: GameOverEvent
+  pause: { tick: number }
+  resume: { tick: number }
+  victory: VictoryEvent
+}
+
+export type GameEventName = keyof GameEventMap
+
+export type GameEventListener<K extends GameEventName> = (payload: GameEventMap[K]) => void
+
+/**
+ * GameEvents - typed emitter for gameplay events
+ *
+ * Host pages, analytics and the level pack flow subscribe here instead of to
+ * window events. on() returns the matching unsubscribe function.
+ *
+ * @example
+ * const off = engine.getEvents().on('coinCollected', ({ coins }) => updateCounter(coins))
+ * off()
+ */
+export class GameEvents {
+  // Typed by the public methods - each array only ever holds listeners for its own event
+  private listeners = new Map<GameEventName, Array<GameEventListener<any>>>()
+
+  /**
+   * @returns a function that removes the listener
+   */
+  public on<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener])
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Listen for the next occurrence only
+   */
+  public once<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+    const off = this.on(event, (payload) => {
+      off()
+      listener(payload)
+    })
+    return off
+  }
+
+  public off<K extends GameEventName>(event: K, listener: GameEventListener<K>): void {
+    const listeners = this.listeners.get(event)
+    if (!listeners) return
+    this.listeners.set(event, listeners.filter(l => l !== listener))
+  }
+
+  public emit<K extends GameEventName>(event: K, payload: GameEventMap[K]): void {
+    // on() and off() replace the array, so listeners can unsubscribe while being called
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(payload)
+      } catch (error) {
+        // A broken host handler must not stop the game loop
+        console.error(`❌ ${event} listener failed:`, error)
+      }
+    })
+  }
+
+  /**
+   * Remove every listener, or every listener for one event. The engine's
+   * own effects and audio listen elsewhere and keep working
+   */
+  public clear(event?: GameEventName): void {
+    if (event) {
+      this.listeners.delete(event)
+    } else {
+      this.listeners.clear()
+    }
+  }
+
+  public listenerCount(event: GameEventName): number {
+    return this.listeners.get(event)?.length ?? 0
+  }
+}
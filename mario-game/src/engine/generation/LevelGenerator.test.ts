@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { GameEngine } from '../GameEngine'
+import { LevelBuilder } from '../LevelBuilder'
+import { LevelGenerator } from './LevelGenerator'
+import { replayWitness } from '../../test/fixtures'
+
+function generate(seed: string, length?: number) {
+  const builder = new LevelBuilder(new GameEngine(null))
+  const result = LevelGenerator.generate(builder, { seed, length })
+  return { builder, result }
+}
+
+describe('LevelGenerator', () => {
+  it('makes the same level from the same seed', () => {
+    const first = generate('same-seed', 3000)
+    const second = generate('same-seed', 3000)
+    expect(second.builder.exportJSON()).toBe(first.builder.exportJSON())
+    expect(generate('other-seed', 3000).builder.exportJSON()).not.toBe(first.builder.exportJSON())
+  }, 30000)
+
+  it('plays a level longer than the screen to the goal along its witness path', () => {
+    const { builder, result } = generate('abc', 5000)
+    expect(result.solvability!.solvable).toBe(true)
+    expect(builder.createLevel().getWidth()).toBeGreaterThanOrEqual(5000)
+    const state = replayWitness(builder.toDocument(), result.solvability!.path)
+    expect(state.victory).toBe(true)
+    expect(state.deaths).toBe(0)
+  }, 30000)
+
+  it('only passes a layout whose witness survives the enemies', () => {
+    const { builder, result } = generate('abc', 3000)
+    // The first layout for this seed has a goomba on the witness path
+    expect(result.attempts).toBe(2)
+    expect(result.solvability!.solvable).toBe(true)
+    expect(replayWitness(builder.toDocument(), result.solvability!.path).victory).toBe(true)
+  }, 30000)
+})
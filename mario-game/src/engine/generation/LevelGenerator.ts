@@ -0,0 +1,381 @@
+import { type LevelBuilder } from '../LevelBuilder'
+import { type BlockContents } from '../level/Platform'
+import { Player } from '../entities/Player'
+import { PhysicsEngine } from '../physics/PhysicsEngine'
+import { SolvabilityChecker, type MovementProfile, type SolvabilityResult } from '../analysis/SolvabilityChecker'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { SeededRandom } from './SeededRandom'
+import { type BackgroundPreset } from '../render/Backgrounds'
+import { type MusicTrack } from '../audio/Sounds'
+
+export type Biome = 'classic' | 'underground' | 'sky' | 'castle'
+
+export const BIOMES: Biome[] = ['classic', 'underground', 'sky', 'castle']
+
+export type DifficultyPreset = 'flat' | 'linear' | 'ramp' | 'wave'
+
+/**
+ * Difficulty from start to goal: a preset, or control points in [0, 1] spread
+ * evenly over the level and interpolated linearly ([0.2, 0.8] ramps from 0.2 to 0.8)
+ */
+export type DifficultyCurve = DifficultyPreset | number[]
+
+export type SectionKind = 'run' | 'pit' | 'floating' | 'stairs' | 'pipes'
+
+export interface GeneratedSection {
+  kind: SectionKind
+  x: number
+  width: number
+  difficulty: number
+}
+
+export interface GeneratorOptions {
+  seed: number | string
+  length?: number // level width in px (default 3000)
+  difficulty?: DifficultyCurve // default 'linear'
+  biome?: Biome // default 'classic'
+  profile?: MovementProfile // physics every jump must work with (default: a new Player)
+  verify?: boolean // run the solvability check and retry on failure (default true)
+}
+
+export interface GeneratedLevel {
+  seed: number | string
+  biome: Biome
+  length: number
+  attempts: number // layouts tried before one passed the check
+  sections: GeneratedSection[]
+  solvability: SolvabilityResult | null // null when verify is off
+}
+
+/**
+ * How far the player can reliably get with a single walking jump
+ */
+export interface JumpLimits {
+  maxRise: number // height of a ledge it can jump onto
+  maxGap: number // width of a pit it can clear at the same height
+}
+
+interface BiomeStyle {
+  groundY: number
+  groundHeight: number
+  groundType: string
+  background: BackgroundPreset
+  music: MusicTrack
+  enemyTypes: string[]
+  ceiling: boolean // underground roof
+  islands: boolean // no continuous ground - every section ends in a pit
+  spikes: boolean
+  blocks: boolean // question blocks with power-ups
+  sections: Partial<Record<SectionKind, number>> // base weight of each section kind
+}
+
+const BIOME_STYLES: Record<Biome, BiomeStyle> = {
+  classic: {
+    groundY: 500, groundHeight: 76, groundType: 'platform', background: 'sky', music: 'overworld',
+    enemyTypes: ['goomba', 'koopa'], ceiling: false, islands: false, spikes: false, blocks: true,
+    sections: { run: 3, pit: 2, floating: 1.5, stairs: 1.5, pipes: 2 }
+  },
+  underground: {
+    groundY: 550, groundHeight: 26, groundType: 'underground', background: 'underground', music: 'underground',
+    enemyTypes: ['goomba', 'koopa'], ceiling: true, islands: false, spikes: false, blocks: true,
+    sections: { run: 3, pit: 1.5, floating: 1, stairs: 2, pipes: 2 }
+  },
+  sky: {
+    groundY: 450, groundHeight: 20, groundType: 'platform', background: 'sky', music: 'sky',
+    enemyTypes: ['koopa'], ceiling: false, islands: true, spikes: false, blocks: false,
+    sections: { run: 3, floating: 2, stairs: 1 }
+  },
+  castle: {
+    groundY: 550, groundHeight: 26, groundType: 'castle', background: 'castle', music: 'castle',
+    enemyTypes: ['goomba', 'koopa'], ceiling: false, islands: false, spikes: true, blocks: false,
+    sections: { run: 3, pit: 2.5, floating: 1.5, stairs: 2 }
+  }
+}
+
+const DIFFICULTY_PRESETS: Record<DifficultyPreset, number[]> = {
+  flat: [0.4],
+  linear: [0.1, 0.9],
+  ramp: [0.05, 0.15, 0.4, 1],
+  wave: [0.2, 0.6, 0.3, 0.8, 0.5, 1]
+}
+
+const DEFAULT_LENGTH = 3000
+const SAFE_RUN = 400 // flat ground at the start and before the goal
+const MAX_SECTION_WIDTH = 640
+const MAX_ATTEMPTS = 4 // layouts per seed before falling back to the easiest one
+const RISE_MARGIN = 0.7 // share of a full jump's height used for ledges
+const GAP_MARGIN = 0.55 // share of a full jump's distance used for pits
+const WITNESS_SETTLE_TICKS = 120 // after the witness inputs, time for the last jump to land
+
+/**
+ * LevelGenerator - seeded procedural levels
+ *
+ * Lays out sections (runs, pits, floating platforms, stairs, pipes) left to right
+ * with the LevelBuilder helpers, scaling gaps and ledges with the difficulty curve
+ * but never beyond what a single walking jump clears under the given physics.
+ * Each layout is then run through the SolvabilityChecker; if it fails, the next
+ * layout is derived from the same seed, so a seed always produces the same level.
+ *
+ * @example
+ * LevelGenerator.generate(builder, { seed: LevelGenerator.dailySeed(), biome: 'castle', difficulty: 'ramp' })
+ * builder.build()
+ */
+export class LevelGenerator {
+  /**
+   * Replace the builder's level with a generated one (one undoable step)
+   */
+  static generate(builder: LevelBuilder, options: GeneratorOptions): GeneratedLevel {
+    const length = Math.max(options.length ?? DEFAULT_LENGTH, SAFE_RUN * 2 + MAX_SECTION_WIDTH)
+    const biome = options.biome ?? 'classic'
+    const curve = resolveCurve(options.difficulty ?? 'linear')
+    const profile = options.profile ?? SolvabilityChecker.createProfile(new Player(0, 0), new PhysicsEngine())
+    // The engine plays with the default player, so a custom profile's witness can't be replayed
+    const replayWitness = !options.profile
+    const limits = LevelGenerator.getJumpLimits(profile)
+    const verify = options.verify ?? true
+
+    let result: GeneratedLevel | null = null
+    builder.transaction(`generate:${options.seed}`, () => {
+      for (let attempt = 0; attempt <= MAX_ATTEMPTS; attempt++) {
+        // The last attempt is the easiest layout the seed can make
+        const attemptCurve = attempt === MAX_ATTEMPTS ? [0] : curve
+        const random = new SeededRandom(attempt === 0 ? String(options.seed) : `${options.seed}#${attempt}`)
+        const sections = new SectionLayout(builder, random, BIOME_STYLES[biome], limits, length).generate(attemptCurve)
+
+        const solvability = verify ? checkLevel(builder, profile, length, replayWitness) : null
+        result = { seed: options.seed, biome, length, attempts: attempt + 1, sections, solvability }
+        if (!solvability || solvability.solvable) break
+      }
+    })
+    return result!
+  }
+
+  /**
+   * Seed shared by every player on the same (UTC) day
+   */
+  static dailySeed(date = new Date()): string {
+    return `daily-${date.toISOString().slice(0, 10)}`
+  }
+
+  /**
+   * Simulate one full jump while walking and keep a safety margin
+   */
+  static getJumpLimits(profile: MovementProfile): JumpLimits {
+    const speed = profile.moveSpeed * profile.speedMultiplier
+    let vy = -profile.jumpPower
+    let y = 0
+    let x = 0
+    let apex = 0
+    do {
+      vy = Math.min(vy + profile.gravity, profile.maxVelocity.y)
+      y += vy
+      x += Math.min(speed * profile.airResistance, profile.maxVelocity.x)
+      apex = Math.min(apex, y)
+    } while (y < 0)
+
+    return {
+      maxRise: Math.floor(-apex * RISE_MARGIN),
+      maxGap: Math.floor(x * GAP_MARGIN)
+    }
+  }
+}
+
+/**
+ * Writes one layout into the builder, tracking where the current stretch of ground began
+ */
+class SectionLayout {
+  private builder: LevelBuilder
+  private random: SeededRandom
+  private style: BiomeStyle
+  private limits: JumpLimits
+  private length: number
+  private x = 0
+  private groundStart = 0
+  private sections: GeneratedSection[] = []
+
+  constructor(builder: LevelBuilder, random: SeededRandom, style: BiomeStyle, limits: JumpLimits, length: number) {
+    this.builder = builder
+    this.random = random
+    this.style = style
+    this.limits = limits
+    this.length = length
+  }
+
+  generate(curve: number[]): GeneratedSection[] {
+    const { groundY, groundType } = this.style
+    this.builder.clear()
+    this.builder.setBackground(this.style.background)
+    this.builder.setMusic(this.style.music)
+    if (this.style.ceiling) {
+      this.builder.addPlatform(0, 0, this.length, 50, groundType)
+    }
+
+    this.x = SAFE_RUN
+    while (this.x < this.length - SAFE_RUN - MAX_SECTION_WIDTH) {
+      const difficulty = sampleCurve(curve, this.x / this.length)
+      const kind = this.random.weighted(this.weights(difficulty))
+      const start = this.x
+      this[kind](difficulty)
+      if (this.style.islands && kind !== 'floating') {
+        this.pit(difficulty)
+      }
+      this.sections.push({ kind, x: start, width: this.x - start, difficulty })
+    }
+
+    // The last stretch of ground runs to the end of the level
+    this.endGround(this.length)
+    this.builder.setPlayerStart(100, groundY - 64)
+    this.builder.addGoal(this.length - SAFE_RUN / 2, groundY - 32)
+    return this.sections
+  }
+
+  private weights(difficulty: number): Partial<Record<SectionKind, number>> {
+    const scale: Record<SectionKind, number> = {
+      run: 1.5 - difficulty,
+      pit: 0.5 + difficulty,
+      floating: 0.3 + difficulty,
+      stairs: 1,
+      pipes: 1
+    }
+    const weights: Partial<Record<SectionKind, number>> = {}
+    for (const [kind, base] of Object.entries(this.style.sections) as Array<[SectionKind, number]>) {
+      weights[kind] = base * scale[kind]
+    }
+    return weights
+  }
+
+  // ==================== SECTIONS ====================
+
+  private run(difficulty: number) {
+    const { groundY, enemyTypes } = this.style
+    const width = this.random.int(6, 14) * 32
+    const x = this.x
+
+    if (this.random.chance(0.6)) {
+      this.builder.addCoinRow(x + 32, groundY - 96, Math.min(6, Math.floor((width - 64) / 40)))
+    }
+    if (this.style.blocks && this.random.chance(0.3)) {
+      const blockX = x + Math.round(width / 3 / 32) * 32
+      this.builder.addBlock(blockX, groundY - 128, 'question', this.random.pick<BlockContents>(['mushroom', 'flower', 'star']))
+    }
+
+    const enemies = Math.round(difficulty * 2.5 * width / 400)
+    if (enemies > 0) {
+      this.builder.generateEnemies(enemies, x + 48, x + width - 64, groundY - 32, this.random.next, enemyTypes)
+    }
+    if (this.style.spikes && difficulty > 0.3 && this.random.chance(difficulty)) {
+      this.builder.addEnemy(x + Math.round(width * 2 / 3), groundY - 32, 'spike', 32)
+    }
+    this.x += width
+  }
+
+  private pit(difficulty: number) {
+    const gap = Math.round(lerp(48, this.limits.maxGap, difficulty) * this.random.range(0.85, 1))
+    this.endGround(this.x)
+    if (this.random.chance(0.5)) {
+      const count = Math.max(1, Math.floor(gap / 40))
+      this.builder.addCoinRow(this.x + (gap - (count - 1) * 40) / 2, this.style.groundY - 80, count)
+    }
+    this.x += gap
+    this.groundStart = this.x
+  }
+
+  private floating(difficulty: number) {
+    const { groundY } = this.style
+    const count = this.random.int(2, 3)
+    const platformWidth = Math.round(lerp(128, 64, difficulty))
+    const rise = Math.round(lerp(24, this.limits.maxRise * 0.8, difficulty))
+    // Jumping up as well as across needs a shorter gap
+    const spacing = Math.round(lerp(48, this.limits.maxGap, difficulty) * (1 - 0.4 * rise / this.limits.maxRise))
+    const y = groundY - rise
+
+    this.endGround(this.x)
+    const first = this.x + spacing
+    this.builder.addGapWithPlatforms(first, y, spacing + count * (platformWidth + spacing), count, platformWidth, spacing)
+    for (let i = 0; i < count; i++) {
+      const platformX = first + i * (platformWidth + spacing)
+      this.builder.addCoinRow(platformX + platformWidth / 2 - 20, y - 48, 2)
+    }
+
+    this.x = first + count * (platformWidth + spacing)
+    this.groundStart = this.x
+  }
+
+  private stairs(difficulty: number) {
+    const { groundY } = this.style
+    const steps = this.random.int(2, 2 + Math.round(3 * difficulty))
+    const stepHeight = Math.max(16, Math.round(lerp(16, this.limits.maxRise * 0.6, difficulty) / 8) * 8)
+    const stepWidth = 32
+
+    this.builder.addPlatformStairs(this.x, groundY - stepHeight, steps, stepWidth, stepHeight)
+    this.x += steps * stepWidth
+
+    // Hard stairs drop straight into a pit, like the end of a castle
+    if (!this.style.islands && difficulty > 0.5 && this.random.chance(difficulty - 0.3)) {
+      this.pit(difficulty * 0.8)
+    }
+    this.x += 64
+  }
+
+  private pipes(difficulty: number) {
+    const { groundY, enemyTypes } = this.style
+    const count = this.random.int(1, 1 + Math.round(2 * difficulty))
+    for (let i = 0; i < count; i++) {
+      const height = Math.max(32, Math.round(lerp(32, this.limits.maxRise, difficulty) * this.random.range(0.7, 1)))
+      this.builder.addPipe(this.x, groundY - height, height)
+      const space = this.random.int(3, 6) * 32
+      if (difficulty > 0.4 && i < count - 1) {
+        this.builder.generateEnemies(1, this.x + 80, this.x + 64 + space - 48, groundY - 32, this.random.next, enemyTypes)
+      }
+      this.x += 64 + space
+    }
+  }
+
+  private endGround(x: number) {
+    const { groundY, groundHeight, groundType } = this.style
+    if (x > this.groundStart) {
+      this.builder.addPlatform(this.groundStart, groundY, x - this.groundStart, groundHeight, groundType)
+    }
+  }
+}
+
+function checkLevel(builder: LevelBuilder, profile: MovementProfile, length: number, replayWitness: boolean): SolvabilityResult {
+  const { playerStart, goal } = builder.levelData
+  const result = SolvabilityChecker.check(builder.createLevel(), playerStart, goal ?? null, profile, {
+    // Generated levels are long and wide open - allow a bigger search than the default
+    maxNodes: Math.ceil(length / 3)
+  })
+  // The search only knows about spikes - walkers can still get in the way of its path
+  if (result.solvable && replayWitness && !witnessWins(builder, result)) {
+    return { ...result, solvable: false, reasonCode: 'witness_failed', reason: 'The path found does not reach the goal in the engine' }
+  }
+  return result
+}
+
+// Play the witness path's buttons through a headless engine, tick by tick
+function witnessWins(builder: LevelBuilder, result: SolvabilityResult): boolean {
+  const sim = HeadlessSimulation.fromLevelData(builder.toDocument())
+  for (const input of result.path.flatMap(step => step.inputs)) {
+    if (!sim.step(input)) break
+  }
+  return sim.run(WITNESS_SETTLE_TICKS).victory
+}
+
+function resolveCurve(curve: DifficultyCurve): number[] {
+  const points = typeof curve === 'string' ? DIFFICULTY_PRESETS[curve] : curve
+  if (!points || points.length === 0) {
+    throw new Error(`Unknown difficulty curve: ${String(curve)}`)
+  }
+  return points.map(point => Math.max(0, Math.min(1, point)))
+}
+
+function sampleCurve(points: number[], progress: number): number {
+  if (points.length === 1) return points[0]
+  const position = Math.max(0, Math.min(1, progress)) * (points.length - 1)
+  const index = Math.min(Math.floor(position), points.length - 2)
+  return lerp(points[index], points[index + 1], position - index)
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t
+}
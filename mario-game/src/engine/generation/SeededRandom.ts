@@ -0,0 +1,72 @@
+/**
+ * SeededRandom - small deterministic PRNG (mulberry32)
+ *
+ * The same seed always gives the same sequence, on every browser and in Node.
+ * String seeds are hashed, so a date like '2026-10-18' works as a seed.
+ */
+export class SeededRandom {
+  private state: number
+
+  constructor(seed: number | string) {
+    this.state = typeof seed === 'string' ? SeededRandom.hash(seed) : seed >>> 0
+  }
+
+  /**
+   * 32-bit FNV-1a hash of a string
+   */
+  static hash(text: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * Next number in [0, 1) - a drop-in replacement for Math.random
+   */
+  public next = (): number => {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Integer in [min, max], both inclusive
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)]
+  }
+
+  /**
+   * Pick a key with probability proportional to its weight
+   */
+  public weighted<K extends string>(weights: Partial<Record<K, number>>): K {
+    const entries = Object.entries(weights) as Array<[K, number]>
+    const total = entries.reduce((sum, [, weight]) => sum + Math.max(0, weight), 0)
+    let roll = this.next() * total
+    for (const [key, weight] of entries) {
+      roll -= Math.max(0, weight)
+      if (roll < 0) return key
+    }
+    return entries[entries.length - 1][0]
+  }
+}
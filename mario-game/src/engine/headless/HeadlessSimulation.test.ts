@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from './HeadlessSimulation'
+import { type LevelDocument } from '../level/LevelSchema'
+import { flatLevel } from '../../test/fixtures'
+
+describe('HeadlessSimulation', () => {
+  it('settles the player on the ground', () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    const state = sim.run(60)
+    expect(state.tick).toBe(60)
+    expect(state.player!.y + state.player!.height).toBeCloseTo(500, 0)
+    expect(Math.abs(state.player!.vy)).toBeLessThan(1)
+  })
+
+  it('reaches the goal running right', () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    const { state, reached } = sim.runUntilVictory(1200, { right: true, run: true })
+    expect(reached).toBe(true)
+    expect(state.victory).toBe(true)
+    expect(sim.getReplay()?.totalTicks).toBe(state.tick)
+  })
+
+  it('gives the same result every run', () => {
+    const script = (tick: number) => ({ right: true, jump: tick % 40 < 10 })
+    const first = HeadlessSimulation.fromLevelData(flatLevel()).run(300, script)
+    const second = HeadlessSimulation.fromLevelData(flatLevel()).run(300, script)
+    expect(second).toEqual(first)
+  })
+
+  it('restarts from tick 0 at the spawn', () => {
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    sim.run(120, { right: true })
+    const state = sim.restart().getState()
+    expect(state.tick).toBe(0)
+    expect(state.player?.x).toBe(50)
+    expect(state.player?.y).toBe(400)
+  })
+
+  it('ends the run when the last life is lost', () => {
+    const level = flatLevel()
+    level.platforms = [{ x: 0, y: 500, width: 100, height: 50 }] // walk off the edge into the void
+    const sim = HeadlessSimulation.fromLevelData(level, { lives: 1 })
+    const { state, reached } = sim.runUntil(s => s.gameOver, 600, { right: true })
+    expect(reached).toBe(true)
+    expect(state.deaths).toBe(1)
+    expect(state.lives).toBe(0)
+  })
+
+  it('rejects levels it cannot load', () => {
+    expect(() => HeadlessSimulation.fromLevelData({ version: 99 } as unknown as LevelDocument)).toThrow()
+  })
+})
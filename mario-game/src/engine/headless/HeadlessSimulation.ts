@@ -0,0 +1,215 @@
+import { GameEngine, type GameConfig } from '../GameEngine'
+import { LevelBuilder, type LevelData } from '../LevelBuilder'
+import { LevelSchema, type LevelDocument, type RigidBodyLevelData } from '../level/LevelSchema'
+import { type InputState } from '../input/InputManager'
+import { type PlayerSize, type PlayerState } from '../entities/Player'
+import { TICK_RATE, type ReplayData } from '../replay/Replay'
+import { type SolvabilityOptions, type SolvabilityResult } from '../analysis/SolvabilityChecker'
+
+/**
+ * Buttons held for a tick - omitted buttons are released
+ */
+export type ScriptedInput = Partial<InputState>
+
+/**
+ * Input for each tick, either constant or computed from the tick number and current state
+ */
+export type InputScript = ScriptedInput | ((tick: number, state: SimulationState) => ScriptedInput)
+
+export interface PlayerSnapshot {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  width: number
+  height: number
+  size: PlayerSize
+  state: PlayerState
+  grounded: boolean
+  invulnerable: boolean
+}
+
+export interface SimulationState {
+  tick: number
+  elapsedTime: number // seconds of simulated time
+  player: PlayerSnapshot | null
+  coins: number
+  deaths: number
+  lives: number | null // null = unlimited
+  victory: boolean
+  gameOver: boolean
+}
+
+// Any level shape LevelSchema can convert
+export type HeadlessLevel = LevelDocument | LevelData | RigidBodyLevelData
+
+export interface HeadlessOptions extends Omit<GameConfig, 'width' | 'height' | 'fps'> {
+  levelId?: number
+  speedMultiplier?: number
+}
+
+/**
+ * Runs levels without a canvas or DOM.
+ *
+ * Wraps a headless GameEngine so physics, entities and level logic can be stepped
+ * tick by tick from Node - for automated tests and validating uploaded levels.
+ *
+ * @example
+ * const sim = HeadlessSimulation.fromLevelData(levelData)
+ * const result = sim.runUntilVictory(3600, { right: true, run: true })
+ */
+export class HeadlessSimulation {
+  private engine: GameEngine
+
+  constructor(options: HeadlessOptions = {}) {
+    this.engine = new GameEngine(null, options)
+    if (options.levelId !== undefined) {
+      this.engine.setLevelId(options.levelId)
+    }
+  }
+
+  /**
+   * Create a simulation with the level built and ready to step
+   */
+  static fromLevelData(levelData: HeadlessLevel, options: HeadlessOptions = {}): HeadlessSimulation {
+    const simulation = new HeadlessSimulation(options)
+    simulation.loadLevel(levelData, options.speedMultiplier)
+    return simulation
+  }
+
+  /**
+   * Build a level into the engine and reset the run to tick 0
+   * @throws LevelValidationError if the level cannot be loaded
+   */
+  public loadLevel(levelData: HeadlessLevel, speedMultiplier = 1): this {
+    const builder = new LevelBuilder(this.engine)
+    builder.loadDocument(LevelSchema.parse(levelData))
+    builder.build()
+
+    this.engine.getPlayer()?.setSpeedMultiplier(speedMultiplier)
+    this.restart()
+    return this
+  }
+
+  /**
+   * Return every entity to its spawn state and start a fresh run
+   */
+  public restart(): this {
+    this.engine.reset()
+    // start() only begins recording when headless - it resolves without waiting on anything
+    void this.engine.start()
+    return this
+  }
+
+  /**
+   * Advance one tick with the given buttons held
+   * @returns false if the level was already won and nothing happened
+   */
+  public step(input: ScriptedInput = {}): boolean {
+    return this.engine.step(toInputState(input))
+  }
+
+  /**
+   * Advance up to `ticks` ticks, stopping early on victory or game over
+   */
+  public run(ticks: number, script: InputScript = {}): SimulationState {
+    for (let i = 0; i < ticks; i++) {
+      const input = typeof script === 'function' ? script(this.engine.getTickCount(), this.getState()) : script
+      if (!this.step(input)) break
+    }
+    return this.getState()
+  }
+
+  /**
+   * Advance until the predicate holds or `maxTicks` have elapsed
+   * @returns the final state and whether the predicate was met
+   */
+  public runUntil(
+    predicate: (state: SimulationState) => boolean,
+    maxTicks: number,
+    script: InputScript = {}
+  ): { state: SimulationState; reached: boolean } {
+    let state = this.getState()
+    for (let i = 0; i < maxTicks && !predicate(state); i++) {
+      const input = typeof script === 'function' ? script(state.tick, state) : script
+      if (!this.step(input)) break
+      state = this.getState()
+    }
+    return { state, reached: predicate(state) }
+  }
+
+  public runUntilVictory(maxTicks: number, script: InputScript = {}): { state: SimulationState; reached: boolean } {
+    return this.runUntil((state) => state.victory, maxTicks, script)
+  }
+
+  /**
+   * Re-simulate a recorded run and report how it ended
+   * @throws Error if the replay was recorded at another tick rate or on another level
+   */
+  public runReplay(replay: ReplayData, maxExtraTicks = 600): SimulationState {
+    if (replay.tickRate !== TICK_RATE) {
+      throw new Error(`Replay was recorded at ${replay.tickRate} ticks per second, the engine runs at ${TICK_RATE}`)
+    }
+    if (replay.levelId !== this.engine.getLevelId()) {
+      throw new Error(`Replay was recorded on level ${replay.levelId}, the simulation runs level ${this.engine.getLevelId()}`)
+    }
+    // playReplay resets and starts synchronously when headless
+    void this.engine.playReplay(replay)
+    return this.run(replay.totalTicks + maxExtraTicks)
+  }
+
+  /**
+   * The inputs and trajectory of the current run, once it has reached the goal
+   */
+  public getReplay(): ReplayData | null {
+    return this.engine.getLastReplay()
+  }
+
+  /**
+   * Check the loaded level can be finished - e.g. before an uploaded level is published
+   */
+  public checkSolvability(options?: SolvabilityOptions): SolvabilityResult {
+    return this.engine.checkSolvability(options)
+  }
+
+  public getState(): SimulationState {
+    const player = this.engine.getPlayer()
+    return {
+      tick: this.engine.getTickCount(),
+      elapsedTime: this.engine.getElapsedTime(),
+      player: player ? {
+        x: player.position.x,
+        y: player.position.y,
+        vx: player.velocity.x,
+        vy: player.velocity.y,
+        width: player.width,
+        height: player.height,
+        size: player.size,
+        state: player.state,
+        grounded: player.grounded,
+        invulnerable: player.invulnerable
+      } : null,
+      coins: this.engine.getCoins(),
+      deaths: this.engine.getNumDeaths(),
+      lives: this.engine.getLives(),
+      victory: this.engine.isVictory(),
+      gameOver: this.engine.isGameOver()
+    }
+  }
+
+  public getEngine(): GameEngine {
+    return this.engine
+  }
+}
+
+function toInputState(input: ScriptedInput): InputState {
+  return {
+    left: input.left ?? false,
+    right: input.right ?? false,
+    up: input.up ?? false,
+    down: input.down ?? false,
+    jump: input.jump ?? false,
+    run: input.run ?? false,
+    action: input.action ?? false
+  }
+}
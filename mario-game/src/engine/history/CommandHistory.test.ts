@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { CommandHistory, type Command, type HistoryChange } from './CommandHistory'
+import { GameEngine } from '../GameEngine'
+import { LevelBuilder } from '../LevelBuilder'
+
+// A command that pushes `value` onto `list`
+function push(list: number[], value: number): Command {
+  return { name: `push ${value}`, execute: () => { list.push(value) }, undo: () => { list.pop() } }
+}
+
+describe('CommandHistory', () => {
+  it('undoes and redoes commands in order', () => {
+    const list: number[] = []
+    const history = new CommandHistory()
+    history.execute(push(list, 1))
+    history.execute(push(list, 2))
+
+    expect(history.undo()).toBe(true)
+    expect(list).toEqual([1])
+    expect(history.redo()).toBe(true)
+    expect(list).toEqual([1, 2])
+    expect(history.redo()).toBe(false)
+  })
+
+  it('drops the redo stack on a new command', () => {
+    const list: number[] = []
+    const history = new CommandHistory()
+    history.execute(push(list, 1))
+    history.undo()
+    history.execute(push(list, 2))
+    expect(history.canRedo()).toBe(false)
+    expect(history.getUndoNames()).toEqual(['push 2'])
+  })
+
+  it('undoes a transaction as one step and reports it once', () => {
+    const list: number[] = []
+    const changes: HistoryChange[] = []
+    const history = new CommandHistory()
+    history.onChange(change => changes.push(change))
+
+    history.transaction('both', () => {
+      history.execute(push(list, 1))
+      history.transaction('inner', () => history.execute(push(list, 2)))
+    })
+    expect(changes).toEqual([{ type: 'execute', name: 'both' }])
+
+    history.undo()
+    expect(list).toEqual([])
+    history.redo()
+    expect(list).toEqual([1, 2])
+  })
+
+  it('rolls back a transaction that throws', () => {
+    const list: number[] = []
+    const history = new CommandHistory()
+    expect(() => history.transaction('broken', () => {
+      history.execute(push(list, 1))
+      throw new Error('nope')
+    })).toThrow('nope')
+    expect(list).toEqual([])
+    expect(history.canUndo()).toBe(false)
+    expect(history.isInTransaction()).toBe(false)
+  })
+
+  it('keeps at most `limit` steps', () => {
+    const list: number[] = []
+    const history = new CommandHistory(3)
+    for (let i = 0; i < 5; i++) history.execute(push(list, i))
+    expect(history.getUndoNames()).toEqual(['push 2', 'push 3', 'push 4'])
+  })
+
+  it('refuses to undo inside a transaction', () => {
+    const history = new CommandHistory()
+    history.begin('open')
+    expect(() => history.undo()).toThrow()
+    history.commit()
+  })
+})
+
+describe('LevelBuilder history', () => {
+  it('undoes and redoes level edits', () => {
+    const builder = new LevelBuilder(new GameEngine(null))
+    builder.addPlatform(0, 500, 1000, 50).addCoin(100, 450)
+    const edited = builder.exportJSON()
+
+    builder.undo()
+    expect(builder.levelData.coins).toHaveLength(0)
+    builder.undo()
+    expect(builder.levelData.platforms).toHaveLength(0)
+    builder.redo()
+    builder.redo()
+    expect(builder.exportJSON()).toBe(edited)
+  })
+
+  it('undoes a helper that adds several items in one step', () => {
+    const builder = new LevelBuilder(new GameEngine(null))
+    builder.addCoinRow(100, 400, 5, 30)
+    expect(builder.levelData.coins).toHaveLength(5)
+    builder.undo()
+    expect(builder.levelData.coins).toHaveLength(0)
+    expect(builder.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,226 @@
+/**
+ * An undoable change. execute() is also called again on redo, so it must
+ * rebuild its effect from its own data rather than from whatever it returned before.
+ */
+export interface Command {
+  name: string
+  execute(): void
+  undo(): void
+}
+
+export type HistoryChangeType = 'execute' | 'undo' | 'redo'
+
+export interface HistoryChange {
+  type: HistoryChangeType
+  name: string // command or transaction name
+}
+
+export type HistoryListener = (change: HistoryChange) => void
+
+interface OpenTransaction {
+  name: string
+  commands: Command[]
+  depth: number
+}
+
+/**
+ * CommandHistory - undo/redo log of commands
+ *
+ * Commands executed inside a transaction are undone and redone as one step, and
+ * listeners hear about the whole transaction once, when it commits. Transactions
+ * opened inside another transaction join the outer one.
+ */
+export class CommandHistory {
+  private undoStack: Command[] = []
+  private redoStack: Command[] = []
+  private open: OpenTransaction | null = null
+  private listeners: HistoryListener[] = []
+  private limit: number
+
+  constructor(limit = 200) {
+    this.limit = limit
+  }
+
+  /**
+   * Run a command and record it (or add it to the open transaction)
+   */
+  public execute(command: Command): void {
+    command.execute()
+    if (this.open) {
+      this.open.commands.push(command)
+      return
+    }
+    this.push(command)
+    this.emit({ type: 'execute', name: command.name })
+  }
+
+  /**
+   * Run `body` as one undoable step. If it throws, everything it did is undone
+   * and the error is rethrown. The body must be synchronous.
+   */
+  public transaction<T>(name: string, body: () => T): T {
+    this.begin(name)
+    let result: T
+    try {
+      result = body()
+    } catch (error) {
+      // A failing inner transaction has already rolled back the outer one
+      if (this.open) this.rollback()
+      throw error
+    }
+    if (this.open) this.commit()
+    return result
+  }
+
+  public begin(name: string): void {
+    if (this.open) {
+      this.open.depth++
+      return
+    }
+    this.open = { name, commands: [], depth: 1 }
+  }
+
+  public commit(): void {
+    const open = this.open
+    if (!open) {
+      throw new Error('No transaction to commit')
+    }
+    if (--open.depth > 0) return
+
+    this.open = null
+    if (open.commands.length === 0) return
+    this.push(new TransactionCommand(open.name, open.commands))
+    this.emit({ type: 'execute', name: open.name })
+  }
+
+  /**
+   * Undo everything done since the outermost begin() and close the transaction
+   */
+  public rollback(): void {
+    const open = this.open
+    if (!open) {
+      throw new Error('No transaction to roll back')
+    }
+    this.open = null
+    for (let i = open.commands.length - 1; i >= 0; i--) {
+      open.commands[i].undo()
+    }
+  }
+
+  public isInTransaction(): boolean {
+    return this.open !== null
+  }
+
+  /**
+   * Undo the last command or transaction
+   * @returns false if there was nothing to undo
+   */
+  public undo(): boolean {
+    this.assertClosed('undo')
+    const command = this.undoStack.pop()
+    if (!command) return false
+    command.undo()
+    this.redoStack.push(command)
+    this.emit({ type: 'undo', name: command.name })
+    return true
+  }
+
+  /**
+   * Redo the last undone command or transaction
+   * @returns false if there was nothing to redo
+   */
+  public redo(): boolean {
+    this.assertClosed('redo')
+    const command = this.redoStack.pop()
+    if (!command) return false
+    command.execute()
+    this.undoStack.push(command)
+    this.emit({ type: 'redo', name: command.name })
+    return true
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Names of the recorded steps, oldest first
+   */
+  public getUndoNames(): string[] {
+    return this.undoStack.map(command => command.name)
+  }
+
+  /**
+   * Names of the undone steps, next redo first
+   */
+  public getRedoNames(): string[] {
+    return this.redoStack.map(command => command.name).reverse()
+  }
+
+  /**
+   * Forget all recorded steps (the current state is kept)
+   */
+  public clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  /**
+   * Subscribe to executed, undone and redone steps
+   * @returns a function that removes the listener
+   */
+  public onChange(listener: HistoryListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  private push(command: Command) {
+    this.undoStack.push(command)
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+  }
+
+  private emit(change: HistoryChange) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change)
+      } catch (error) {
+        console.error('History listener failed:', error)
+      }
+    })
+  }
+
+  private assertClosed(action: string) {
+    if (this.open) {
+      throw new Error(`Cannot ${action} while transaction "${this.open.name}" is open`)
+    }
+  }
+}
+
+class TransactionCommand implements Command {
+  name: string
+  private commands: Command[]
+
+  constructor(name: string, commands: Command[]) {
+    this.name = name
+    this.commands = commands
+  }
+
+  execute() {
+    this.commands.forEach(command => command.execute())
+  }
+
+  undo() {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].undo()
+    }
+  }
+}
@@ -14,32 +14,155 @@ export { LevelBuilder } from './LevelBuilder'
 
 // Physics
 export { PhysicsEngine } from './physics/PhysicsEngine'
+export { MATERIALS, MATERIAL_NAMES, materialForColor } from './physics/Materials'
+export { SpatialGrid } from './physics/SpatialGrid'
+export { boundsOverlap } from './physics/Geometry'
 
 // Entities
 export { Entity } from './entities/Entity'
 export { Player } from './entities/Player'
 export { Enemy } from './entities/Enemy'
+export { EnemyRegistry } from './entities/enemies/EnemyRegistry'
+export { PatrolBehavior, patrol, isStanding, hasGroundAhead } from './entities/enemies/PatrolBehavior'
+export { isStomp } from './entities/enemies/EnemyBehavior'
 export { Coin } from './entities/Coin'
 export { PowerUp } from './entities/PowerUp'
+export { Fireball } from './entities/Fireball'
+export { Checkpoint } from './entities/Checkpoint'
 export { EntityManager } from './entities/EntityManager'
 
 // Level Components
 export { Level } from './level/Level'
-export { Platform } from './level/Platform'
+export { Platform, BLOCK_CONTENTS, PLATFORM_KINDS } from './level/Platform'
 export { Polygon } from './level/Polygon'
+export { LevelSchema, LevelValidationError, LEVEL_SCHEMA_VERSION } from './level/LevelSchema'
 
 // Rendering
 export { Renderer } from './render/Renderer'
+export { WebGLRenderer } from './render/webgl/WebGLRenderer'
+export { createRenderer } from './render/GameRenderer'
+
+// Effects
+export { ParticleSystem } from './effects/ParticleSystem'
+export { EFFECTS } from './effects/Effects'
 export { Camera } from './render/Camera'
+export { BACKGROUND_PRESETS, BACKGROUND_PRESET_NAMES, resolveBackground, withBackdrop } from './render/Backgrounds'
+
+// Audio
+export { AudioManager } from './audio/AudioManager'
+export { AudioLoader } from './audio/AudioLoader'
+export { SOUNDS, SONGS, SOUND_NAMES, MUSIC_TRACKS, resolveMusic } from './audio/Sounds'
 
 // Input
 export { InputManager } from './input/InputManager'
 
+// Replays
+export { InputRecorder } from './replay/InputRecorder'
+export { ReplayPlayer } from './replay/ReplayPlayer'
+export { Ghost } from './replay/Ghost'
+export { GhostStore } from './replay/GhostStore'
+
+// Headless simulation
+export { HeadlessSimulation } from './headless/HeadlessSimulation'
+
+// Level analysis
+export { SolvabilityChecker } from './analysis/SolvabilityChecker'
+
+// Editor
+export { LevelEditor, EDITOR_TOOLS } from './editor/LevelEditor'
+
+// Procedural generation
+export { LevelGenerator, BIOMES } from './generation/LevelGenerator'
+export { SeededRandom } from './generation/SeededRandom'
+
+// Events
+export { GameEvents } from './events/GameEvents'
+
+// History
+export { CommandHistory } from './history/CommandHistory'
+
+// Offline cache and sync
+export { OfflineStore } from './offline/OfflineStore'
+export { SyncQueue } from './offline/SyncQueue'
+
+// Embed protocol
+export { EmbedBridge } from './embed/EmbedBridge'
+export { EmbedClient } from './embed/EmbedClient'
+export { EMBED_PROTOCOL, EMBED_PROTOCOL_VERSION, EmbedRequestError, isEmbedMessage, parseAllowedOrigins } from './embed/EmbedProtocol'
+
 // Type exports
 export type { GameConfig } from './GameEngine'
 export type { LevelData } from './LevelBuilder'
 export type { InputState } from './input/InputManager'
-export type { Vector2D, AABB } from './physics/PhysicsEngine'
+export type { Vector2D, AABB, RaycastHit } from './physics/PhysicsEngine'
+export type { MaterialName, PhysicsMaterial } from './physics/Materials'
+export type { Bounds } from './physics/Geometry'
 export type { EntityPhysics } from './entities/Entity'
-export type { PlayerSize, PlayerState } from './entities/Player'
-export type { UIData } from './render/Renderer'
\ No newline at end of file
+export type { BlockContents, PlatformPath } from './level/Platform'
+export type { PolygonEdge } from './level/Polygon'
+export type { EnemyBehavior, EnemyDefinition, EnemyWorld, ContactOutcome } from './entities/enemies/EnemyBehavior'
+export type { PatrolOptions } from './entities/enemies/PatrolBehavior'
+export type { PlayerSize, PlayerState, PlayerMovementProfile } from './entities/Player'
+export type { UIData } from './render/Renderer'
+export type { GameRenderer, RendererBackend } from './render/GameRenderer'
+export type { EffectName, EffectsQuality, EffectDefinition, ParticleLayer, ParticleShape } from './effects/Effects'
+export type { AudioBus } from './audio/AudioManager'
+export type { SoundName, MusicTrack, LevelAudio, Tone, Song } from './audio/Sounds'
+export type { BackgroundPreset, BackgroundLayer, BackgroundDefinition, BackgroundSetting, BackgroundRepeat } from './render/Backgrounds'
+export type { ReplayData, ReplayResult } from './replay/Replay'
+export type {
+  LevelDocument,
+  LevelPoint,
+  LevelPlatform,
+  LevelPolygon,
+  LevelEnemy,
+  LevelPowerUp,
+  LevelMetadata,
+  RigidBodyLevelData,
+  LevelFormat,
+  LevelIssue,
+  LevelIssueCode,
+  LevelValidationResult
+} from './level/LevelSchema'
+export type {
+  MovementProfile,
+  PathStep,
+  PathStepKind,
+  SolvabilityOptions,
+  SolvabilityReasonCode,
+  SolvabilityResult
+} from './analysis/SolvabilityChecker'
+export type { EditorTool, EditorItemKind, EditorSelection, LevelEditorOptions } from './editor/LevelEditor'
+export type { SimulationState, PlayerSnapshot, ScriptedInput, InputScript, HeadlessOptions, HeadlessLevel } from './headless/HeadlessSimulation'
+export type { Command, HistoryChange, HistoryChangeType, HistoryListener } from './history/CommandHistory'
+export type {
+  Biome,
+  DifficultyCurve,
+  DifficultyPreset,
+  GeneratorOptions,
+  GeneratedLevel,
+  GeneratedSection,
+  SectionKind,
+  JumpLimits
+} from './generation/LevelGenerator'
+export type { GameEventMap, GameEventName, GameEventListener, HitCause, VictoryEvent, GameOverEvent } from './events/GameEvents'
+export type { EmbedBridgeOptions } from './embed/EmbedBridge'
+export type { EmbedClientOptions, EmbedEventListener } from './embed/EmbedClient'
+export type {
+  EmbedState,
+  HelloResult,
+  EmbedCommandMap,
+  EmbedCommand,
+  EmbedParams,
+  EmbedResult,
+  EmbedEventMap,
+  EmbedEventName,
+  EmbedError,
+  EmbedErrorCode,
+  EmbedRequest,
+  EmbedResponse,
+  EmbedEvent,
+  EmbedMessage
+} from './embed/EmbedProtocol'
+export type { CachedPack, CachedLevel, LocalProgress, QueuedJob } from './offline/OfflineStore'
+export type { SyncJob, SyncChange, SyncChangeType, SyncListener } from './offline/SyncQueue'
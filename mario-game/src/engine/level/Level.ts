@@ -1,47 +1,73 @@
-import { Platform } from './Platform'
+import { Platform, type BlockContents, type PlatformPath } from './Platform'
 import { Polygon } from './Polygon'
 import { Enemy } from '../entities/Enemy'
 import { Coin } from '../entities/Coin'
 import { PowerUp } from '../entities/PowerUp'
+import { Checkpoint } from '../entities/Checkpoint'
 import { Entity } from '../entities/Entity'
+import { type Bounds } from '../physics/Geometry'
+import { SpatialGrid } from '../physics/SpatialGrid'
+import { DEFAULT_BACKGROUND, type BackgroundSetting } from '../render/Backgrounds'
+import { type LevelAudio } from '../audio/Sounds'
+
+// Geometry changes remembered for getGeometryChangesSince() - an older revision gets "everything changed"
+const MAX_GEOMETRY_CHANGES = 64
+
+// The world is at least this wide - levels that reach further widen it to their far edge
+const MIN_LEVEL_WIDTH = 3000
+
+export const GOAL_SIZE = 32 // The goal's area, a square from its position
 
 export class Level {
   private platforms: Platform[] = []
   private polygons: Polygon[] = []
   public entities: Entity[] = []
-  private levelWidth = 3000
+  private levelWidth = MIN_LEVEL_WIDTH
   private levelHeight = 600
-  private background = 'sky'
+  private background: BackgroundSetting = DEFAULT_BACKGROUND
+  private audio: LevelAudio = {}
   private goal: { x: number; y: number } | null = null
+  private brokenPlatforms: Array<{ platform: Platform; index: number }> = [] // restored on reset
+  // Broadphase over the geometry, rebuilt in array order on the first query after it changes
+  private platformGrid = new SpatialGrid<Platform>()
+  private polygonGrid = new SpatialGrid<Polygon>()
+  private gridDirty = true
+  // Where the platforms and polygons changed, for caches of how they look (null - everywhere)
+  private geometryRevision = 0
+  private geometryChanges: Array<{ revision: number; bounds: Bounds | null }> = []
 
-  public addPlatform(x: number, y: number, width: number, height: number, type = 'normal'): Platform {
-    const platform = new Platform(x, y, width, height, type)
+  public addPlatform(x: number, y: number, width: number, height: number, type = 'normal', contents?: BlockContents, path?: PlatformPath): Platform {
+    const platform = new Platform(x, y, width, height, type, contents, path)
     this.platforms.push(platform)
+    this.gridDirty = true
+    this.markGeometryChanged(platform.getBounds())
+    this.extendWidth(platform.getBounds().right)
     return platform
   }
 
   public addPolygon(contours: number[][], type = 'polygon'): Polygon {
     const polygon = new Polygon(contours, type)
     this.polygons.push(polygon)
+    this.gridDirty = true
+    this.markGeometryChanged(polygon.getBounds())
+    this.extendWidth(polygon.getBounds().right)
     return polygon
   }
 
   public addEnemy(x: number, y: number, type: string, size = 32): Enemy {
-    const enemy = new Enemy(x, y, type, size)
-    this.entities.push(enemy)
-    return enemy
+    return this.addEntity(new Enemy(x, y, type, size))
   }
 
   public addCoin(x: number, y: number): Coin {
-    const coin = new Coin(x, y)
-    this.entities.push(coin)
-    return coin
+    return this.addEntity(new Coin(x, y))
   }
 
   public addPowerUp(x: number, y: number, type: string): PowerUp {
-    const powerUp = new PowerUp(x, y, type)
-    this.entities.push(powerUp)
-    return powerUp
+    return this.addEntity(new PowerUp(x, y, type))
+  }
+
+  public addCheckpoint(x: number, y: number): Checkpoint {
+    return this.addEntity(new Checkpoint(x, y))
   }
 
   public getPlatforms(): Platform[] {
@@ -56,6 +82,9 @@ export class Level {
     return this.entities
   }
 
+  /**
+   * How far the world reaches - entities are kept between 0 and this
+   */
   public getWidth(): number {
     return this.levelWidth
   }
@@ -69,16 +98,31 @@ export class Level {
     this.levelHeight = height
   }
 
-  public setBackground(background: string) {
+  /**
+   * A preset name ('sky', 'underground', 'castle', 'night') or a definition with its own parallax layers
+   */
+  public setBackground(background: BackgroundSetting) {
     this.background = background
   }
 
-  public getBackground(): string {
+  public getBackground(): BackgroundSetting {
     return this.background
   }
 
+  /**
+   * Music choice and the like - without one, the music follows the background
+   */
+  public setAudio(audio: LevelAudio) {
+    this.audio = audio
+  }
+
+  public getAudio(): LevelAudio {
+    return this.audio
+  }
+
   public setGoal(x: number, y: number) {
     this.goal = { x, y }
+    this.extendWidth(x + GOAL_SIZE)
   }
 
   public getGoal(): { x: number; y: number } | null {
@@ -90,19 +134,55 @@ export class Level {
     this.polygons = []
     this.entities = []
     this.goal = null
+    this.brokenPlatforms = []
+    this.levelWidth = MIN_LEVEL_WIDTH
+    this.gridDirty = true
+    this.markGeometryChanged()
   }
 
   public removePlatform(platform: Platform) {
     const index = this.platforms.indexOf(platform)
     if (index > -1) {
       this.platforms.splice(index, 1)
+      this.gridDirty = true
+      this.markGeometryChanged(platform.getBounds())
     }
   }
 
+  /**
+   * Remove a platform for the rest of the run (a smashed brick) - restorePlatforms() brings it back
+   */
+  public breakPlatform(platform: Platform) {
+    const index = this.platforms.indexOf(platform)
+    if (index > -1) {
+      this.platforms.splice(index, 1)
+      this.brokenPlatforms.push({ platform, index })
+      // The others keep their relative order, so the grid doesn't need rebuilding
+      this.platformGrid.remove(platform)
+      this.markGeometryChanged(platform.getBounds())
+    }
+  }
+
+  /**
+   * Put every platform back the way the level was built: broken bricks return at their
+   * old index (so collision order, and with it replays, stay the same) and blocks refill
+   */
+  public restorePlatforms() {
+    while (this.brokenPlatforms.length > 0) {
+      const { platform, index } = this.brokenPlatforms.pop()!
+      this.platforms.splice(index, 0, platform)
+    }
+    this.platforms.forEach(platform => platform.reset())
+    this.gridDirty = true
+    this.markGeometryChanged()
+  }
+
   public removePolygon(polygon: Polygon) {
     const index = this.polygons.indexOf(polygon)
     if (index > -1) {
       this.polygons.splice(index, 1)
+      this.gridDirty = true
+      this.markGeometryChanged(polygon.getBounds())
     }
   }
 
@@ -113,11 +193,75 @@ export class Level {
     }
   }
 
+  /**
+   * Platforms that may overlap `bounds`, in level order - a broadphase, callers still test each one
+   */
+  public queryPlatforms(bounds: Bounds): Platform[] {
+    this.refreshGrid()
+    return this.platformGrid.query(bounds)
+  }
+
+  /**
+   * Polygons whose bounding box may overlap `bounds`, in level order
+   */
+  public queryPolygons(bounds: Bounds): Polygon[] {
+    this.refreshGrid()
+    return this.polygonGrid.query(bounds)
+  }
+
+  /**
+   * Re-file a platform that moved (moving and falling platforms, every tick they move)
+   */
+  public updatePlatformBounds(platform: Platform) {
+    if (!this.gridDirty && this.platformGrid.has(platform)) {
+      this.platformGrid.update(platform, platform.getBounds())
+    }
+  }
+
+  /**
+   * Record that the platforms or polygons inside `bounds` (or anywhere, without bounds) look
+   * different - call it after changing one in place, so cached drawings of the level redraw it
+   */
+  public markGeometryChanged(bounds?: Bounds) {
+    this.geometryRevision++
+    this.geometryChanges.push({ revision: this.geometryRevision, bounds: bounds ?? null })
+    if (this.geometryChanges.length > MAX_GEOMETRY_CHANGES) {
+      // A whole level being built - no point remembering every piece
+      this.geometryChanges = [{ revision: this.geometryRevision, bounds: null }]
+    }
+  }
+
+  public getGeometryRevision(): number {
+    return this.geometryRevision
+  }
+
+  /**
+   * The regions whose geometry changed after `revision`, or null if it may have changed anywhere
+   */
+  public getGeometryChangesSince(revision: number): Bounds[] | null {
+    const changes = this.geometryChanges.filter(change => change.revision > revision)
+    // Fewer than expected means the older ones were folded away
+    if (changes.length < this.geometryRevision - revision) return null
+    const regions: Bounds[] = []
+    for (const change of changes) {
+      if (!change.bounds) return null
+      regions.push(change.bounds)
+    }
+    return regions
+  }
+
   public getPlatformAt(x: number, y: number): Platform | null {
-    for (const platform of this.platforms) {
-      if (x >= platform.x && x <= platform.x + platform.width &&
-          y >= platform.y && y <= platform.y + platform.height) {
-        return platform
+    this.refreshGrid()
+    return this.platformGrid.queryPoint(x, y).find(platform => platform.contains(x, y)) ?? null
+  }
+
+  public getPolygonAt(x: number, y: number): Polygon | null {
+    this.refreshGrid()
+    // Topmost (last drawn) polygon first
+    const candidates = this.polygonGrid.queryPoint(x, y)
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      if (candidates[i].contains(x, y)) {
+        return candidates[i]
       }
     }
     return null
@@ -133,4 +277,23 @@ export class Level {
     }
     return null
   }
+
+  private refreshGrid() {
+    if (!this.gridDirty) return
+    this.platformGrid.clear()
+    this.polygonGrid.clear()
+    this.platforms.forEach(platform => this.platformGrid.insert(platform, platform.getBounds()))
+    this.polygons.forEach(polygon => this.polygonGrid.insert(polygon, polygon.getBounds()))
+    this.gridDirty = false
+  }
+
+  private addEntity<T extends Entity>(entity: T): T {
+    this.entities.push(entity)
+    this.extendWidth(entity.position.x + entity.width)
+    return entity
+  }
+
+  private extendWidth(right: number) {
+    this.levelWidth = Math.max(this.levelWidth, Math.ceil(right))
+  }
 }
\ No newline at end of file
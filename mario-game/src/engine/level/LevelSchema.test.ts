@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { LEVEL_SCHEMA_VERSION, LevelSchema, type RigidBodyLevelData } from './LevelSchema'
+import { type LevelData } from '../LevelBuilder'
+
+// Recognizer output, with the extra fields it adds and both coin shapes
+function rigidBodyLevel(): RigidBodyLevelData {
+  return {
+    starting_points: [{ coordinates: [40, 400] }],
+    end_points: [{ coordinates: [900, 470] }],
+    rigid_bodies: [
+      { contour_points: [[0, 500], [400, 500], [400, 560], [0, 560]], stroke_color: '#000000', area: 24000, contour_id: 3 } as RigidBodyLevelData['rigid_bodies'][number],
+      { contour_points: [[450, 420], [520, 380], [600, 420]], stroke_color: '#3399ff' },
+      // A hand-drawn lift: the contour isn't a perfect rectangle
+      { contour_points: [[620, 400], [700, 398], [702, 420], [621, 421]], platform_type: 'moving', path: { type: 'linear', dx: 0, dy: -100, period: 3 }, stroke_color: '#ff69b4', contour_id: 7 } as RigidBodyLevelData['rigid_bodies'][number],
+      { contour_points: [[720, 450], [800, 450], [800, 460], [720, 460]], platform_type: 'oneway', material: 'ice' }
+    ],
+    coins: [{ coordinates: [100, 450] }, { x: 200, y: 450 }],
+    enemies: [{ x: 300, y: 468, type: 'goomba' }],
+    spikes: [{ coordinates: [350, 480] }],
+    checkpoints: [{ coordinates: [500, 400] }],
+    background: 'night',
+    audio: { music: 'castle' },
+    image_size: [1024, 576],
+    recognizer: { model: 'contours-v2', threshold: 0.4 }
+  } as RigidBodyLevelData
+}
+
+function builderLevel(): LevelData {
+  return {
+    platforms: [
+      { x: 0, y: 500, width: 1000, height: 50, type: 'ground' },
+      { x: 300, y: 380, width: 32, height: 32, type: 'question', contents: 'mushroom' }
+    ],
+    polygons: [{ contours: [[400, 500], [500, 400], [600, 500]], type: 'triangle', material: 'mud' }],
+    enemies: [{ x: 600, y: 468, type: 'koopa' }, { x: 700, y: 480, type: 'spike', size: 32 }],
+    coins: [{ x: 320, y: 340 }],
+    powerUps: [{ x: 800, y: 450, type: 'star' }],
+    playerStart: { x: 50, y: 400 },
+    goal: { x: 950, y: 436 },
+    checkpoints: [{ x: 500, y: 400 }]
+  }
+}
+
+describe('LevelSchema', () => {
+  it('detects each format', () => {
+    expect(LevelSchema.detectFormat(LevelSchema.createEmpty())).toBe('document')
+    expect(LevelSchema.detectFormat(builderLevel())).toBe('builder')
+    expect(LevelSchema.detectFormat(rigidBodyLevel())).toBe('rigid_bodies')
+    expect(LevelSchema.detectFormat({ foo: 1 })).toBeNull()
+  })
+
+  it('round-trips rigid-body levels without loss', () => {
+    const data = rigidBodyLevel()
+    const document = LevelSchema.parse(data)
+    expect(document.version).toBe(LEVEL_SCHEMA_VERSION)
+    expect(document.platforms).toHaveLength(2)
+    expect(document.polygons).toHaveLength(2)
+    expect(document.polygons[1].material).toBe('water')
+    expect(document.extras).toEqual({ image_size: [1024, 576], recognizer: { model: 'contours-v2', threshold: 0.4 } })
+
+    const back = LevelSchema.toRigidBodyLevel(document)
+    expect(back).toEqual(data)
+    // Through JSON too, the way levels are stored
+    expect(LevelSchema.toRigidBodyLevel(LevelSchema.parse(JSON.parse(JSON.stringify(back))))).toEqual(data)
+  })
+
+  it('writes a moved platform body as its new rectangle', () => {
+    const document = LevelSchema.parse(rigidBodyLevel())
+    document.platforms[0].x += 100
+    const body = LevelSchema.toRigidBodyLevel(document).rigid_bodies[2]
+    expect(body.contour_points).toEqual([[720, 398], [802, 398], [802, 421], [720, 421]])
+    expect(body.platform_type).toBe('moving')
+    expect(body.stroke_color).toBe('#ff69b4')
+  })
+
+  it('round-trips builder levels', () => {
+    const data = builderLevel()
+    expect(LevelSchema.toBuilderLevel(LevelSchema.parse(data))).toEqual(data)
+  })
+
+  it('drops malformed items with a warning', () => {
+    const data = builderLevel()
+    data.platforms.push({ x: 0, y: 0, width: -5, height: 10 })
+    data.enemies.push({ x: Number.NaN, y: 0, type: 'goomba' })
+    const result = LevelSchema.validate(data)
+    expect(result.valid).toBe(true)
+    expect(result.level!.platforms).toHaveLength(2)
+    expect(result.level!.enemies).toHaveLength(2)
+    expect(result.issues.map(issue => issue.path)).toEqual(['platforms[2]', 'enemies[2]'])
+  })
+
+  it('clamps positions to the bounds it is given', () => {
+    const result = LevelSchema.validate(builderLevel(), { bounds: { width: 900, height: 600 } })
+    expect(result.level!.goals[0].x).toBe(900)
+    expect(result.issues.some(issue => issue.code === 'out_of_bounds')).toBe(true)
+  })
+
+  it('refuses unknown formats and versions', () => {
+    expect(LevelSchema.validate('level').valid).toBe(false)
+    expect(LevelSchema.validate({ version: LEVEL_SCHEMA_VERSION + 1 }).issues[0].code).toBe('unsupported_version')
+    expect(() => LevelSchema.parse({ nothing: true })).toThrow()
+  })
+})
@@ -0,0 +1,750 @@
+import { type LevelData } from '../LevelBuilder'
+import { BLOCK_CONTENTS, PLATFORM_KINDS, type BlockContents, type PlatformPath } from './Platform'
+import { MATERIAL_NAMES, isMaterialName, materialForColor, type MaterialName } from '../physics/Materials'
+import { BACKGROUND_PRESET_NAMES, cloneBackground, isBackgroundPreset, type BackgroundLayer, type BackgroundSetting } from '../render/Backgrounds'
+import { MUSIC_TRACKS, isMusicTrack, type LevelAudio } from '../audio/Sounds'
+
+/**
+ * Canonical level format
+ *
+ * Levels reach the engine in two legacy shapes:
+ * - builder levels (LevelBuilder / GameAPI): platforms, polygons, enemies, coins, powerUps, playerStart, goal
+ * - rigid-body levels (image recognition backend, level packs): starting_points, end_points, rigid_bodies, spikes
+ *
+ * LevelDocument is a superset of both. Converting a legacy level to a document and back
+ * returns the same level. Rigid-body levels keep any extra fields the recognizer attached
+ * (area, contour_id...), on the level itself as well as on its items; builder levels keep
+ * only the fields LevelData declares.
+ * Coordinates are engine world coordinates; the goal is the top-left of the 32x32 goal area.
+ */
+
+export const LEVEL_SCHEMA_VERSION = 1
+
+// Fallback spawn used by the engine when a level has none
+export const DEFAULT_PLAYER_START = { x: 100, y: 400 }
+
+// Rigid-body end points mark the flag; the goal area sits this far above it
+const GOAL_MARKER_OFFSET_Y = 30
+
+const DEFAULT_SPIKE_SIZE = 32
+
+// Top-level fields of a rigid-body level the document has a place for - the rest become extras
+const RIGID_BODY_LEVEL_FIELDS = ['starting_points', 'end_points', 'rigid_bodies', 'coins', 'enemies', 'spikes', 'checkpoints', 'background', 'audio', 'metadata']
+
+// Unrecognised fields carried along so conversions stay lossless
+export type LevelExtras = Record<string, unknown>
+
+export interface LevelPoint {
+  x: number
+  y: number
+  extras?: LevelExtras
+  asCoordinates?: boolean // a rigid-body coin given as { coordinates: [x, y] } - written back that way
+}
+
+export interface LevelPlatform {
+  x: number
+  y: number
+  width: number
+  height: number
+  type?: string
+  contents?: BlockContents // what a question, brick or hidden block releases when hit
+  path?: PlatformPath // route of a 'moving' platform
+  material?: MaterialName // surface material (ice, mud, bouncy, conveyor, lava, water...)
+  extras?: LevelExtras // a rigid body's own fields, its contour and stroke color among them
+}
+
+export interface LevelPolygon {
+  points: Array<[number, number]>
+  type?: string
+  material?: MaterialName
+  extras?: LevelExtras
+}
+
+export interface LevelEnemy {
+  x: number
+  y: number
+  type: string // 'spike' for spikes
+  size?: number
+  extras?: LevelExtras
+}
+
+export interface LevelPowerUp {
+  x: number
+  y: number
+  type: string
+}
+
+export interface LevelMetadata {
+  is_public: boolean
+  level_id: string
+  title?: string
+}
+
+export interface LevelDocument {
+  version: number
+  metadata?: LevelMetadata
+  starts: LevelPoint[] // the first one is where the player spawns
+  goals: LevelPoint[] // the first one is the victory area
+  platforms: LevelPlatform[]
+  polygons: LevelPolygon[]
+  enemies: LevelEnemy[]
+  coins: LevelPoint[]
+  powerUps: LevelPowerUp[]
+  checkpoints?: LevelPoint[] // flags that move the respawn point once reached
+  background?: BackgroundSetting // preset name or parallax layers - the sky when omitted
+  audio?: LevelAudio // music choice - follows the background when omitted
+  extras?: LevelExtras // top-level fields of a converted level, written back out by its converter
+}
+
+/**
+ * Level shape produced by the image recognition backend and stored in level packs
+ */
+export interface RigidBodyLevelData {
+  starting_points: Array<{
+    coordinates: [number, number]
+  }>
+  end_points: Array<{
+    coordinates: [number, number]
+  }>
+  rigid_bodies: Array<{
+    contour_points: Array<[number, number]>
+    platform_type?: string // makes the body's bounding box a platform of that type, e.g. 'moving'
+    path?: PlatformPath // with platform_type 'moving'
+    material?: MaterialName
+    stroke_color?: string // color the shape was drawn in - picks the material when none is given
+  }>
+  coins?: Array<{ x: number; y: number } | { coordinates: [number, number] }>
+  enemies?: Array<{
+    x: number
+    y: number
+    type: string
+  }>
+  spikes?: Array<{
+    coordinates: [number, number]
+  }>
+  checkpoints?: Array<{
+    coordinates: [number, number]
+  }>
+  background?: BackgroundSetting // e.g. with the uploaded drawing as a backdrop layer
+  audio?: LevelAudio
+  metadata?: LevelMetadata
+}
+
+export type LevelFormat = 'document' | 'builder' | 'rigid_bodies'
+
+export type LevelIssueCode =
+  | 'invalid_type'
+  | 'unknown_format'
+  | 'unsupported_version'
+  | 'missing_field'
+  | 'invalid_value'
+  | 'out_of_bounds'
+  | 'degenerate_polygon'
+
+export interface LevelIssue {
+  severity: 'error' | 'warning'
+  code: LevelIssueCode
+  path: string // location in the level document, e.g. "polygons[2].points[0]"
+  message: string
+}
+
+export interface LevelValidationResult {
+  valid: boolean // false when any issue is an error
+  format: LevelFormat | null
+  level: LevelDocument | null // normalized level, null when invalid
+  issues: LevelIssue[]
+}
+
+export interface LevelValidationOptions {
+  // Clamp every coordinate into this area (issues a warning per clamped value)
+  bounds?: { width: number; height: number }
+}
+
+/**
+ * Thrown when level data cannot be loaded; carries every issue found
+ */
+export class LevelValidationError extends Error {
+  public issues: LevelIssue[]
+
+  constructor(issues: LevelIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error')
+    super(`Invalid level data: ${errors.map(issue => `${issue.path || 'level'}: ${issue.message}`).join('; ')}`)
+    this.name = 'LevelValidationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Detection, conversion and validation for level data in any supported shape
+ */
+export class LevelSchema {
+  static detectFormat(data: unknown): LevelFormat | null {
+    if (!isObject(data)) return null
+    if (typeof data.version === 'number') return 'document'
+    if ('rigid_bodies' in data || 'starting_points' in data || 'end_points' in data) return 'rigid_bodies'
+    if ('platforms' in data || 'playerStart' in data || 'polygons' in data) return 'builder'
+    return null
+  }
+
+  static createEmpty(): LevelDocument {
+    return {
+      version: LEVEL_SCHEMA_VERSION,
+      starts: [{ ...DEFAULT_PLAYER_START }],
+      goals: [],
+      platforms: [],
+      polygons: [],
+      enemies: [],
+      coins: [],
+      powerUps: []
+    }
+  }
+
+  static getPlayerStart(level: LevelDocument): { x: number; y: number } {
+    const start = level.starts[0] ?? DEFAULT_PLAYER_START
+    return { x: start.x, y: start.y }
+  }
+
+  static getGoal(level: LevelDocument): { x: number; y: number } | undefined {
+    const goal = level.goals[0]
+    return goal ? { x: goal.x, y: goal.y } : undefined
+  }
+
+  // ==================== BUILDER LEVELS ====================
+
+  static fromBuilderLevel(data: LevelData): LevelDocument {
+    return {
+      version: LEVEL_SCHEMA_VERSION,
+      starts: data.playerStart ? [{ x: data.playerStart.x, y: data.playerStart.y }] : [],
+      goals: data.goal ? [{ x: data.goal.x, y: data.goal.y }] : [],
+      platforms: asArray(data.platforms).map(p => ({ ...p })),
+      polygons: asArray(data.polygons).map(p => ({
+        points: asArray(p.contours).map(point => [point[0], point[1]] as [number, number]),
+        type: p.type,
+        ...(p.material ? { material: p.material } : {})
+      })),
+      enemies: asArray(data.enemies).map(e => ({ ...e })),
+      coins: asArray(data.coins).map(c => ({ x: c.x, y: c.y })),
+      powerUps: asArray(data.powerUps).map(p => ({ ...p })),
+      ...(data.checkpoints?.length ? { checkpoints: data.checkpoints.map(c => ({ x: c.x, y: c.y })) } : {}),
+      ...(data.background ? { background: cloneBackground(data.background) } : {}),
+      ...(data.audio ? { audio: { ...data.audio } } : {})
+    }
+  }
+
+  static toBuilderLevel(level: LevelDocument): LevelData {
+    const start = this.getPlayerStart(level)
+    const goal = this.getGoal(level)
+
+    const data: LevelData = {
+      platforms: level.platforms.map(p => ({ ...p })),
+      polygons: level.polygons.map(p => ({
+        contours: p.points.map(([x, y]) => [x, y]),
+        type: p.type ?? polygonTypeForPointCount(p.points.length),
+        ...(p.material ? { material: p.material } : {})
+      })),
+      enemies: level.enemies.map(e => {
+        const enemy: LevelData['enemies'][number] = { x: e.x, y: e.y, type: e.type }
+        if (e.size !== undefined) enemy.size = e.size
+        else if (e.type === 'spike') enemy.size = DEFAULT_SPIKE_SIZE
+        return enemy
+      }),
+      coins: level.coins.map(c => ({ x: c.x, y: c.y })),
+      powerUps: level.powerUps.map(p => ({ ...p })),
+      playerStart: { x: start.x, y: start.y }
+    }
+    if (goal) {
+      data.goal = { x: goal.x, y: goal.y }
+    }
+    if (level.checkpoints?.length) {
+      data.checkpoints = level.checkpoints.map(c => ({ x: c.x, y: c.y }))
+    }
+    if (level.background) {
+      data.background = cloneBackground(level.background)
+    }
+    if (level.audio) {
+      data.audio = { ...level.audio }
+    }
+    return data
+  }
+
+  // ==================== RIGID-BODY LEVELS ====================
+
+  static fromRigidBodyLevel(data: RigidBodyLevelData): LevelDocument {
+    const level: LevelDocument = {
+      version: LEVEL_SCHEMA_VERSION,
+      starts: asArray(data.starting_points).map(p => coordinatesToPoint(p, 0)),
+      goals: asArray(data.end_points).map(p => coordinatesToPoint(p, -GOAL_MARKER_OFFSET_Y)),
+      // Bodies tagged with a platform type become platforms, the rest stay polygons
+      platforms: asArray(data.rigid_bodies).filter(isPlatformBody).map(bodyToPlatform),
+      polygons: asArray(data.rigid_bodies).filter(body => !isPlatformBody(body)).map(body => {
+        const polygon: LevelPolygon = withExtras(
+          { points: asArray(body.contour_points).map(point => [point?.[0], point?.[1]] as [number, number]) },
+          body,
+          ['contour_points', 'material']
+        )
+        const material = bodyMaterial(body)
+        return material ? { ...polygon, material } : polygon
+      }),
+      enemies: [
+        ...asArray(data.enemies).map(e => withExtras({ x: e.x, y: e.y, type: e.type }, e, ['x', 'y', 'type'])),
+        // Spikes are enemies the player can never stomp
+        ...asArray(data.spikes).map(s => {
+          const point = coordinatesToPoint(s, 0)
+          const spike: LevelEnemy = { x: point.x, y: point.y, type: 'spike' }
+          if (point.extras) spike.extras = point.extras
+          return spike
+        })
+      ],
+      // Recognizer output uses {coordinates: [x, y]} for coins, hand-written levels use {x, y}
+      coins: asArray(data.coins).map(c => isObject(c) && 'coordinates' in c
+        ? { ...coordinatesToPoint(c, 0), asCoordinates: true }
+        : withExtras({ x: c.x, y: c.y }, c, ['x', 'y'])),
+      powerUps: []
+    }
+    if (asArray(data.checkpoints).length > 0) {
+      level.checkpoints = asArray(data.checkpoints).map(c => coordinatesToPoint(c, 0))
+    }
+    if (data.background) {
+      level.background = cloneBackground(data.background)
+    }
+    if (data.audio) {
+      level.audio = { ...data.audio }
+    }
+    if (data.metadata) {
+      level.metadata = { ...data.metadata }
+    }
+    return withExtras(level, data, RIGID_BODY_LEVEL_FIELDS)
+  }
+
+  /**
+   * Platforms become rectangular rigid bodies, tagged with `platform_type` (and `path`) for
+   * the moving, one-way, crumbling and springboard kinds. A platform that was a rigid body keeps
+   * its type, fields and - while its bounding box hasn't moved - its original contour. Materials
+   * are written out unless the body's stroke color already picks them. Power-ups and other
+   * platform and polygon types have no rigid-body equivalent and are dropped.
+   */
+  static toRigidBodyLevel(level: LevelDocument): RigidBodyLevelData {
+    const enemies = level.enemies.filter(e => e.type !== 'spike')
+    const spikes = level.enemies.filter(e => e.type === 'spike')
+
+    const data: RigidBodyLevelData = {
+      ...level.extras,
+      starting_points: level.starts.map(p => ({ ...p.extras, coordinates: [p.x, p.y] as [number, number] })),
+      end_points: level.goals.map(p => ({ ...p.extras, coordinates: [p.x, p.y + GOAL_MARKER_OFFSET_Y] as [number, number] })),
+      rigid_bodies: [
+        ...level.polygons.map(p => {
+          const body: RigidBodyLevelData['rigid_bodies'][number] = { ...p.extras, contour_points: p.points.map(([x, y]) => [x, y] as [number, number]) }
+          if (p.material && p.material !== bodyMaterial(body)) body.material = p.material
+          return body
+        }),
+        ...level.platforms.map(p => {
+          const body: RigidBodyLevelData['rigid_bodies'][number] = { ...p.extras, contour_points: platformContour(p) }
+          if (p.type && (PLATFORM_KINDS.includes(p.type) || p.extras)) {
+            body.platform_type = p.type
+            if (p.path) body.path = { ...p.path }
+          }
+          if (p.material && p.material !== bodyMaterial(body)) body.material = p.material
+          return body
+        })
+      ]
+    }
+    if (level.coins.length > 0) {
+      data.coins = level.coins.map(c => c.asCoordinates
+        ? { ...c.extras, coordinates: [c.x, c.y] as [number, number] }
+        : { ...c.extras, x: c.x, y: c.y })
+    }
+    if (enemies.length > 0) {
+      data.enemies = enemies.map(e => ({ ...e.extras, x: e.x, y: e.y, type: e.type }))
+    }
+    if (spikes.length > 0) {
+      data.spikes = spikes.map(s => ({ ...s.extras, coordinates: [s.x, s.y] as [number, number] }))
+    }
+    if (level.checkpoints?.length) {
+      data.checkpoints = level.checkpoints.map(c => ({ ...c.extras, coordinates: [c.x, c.y] as [number, number] }))
+    }
+    if (level.background) {
+      data.background = cloneBackground(level.background)
+    }
+    if (level.audio) {
+      data.audio = { ...level.audio }
+    }
+    if (level.metadata) {
+      data.metadata = { ...level.metadata }
+    }
+    return data
+  }
+
+  // ==================== VALIDATION ====================
+
+  /**
+   * Convert level data of any supported shape to a normalized document.
+   * Malformed items are dropped and out-of-bounds values clamped, each with a warning;
+   * data that cannot be loaded at all produces errors and a null level.
+   */
+  static validate(data: unknown, options: LevelValidationOptions = {}): LevelValidationResult {
+    const issues: LevelIssue[] = []
+    const fail = (code: LevelIssueCode, message: string): LevelValidationResult => {
+      issues.push({ severity: 'error', code, path: '', message })
+      return { valid: false, format: null, level: null, issues }
+    }
+
+    if (!isObject(data)) {
+      return fail('invalid_type', `Level data must be an object, got ${data === null ? 'null' : typeof data}`)
+    }
+
+    const format = this.detectFormat(data)
+    if (!format) {
+      return fail('unknown_format', 'Level data matches none of the supported formats (document, builder, rigid_bodies)')
+    }
+
+    let level: LevelDocument
+    if (format === 'document') {
+      const version = data.version as number
+      if (version > LEVEL_SCHEMA_VERSION || version < 1 || !Number.isInteger(version)) {
+        return fail('unsupported_version', `Level schema version ${version} is not supported (latest is ${LEVEL_SCHEMA_VERSION})`)
+      }
+      level = {
+        version: LEVEL_SCHEMA_VERSION,
+        starts: asArray(data.starts),
+        goals: asArray(data.goals),
+        platforms: asArray(data.platforms),
+        polygons: asArray(data.polygons),
+        enemies: asArray(data.enemies),
+        coins: asArray(data.coins),
+        powerUps: asArray(data.powerUps)
+      }
+      if (Array.isArray(data.checkpoints)) {
+        level.checkpoints = data.checkpoints
+      }
+      if (data.background !== undefined) {
+        level.background = data.background
+      }
+      if (data.audio !== undefined) {
+        level.audio = data.audio as LevelAudio
+      }
+      if (isObject(data.metadata)) {
+        level.metadata = data.metadata as unknown as LevelMetadata
+      }
+    } else if (format === 'builder') {
+      level = this.fromBuilderLevel(data as unknown as LevelData)
+    } else {
+      level = this.fromRigidBodyLevel(data as unknown as RigidBodyLevelData)
+    }
+
+    const result = new LevelSanitizer(issues, options.bounds).sanitize(level)
+    const valid = !issues.some(issue => issue.severity === 'error')
+    return { valid, format, level: valid ? result : null, issues }
+  }
+
+  /**
+   * Convert level data of any supported shape, throwing if it cannot be loaded
+   */
+  static parse(data: unknown, options: LevelValidationOptions = {}): LevelDocument {
+    const result = this.validate(data, options)
+    if (!result.level) {
+      throw new LevelValidationError(result.issues)
+    }
+    return result.level
+  }
+}
+
+/**
+ * Drops malformed items and clamps coordinates, recording an issue for each change
+ */
+class LevelSanitizer {
+  private issues: LevelIssue[]
+  private bounds?: { width: number; height: number }
+
+  constructor(issues: LevelIssue[], bounds?: { width: number; height: number }) {
+    this.issues = issues
+    this.bounds = bounds
+  }
+
+  public sanitize(level: LevelDocument): LevelDocument {
+    const sanitized: LevelDocument = {
+      version: level.version,
+      starts: this.points(level.starts, 'starts'),
+      goals: this.points(level.goals, 'goals'),
+      platforms: this.filterItems(level.platforms, 'platforms', (p, path) => {
+        if (!isFiniteNumber(p.width) || !isFiniteNumber(p.height) || p.width <= 0 || p.height <= 0) {
+          this.warn('invalid_value', path, 'Platform width and height must be positive numbers')
+          return null
+        }
+        const position = this.position(p, path)
+        if (!position) return null
+        if (p.contents !== undefined && !BLOCK_CONTENTS.includes(p.contents)) {
+          this.warn('invalid_value', `${path}.contents`, `Unknown block contents "${p.contents}", expected one of ${BLOCK_CONTENTS.join(', ')}`)
+          const { contents: _contents, ...rest } = p
+          return { ...rest, ...position }
+        }
+        if (p.path !== undefined && !isValidPath(p.path)) {
+          this.warn('invalid_value', `${path}.path`, 'Platform path must be { type: "linear", dx, dy, period } or { type: "circular", radius, period } with a positive period')
+          const { path: _path, ...rest } = p
+          return { ...rest, ...position }
+        }
+        if (p.type === 'moving' && p.path === undefined) {
+          this.warn('missing_field', `${path}.path`, 'Moving platform has no path and will stand still')
+        }
+        return this.material({ ...p, ...position }, path)
+      }),
+      polygons: this.filterItems(level.polygons, 'polygons', (p, path) => {
+        const points = asArray(p.points).filter((point, i) => {
+          const ok = Array.isArray(point) && isFiniteNumber(point[0]) && isFiniteNumber(point[1])
+          if (!ok) this.warn('invalid_value', `${path}.points[${i}]`, 'Point must be an [x, y] pair of numbers')
+          return ok
+        }).map((point, i) => {
+          const clamped = this.clamp(point[0], point[1], `${path}.points[${i}]`)
+          return [clamped.x, clamped.y] as [number, number]
+        })
+        if (points.length < 3) {
+          this.warn('degenerate_polygon', path, `Polygon needs at least 3 points, has ${points.length}`)
+          return null
+        }
+        return this.material({ ...p, points }, path)
+      }),
+      enemies: this.filterItems(level.enemies, 'enemies', (e, path) => {
+        const position = this.position(e, path)
+        if (!position) return null
+        if (typeof e.type !== 'string' || e.type === '') {
+          this.warn('missing_field', `${path}.type`, 'Enemy has no type, using goomba')
+          return { ...e, ...position, type: 'goomba' }
+        }
+        return { ...e, ...position }
+      }),
+      coins: this.points(level.coins, 'coins'),
+      powerUps: this.filterItems(level.powerUps, 'powerUps', (p, path) => {
+        const position = this.position(p, path)
+        if (!position) return null
+        if (typeof p.type !== 'string' || p.type === '') {
+          this.warn('missing_field', `${path}.type`, 'Power-up has no type')
+          return null
+        }
+        return { ...p, ...position }
+      })
+    }
+    const checkpoints = this.points(asArray(level.checkpoints), 'checkpoints')
+    if (checkpoints.length > 0) {
+      sanitized.checkpoints = checkpoints
+    }
+    if (level.background !== undefined) {
+      const background = this.background(level.background)
+      if (background) sanitized.background = background
+    }
+    if (level.audio !== undefined) {
+      const audio = this.audio(level.audio)
+      if (audio) sanitized.audio = audio
+    }
+    if (level.metadata) {
+      sanitized.metadata = level.metadata
+    }
+    if (level.extras) {
+      sanitized.extras = level.extras
+    }
+
+    if (sanitized.starts.length === 0) {
+      this.warn('missing_field', 'starts', `Level has no start point, using (${DEFAULT_PLAYER_START.x}, ${DEFAULT_PLAYER_START.y})`)
+    }
+    if (sanitized.goals.length === 0) {
+      this.warn('missing_field', 'goals', 'Level has no goal and cannot be won')
+    }
+    return sanitized
+  }
+
+  // Unknown materials are dropped, leaving plain ground
+  private material<T extends { material?: MaterialName }>(item: T, path: string): T {
+    if (item.material === undefined || isMaterialName(item.material)) return item
+    this.warn('invalid_value', `${path}.material`, `Unknown material "${item.material}", expected one of ${MATERIAL_NAMES.join(', ')}`)
+    const { material: _material, ...rest } = item
+    return rest as T
+  }
+
+  // Unknown presets and malformed layers are dropped - with no background left the level gets the sky
+  private background(background: unknown): BackgroundSetting | null {
+    if (typeof background === 'string') {
+      if (isBackgroundPreset(background)) return background
+      this.warn('invalid_value', 'background', `Unknown background "${background}", expected one of ${BACKGROUND_PRESET_NAMES.join(', ')} or { layers: [...] }`)
+      return null
+    }
+    if (!isObject(background) || !Array.isArray(background.layers)) {
+      this.warn('invalid_value', 'background', 'Background must be a preset name or { layers: [...] }')
+      return null
+    }
+    const layers = this.filterItems(background.layers as BackgroundLayer[], 'background.layers', (layer, path) => {
+      if (isValidBackgroundLayer(layer)) return layer
+      this.warn('invalid_value', path, 'Background layer needs a color, sprite or image, numeric position, size, scroll, spacing and opacity, and a repeat of none, x, y or both')
+      return null
+    })
+    if (layers.length === 0) {
+      this.warn('invalid_value', 'background.layers', 'Background has no usable layers')
+      return null
+    }
+    return { layers }
+  }
+
+  // A music name that isn't a built-in track has to look like a file - otherwise it's a typo.
+  // Without a usable choice the music follows the background
+  private audio(audio: unknown): LevelAudio | null {
+    if (!isObject(audio)) {
+      this.warn('invalid_value', 'audio', 'Audio must be an object like { music: "castle" }')
+      return null
+    }
+    if (audio.music === undefined) return null
+    if (audio.music === null) return { music: null }
+    if (typeof audio.music !== 'string' || (!isMusicTrack(audio.music) && !/[./]/.test(audio.music))) {
+      this.warn('invalid_value', 'audio.music', `Unknown music "${String(audio.music)}", expected one of ${MUSIC_TRACKS.join(', ')}, an audio file URL or null`)
+      return null
+    }
+    return { music: audio.music }
+  }
+
+  private points(items: LevelPoint[], path: string): LevelPoint[] {
+    return this.filterItems(items, path, (p, itemPath) => {
+      const position = this.position(p, itemPath)
+      return position ? { ...p, ...position } : null
+    })
+  }
+
+  private filterItems<T>(items: T[], path: string, check: (item: T, path: string) => T | null): T[] {
+    const result: T[] = []
+    items.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`
+      if (!isObject(item) && !Array.isArray(item)) {
+        this.warn('invalid_type', itemPath, 'Expected an object')
+        return
+      }
+      const checked = check(item, itemPath)
+      if (checked) result.push(checked)
+    })
+    return result
+  }
+
+  private position(item: { x: unknown; y: unknown }, path: string): { x: number; y: number } | null {
+    if (!isFiniteNumber(item.x) || !isFiniteNumber(item.y)) {
+      this.warn('invalid_value', path, 'Position must have numeric x and y')
+      return null
+    }
+    return this.clamp(item.x, item.y, path)
+  }
+
+  private clamp(x: number, y: number, path: string): { x: number; y: number } {
+    if (!this.bounds) return { x, y }
+
+    const clampedX = Math.max(0, Math.min(this.bounds.width, x))
+    const clampedY = Math.max(0, Math.min(this.bounds.height, y))
+    if (clampedX !== x || clampedY !== y) {
+      this.warn('out_of_bounds', path, `(${x}, ${y}) is outside ${this.bounds.width}x${this.bounds.height}, clamped to (${clampedX}, ${clampedY})`)
+    }
+    return { x: clampedX, y: clampedY }
+  }
+
+  private warn(code: LevelIssueCode, path: string, message: string) {
+    this.issues.push({ severity: 'warning', code, path, message })
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function asArray<T>(value: T[] | undefined | null): T[] {
+  return Array.isArray(value) ? value : []
+}
+
+function withExtras<T extends object>(target: T, source: object, knownKeys: string[]): T & { extras?: LevelExtras } {
+  const extras: LevelExtras = {}
+  let hasExtras = false
+  Object.entries(source).forEach(([key, value]) => {
+    if (!knownKeys.includes(key)) {
+      extras[key] = value
+      hasExtras = true
+    }
+  })
+  return hasExtras ? { ...target, extras } : target
+}
+
+function coordinatesToPoint(source: { coordinates: [number, number] }, offsetY: number): LevelPoint {
+  const [x, y] = asArray(source?.coordinates)
+  return withExtras({ x, y: y + offsetY }, source ?? {}, ['coordinates'])
+}
+
+function isPlatformBody(body: RigidBodyLevelData['rigid_bodies'][number]): boolean {
+  return isObject(body) && typeof body.platform_type === 'string' && body.platform_type !== ''
+}
+
+// The axis-aligned bounding box of the contour - the contour itself and the body's other
+// fields are kept as extras
+function bodyToPlatform(body: RigidBodyLevelData['rigid_bodies'][number]): LevelPlatform {
+  const bounds = contourBounds(asArray(body.contour_points))
+  const platform: LevelPlatform = withExtras({ ...bounds, type: body.platform_type }, body, ['platform_type', 'path', 'material'])
+  if (body.path) platform.path = body.path
+  const material = bodyMaterial(body)
+  if (material) platform.material = material
+  return platform
+}
+
+// The contour the platform was read from, or its rectangle once it has been moved or resized
+function platformContour(platform: LevelPlatform): Array<[number, number]> {
+  const contour = platform.extras?.contour_points
+  if (Array.isArray(contour)) {
+    const bounds = contourBounds(contour)
+    if (bounds.x === platform.x && bounds.y === platform.y && bounds.width === platform.width && bounds.height === platform.height) {
+      return contour.map(point => [point[0], point[1]] as [number, number])
+    }
+  }
+  return [
+    [platform.x, platform.y],
+    [platform.x + platform.width, platform.y],
+    [platform.x + platform.width, platform.y + platform.height],
+    [platform.x, platform.y + platform.height]
+  ]
+}
+
+function contourBounds(contour: Array<[number, number]>): { x: number; y: number; width: number; height: number } {
+  const points = contour.filter(point => Array.isArray(point))
+  const xs = points.map(point => point[0])
+  const ys = points.map(point => point[1])
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+// An explicit material wins over the one the stroke color picks
+function bodyMaterial(body: RigidBodyLevelData['rigid_bodies'][number]): MaterialName | undefined {
+  if (body.material !== undefined) return body.material
+  return typeof body.stroke_color === 'string' ? materialForColor(body.stroke_color) ?? undefined : undefined
+}
+
+function isValidPath(path: unknown): path is PlatformPath {
+  if (!isObject(path) || !isFiniteNumber(path.period) || path.period <= 0) return false
+  if (path.type === 'linear') return isFiniteNumber(path.dx) && isFiniteNumber(path.dy)
+  if (path.type === 'circular') return isFiniteNumber(path.radius)
+  return false
+}
+
+function isValidBackgroundLayer(layer: unknown): layer is BackgroundLayer {
+  if (!isObject(layer)) return false
+  const colors = Array.isArray(layer.color) ? layer.color : [layer.color]
+  const hasColor = layer.color !== undefined && colors.length > 0 && colors.every(color => typeof color === 'string')
+  if (!hasColor && typeof layer.sprite !== 'string' && typeof layer.image !== 'string') return false
+  if (layer.color !== undefined && !hasColor) return false
+  if ((layer.sprite !== undefined && typeof layer.sprite !== 'string') || (layer.image !== undefined && typeof layer.image !== 'string')) return false
+  const numbers = ['x', 'y', 'width', 'height', 'scroll', 'scrollY', 'spacing', 'opacity']
+  if (!numbers.every(key => layer[key] === undefined || isFiniteNumber(layer[key]))) return false
+  if ((layer.width !== undefined && layer.width <= 0) || (layer.height !== undefined && layer.height <= 0)) return false
+  if (layer.repeat !== undefined && !['none', 'x', 'y', 'both'].includes(layer.repeat)) return false
+  return layer.anchor === undefined || layer.anchor === 'top' || layer.anchor === 'bottom'
+}
+
+// Matches the names play/embed gave recognized shapes
+function polygonTypeForPointCount(count: number): string {
+  switch (count) {
+    case 3: return 'triangle'
+    case 5: return 'pentagon'
+    case 6: return 'hexagon'
+    default: return 'polygon'
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { Platform } from './Platform'
+import { platformLevel } from '../../test/fixtures'
+
+describe('Platform', () => {
+  it('starts a path where reset() puts it', () => {
+    const circle = new Platform(100, 200, 64, 16, 'moving', undefined, { type: 'circular', radius: 50, period: 2 })
+    const line = new Platform(100, 200, 64, 16, 'moving', undefined, { type: 'linear', dx: 100, dy: 0, period: 2 })
+    const start = [circle, line].map(platform => ({ x: platform.x, y: platform.y }))
+    expect(start).toEqual([{ x: 150, y: 200 }, { x: 100, y: 200 }])
+
+    for (let i = 0; i < 45; i++) {
+      circle.update()
+      line.update()
+    }
+    circle.reset()
+    line.reset()
+    expect([circle, line].map(platform => ({ x: platform.x, y: platform.y }))).toEqual(start)
+  })
+
+  it('moves smoothly from its first tick', () => {
+    const circle = new Platform(100, 200, 64, 16, 'moving', undefined, { type: 'circular', radius: 50, period: 2 })
+    circle.update()
+    expect(Math.abs(circle.deltaX)).toBeLessThan(1)
+    expect(Math.abs(circle.deltaY)).toBeLessThan(3)
+  })
+
+  it('carries whoever stands on a moving platform', () => {
+    const sim = HeadlessSimulation.fromLevelData(platformLevel({
+      x: 100, y: 400, width: 120, height: 16, type: 'moving', path: { type: 'linear', dx: 200, dy: 0, period: 4 }
+    }))
+    const before = sim.run(30).player!
+    const platform = sim.getEngine().getCurrentLevel()!.getPlatforms()[0]
+    const platformBefore = platform.x
+
+    const after = sim.run(90).player!
+    expect(after.y + after.height).toBeCloseTo(platform.y, 0)
+    expect(after.x - before.x).toBeCloseTo(platform.x - platformBefore, 0)
+    expect(sim.getState().deaths).toBe(0)
+  })
+
+  it('lets the player jump up through a one-way platform and land on it', () => {
+    const level = platformLevel({ x: 0, y: 500, width: 600, height: 50 })
+    level.platforms.push({ x: 0, y: 420, width: 200, height: 16, type: 'oneway' })
+    level.starts = [{ x: 50, y: 460 }]
+    const sim = HeadlessSimulation.fromLevelData(level)
+    sim.run(20)
+    const jumped = sim.run(20, { jump: true })
+    expect(jumped.player!.y).toBeLessThan(420 - jumped.player!.height)
+
+    const landed = sim.run(60).player!
+    expect(landed.y + landed.height).toBeCloseTo(420, 0)
+  })
+
+  it('drops a crumbling platform after it is stood on, then grows it back', () => {
+    const sim = HeadlessSimulation.fromLevelData(platformLevel({ x: 100, y: 400, width: 120, height: 16, type: 'crumbling' }))
+    const platform = sim.getEngine().getCurrentLevel()!.getPlatforms()[0]
+    sim.run(20)
+    expect(platform.getShakeOffset()).not.toBe(0)
+
+    const fallen = sim.run(60)
+    expect(platform.y).toBeGreaterThan(400)
+    expect(fallen.player!.y).toBeGreaterThan(400)
+
+    expect(sim.runUntil(() => platform.y === 400 && platform.solid, 300).reached).toBe(true)
+  })
+})
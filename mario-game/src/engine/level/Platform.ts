@@ -1,3 +1,37 @@
+import { getMaterial, type MaterialName, type PhysicsMaterial } from '../physics/Materials'
+
+// What a block can hold - declared per platform in level JSON as `contents`
+export type BlockContents = 'coin' | 'mushroom' | 'flower' | 'star' | '1up'
+
+export const BLOCK_CONTENTS: readonly BlockContents[] = ['coin', 'mushroom', 'flower', 'star', '1up']
+
+// Platform types that do more than stand still - rigid-body levels declare them with `platform_type`
+export const PLATFORM_KINDS: readonly string[] = ['oneway', 'moving', 'crumbling', 'springboard']
+
+/**
+ * Path a 'moving' platform follows, measured from its level position
+ * - linear: glides to (x + dx, y + dy) and back, `period` seconds for the round trip
+ * - circular: circles its level position at `radius` px, one lap every `period` seconds
+ */
+export type PlatformPath =
+  | { type: 'linear'; dx: number; dy: number; period: number }
+  | { type: 'circular'; radius: number; period: number }
+
+type CrumbleState = 'intact' | 'shaking' | 'falling' | 'gone'
+
+// Ticks a bumped block spends popping up and settling back
+const BUMP_TICKS = 8
+const BUMP_HEIGHT = 8
+
+// Crumbling platforms shake for a moment after being stood on, fall, then grow back
+const SHAKE_TICKS = 30
+const FALL_TICKS = 90
+const REGROW_TICKS = 180
+const FALL_GRAVITY = 0.3
+
+const SPRING_VELOCITY = 16 // upwards launch speed off a springboard
+const SPRING_TICKS = 10 // how long the spring stays squashed
+
 export class Platform {
   public x: number
   public y: number
@@ -8,18 +42,51 @@ export class Platform {
   public breakable = false
   public isGoal = false
   public invisible = false
+  public contents: BlockContents | null = null
+  public used = false // an emptied question block
+  public hidden = false // invisible block - only there when hit from below
+  public oneWay = false // only blocks from above - walk and jump through it from any other side
+  public bounce = 0 // launch speed for anything landing on it (springboards)
+  public path: PlatformPath | null = null
+  public material: MaterialName | null = null // surface it's made of (ice, water...), null for plain ground
+  // How far the last update() moved it - riders are carried along by the same amount
+  public deltaX = 0
+  public deltaY = 0
+  private origin: { x: number; y: number }
+  private ticks = 0
+  private bumpTicks = 0
+  private crumbleState: CrumbleState = 'intact'
+  private crumbleTicks = 0
+  private fallSpeed = 0
+  private springTicks = 0
 
-  constructor(x: number, y: number, width: number, height: number, type = 'normal') {
+  constructor(x: number, y: number, width: number, height: number, type = 'normal', contents?: BlockContents, path?: PlatformPath) {
     this.x = x
     this.y = y
     this.width = width
     this.height = height
     this.type = type
+    this.contents = contents ?? null
+    this.origin = { x, y }
 
     // Set properties based on type
     switch(type) {
       case 'platform':
-        this.solid = true // Can be jumped through from below
+        // Can be jumped through from below, but blocks from the sides (levels use it as ground)
+        this.solid = true
+        break
+      case 'oneway':
+        this.oneWay = true
+        break
+      case 'moving':
+        this.oneWay = true
+        this.path = path ?? null
+        break
+      case 'crumbling':
+        this.oneWay = true // so it can grow back with someone standing in its spot
+        break
+      case 'springboard':
+        this.bounce = SPRING_VELOCITY
         break
       case 'brick':
         this.breakable = true
@@ -27,6 +94,9 @@ export class Platform {
       case 'question':
         this.breakable = false
         break
+      case 'hidden':
+        this.hide()
+        break
       case 'goal_pipe':
         this.isGoal = true
         break
@@ -35,6 +105,149 @@ export class Platform {
         this.solid = true
         break
     }
+
+    // Start where the path puts it at time 0, as reset() does - a circle starts on its rim
+    if (this.path) {
+      this.followPath(this.path, 0)
+    }
+  }
+
+  /**
+   * Make it out of a material - liquids stop being solid and are swum through instead
+   */
+  public setMaterial(material: MaterialName | null) {
+    this.material = material
+    if (getMaterial(material)?.liquid) {
+      this.solid = false
+    }
+  }
+
+  public getMaterial(): PhysicsMaterial | null {
+    return getMaterial(this.material)
+  }
+
+  /**
+   * Whether something can pass through it from below (what the solvability check needs to know)
+   */
+  public isJumpThrough(): boolean {
+    return this.oneWay || this.type === 'platform'
+  }
+
+  public isCrumbling(): boolean {
+    return this.type === 'crumbling'
+  }
+
+  /**
+   * Stood on: a crumbling platform starts shaking, then falls
+   */
+  public crumble() {
+    if (this.isCrumbling() && this.crumbleState === 'intact') {
+      this.crumbleState = 'shaking'
+      this.crumbleTicks = 0
+    }
+  }
+
+  /**
+   * Something landed on the springboard
+   */
+  public compress() {
+    this.springTicks = SPRING_TICKS
+  }
+
+  /**
+   * How far the spring is squashed, from 0 (relaxed) to 1
+   */
+  public getCompression(): number {
+    return this.springTicks / SPRING_TICKS
+  }
+
+  /**
+   * Horizontal wobble of a crumbling platform about to fall
+   */
+  public getShakeOffset(): number {
+    return this.crumbleState === 'shaking' ? (this.crumbleTicks % 4 < 2 ? -1 : 1) : 0
+  }
+
+  /**
+   * Whether hitting it from below does anything
+   */
+  public isInteractive(): boolean {
+    return !this.used && (this.type === 'question' || this.type === 'brick' || this.type === 'hidden')
+  }
+
+  /**
+   * Whether it can move or change how it looks while the level runs (moving, crumbling and spring
+   * platforms, blocks that get hit) - the renderer draws these every frame instead of caching them
+   */
+  public isAnimated(): boolean {
+    return this.path !== null || this.isCrumbling() || this.bounce > 0 || this.contents !== null ||
+      this.type === 'question' || this.type === 'brick' || this.type === 'hidden'
+  }
+
+  public bump() {
+    this.bumpTicks = BUMP_TICKS
+  }
+
+  /**
+   * Make a hidden block solid and visible
+   */
+  public reveal() {
+    this.hidden = false
+    this.invisible = false
+    this.solid = true
+  }
+
+  /**
+   * Advance one fixed tick - moving and crumbling platforms are driven by the tick count
+   * only, so runs and replays stay deterministic
+   */
+  public update(dt = 1 / 60) {
+    if (this.bumpTicks > 0) this.bumpTicks--
+    if (this.springTicks > 0) this.springTicks--
+    this.ticks++
+
+    const previousX = this.x
+    const previousY = this.y
+    if (this.path) {
+      this.followPath(this.path, this.ticks * dt)
+    }
+    if (this.isCrumbling()) {
+      this.updateCrumbling()
+    }
+    this.deltaX = this.x - previousX
+    this.deltaY = this.y - previousY
+  }
+
+  /**
+   * How far the block is drawn above its position while bumped
+   */
+  public getBumpOffset(): number {
+    if (this.bumpTicks === 0) return 0
+    const progress = 1 - this.bumpTicks / BUMP_TICKS
+    return Math.sin(progress * Math.PI) * BUMP_HEIGHT
+  }
+
+  /**
+   * Undo every hit, e.g. when the level restarts
+   */
+  public reset() {
+    this.used = false
+    this.bumpTicks = 0
+    this.springTicks = 0
+    this.ticks = 0
+    this.x = this.origin.x
+    this.y = this.origin.y
+    this.deltaX = 0
+    this.deltaY = 0
+    if (this.path) {
+      this.followPath(this.path, 0)
+    }
+    if (this.isCrumbling()) {
+      this.regrow()
+    }
+    if (this.type === 'hidden') {
+      this.hide()
+    }
   }
 
   public getBounds() {
@@ -57,4 +270,61 @@ export class Platform {
              this.y + this.height < other.y ||
              other.y + other.height < this.y)
   }
-}
\ No newline at end of file
+
+  private hide() {
+    this.hidden = true
+    this.invisible = true
+    this.solid = false
+  }
+
+  private followPath(path: PlatformPath, time: number) {
+    const phase = (time / path.period) * Math.PI * 2
+    if (path.type === 'linear') {
+      // Ease in and out at both ends of the track
+      const progress = (1 - Math.cos(phase)) / 2
+      this.x = this.origin.x + path.dx * progress
+      this.y = this.origin.y + path.dy * progress
+    } else {
+      this.x = this.origin.x + Math.cos(phase) * path.radius
+      this.y = this.origin.y + Math.sin(phase) * path.radius
+    }
+  }
+
+  private updateCrumbling() {
+    this.crumbleTicks++
+    switch (this.crumbleState) {
+      case 'shaking':
+        if (this.crumbleTicks >= SHAKE_TICKS) {
+          this.crumbleState = 'falling'
+          this.crumbleTicks = 0
+          this.fallSpeed = 0
+        }
+        break
+      case 'falling':
+        this.fallSpeed += FALL_GRAVITY
+        this.y += this.fallSpeed
+        if (this.crumbleTicks >= FALL_TICKS) {
+          this.crumbleState = 'gone'
+          this.crumbleTicks = 0
+          this.solid = false
+          this.invisible = true
+        }
+        break
+      case 'gone':
+        if (this.crumbleTicks >= REGROW_TICKS) {
+          this.regrow()
+        }
+        break
+    }
+  }
+
+  private regrow() {
+    this.crumbleState = 'intact'
+    this.crumbleTicks = 0
+    this.fallSpeed = 0
+    this.x = this.origin.x
+    this.y = this.origin.y
+    this.solid = true
+    this.invisible = false
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { Polygon } from './Polygon'
+
+describe('Polygon', () => {
+  it('gives outward normals whichever way the contour was drawn', () => {
+    const clockwise = new Polygon([[0, 0], [100, 0], [100, 50], [0, 50]])
+    const counterClockwise = new Polygon([[0, 0], [0, 50], [100, 50], [100, 0]])
+    const top = (polygon: Polygon) => polygon.getEdges().find(edge => edge.y1 === 0 && edge.y2 === 0)!.normal
+    expect(top(clockwise).y).toBe(-1)
+    expect(top(counterClockwise).y).toBe(-1)
+  })
+
+  it('keeps its edges and bounds until the contours change', () => {
+    const polygon = new Polygon([[0, 0], [100, 0], [100, 50]])
+    const edges = polygon.getEdges()
+    expect(polygon.getEdges()).toBe(edges)
+
+    polygon.contours = [[200, 0], [300, 0], [300, 80]]
+    expect(polygon.getEdges()).not.toBe(edges)
+    expect(polygon.getEdges()[0].x1).toBe(200)
+    expect(polygon.getBounds()).toEqual({ left: 200, right: 300, top: 0, bottom: 80 })
+  })
+})
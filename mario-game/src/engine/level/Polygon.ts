@@ -1,9 +1,24 @@
+import { getMaterial, type MaterialName, type PhysicsMaterial } from '../physics/Materials'
+import { type Bounds } from '../physics/Geometry'
+
+export interface PolygonEdge {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  normal: { x: number; y: number } // unit vector pointing out of the shape (y < 0 is a surface facing up)
+}
+
 export class Polygon {
   public contours: number[][] // Array of [x, y] points in world coordinates
   public type: string
   public solid = true
   public breakable = false
   public isGoal = false
+  public material: MaterialName | null = null // surface it's made of (ice, water...), null for plain ground
+  // Worked out from the contours they were made for - assigning new contours clears them
+  private edgeCache: { contours: number[][]; edges: PolygonEdge[] } | null = null
+  private boundsCache: { contours: number[][]; bounds: Bounds } | null = null
 
   constructor(contours: number[][], type = 'polygon') {
     // Validate and sanitize contours
@@ -11,6 +26,18 @@ export class Polygon {
     this.type = type
   }
 
+  /**
+   * Make it out of a material - liquids stop being solid and are swum through instead
+   */
+  public setMaterial(material: MaterialName | null) {
+    this.material = material
+    this.solid = !getMaterial(material)?.liquid
+  }
+
+  public getMaterial(): PhysicsMaterial | null {
+    return getMaterial(this.material)
+  }
+
   private validateContours(contours: number[][]): number[][] {
     if (!Array.isArray(contours)) {
       console.warn('Polygon contours must be an array')
@@ -32,7 +59,14 @@ export class Polygon {
     return validContours
   }
 
-  public getBounds() {
+  public getBounds(): Bounds {
+    if (this.boundsCache?.contours !== this.contours) {
+      this.boundsCache = { contours: this.contours, bounds: this.computeBounds() }
+    }
+    return { ...this.boundsCache.bounds }
+  }
+
+  private computeBounds(): Bounds {
     if (this.contours.length === 0) {
       return { left: 0, right: 0, top: 0, bottom: 0 }
     }
@@ -136,4 +170,37 @@ export class Polygon {
 
     return segments
   }
-}
\ No newline at end of file
+
+  /**
+   * Segments with their outward normals - works for contours drawn in either direction.
+   * Shared between calls: physics walks them every tick, so don't modify the result.
+   */
+  public getEdges(): PolygonEdge[] {
+    if (this.edgeCache?.contours !== this.contours) {
+      this.edgeCache = { contours: this.contours, edges: this.computeEdges() }
+    }
+    return this.edgeCache.edges
+  }
+
+  private computeEdges(): PolygonEdge[] {
+    // Shoelace sum: positive when the contour runs clockwise on screen (y down)
+    let area = 0
+    const n = this.contours.length
+    for (let i = 0; i < n; i++) {
+      const [x1, y1] = this.contours[i]
+      const [x2, y2] = this.contours[(i + 1) % n]
+      area += x1 * y2 - x2 * y1
+    }
+    const winding = area >= 0 ? 1 : -1
+
+    const edges: PolygonEdge[] = []
+    for (const segment of this.getSegments()) {
+      const dx = segment.x2 - segment.x1
+      const dy = segment.y2 - segment.y1
+      const length = Math.sqrt(dx * dx + dy * dy)
+      if (length < 0.001) continue
+      edges.push({ ...segment, normal: { x: (dy / length) * winding, y: (-dx / length) * winding } })
+    }
+    return edges
+  }
+}
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { OfflineStore, type QueuedJob } from './OfflineStore'
+import { type PlayerProgress } from '../LevelPackManager'
+
+const PROGRESS: PlayerProgress = {
+  pack_id: 1,
+  player_nickname: 'mario',
+  current_level_index: 2,
+  completed_levels: [0, 1],
+  total_time_ms: 60000,
+  total_deaths: 3,
+  completed: false
+}
+
+function queuedJob(packId: number): QueuedJob {
+  return { job: { kind: 'playCount', baseUrl: 'https://api.example', packId }, attempts: 0, nextAttemptAt: 0, createdAt: 0 }
+}
+
+// Node has no IndexedDB, so these run against the in-memory fallback
+describe('OfflineStore without IndexedDB', () => {
+  let store: OfflineStore
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    store = new OfflineStore()
+  })
+
+  it('keeps packs, levels and progress in memory', async () => {
+    await store.savePack(1, { id: 1 } as any)
+    await store.saveProgress(PROGRESS)
+
+    expect((await store.getPack(1))?.data).toEqual({ id: 1 })
+    expect(await store.getPack(2)).toBeNull()
+    expect(await store.getLevel('missing')).toBeNull()
+    expect((await store.getProgress(1, 'mario'))?.progress).toEqual(PROGRESS)
+    expect(await store.getProgress(1, 'luigi')).toBeNull()
+  })
+
+  it('numbers queued jobs in the order they were added', async () => {
+    const first = await store.putJob(queuedJob(1))
+    const second = await store.putJob(queuedJob(2))
+    expect(second.id).toBeGreaterThan(first.id!)
+
+    // Putting a job with its id replaces it in place
+    await store.putJob({ ...first, attempts: 3 })
+    const queue = await store.getQueue()
+    expect(queue.map(job => [job.id, job.attempts])).toEqual([[first.id, 3], [second.id, 0]])
+
+    await store.deleteJob(first.id!)
+    expect((await store.getQueue()).map(job => job.id)).toEqual([second.id])
+  })
+
+  it('forgets everything on clear', async () => {
+    await store.saveProgress(PROGRESS)
+    await store.putJob(queuedJob(1))
+    await store.clear()
+    expect(await store.getProgress(1, 'mario')).toBeNull()
+    expect(await store.getQueue()).toEqual([])
+  })
+})
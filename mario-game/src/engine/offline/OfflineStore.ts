@@ -0,0 +1,220 @@
+import { type LevelPackData, type PlayerProgress } from '../LevelPackManager'
+import { type LevelDocument } from '../level/LevelSchema'
+import { type SyncJob } from './SyncQueue'
+
+export interface CachedPack {
+  packId: number
+  data: LevelPackData
+  cachedAt: number
+}
+
+export interface CachedLevel {
+  levelId: string
+  level: LevelDocument
+  cachedAt: number
+}
+
+export interface LocalProgress {
+  key: string // `${packId}:${nickname}`
+  progress: PlayerProgress
+  updatedAt: number
+}
+
+export interface QueuedJob {
+  id?: number // assigned by the store
+  job: SyncJob
+  attempts: number
+  nextAttemptAt: number
+  createdAt: number
+  key?: string // jobs with the same key replace each other while queued
+}
+
+type StoreName = 'packs' | 'levels' | 'progress' | 'queue'
+
+const DB_NAME = 'mario-offline'
+const DB_VERSION = 1
+
+/**
+ * OfflineStore - IndexedDB cache of level packs, levels and local progress, plus the
+ * persisted sync queue
+ *
+ * Falls back to memory when IndexedDB is unavailable (private browsing, Node), so
+ * callers never need to check.
+ */
+export class OfflineStore {
+  private static instance: OfflineStore | null = null
+
+  private db: Promise<IDBDatabase | null>
+  private memory: Record<StoreName, Map<IDBValidKey, any>> = {
+    packs: new Map(),
+    levels: new Map(),
+    progress: new Map(),
+    queue: new Map()
+  }
+  private nextMemoryId = 1
+
+  static getInstance(): OfflineStore {
+    if (!this.instance) {
+      this.instance = new OfflineStore()
+    }
+    return this.instance
+  }
+
+  constructor() {
+    this.db = openDatabase()
+  }
+
+  public static progressKey(packId: number, nickname: string): string {
+    return `${packId}:${nickname}`
+  }
+
+  // ==================== PACKS & LEVELS ====================
+
+  public async getPack(packId: number): Promise<CachedPack | null> {
+    return this.get<CachedPack>('packs', packId)
+  }
+
+  public async savePack(packId: number, data: LevelPackData): Promise<void> {
+    await this.put<CachedPack>('packs', { packId, data, cachedAt: Date.now() })
+  }
+
+  public async getLevel(levelId: string): Promise<CachedLevel | null> {
+    return this.get<CachedLevel>('levels', levelId)
+  }
+
+  public async saveLevel(levelId: string, level: LevelDocument): Promise<void> {
+    await this.put<CachedLevel>('levels', { levelId, level, cachedAt: Date.now() })
+  }
+
+  // ==================== PROGRESS ====================
+
+  public async getProgress(packId: number, nickname: string): Promise<LocalProgress | null> {
+    return this.get<LocalProgress>('progress', OfflineStore.progressKey(packId, nickname))
+  }
+
+  public async saveProgress(progress: PlayerProgress): Promise<void> {
+    await this.put<LocalProgress>('progress', {
+      key: OfflineStore.progressKey(progress.pack_id, progress.player_nickname),
+      progress,
+      updatedAt: Date.now()
+    })
+  }
+
+  // ==================== QUEUE ====================
+
+  /**
+   * Queued jobs, oldest first
+   */
+  public async getQueue(): Promise<QueuedJob[]> {
+    const jobs = await this.getAll<QueuedJob>('queue')
+    return jobs.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  }
+
+  /**
+   * @returns the stored job with its id
+   */
+  public async putJob(job: QueuedJob): Promise<QueuedJob> {
+    // An id property set to undefined is not "missing" to IndexedDB and would fail the put
+    const { id: existing, ...fields } = job
+    const id = await this.put<QueuedJob>('queue', existing === undefined ? fields : job)
+    return { ...fields, id: id as number }
+  }
+
+  public async deleteJob(id: number): Promise<void> {
+    await this.delete('queue', id)
+  }
+
+  /**
+   * Forget everything (cache, progress and queue)
+   */
+  public async clear(): Promise<void> {
+    const db = await this.db
+    const stores: StoreName[] = ['packs', 'levels', 'progress', 'queue']
+    if (!db) {
+      stores.forEach(store => this.memory[store].clear())
+      return
+    }
+    await Promise.all(stores.map(store => request(db.transaction(store, 'readwrite').objectStore(store).clear())))
+  }
+
+  private async get<T>(store: StoreName, key: IDBValidKey): Promise<T | null> {
+    const db = await this.db
+    if (!db) return this.memory[store].get(key) ?? null
+    try {
+      return (await request<T | undefined>(db.transaction(store).objectStore(store).get(key))) ?? null
+    } catch (error) {
+      console.warn(`⚠️ Offline store read failed (${store}):`, error)
+      return null
+    }
+  }
+
+  private async getAll<T>(store: StoreName): Promise<T[]> {
+    const db = await this.db
+    if (!db) return [...this.memory[store].values()]
+    try {
+      return await request<T[]>(db.transaction(store).objectStore(store).getAll())
+    } catch (error) {
+      console.warn(`⚠️ Offline store read failed (${store}):`, error)
+      return []
+    }
+  }
+
+  private async put<T extends object>(store: StoreName, value: T): Promise<IDBValidKey> {
+    const db = await this.db
+    if (!db) {
+      const key = keyOf(store, value) ?? this.nextMemoryId++
+      this.memory[store].set(key, store === 'queue' ? { ...value, id: key } : value)
+      return key
+    }
+    return request(db.transaction(store, 'readwrite').objectStore(store).put(value))
+  }
+
+  private async delete(store: StoreName, key: IDBValidKey): Promise<void> {
+    const db = await this.db
+    if (!db) {
+      this.memory[store].delete(key)
+      return
+    }
+    await request(db.transaction(store, 'readwrite').objectStore(store).delete(key))
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('⚠️ IndexedDB unavailable - offline data is kept in memory only')
+    return Promise.resolve(null)
+  }
+
+  return new Promise(resolve => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION)
+    open.onupgradeneeded = () => {
+      const db = open.result
+      db.createObjectStore('packs', { keyPath: 'packId' })
+      db.createObjectStore('levels', { keyPath: 'levelId' })
+      db.createObjectStore('progress', { keyPath: 'key' })
+      db.createObjectStore('queue', { keyPath: 'id', autoIncrement: true })
+    }
+    open.onsuccess = () => resolve(open.result)
+    open.onerror = () => {
+      console.warn('⚠️ Failed to open IndexedDB - offline data is kept in memory only:', open.error)
+      resolve(null)
+    }
+  })
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Key of a record in the in-memory fallback, mirroring the IndexedDB key paths
+function keyOf(store: StoreName, value: any): IDBValidKey | undefined {
+  switch (store) {
+    case 'packs': return value.packId
+    case 'levels': return value.levelId
+    case 'progress': return value.key
+    case 'queue': return value.id
+  }
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SyncQueue, type SyncChange, type SyncJob } from './SyncQueue'
+import { OfflineStore } from './OfflineStore'
+import { type PlayerProgress } from '../LevelPackManager'
+
+const BASE_URL = 'https://api.example'
+
+// A stand-in backend: `status` is what every write answers, 'offline' fails like a lost connection
+let server: { status: number | 'offline'; requests: Array<{ method: string; url: string; body?: any }> }
+
+function playCount(packId: number): SyncJob {
+  return { kind: 'playCount', baseUrl: BASE_URL, packId }
+}
+
+function progress(levelIndex: number): SyncJob {
+  const progress: PlayerProgress = {
+    pack_id: 1,
+    player_nickname: 'mario',
+    current_level_index: levelIndex,
+    completed_levels: [],
+    total_time_ms: 0,
+    total_deaths: 0,
+    completed: false
+  }
+  return { kind: 'progress', baseUrl: BASE_URL, progress }
+}
+
+// URLs of the writes that reached the server
+function posted(): string[] {
+  return server.requests.filter(request => request.method === 'POST').map(request => request.url)
+}
+
+describe('SyncQueue', () => {
+  let queue: SyncQueue
+  let changes: SyncChange[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    server = { status: 200, requests: [] }
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      const method = init?.method ?? 'GET'
+      server.requests.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : undefined })
+      if (server.status === 'offline') throw new TypeError('Failed to fetch')
+      // No progress on the server yet
+      if (method === 'GET') return new Response(null, { status: 404 })
+      return new Response('{}', { status: server.status })
+    }))
+
+    queue = new SyncQueue(new OfflineStore())
+    changes = []
+    queue.onChange(change => changes.push(change))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('delivers a job and forgets it', async () => {
+    await queue.enqueue(playCount(1))
+    expect(posted()).toEqual([`${BASE_URL}/api/level-packs/1/stats`])
+    expect(changes.map(change => change.type)).toEqual(['synced'])
+    expect(await queue.getPendingCount()).toBe(0)
+  })
+
+  it('retries with backoff while the backend is unreachable', async () => {
+    server.status = 'offline'
+    await queue.enqueue(playCount(1))
+    expect(changes).toEqual([expect.objectContaining({ type: 'retry' })])
+    const wait = changes[0].nextAttemptAt! - Date.now()
+    expect(wait).toBeGreaterThanOrEqual(1000)
+    expect(wait).toBeLessThanOrEqual(2000)
+
+    // Not due yet
+    await queue.flush()
+    expect(server.requests).toHaveLength(1)
+
+    server.status = 200
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(changes.map(change => change.type)).toEqual(['retry', 'synced'])
+    expect(await queue.getPendingCount()).toBe(0)
+  })
+
+  it('waits longer after every failed attempt', async () => {
+    server.status = 'offline'
+    await queue.enqueue(playCount(1))
+    await vi.advanceTimersByTimeAsync(2000)
+    const [first, second] = changes.map(change => change.nextAttemptAt!)
+    expect(second - first).toBeGreaterThanOrEqual(2000)
+  })
+
+  it('delivers queued jobs in the order they were queued', async () => {
+    server.status = 'offline'
+    await queue.enqueue(playCount(1))
+    await queue.enqueue(playCount(2))
+    await queue.enqueue(playCount(3))
+    // The first job blocks the rest - nothing overtakes it
+    expect(new Set(server.requests.map(request => request.url))).toEqual(new Set([`${BASE_URL}/api/level-packs/1/stats`]))
+
+    server.status = 200
+    server.requests = []
+    await queue.flush(true)
+    expect(posted()).toEqual([1, 2, 3].map(id => `${BASE_URL}/api/level-packs/${id}/stats`))
+  })
+
+  it('coalesces queued progress into the latest snapshot', async () => {
+    server.status = 'offline'
+    await queue.enqueue(progress(1))
+    await queue.enqueue(progress(2))
+    expect(await queue.getPendingCount()).toBe(1)
+
+    server.status = 200
+    await queue.flush(true)
+    const writes = server.requests.filter(request => request.method === 'POST')
+    expect(writes).toHaveLength(1)
+    expect(writes[0].body.current_level_index).toBe(2)
+  })
+
+  it('drops jobs the server rejects and moves on to the next', async () => {
+    server.status = 'offline'
+    await queue.enqueue(playCount(1))
+    await queue.enqueue(playCount(2))
+
+    server.status = 400
+    await queue.flush(true)
+    expect(changes.filter(change => change.type === 'dropped')).toHaveLength(2)
+    expect(await queue.getPendingCount()).toBe(0)
+  })
+
+  it('keeps jobs the server failed on', async () => {
+    server.status = 503
+    await queue.enqueue(playCount(1))
+    expect(changes.map(change => change.type)).toEqual(['retry'])
+    expect(await queue.getPendingCount()).toBe(1)
+  })
+})
@@ -0,0 +1,287 @@
+import { type PlayerProgress } from '../LevelPackManager'
+import { type ScoreSubmission } from '../api/LeaderboardClient'
+import { OfflineStore } from './OfflineStore'
+
+/**
+ * A write waiting to reach the backend. Each job carries its own backend URL so it is
+ * delivered where it was meant to go, even if a later session talks to another backend.
+ */
+export type SyncJob =
+  | { kind: 'progress'; baseUrl: string; progress: PlayerProgress }
+  | { kind: 'playCount'; baseUrl: string; packId: number }
+  | { kind: 'score'; baseUrl: string; submission: ScoreSubmission; player?: { email?: string; country_code?: string } }
+
+export type SyncChangeType = 'synced' | 'retry' | 'dropped'
+
+export interface SyncChange {
+  type: SyncChangeType
+  job: SyncJob
+  result?: any // server response ('synced'); merged progress for progress jobs
+  error?: string // 'retry' and 'dropped'
+  nextAttemptAt?: number // 'retry'
+}
+
+export type SyncListener = (change: SyncChange) => void
+
+const BASE_DELAY_MS = 2000
+const MAX_DELAY_MS = 5 * 60 * 1000
+
+class SyncHttpError extends Error {
+  public status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+
+  // Client errors other than timeouts and rate limits will fail the same way every time
+  get retryable(): boolean {
+    return this.status >= 500 || this.status === 408 || this.status === 429
+  }
+}
+
+/**
+ * SyncQueue - durable outbox for progress, play count and score writes
+ *
+ * Jobs are stored in the OfflineStore before anything is sent, delivered in order, and
+ * retried with exponential backoff while the backend is unreachable (and immediately when
+ * the browser comes back online). Queued progress for the same pack and player is
+ * coalesced, and is merged with the server's copy before it is written, so progress made
+ * on another device is never overwritten.
+ */
+export class SyncQueue {
+  private static instance: SyncQueue | null = null
+
+  private store: OfflineStore
+  private listeners: SyncListener[] = []
+  private flushing: Promise<void> | null = null
+  private inFlight: number | null = null // id of the job being sent
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  static getInstance(): SyncQueue {
+    if (!this.instance) {
+      this.instance = new SyncQueue(OfflineStore.getInstance())
+    }
+    return this.instance
+  }
+
+  constructor(store: OfflineStore) {
+    this.store = store
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        console.log('🌐 Back online - syncing queued changes')
+        void this.flush(true)
+      })
+    }
+  }
+
+  /**
+   * Persist a job, then try to deliver the queue
+   * @param waitForDelivery - false returns as soon as the job is stored and delivers in the background
+   * @returns once the job is stored and, by default, one delivery attempt has finished
+   */
+  public async enqueue(job: SyncJob, waitForDelivery = true): Promise<void> {
+    const key = jobKey(job)
+    // A job that is being sent right now is left alone - the new one queues behind it
+    const existing = key
+      ? (await this.store.getQueue()).find(queued => queued.key === key && queued.id !== this.inFlight)
+      : undefined
+
+    await this.store.putJob({
+      ...(existing?.id !== undefined ? { id: existing.id } : {}),
+      job,
+      key,
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: existing?.createdAt ?? Date.now()
+    })
+    const delivery = this.flush(true)
+    if (waitForDelivery) {
+      await delivery
+    } else {
+      delivery.catch(error => console.warn('⚠️ Background sync failed:', error))
+    }
+  }
+
+  /**
+   * Deliver every job that is due, in order. Stops at the first job that has to wait,
+   * so later writes never overtake earlier ones.
+   * @param force - ignore the backoff (e.g. the connection just came back)
+   */
+  public flush(force = false): Promise<void> {
+    // Jobs queued during a running flush may have been missed by it - go again afterwards
+    if (this.flushing) {
+      return this.flushing.then(() => this.flush(force))
+    }
+    this.flushing = this.deliver(force).finally(() => {
+      this.flushing = null
+      this.inFlight = null
+    })
+    return this.flushing
+  }
+
+  public async getPendingCount(): Promise<number> {
+    return (await this.store.getQueue()).length
+  }
+
+  /**
+   * Subscribe to delivered, retried and dropped jobs
+   * @returns a function that removes the listener
+   */
+  public onChange(listener: SyncListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  private async deliver(force: boolean) {
+    this.clearRetryTimer()
+
+    for (const queued of await this.store.getQueue()) {
+      if (!force && queued.nextAttemptAt > Date.now()) {
+        this.scheduleRetry(queued.nextAttemptAt)
+        return
+      }
+
+      this.inFlight = queued.id!
+      try {
+        const result = await send(queued.job)
+        await this.store.deleteJob(queued.id!)
+        if (queued.job.kind === 'progress') {
+          // Keep anything played locally since this job was queued
+          const local = await this.store.getProgress(result.pack_id, result.player_nickname)
+          await this.store.saveProgress(local ? SyncQueue.mergeProgress(local.progress, result) : result)
+        }
+        this.emit({ type: 'synced', job: queued.job, result })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+
+        if (error instanceof SyncHttpError && !error.retryable) {
+          console.warn(`⚠️ Dropping ${queued.job.kind} sync - the server rejected it: ${message}`)
+          await this.store.deleteJob(queued.id!)
+          this.emit({ type: 'dropped', job: queued.job, error: message })
+          continue
+        }
+
+        const attempts = queued.attempts + 1
+        const nextAttemptAt = Date.now() + backoff(attempts)
+        await this.store.putJob({ ...queued, attempts, nextAttemptAt })
+        console.warn(`📴 ${queued.job.kind} sync failed (${message}), retrying in ${Math.round((nextAttemptAt - Date.now()) / 1000)}s`)
+        this.emit({ type: 'retry', job: queued.job, error: message, nextAttemptAt })
+        this.scheduleRetry(nextAttemptAt)
+        return
+      }
+    }
+  }
+
+  private scheduleRetry(at: number) {
+    this.clearRetryTimer()
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      void this.flush()
+    }, Math.max(0, at - Date.now()))
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+
+  private emit(change: SyncChange) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change)
+      } catch (error) {
+        console.error('Sync listener failed:', error)
+      }
+    })
+  }
+
+  /**
+   * Combine two copies of the same player's pack progress. Progress only ever grows, so
+   * completed levels are united and every counter keeps the larger value.
+   *
+   * total_time_ms and total_deaths are cumulative, but only the totals are stored, so
+   * time and deaths from two devices that both played since the last sync are not added
+   * up - the smaller side's share is lost. Levels and the level index are never lost.
+   */
+  static mergeProgress(local: PlayerProgress, remote: PlayerProgress): PlayerProgress {
+    const completed = [...new Set([...(remote.completed_levels || []), ...(local.completed_levels || [])])].sort((a, b) => a - b)
+    return {
+      ...local,
+      current_level_index: Math.max(local.current_level_index || 0, remote.current_level_index || 0),
+      completed_levels: completed,
+      total_time_ms: Math.max(local.total_time_ms || 0, remote.total_time_ms || 0),
+      total_deaths: Math.max(local.total_deaths || 0, remote.total_deaths || 0),
+      completed: Boolean(local.completed || remote.completed)
+    }
+  }
+}
+
+/**
+ * Perform one job against the backend
+ * @returns the server's answer (the merged progress for progress jobs)
+ */
+async function send(job: SyncJob): Promise<any> {
+  switch (job.kind) {
+    case 'progress': {
+      const { pack_id, player_nickname } = job.progress
+      const remote = await fetchRemoteProgress(job.baseUrl, pack_id, player_nickname)
+      const merged = remote ? SyncQueue.mergeProgress(job.progress, remote) : job.progress
+      const result = await postJSON(`${job.baseUrl}/api/level-packs/${pack_id}/progress`, {
+        player_nickname,
+        current_level_index: merged.current_level_index,
+        completed_levels: merged.completed_levels,
+        total_time_ms: merged.total_time_ms,
+        total_deaths: merged.total_deaths
+      })
+      console.log(`💾 Progress synced${result?.completed ? ' - Pack completed! 🎉' : ''}`)
+      return { ...merged, completed: Boolean(result?.completed ?? merged.completed) }
+    }
+
+    case 'playCount':
+      return postJSON(`${job.baseUrl}/api/level-packs/${job.packId}/stats`, { plays_count: 1 })
+
+    case 'score':
+      // Scores need the player to exist - creating one is idempotent
+      await postJSON(`${job.baseUrl}/api/leaderboard/players`, { nickname: job.submission.player_nickname, ...job.player })
+      return postJSON(`${job.baseUrl}/api/leaderboard/scores`, job.submission)
+  }
+}
+
+async function fetchRemoteProgress(baseUrl: string, packId: number, nickname: string): Promise<PlayerProgress | null> {
+  const response = await fetch(`${baseUrl}/api/level-packs/${packId}/progress/${encodeURIComponent(nickname)}`)
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new SyncHttpError(response.status, `Failed to load server progress: ${response.status}`)
+  }
+  return response.json()
+}
+
+async function postJSON(url: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) {
+    throw new SyncHttpError(response.status, `${response.status} ${response.statusText}`)
+  }
+  return response.json().catch(() => null)
+}
+
+// Jobs with the same key replace each other while waiting - only the latest progress matters
+function jobKey(job: SyncJob): string | undefined {
+  return job.kind === 'progress' ? `progress:${OfflineStore.progressKey(job.progress.pack_id, job.progress.player_nickname)}` : undefined
+}
+
+// 2s, 4s, 8s ... capped at 5 minutes, with jitter so reconnecting clients don't retry in lockstep
+function backoff(attempts: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1))
+  return delay / 2 + Math.random() * delay / 2
+}
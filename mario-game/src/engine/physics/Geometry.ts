@@ -0,0 +1,13 @@
+/**
+ * Axis-aligned rectangles shared by physics, levels, enemies and rendering
+ */
+export interface Bounds {
+  left: number
+  right: number
+  top: number
+  bottom: number
+}
+
+export function boundsOverlap(a: Bounds, b: Bounds): boolean {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top
+}
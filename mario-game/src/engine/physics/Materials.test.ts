@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { type LevelDocument } from '../level/LevelSchema'
+import { materialForColor, type MaterialName } from './Materials'
+import { platformLevel, settled } from '../../test/fixtures'
+
+// A long floor made of `material`, with the player standing on it
+function floorLevel(material?: MaterialName): LevelDocument {
+  return platformLevel({ x: 0, y: 500, width: 2000, height: 50, material }, 300)
+}
+
+// How far the player slides after running right for a second and letting go
+function slideDistance(material?: MaterialName): number {
+  const sim = settled(floorLevel(material))
+  const released = sim.run(60, { right: true }).player!.x
+  return sim.run(120).player!.x - released
+}
+
+describe('Materials', () => {
+  it('picks a material from a stroke color', () => {
+    expect(materialForColor('#A8E4FF')).toBe('ice')
+    expect(materialForColor('#1e64ff')).toBe('water')
+    expect(materialForColor('#f00')).toBe('lava')
+    expect(materialForColor('#000000')).toBeNull()
+    expect(materialForColor('#888')).toBeNull() // greys are pencil, not a material
+    expect(materialForColor('not a color')).toBeNull()
+  })
+
+  it('slides further on ice', () => {
+    expect(slideDistance('ice')).toBeGreaterThan(slideDistance() * 2)
+  })
+
+  it('slows the player down in mud', () => {
+    const distance = (material?: MaterialName) => {
+      const sim = settled(floorLevel(material))
+      return sim.run(60, { right: true }).player!.x - 300
+    }
+    expect(distance('mud')).toBeLessThan(distance() * 0.75)
+  })
+
+  it('bounces the player back up off a bouncy surface', () => {
+    const level = floorLevel('bouncy')
+    level.starts = [{ x: 300, y: 200 }]
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const landed = sim.runUntil(state => state.player!.y > 440, 120)
+    expect(landed.reached).toBe(true)
+    expect(sim.runUntil(state => state.player!.vy < -2, 10).reached).toBe(true)
+  })
+
+  it('carries the player along a conveyor', () => {
+    const right = HeadlessSimulation.fromLevelData(floorLevel('conveyor'))
+    const left = HeadlessSimulation.fromLevelData(floorLevel('conveyor_left'))
+    expect(right.run(80).player!.x).toBeGreaterThan(350)
+    expect(left.run(80).player!.x).toBeLessThan(250)
+  })
+
+  it('kills the player on lava', () => {
+    const sim = HeadlessSimulation.fromLevelData(floorLevel('lava'))
+    expect(sim.runUntil(state => state.deaths > 0, 60).reached).toBe(true)
+  })
+
+  it('lets the player sink into water instead of standing on it', () => {
+    const level = floorLevel()
+    level.platforms.push({ x: 600, y: 300, width: 400, height: 200, material: 'water' })
+    level.starts = [{ x: 700, y: 200 }]
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const state = sim.run(120)
+    expect(state.player!.y).toBeGreaterThan(300)
+    expect(state.deaths).toBe(0)
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Surface materials - declared per platform or polygon in level data as `material`
+ *
+ * A surface without a material behaves as before: the engine's global friction applies
+ * and it is solid. Hand-drawn levels pick a material by stroke color (see materialForColor).
+ */
+export type MaterialName = 'ice' | 'mud' | 'bouncy' | 'conveyor' | 'conveyor_left' | 'lava' | 'water'
+
+export interface PhysicsMaterial {
+  friction?: number // ground friction while standing on it, replaces the engine's global value
+  speedFactor?: number // horizontal speed is scaled by this every tick spent on it
+  restitution?: number // share of the landing speed it throws back up
+  conveyor?: number // px per tick it carries whatever stands on it (negative = to the left)
+  damage?: boolean // hurts the player on contact
+  liquid?: boolean // not solid - things inside it float and the player swims
+  color: string // what the renderer fills it with, and the stroke color that selects it in drawings
+}
+
+export const MATERIALS: Record<MaterialName, PhysicsMaterial> = {
+  ice: { friction: 0.98, color: '#A8E4FF' },
+  mud: { friction: 0.6, speedFactor: 0.5, color: '#7B5030' },
+  bouncy: { restitution: 0.85, color: '#FF69B4' },
+  conveyor: { conveyor: 2, color: '#FFA500' },
+  conveyor_left: { conveyor: -2, color: '#FFD700' },
+  lava: { damage: true, color: '#FF3300' },
+  water: { liquid: true, color: '#1E64FF' }
+}
+
+export const MATERIAL_NAMES = Object.keys(MATERIALS) as MaterialName[]
+
+// Strokes further than this (RGB distance) from every material color are plain ground
+const COLOR_MATCH_DISTANCE = 120
+
+export function isMaterialName(value: unknown): value is MaterialName {
+  return typeof value === 'string' && value in MATERIALS
+}
+
+export function getMaterial(name: MaterialName | null | undefined): PhysicsMaterial | null {
+  return name ? MATERIALS[name] : null
+}
+
+/**
+ * The material a hand-drawn shape of this stroke color stands for, or null for ordinary ground
+ * (black, grey and anything not close to a material color). Accepts '#rgb' and '#rrggbb'.
+ */
+export function materialForColor(color: string): MaterialName | null {
+  const rgb = parseHexColor(color)
+  if (!rgb) return null
+
+  // Greys (pencil, marker) never pick a material
+  if (Math.max(...rgb) - Math.min(...rgb) < 40) return null
+
+  let best: MaterialName | null = null
+  let bestDistance = COLOR_MATCH_DISTANCE
+  for (const name of MATERIAL_NAMES) {
+    const target = parseHexColor(MATERIALS[name].color)!
+    const distance = Math.hypot(rgb[0] - target[0], rgb[1] - target[1], rgb[2] - target[2])
+    if (distance < bestDistance) {
+      best = name
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())
+  if (!match) return null
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1]
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number]
+}
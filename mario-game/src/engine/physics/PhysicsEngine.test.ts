@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { RAMP_START, RAMP_WIDTH, rampLevel, rampSurface, settled } from '../../test/fixtures'
+
+describe('PhysicsEngine slopes', () => {
+  it('walks up a gentle slope with its feet on the surface', () => {
+    const sim = settled(rampLevel(30))
+    const state = sim.runUntil(s => s.player!.x > RAMP_START + RAMP_WIDTH / 2, 300, { right: true })
+    expect(state.reached).toBe(true)
+
+    const { x, y, width, height } = state.state.player!
+    // Either foot may be the one touching, so check against the surface under both
+    expect(y + height).toBeGreaterThanOrEqual(rampSurface(30, x + width) - 2)
+    expect(y + height).toBeLessThanOrEqual(rampSurface(30, x) + 2)
+  })
+
+  it('cannot walk up a slope steeper than the maximum', () => {
+    const sim = settled(rampLevel(65))
+    const state = sim.run(180, { right: true })
+    expect(state.player!.y + state.player!.height).toBeGreaterThan(rampSurface(65, RAMP_START + 60))
+  })
+
+  it('walks up the same slope when the maximum allows it', () => {
+    const sim = settled(rampLevel(65), { maxSlopeAngle: 70 })
+    const state = sim.run(180, { right: true })
+    expect(state.player!.y + state.player!.height).toBeLessThan(rampSurface(65, RAMP_START + 100))
+  })
+
+  it('slides down a slope too steep to stand on', () => {
+    const level = rampLevel(65)
+    level.starts = [{ x: RAMP_START + 150, y: rampSurface(65, RAMP_START + 190) - 40 }]
+    const sim = HeadlessSimulation.fromLevelData(level)
+    const state = sim.run(120)
+    expect(state.player!.x).toBeLessThan(RAMP_START + 100)
+    expect(state.player!.y + state.player!.height).toBeCloseTo(500, 0)
+  })
+
+  it('stays on the ground walking downhill', () => {
+    const level = rampLevel(30)
+    // Mirror the ramp so it slopes down to the right
+    level.polygons[0].points = [[RAMP_START, 500], [RAMP_START, rampSurface(30, RAMP_START + RAMP_WIDTH)], [RAMP_START + RAMP_WIDTH, 500]]
+    level.starts = [{ x: RAMP_START + 5, y: rampSurface(30, RAMP_START + RAMP_WIDTH) - 40 }]
+    const sim = settled(level)
+
+    let maxGap = 0 // feet above the surface
+    const walked = sim.runUntil(state => {
+      const { x, y, width, height } = state.player!
+      // Going downhill the body rests on its back foot
+      const surface = rampSurface(30, RAMP_START + RAMP_WIDTH - (x - RAMP_START))
+      maxGap = Math.max(maxGap, surface - (y + height))
+      return x > RAMP_START + RAMP_WIDTH - width
+    }, 300, { right: true })
+    expect(walked.reached).toBe(true)
+    expect(maxGap).toBeLessThan(4)
+  })
+})
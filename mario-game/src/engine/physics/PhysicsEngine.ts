@@ -1,12 +1,22 @@
 import { Entity } from '../entities/Entity'
 import { Platform } from '../level/Platform'
-import { Polygon } from '../level/Polygon'
+import { Polygon, type PolygonEdge } from '../level/Polygon'
+import { getMaterial, MATERIALS, type MaterialName, type PhysicsMaterial } from './Materials'
+import { boundsOverlap, type Bounds } from './Geometry'
 
 export interface Vector2D {
   x: number
   y: number
 }
 
+export interface RaycastHit {
+  point: Vector2D
+  distance: number
+  t: number // fraction of maxDistance
+  platform?: Platform
+  polygon?: Polygon
+}
+
 export interface AABB {
   x: number
   y: number
@@ -14,16 +24,44 @@ export interface AABB {
   height: number
 }
 
+// How close (px) an entity's feet must be to a platform's top to stand on it
+const RIDE_TOLERANCE = 2
+
+// In liquids gravity is this much weaker and every tick keeps this share of the velocity
+const LIQUID_GRAVITY = 0.3
+const LIQUID_DRAG = 0.9
+const LIQUID_MAX_SINK = 2 // px per tick
+
+// Bouncy surfaces stop bouncing things that land slower than this
+const MIN_BOUNCE_SPEED = 2
+
+// Feet this close above a polygon's surface (px) still stand on it
+const GROUND_TOLERANCE = 0.5
+// Extra reach (px) when gluing an entity walking downhill to the slope
+const GROUND_SNAP = 4
+// The part of the body above the feet that collides with polygon walls is at least this tall
+const MIN_BODY_HEIGHT = 8
+
+// Fastest a conveyor carries anything (px per tick)
+const MAX_CONVEYOR_SPEED = Math.max(...Object.values(MATERIALS).map(material => Math.abs(material.conveyor ?? 0)))
+
 export class PhysicsEngine {
   private gravity: number
   private friction = 0.85
   private airResistance = 0.98
   private maxVelocity = { x: 15, y: 20 }
+  private maxSlopeAngle = 50 // degrees - steeper polygon edges can't be walked on and are slid down
+  private ceilingHitHandler: ((entity: Entity, platform: Platform) => void) | null = null
 
   constructor(gravity = 0.5) {
     this.gravity = gravity
   }
 
+  /**
+   * Advance an entity by one fixed simulation tick.
+   * Gravity and velocities are expressed per tick, so callers must invoke this
+   * exactly once per tick (see GameEngine's fixed-timestep loop) rather than per frame.
+   */
   public updateEntity(entity: Entity, _dt: number, platforms: Platform[] = [], polygons: Polygon[] = []) {
     if (!entity.physics) return
 
@@ -38,16 +76,27 @@ export class PhysicsEngine {
       entity.previousPosition.y = pos.y
     }
 
+    // Material of the surface underfoot as of the last tick
+    const ground = getMaterial(entity.surface)
+
     // Apply gravity if not grounded
     if (!entity.grounded && entity.physics.gravity) {
-      vel.y += this.gravity
+      vel.y += entity.inLiquid ? this.gravity * LIQUID_GRAVITY : this.gravity
     }
 
     // Apply friction
     if (entity.grounded) {
-      vel.x *= this.friction
+      vel.x *= ground?.friction ?? this.friction
     } else {
-      vel.x *= this.airResistance
+      vel.x *= entity.inLiquid ? LIQUID_DRAG : this.airResistance
+    }
+    if (ground?.speedFactor) {
+      vel.x *= ground.speedFactor
+    }
+
+    // Liquids slow everything down and let things sink only slowly
+    if (entity.inLiquid) {
+      vel.y = Math.min(vel.y * LIQUID_DRAG, LIQUID_MAX_SINK)
     }
 
     // Clamp velocity
@@ -55,11 +104,11 @@ export class PhysicsEngine {
     vel.y = Math.max(-this.maxVelocity.y, Math.min(this.maxVelocity.y, vel.y))
 
     // Use Swept AABB for collision detection to prevent tunneling
-    const movement = { x: vel.x, y: vel.y }
+    // (conveyors carry the entity without changing its own velocity)
+    const movement = { x: vel.x + (ground?.conveyor ?? 0), y: vel.y }
     const sweptResult = this.sweptAABB(entity, movement, platforms)
 
     if (sweptResult.hit && sweptResult.time < 1.0) {
-      console.log('Collision detected via Swept AABB')
       // Collision detected - move entity to collision point
       pos.x += movement.x * sweptResult.time
       pos.y += movement.y * sweptResult.time
@@ -77,12 +126,19 @@ export class PhysicsEngine {
 
       if (Math.abs(sweptResult.normal.y) > 0.5) {
         // Vertical collision
-        if (sweptResult.normal.y < 0) {
-          entity.grounded = true
-          vel.y = 0
+        if (sweptResult.normal.y < 0 && sweptResult.platform && sweptResult.platform.bounce > 0) {
+          // Springboards launch whatever lands on them
+          vel.y = -sweptResult.platform.bounce
+          entity.grounded = false
+          sweptResult.platform.compress()
+        } else if (sweptResult.normal.y < 0) {
+          this.land(entity, sweptResult.platform?.getMaterial() ?? null)
         } else {
           entity.ceilingCollision = true
           vel.y = 0
+          if (sweptResult.platform) {
+            this.ceilingHitHandler?.(entity, sweptResult.platform)
+          }
         }
       }
 
@@ -101,16 +157,96 @@ export class PhysicsEngine {
       entity.ceilingCollision = false
     }
 
-    // Additional polygon collision check for complex shapes
-    // This handles cases where swept AABB doesn't catch polygon collisions
-    if (polygons.length > 0) {
-      const entityBox = this.getAABB(entity)
-      for (const polygon of polygons) {
-        if (this.polygonIntersectsAABB(polygon, entityBox)) {
-          this.resolvePolygonCollision(entity, polygon, entityBox)
-        }
+    // Polygons (hand-drawn shapes): the feet follow slopes, the body collides with walls and ceilings
+    const wasOnPolygon = entity.groundNormal !== null
+    entity.groundNormal = null
+    for (const polygon of polygons) {
+      // Measured again for each polygon - resolving the last one may have moved the entity
+      if (polygon.solid && boundsOverlap(polygon.getBounds(), this.getContactBounds(entity))) {
+        this.resolvePolygonContact(entity, polygon)
       }
     }
+    if (wasOnPolygon) {
+      this.snapToGround(entity, polygons, Math.abs(movement.x))
+    }
+
+    this.updateSurroundings(entity, platforms, polygons)
+  }
+
+  /**
+   * Everywhere updateEntity can reach for this entity in one tick: its box grown by the
+   * fastest it can move, the downhill ground snap and the surface probe. Only platforms
+   * and polygons overlapping it can affect the entity, so it's what to query a broadphase with.
+   */
+  public getReachBounds(entity: Entity): Bounds {
+    const speedX = this.maxVelocity.x + MAX_CONVEYOR_SPEED
+    const snap = speedX * Math.tan(this.maxSlopeAngle * Math.PI / 180) + GROUND_SNAP
+    const padX = speedX + 1
+    const padY = this.maxVelocity.y + snap + RIDE_TOLERANCE + 3
+    return {
+      left: entity.position.x - padX,
+      right: entity.position.x + entity.width + padX,
+      top: entity.position.y - padY,
+      bottom: entity.position.y + entity.height + padY
+    }
+  }
+
+  /**
+   * Whether the entity touches (or is inside) a surface whose material matches,
+   * e.g. `material => material.damage` for lava
+   */
+  public touchesMaterial(entity: Entity, matches: (material: PhysicsMaterial) => boolean, platforms: Platform[], polygons: Polygon[] = []): boolean {
+    // One pixel of slack so standing on or leaning against the surface counts
+    const box = this.getAABB(entity)
+    const touchBox = { x: box.x - 1, y: box.y - 1, width: box.width + 2, height: box.height + 2 }
+
+    return platforms.some(platform => {
+      const material = platform.getMaterial()
+      return material !== null && matches(material) && !platform.invisible && this.isColliding(touchBox, this.getAABB(platform))
+    }) || polygons.some(polygon => {
+      const material = polygon.getMaterial()
+      return material !== null && matches(material) && this.polygonIntersectsAABB(polygon, touchBox)
+    })
+  }
+
+  /**
+   * Feet hit a surface: bouncy materials throw the entity back up, anything else stops it
+   */
+  private land(entity: Entity, material: PhysicsMaterial | null) {
+    const restitution = material?.restitution ?? 0
+    if (restitution > 0 && entity.velocity.y > MIN_BOUNCE_SPEED) {
+      entity.velocity.y = -entity.velocity.y * restitution
+      entity.grounded = false
+    } else {
+      entity.grounded = true
+      entity.velocity.y = 0
+    }
+  }
+
+  /**
+   * Work out what the entity stands on and whether it's in water, for the next tick
+   */
+  private updateSurroundings(entity: Entity, platforms: Platform[], polygons: Polygon[]) {
+    const centerX = entity.position.x + entity.width / 2
+    const centerY = entity.position.y + entity.height / 2
+    entity.inLiquid = platforms.some(platform => platform.getMaterial()?.liquid && platform.contains(centerX, centerY)) ||
+      polygons.some(polygon => polygon.getMaterial()?.liquid && polygon.contains(centerX, centerY))
+
+    entity.surface = entity.velocity.y < 0 ? null : this.probeSurface(entity, platforms, polygons)
+  }
+
+  // Material right under the entity's feet - probed at the middle, then at both edges
+  private probeSurface(entity: Entity, platforms: Platform[], polygons: Polygon[]): MaterialName | null {
+    const solidPlatforms = platforms.filter(platform => platform.solid)
+    const solidPolygons = polygons.filter(polygon => polygon.solid)
+    const feet = entity.position.y + entity.height - 1
+    const inset = Math.min(2, entity.width / 2)
+
+    for (const x of [entity.position.x + entity.width / 2, entity.position.x + inset, entity.position.x + entity.width - inset]) {
+      const hit = this.raycast({ x, y: feet }, { x: 0, y: 1 }, RIDE_TOLERANCE + 2, solidPlatforms, solidPolygons)
+      if (hit) return hit.platform?.material ?? hit.polygon?.material ?? null
+    }
+    return null
   }
 
   public checkPlatformCollision(entity: Entity, platform: Platform): boolean {
@@ -137,7 +273,7 @@ export class PhysicsEngine {
   }
 
   public checkPolygonCollision(entity: Entity, polygon: Polygon): boolean {
-    if (!entity.physics || !entity.physics.solid) return false
+    if (!entity.physics || !entity.physics.solid || !polygon.solid) return false
 
     const entityBox = this.getAABB(entity)
     const polygonBounds = polygon.getBounds()
@@ -150,18 +286,12 @@ export class PhysicsEngine {
       height: polygonBounds.bottom - polygonBounds.top
     }
 
-    // Quick AABB check first
-    if (!this.isColliding(entityBox, polygonAABB)) {
+    // Quick AABB check first (a pixel of slack so standing exactly on top still counts)
+    if (!this.isColliding({ ...entityBox, height: entityBox.height + GROUND_TOLERANCE }, polygonAABB)) {
       return false
     }
 
-    // More precise collision check
-    if (this.polygonIntersectsAABB(polygon, entityBox)) {
-      this.resolvePolygonCollision(entity, polygon, entityBox)
-      return true
-    }
-
-    return false
+    return this.resolvePolygonContact(entity, polygon)
   }
 
   public checkEntityCollision(entity1: Entity, entity2: Entity): boolean {
@@ -251,9 +381,8 @@ export class PhysicsEngine {
 
         if (comingFromTop) {
           entity.position.y = platformBox.y - entity.height
-          entity.grounded = true
-          // For floor collisions, always stop vertical movement (landing)
-          entity.velocity.y = 0
+          // For floor collisions, stop vertical movement (landing) unless the material bounces
+          this.land(entity, platform.getMaterial())
         } else if (comingFromBottom) {
           entity.position.y = platformBox.y + platformBox.height
           entity.ceilingCollision = true
@@ -300,8 +429,7 @@ export class PhysicsEngine {
           // Vertical collision
           if (entityBox.y < platformBox.y) {
             entity.position.y = platformBox.y - entity.height
-            entity.grounded = true
-            entity.velocity.y = 0
+            this.land(entity, platform.getMaterial())
           } else {
             entity.position.y = platformBox.y + platformBox.height
             entity.ceilingCollision = true
@@ -344,8 +472,7 @@ export class PhysicsEngine {
         // Vertical collision
         if (entityBox.y < platformBox.y) {
           entity.position.y = platformBox.y - entity.height
-          entity.grounded = true
-          entity.velocity.y = 0
+          this.land(entity, platform.getMaterial())
         } else {
           entity.position.y = platformBox.y + platformBox.height
           // Apply elastic collision if to the side of mass center
@@ -440,6 +567,128 @@ export class PhysicsEngine {
     return t >= 0 && t <= 1 && u >= 0 && u <= 1
   }
 
+  /**
+   * Keep an entity out of a polygon. Its feet (the middle of its bottom edge) stand on edges
+   * up to the maximum slope and slide off steeper ones; the body above them is pushed out of
+   * walls and ceilings. Leaving the lower part of the body to the feet is what stops slopes
+   * from registering as walls - and lets low steps be walked up.
+   */
+  private resolvePolygonContact(entity: Entity, polygon: Polygon): boolean {
+    const stepHeight = this.getStepHeight(entity)
+    const feetX = entity.position.x + entity.width / 2
+    const feetY = entity.position.y + entity.height
+    // A fast fall may have carried the feet through the surface since the last tick
+    const previousFeetY = entity.previousPosition ? entity.previousPosition.y + entity.height : feetY
+    let touched = false
+
+    const ground = this.findGround(polygon.getEdges(), feetX, Math.min(feetY - stepHeight, previousFeetY), feetY + GROUND_TOLERANCE)
+    if (ground && this.isWalkable(ground.normal)) {
+      // Stand on it - something rising through is only lifted out, it doesn't land
+      entity.position.y = ground.y - entity.height
+      if (entity.velocity.y >= 0) {
+        this.land(entity, polygon.getMaterial())
+        entity.groundNormal = ground.normal
+      }
+      touched = true
+    } else if (ground && ground.y < feetY) {
+      // Too steep: pushed back out along the slope's normal, so gravity slides it down,
+      // and it counts as a wall so walking into it doesn't climb it
+      const depth = (feetY - ground.y) * -ground.normal.y
+      entity.position.x += ground.normal.x * depth
+      entity.position.y += ground.normal.y * depth
+      const into = entity.velocity.x * ground.normal.x + entity.velocity.y * ground.normal.y
+      if (into < 0) {
+        entity.velocity.x -= into * ground.normal.x
+        entity.velocity.y -= into * ground.normal.y
+      }
+      if (ground.normal.x < 0) {
+        entity.wallCollision.right = true
+      } else if (ground.normal.x > 0) {
+        entity.wallCollision.left = true
+      }
+      touched = true
+    }
+
+    const body = {
+      x: entity.position.x,
+      y: entity.position.y,
+      width: entity.width,
+      height: entity.height - stepHeight
+    }
+    if (this.polygonIntersectsAABB(polygon, body)) {
+      this.resolvePolygonCollision(entity, polygon, body)
+      touched = true
+    }
+    return touched
+  }
+
+  /**
+   * Keep an entity that was standing on a polygon on it when the ground drops away no
+   * faster than the steepest walkable slope - walking downhill - instead of it hopping off
+   */
+  private snapToGround(entity: Entity, polygons: Polygon[], distanceX: number) {
+    if (entity.grounded || entity.velocity.y < 0) return
+
+    const feetX = entity.position.x + entity.width / 2
+    const feetY = entity.position.y + entity.height
+    const reach = distanceX * Math.tan(this.maxSlopeAngle * Math.PI / 180) + GROUND_SNAP
+    const reachBounds = { left: feetX - 1, right: feetX + 1, top: feetY - 1, bottom: feetY + reach + 1 }
+    let best: { y: number; normal: Vector2D; polygon: Polygon } | null = null
+    for (const polygon of polygons) {
+      if (!polygon.solid || !boundsOverlap(polygon.getBounds(), reachBounds)) continue
+      const ground = this.findGround(polygon.getEdges(), feetX, feetY, feetY + reach)
+      if (ground && this.isWalkable(ground.normal) && (!best || ground.y < best.y)) {
+        best = { ...ground, polygon }
+      }
+    }
+
+    if (best) {
+      entity.position.y = best.y - entity.height
+      this.land(entity, best.polygon.getMaterial())
+      entity.groundNormal = best.normal
+    }
+  }
+
+  // Everything resolvePolygonContact looks at: the body, and the feet back to where they were
+  // last tick and just below - with a pixel to spare, as touching counts as contact there
+  private getContactBounds(entity: Entity): Bounds {
+    const previousY = entity.previousPosition?.y ?? entity.position.y
+    return {
+      left: entity.position.x - 1,
+      right: entity.position.x + entity.width + 1,
+      top: Math.min(entity.position.y, previousY) - 1,
+      bottom: entity.position.y + entity.height + GROUND_TOLERANCE + 1
+    }
+  }
+
+  // Highest upward-facing edge crossing the vertical line at x between top and bottom
+  private findGround(edges: PolygonEdge[], x: number, top: number, bottom: number): { y: number; normal: Vector2D } | null {
+    let ground: { y: number; normal: Vector2D } | null = null
+    for (const edge of edges) {
+      if (edge.normal.y >= 0) continue
+      const minX = Math.min(edge.x1, edge.x2)
+      const maxX = Math.max(edge.x1, edge.x2)
+      if (x < minX || x > maxX || maxX - minX < 0.001) continue
+
+      const y = edge.y1 + (x - edge.x1) * (edge.y2 - edge.y1) / (edge.x2 - edge.x1)
+      if (y >= top && y <= bottom && (!ground || y < ground.y)) {
+        ground = { y, normal: edge.normal }
+      }
+    }
+    return ground
+  }
+
+  private isWalkable(normal: Vector2D): boolean {
+    return -normal.y >= Math.cos(this.maxSlopeAngle * Math.PI / 180)
+  }
+
+  // How far below the colliding body the feet reach: enough that the front corner stays clear
+  // of the steepest walkable slope, while keeping some body to hit walls with
+  private getStepHeight(entity: Entity): number {
+    const slopeRise = (entity.width / 2) * Math.tan(this.maxSlopeAngle * Math.PI / 180) + 1
+    return Math.max(0, Math.min(entity.height - MIN_BODY_HEIGHT, slopeRise))
+  }
+
   private resolvePolygonCollision(entity: Entity, polygon: Polygon, entityBox: AABB) {
     // Find the collision segment considering entity's velocity direction
     const segments = polygon.getSegments()
@@ -533,10 +782,16 @@ export class PhysicsEngine {
         const isVerticalSegment = Math.abs(segmentDx) < segmentLength * 0.3
         const isHorizontalSegment = Math.abs(segmentDy) < segmentLength * 0.3
 
-        // Push entity away from polygon
+        // Push entity away from polygon - straight sideways off slopes too steep to walk,
+        // so leaning into one doesn't lift the entity up it
         const pushDistance = Math.max(1, (Math.max(entityBox.width, entityBox.height) / 2) - activeDistance + 0.1)
-        entity.position.x += activeNormal.x * pushDistance
-        entity.position.y += activeNormal.y * pushDistance
+        const steepSlope = !isVerticalSegment && !isHorizontalSegment && activeNormal.y < 0 && !this.isWalkable(activeNormal)
+        if (steepSlope && Math.abs(activeNormal.x) > 0.001) {
+          entity.position.x += Math.sign(activeNormal.x) * pushDistance / Math.abs(activeNormal.x)
+        } else {
+          entity.position.x += activeNormal.x * pushDistance
+          entity.position.y += activeNormal.y * pushDistance
+        }
 
         // Handle velocity based on segment orientation
         if (isVerticalSegment) {
@@ -554,8 +809,7 @@ export class PhysicsEngine {
           // Horizontal surface - handle as floor/ceiling
           if (activeNormal.y < 0) {
             // Landing on top surface
-            entity.grounded = true
-            entity.velocity.y = 0
+            this.land(entity, polygon.getMaterial())
           } else {
             // Hitting ceiling
             entity.ceilingCollision = true
@@ -563,15 +817,25 @@ export class PhysicsEngine {
           }
         } else {
           // Diagonal segment - use dot product method
+          const walkable = activeNormal.y < 0 && this.isWalkable(activeNormal)
           const dotProduct = entity.velocity.x * activeNormal.x + entity.velocity.y * activeNormal.y
           if (dotProduct < 0) {
+            const fallSpeed = entity.velocity.y
             entity.velocity.x -= dotProduct * activeNormal.x
             entity.velocity.y -= dotProduct * activeNormal.y
+            // Running into a slope too steep to walk must not launch the entity up it
+            if (!walkable) {
+              entity.velocity.y = Math.max(entity.velocity.y, Math.min(fallSpeed, 0))
+            }
           }
 
           // Check if entity is landing on top of polygon for diagonal surfaces
-          if (Math.abs(activeNormal.y) > 0.7 && activeNormal.y < 0) {
+          if (walkable) {
             entity.grounded = true
+          } else if (activeNormal.x > 0) {
+            entity.wallCollision.left = true
+          } else if (activeNormal.x < 0) {
+            entity.wallCollision.right = true
           }
         }
       }
@@ -675,14 +939,16 @@ export class PhysicsEngine {
     entity.velocity.y += impulse.y / mass
   }
 
-  public raycast(start: Vector2D, direction: Vector2D, maxDistance: number, platforms: Platform[]): any {
-    // Simple raycast implementation for ground checks
+  /**
+   * Cast a ray and return the nearest platform or polygon edge it hits
+   */
+  public raycast(start: Vector2D, direction: Vector2D, maxDistance: number, platforms: Platform[], polygons: Polygon[] = []): RaycastHit | null {
     const end = {
       x: start.x + direction.x * maxDistance,
       y: start.y + direction.y * maxDistance
     }
 
-    let closestHit = null
+    let closestHit: RaycastHit | null = null
     let closestDistance = maxDistance
 
     platforms.forEach(platform => {
@@ -693,9 +959,42 @@ export class PhysicsEngine {
       }
     })
 
+    polygons.forEach(polygon => {
+      polygon.getSegments().forEach(segment => {
+        const t = this.raySegmentIntersection(start, end, segment)
+        if (t === null) return
+        const distance = maxDistance * t
+        if (distance < closestDistance) {
+          closestDistance = distance
+          closestHit = {
+            point: { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t },
+            distance,
+            t,
+            polygon
+          }
+        }
+      })
+    })
+
     return closestHit
   }
 
+  // Fraction along start→end where it crosses the segment, or null
+  private raySegmentIntersection(start: Vector2D, end: Vector2D, segment: { x1: number; y1: number; x2: number; y2: number }): number | null {
+    const rx = end.x - start.x
+    const ry = end.y - start.y
+    const sx = segment.x2 - segment.x1
+    const sy = segment.y2 - segment.y1
+    const denominator = rx * sy - ry * sx
+    if (Math.abs(denominator) < 0.0001) return null // parallel
+
+    const qx = segment.x1 - start.x
+    const qy = segment.y1 - start.y
+    const t = (qx * sy - qy * sx) / denominator
+    const u = (qx * ry - qy * rx) / denominator
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null
+  }
+
   private raycastAABB(start: Vector2D, end: Vector2D, box: AABB): any {
     const dx = end.x - start.x
     const dy = end.y - start.y
@@ -744,30 +1043,48 @@ export class PhysicsEngine {
   }
 
   // Swept AABB collision detection to prevent tunneling
-  private sweptAABB(entity: Entity, movement: Vector2D, platforms: Platform[]): { hit: boolean; time: number; normal: Vector2D } {
+  private sweptAABB(entity: Entity, movement: Vector2D, platforms: Platform[]): { hit: boolean; time: number; normal: Vector2D; platform?: Platform } {
     let nearestTime = 1.0
     let nearestNormal = { x: 0, y: 0 }
+    let nearestPlatform: Platform | undefined
     let hit = false
 
     const entityBox = this.getAABB(entity)
 
     for (const platform of platforms) {
-      // Skip collision for one-way platforms if entity is moving upward
+      // Water and other non-solid platforms (except hidden blocks, handled below) don't block anything
+      if (!platform.solid && !platform.hidden) {
+        continue
+      }
+      // Skip collision for jump-through platforms if entity is moving upward
       if (platform.type === 'platform' && movement.y < 0) {
         continue
       }
+      // One-way platforms only catch feet coming down from above their top
+      if (platform.oneWay && (!platform.solid || movement.y < 0 || entityBox.y + entityBox.height > platform.y + RIDE_TOLERANCE)) {
+        continue
+      }
 
       const platformBox = this.getAABB(platform)
       const result = this.sweptAABBvsAABB(entityBox, movement, platformBox)
 
+      // Hidden blocks only exist for a head coming up from below
+      if (platform.hidden && !(movement.y < 0 && result.normal.y > 0.5)) {
+        continue
+      }
+      if (platform.oneWay && result.normal.y > -0.5) {
+        continue
+      }
+
       if (result.hit && result.time < nearestTime && result.time >= 0) {
         nearestTime = result.time
         nearestNormal = result.normal
+        nearestPlatform = platform
         hit = true
       }
     }
 
-    return { hit, time: nearestTime, normal: nearestNormal }
+    return { hit, time: nearestTime, normal: nearestNormal, platform: nearestPlatform }
   }
 
   private sweptAABBvsAABB(box1: AABB, movement: Vector2D, box2: AABB): { hit: boolean; time: number; normal: Vector2D } {
@@ -841,7 +1158,31 @@ export class PhysicsEngine {
     return { hit: true, time: Math.max(0, tNear), normal }
   }
 
+  /**
+   * Entities standing on a platform before its last move (its top was deltaY higher or lower),
+   * which a moving platform carries along
+   */
+  public getRiders(platform: Platform, entities: Entity[]): Entity[] {
+    if (!platform.solid) return []
+    const previousX = platform.x - platform.deltaX
+    const previousTop = platform.y - platform.deltaY
+    return entities.filter(entity => {
+      if (!entity.physics?.solid || entity.velocity.y < 0) return false
+      const feet = entity.position.y + entity.height
+      return Math.abs(feet - previousTop) <= RIDE_TOLERANCE &&
+             entity.position.x < previousX + platform.width &&
+             entity.position.x + entity.width > previousX
+    })
+  }
+
   // Getters and setters
+  /**
+   * Called whenever an entity's head hits a platform from below (e.g. to bump blocks)
+   */
+  public setCeilingHitHandler(handler: ((entity: Entity, platform: Platform) => void) | null) {
+    this.ceilingHitHandler = handler
+  }
+
   public setGravity(gravity: number) {
     this.gravity = gravity
   }
@@ -854,6 +1195,33 @@ export class PhysicsEngine {
     this.friction = friction
   }
 
+  public getFriction(): number {
+    return this.friction
+  }
+
+  public getAirResistance(): number {
+    return this.airResistance
+  }
+
+  public setAirResistance(airResistance: number) {
+    this.airResistance = airResistance
+  }
+
+  /**
+   * Steepest polygon slope (degrees) entities can walk on - steeper ones are slid down
+   */
+  public setMaxSlopeAngle(degrees: number) {
+    this.maxSlopeAngle = Math.max(0, Math.min(89, degrees))
+  }
+
+  public getMaxSlopeAngle(): number {
+    return this.maxSlopeAngle
+  }
+
+  public getMaxVelocity(): Vector2D {
+    return { ...this.maxVelocity }
+  }
+
   public setMaxVelocity(x: number, y: number) {
     this.maxVelocity = { x, y }
   }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { SeededRandom } from '../generation/SeededRandom'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { boundsOverlap, type Bounds } from './Geometry'
+import { SpatialGrid } from './SpatialGrid'
+import { DRAWING_RUN, drawingLevel } from '../../test/fixtures'
+
+function randomBounds(random: SeededRandom, maxSize: number): Bounds {
+  const left = random.range(-200, 3000)
+  const top = random.range(-200, 800)
+  return { left, top, right: left + random.range(1, maxSize), bottom: top + random.range(1, maxSize) }
+}
+
+describe('SpatialGrid', () => {
+  it('returns every overlapping item, in insertion order, like checking them all', () => {
+    const random = new SeededRandom('grid')
+    const grid = new SpatialGrid<number>(64)
+    const items = Array.from({ length: 300 }, () => randomBounds(random, 300))
+    items.forEach((bounds, i) => grid.insert(i, bounds))
+
+    for (let q = 0; q < 100; q++) {
+      const query = randomBounds(random, 400)
+      const expected = items.flatMap((bounds, i) => boundsOverlap(bounds, query) ? [i] : [])
+      expect(grid.query(query).filter(i => boundsOverlap(items[i], query))).toEqual(expected)
+    }
+  })
+
+  it('finds moved items at their new place only', () => {
+    const grid = new SpatialGrid<string>(64)
+    grid.insert('a', { left: 0, top: 0, right: 10, bottom: 10 })
+    grid.update('a', { left: 1000, top: 0, right: 1010, bottom: 10 })
+    expect(grid.queryPoint(5, 5)).toEqual([])
+    expect(grid.queryPoint(1005, 5)).toEqual(['a'])
+    grid.remove('a')
+    expect(grid.size).toBe(0)
+  })
+
+  it('plays a level exactly as the brute-force collision checks do', () => {
+    const level = drawingLevel({ polygons: 60, coins: 60, enemies: 8, width: 3000 })
+    const run = (broadphase: boolean) => HeadlessSimulation.fromLevelData(level, { seed: 1, broadphase }).run(300, DRAWING_RUN)
+    const bruteForce = run(false)
+    expect(bruteForce.player!.x).toBeGreaterThan(1000) // through shapes, coins and goombas
+    expect(run(true)).toEqual(bruteForce)
+  })
+})
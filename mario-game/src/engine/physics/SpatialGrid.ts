@@ -0,0 +1,160 @@
+import { type Bounds } from './Geometry'
+
+// Cells are keyed by a single number: column and row, each offset so negative coordinates fit
+const KEY_OFFSET = 32768
+const KEY_STRIDE = 65536
+
+interface GridEntry {
+  order: number // insertion order - query results come back in it, so callers see the same order as a plain array
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  stamp: number // last query that returned it, so items spanning several cells are reported once
+}
+
+/**
+ * Uniform grid broadphase: items are filed under every cell their bounds cover, and a
+ * query only looks at the cells it overlaps. Results are candidates - anything in a
+ * touched cell - so callers still run their exact test on them.
+ *
+ * Results always come back in insertion order, which keeps collision order (and with it
+ * replays) identical to checking every item in the order it was added.
+ */
+export class SpatialGrid<T> {
+  private cellSize: number
+  private cells = new Map<number, T[]>()
+  private entries = new Map<T, GridEntry>()
+  private nextOrder = 0
+  private queryStamp = 0
+
+  constructor(cellSize = 128) {
+    this.cellSize = cellSize
+  }
+
+  public insert(item: T, bounds: Bounds) {
+    if (this.entries.has(item)) {
+      this.update(item, bounds)
+      return
+    }
+    const entry: GridEntry = { order: this.nextOrder++, ...this.cellRange(bounds), stamp: 0 }
+    this.entries.set(item, entry)
+    this.fileEntry(item, entry)
+  }
+
+  public remove(item: T) {
+    const entry = this.entries.get(item)
+    if (!entry) return
+    this.unfileEntry(item, entry)
+    this.entries.delete(item)
+  }
+
+  /**
+   * Move an item to new bounds - cheap when it stays within the same cells, as most do each tick
+   */
+  public update(item: T, bounds: Bounds) {
+    const entry = this.entries.get(item)
+    if (!entry) {
+      this.insert(item, bounds)
+      return
+    }
+    const range = this.cellRange(bounds)
+    if (range.minX === entry.minX && range.minY === entry.minY && range.maxX === entry.maxX && range.maxY === entry.maxY) {
+      return
+    }
+    this.unfileEntry(item, entry)
+    Object.assign(entry, range)
+    this.fileEntry(item, entry)
+  }
+
+  public has(item: T): boolean {
+    return this.entries.has(item)
+  }
+
+  /**
+   * Every item filed in a cell that `bounds` overlaps, in insertion order
+   */
+  public query(bounds: Bounds): T[] {
+    const range = this.cellRange(bounds)
+    const stamp = ++this.queryStamp
+    const found: T[] = []
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const cell = this.cells.get(cellKey(cx, cy))
+        if (!cell) continue
+        for (const item of cell) {
+          const entry = this.entries.get(item)!
+          if (entry.stamp !== stamp) {
+            entry.stamp = stamp
+            found.push(item)
+          }
+        }
+      }
+    }
+    if (found.length > 1) {
+      found.sort((a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order)
+    }
+    return found
+  }
+
+  public queryPoint(x: number, y: number): T[] {
+    return this.query({ left: x, right: x, top: y, bottom: y })
+  }
+
+  public clear() {
+    this.cells.clear()
+    this.entries.clear()
+    this.nextOrder = 0
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  private cellRange(bounds: Bounds): { minX: number; minY: number; maxX: number; maxY: number } {
+    return {
+      minX: this.cellIndex(Math.min(bounds.left, bounds.right)),
+      minY: this.cellIndex(Math.min(bounds.top, bounds.bottom)),
+      maxX: this.cellIndex(Math.max(bounds.left, bounds.right)),
+      maxY: this.cellIndex(Math.max(bounds.top, bounds.bottom))
+    }
+  }
+
+  // Non-finite coordinates (a broken level) land in the outermost cells rather than looping forever
+  private cellIndex(value: number): number {
+    const index = Math.floor(value / this.cellSize)
+    if (Number.isNaN(index)) return 0
+    return Math.max(-KEY_OFFSET, Math.min(KEY_OFFSET - 1, index))
+  }
+
+  private fileEntry(item: T, entry: GridEntry) {
+    for (let cx = entry.minX; cx <= entry.maxX; cx++) {
+      for (let cy = entry.minY; cy <= entry.maxY; cy++) {
+        const key = cellKey(cx, cy)
+        const cell = this.cells.get(key)
+        if (cell) {
+          cell.push(item)
+        } else {
+          this.cells.set(key, [item])
+        }
+      }
+    }
+  }
+
+  private unfileEntry(item: T, entry: GridEntry) {
+    for (let cx = entry.minX; cx <= entry.maxX; cx++) {
+      for (let cy = entry.minY; cy <= entry.maxY; cy++) {
+        const key = cellKey(cx, cy)
+        const cell = this.cells.get(key)
+        if (!cell) continue
+        const index = cell.indexOf(item)
+        if (index > -1) cell.splice(index, 1)
+        if (cell.length === 0) this.cells.delete(key)
+      }
+    }
+  }
+}
+
+function cellKey(cx: number, cy: number): number {
+  return (cx + KEY_OFFSET) * KEY_STRIDE + (cy + KEY_OFFSET)
+}
@@ -0,0 +1,211 @@
+import { type SpriteLoader } from '../sprites/SpriteLoader'
+
+/**
+ * Level backgrounds - a stack of parallax layers drawn behind the level, back to front
+ *
+ * A level picks a preset by name ('sky', 'underground', 'castle', 'night') or brings its own
+ * definition. Each layer is a color, a sprite or an image, placed once or tiled, and follows
+ * the camera by its scroll factor: 0 stays fixed to the screen, 1 moves with the level.
+ */
+export type BackgroundPreset = 'sky' | 'underground' | 'castle' | 'night'
+
+export type BackgroundRepeat = 'none' | 'x' | 'y' | 'both'
+
+export interface BackgroundLayer {
+  color?: string | string[] // fill - a list of colors is a top-to-bottom gradient
+  sprite?: string // a SpriteLoader sprite, or one of the built-in drawings (BUILT_IN_SPRITES)
+  image?: string // image URL or data URL, e.g. the drawing the level was traced from
+  x?: number // where the first copy sits (px), default 0
+  y?: number // px from the top of the screen, or from the bottom with anchor 'bottom', default 0
+  anchor?: 'top' | 'bottom' // screen edge y is measured from (to the copy's bottom edge for 'bottom')
+  width?: number // size of one copy - defaults to the sprite or image size; colors without one fill the screen
+  height?: number
+  scroll?: number // horizontal parallax factor, default 0
+  scrollY?: number // vertical parallax factor, defaults to scroll
+  repeat?: BackgroundRepeat // tile the copies across the screen, default 'none'
+  spacing?: number // gap between tiled copies (px), default 0
+  opacity?: number // 0-1, default 1
+}
+
+export interface BackgroundDefinition {
+  layers: BackgroundLayer[]
+}
+
+// What a level stores: a preset name or its own layers
+export type BackgroundSetting = BackgroundPreset | BackgroundDefinition
+
+// Drawn by the renderer rather than loaded, so they're always available
+export const BUILT_IN_SPRITES = ['cloud', 'star', 'moon'] as const
+
+// Size of a built-in drawing when the layer doesn't give one
+export const BUILT_IN_SPRITE_SIZES: Record<(typeof BUILT_IN_SPRITES)[number], { width: number; height: number }> = {
+  cloud: { width: 100, height: 75 },
+  star: { width: 4, height: 4 },
+  moon: { width: 48, height: 48 }
+}
+
+export const BACKGROUND_PRESETS: Record<BackgroundPreset, BackgroundDefinition> = {
+  sky: {
+    layers: [
+      { color: ['#5C94FC', '#87CEEB'] },
+      { sprite: 'cloud', x: 100, y: 60, repeat: 'x', spacing: 290, scroll: 0.1 },
+      { sprite: 'cloud', x: 300, y: 120, repeat: 'x', spacing: 330, scroll: 0.15 },
+      { sprite: 'mountain', x: 50, y: 92, anchor: 'bottom', width: 128, height: 128, repeat: 'x', spacing: 372, scroll: 0.2 },
+      { sprite: 'mountain', x: 300, y: 52, anchor: 'bottom', width: 128, height: 128, repeat: 'x', spacing: 222, scroll: 0.35 },
+      { sprite: 'tree', x: 150, y: 64, anchor: 'bottom', width: 64, height: 96, repeat: 'x', spacing: 186, scroll: 0.5 }
+    ]
+  },
+  underground: {
+    layers: [
+      { color: ['#1B1410', '#050302'] },
+      { color: 'rgba(120, 72, 40, 0.25)', width: 60, height: 28, repeat: 'both', spacing: 4, scroll: 0.3 },
+      { color: 'rgba(120, 72, 40, 0.15)', x: 32, y: 32, width: 60, height: 28, repeat: 'both', spacing: 4, scroll: 0.3 }
+    ]
+  },
+  castle: {
+    layers: [
+      { color: ['#26201F', '#4A2C22'] },
+      { color: '#332A28', x: 40, y: 0, anchor: 'bottom', width: 56, height: 420, repeat: 'x', spacing: 184, scroll: 0.25 },
+      { color: 'rgba(255, 170, 60, 0.45)', x: 160, y: 150, width: 18, height: 36, repeat: 'x', spacing: 222, scroll: 0.25 },
+      { color: ['rgba(255, 80, 0, 0)', 'rgba(255, 80, 0, 0.35)'], y: 0, anchor: 'bottom', height: 120 }
+    ]
+  },
+  night: {
+    layers: [
+      { color: ['#0B1026', '#2B3A67'] },
+      { sprite: 'star', x: 20, y: 30, repeat: 'both', spacing: 137, scroll: 0.02 },
+      { sprite: 'star', x: 90, y: 95, repeat: 'both', spacing: 171, scroll: 0.04, opacity: 0.6 },
+      { sprite: 'moon', x: 780, y: 50, scroll: 0.05 },
+      { sprite: 'mountain', x: 50, y: 72, anchor: 'bottom', width: 128, height: 128, repeat: 'x', spacing: 222, scroll: 0.3, opacity: 0.45 }
+    ]
+  }
+}
+
+export const BACKGROUND_PRESET_NAMES = Object.keys(BACKGROUND_PRESETS) as BackgroundPreset[]
+
+export const DEFAULT_BACKGROUND: BackgroundPreset = 'sky'
+
+export function isBackgroundPreset(value: unknown): value is BackgroundPreset {
+  return typeof value === 'string' && value in BACKGROUND_PRESETS
+}
+
+/**
+ * The layers to draw for a level's background setting - unknown names fall back to the sky
+ */
+export function resolveBackground(background: BackgroundSetting | string | null | undefined): BackgroundDefinition {
+  if (background && typeof background === 'object') return background
+  return BACKGROUND_PRESETS[isBackgroundPreset(background) ? background : DEFAULT_BACKGROUND]
+}
+
+// Deep copy, so a level's layers can't be changed through the data it was built from
+export function cloneBackground(background: BackgroundSetting): BackgroundSetting {
+  return typeof background === 'string' ? background : JSON.parse(JSON.stringify(background))
+}
+
+/**
+ * A background with an image - usually the drawing the level was traced from - laid over it as the
+ * front layer, lined up with the level (it scrolls with it) so the traced shapes sit on their strokes
+ */
+export function withBackdrop(background: BackgroundSetting, image: string, opacity = 0.5): BackgroundDefinition {
+  return {
+    layers: [...resolveBackground(background).layers, { image, scroll: 1, opacity }]
+  }
+}
+
+/**
+ * Size of one copy of a layer, or null if there's nothing to draw yet (an image still loading,
+ * a sprite that isn't loaded) - plain colors without a size fill the screen
+ */
+export function getBackgroundLayerSize(
+  layer: BackgroundLayer,
+  screen: { width: number; height: number },
+  spriteLoader: SpriteLoader
+): { width: number; height: number } | null {
+  let natural: { width: number; height: number } | null
+  if (layer.image) {
+    const image = spriteLoader.requestImage(layer.image)
+    natural = image ? { width: image.naturalWidth, height: image.naturalHeight } : null
+  } else if (layer.sprite) {
+    const frame = spriteLoader.getSprite(layer.sprite)?.frames[0]
+    natural = layer.sprite in BUILT_IN_SPRITE_SIZES
+      ? BUILT_IN_SPRITE_SIZES[layer.sprite as keyof typeof BUILT_IN_SPRITE_SIZES]
+      : frame ? { width: frame.width, height: frame.height } : null
+  } else {
+    natural = { width: screen.width, height: screen.height }
+  }
+  if (!natural) return null
+  return { width: layer.width ?? natural.width, height: layer.height ?? natural.height }
+}
+
+/**
+ * Call `draw` with the world position of every copy of a layer that can be on screen
+ * @param camera - Top-left of the view in world coordinates - the layer follows it by its scroll factor
+ */
+export function forEachBackgroundCopy(
+  layer: BackgroundLayer,
+  size: { width: number; height: number },
+  camera: { x: number; y: number },
+  screen: { width: number; height: number },
+  draw: (x: number, y: number) => void
+) {
+  const scrollX = layer.scroll ?? 0
+  const scrollY = layer.scrollY ?? scrollX
+  const offsetY = layer.y ?? 0
+  const repeat = layer.repeat ?? 'none'
+  const repeatX = repeat === 'x' || repeat === 'both'
+  const repeatY = repeat === 'y' || repeat === 'both'
+  const stepX = Math.max(1, size.width + (layer.spacing ?? 0))
+  const stepY = Math.max(1, size.height + (layer.spacing ?? 0))
+
+  // Screen position of the first copy, then back up to the first one that can be visible when tiling
+  let left = (layer.x ?? 0) - camera.x * scrollX
+  let top = (layer.anchor === 'bottom' ? screen.height - offsetY - size.height : offsetY) - camera.y * scrollY
+  if (repeatX) left = firstTile(left, stepX)
+  if (repeatY) top = firstTile(top, stepY)
+
+  for (let y = top; y === top || (repeatY && y < screen.height); y += stepY) {
+    for (let x = left; x === left || (repeatX && x < screen.width); x += stepX) {
+      draw(camera.x + x, camera.y + y)
+    }
+  }
+}
+
+/**
+ * Draw one of the BUILT_IN_SPRITES filling the box - returns false for any other name
+ */
+export function drawBuiltInSprite(ctx: CanvasRenderingContext2D, name: string, x: number, y: number, width: number, height: number): boolean {
+  switch (name) {
+    case 'cloud':
+      // Four puffs, 100x75 at the natural size
+      ctx.save()
+      ctx.translate(x, y)
+      ctx.scale(width / 100, height / 75)
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
+      ctx.beginPath()
+      ctx.arc(25, 40, 25, 0, Math.PI * 2)
+      ctx.arc(50, 40, 35, 0, Math.PI * 2)
+      ctx.arc(75, 40, 25, 0, Math.PI * 2)
+      ctx.arc(50, 25, 25, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.restore()
+      return true
+    case 'star':
+      ctx.fillStyle = '#FFFFFF'
+      ctx.fillRect(x, y, width, height)
+      return true
+    case 'moon':
+      ctx.fillStyle = '#F4F1C9'
+      ctx.beginPath()
+      ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2)
+      ctx.fill()
+      return true
+    default:
+      return false
+  }
+}
+
+// Where tiling with this step has to start so copies cover the screen from its edge (<= 0)
+function firstTile(start: number, step: number): number {
+  const offset = ((start % step) + step) % step
+  return offset > 0 ? offset - step : 0
+}
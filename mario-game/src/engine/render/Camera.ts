@@ -1,4 +1,5 @@
 import { Entity } from '../entities/Entity'
+import { type Bounds } from '../physics/Geometry'
 
 export class Camera {
   public x: number = 0
@@ -6,6 +7,7 @@ export class Camera {
   private width: number
   private height: number
   private bounds: { minX: number; maxX: number; minY: number; maxY: number } | null = null
+  private worldWidth = 3000
 
   constructor(width: number, height: number) {
     this.width = width
@@ -22,9 +24,8 @@ export class Camera {
     this.y = targetY
 
     // Apply world boundaries
-    const worldWidth = 3000 // Match the level width
     this.x = Math.max(0, this.x) // Left boundary
-    this.x = Math.min(worldWidth - this.width, this.x) // Right boundary
+    this.x = Math.min(this.worldWidth - this.width, this.x) // Right boundary
     this.y = 0 // Keep Y locked
 
     // Apply additional bounds if set
@@ -34,6 +35,13 @@ export class Camera {
     }
   }
 
+  /**
+   * How wide the level is - the camera stops at its right edge
+   */
+  public setWorldWidth(width: number) {
+    this.worldWidth = width
+  }
+
   public setBounds(minX: number, maxX: number, minY: number, maxY: number) {
     this.bounds = { minX, maxX, minY, maxY }
   }
@@ -93,4 +101,20 @@ export class Camera {
       this.y = originalY + (Math.random() - 0.5) * intensity * decay
     }, 16)
   }
+}
+
+/**
+ * The part of the world a `width` x `height` canvas shows through the context's current
+ * transform - however the caller applied its camera - grown by `margin` on every side
+ */
+export function getViewBounds(ctx: CanvasRenderingContext2D, width: number, height: number, margin = 0): Bounds {
+  const inverse = ctx.getTransform().inverse()
+  const topLeft = inverse.transformPoint({ x: 0, y: 0 })
+  const bottomRight = inverse.transformPoint({ x: width, y: height })
+  return {
+    left: Math.min(topLeft.x, bottomRight.x) - margin,
+    top: Math.min(topLeft.y, bottomRight.y) - margin,
+    right: Math.max(topLeft.x, bottomRight.x) + margin,
+    bottom: Math.max(topLeft.y, bottomRight.y) + margin
+  }
 }
\ No newline at end of file
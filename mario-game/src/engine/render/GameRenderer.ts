@@ -0,0 +1,55 @@
+import { type Entity } from '../entities/Entity'
+import { type Level } from '../level/Level'
+import { type Dialog } from '../ui/DialogManager'
+import { type Ghost } from '../replay/Ghost'
+import { type BackgroundSetting } from './Backgrounds'
+import { Renderer, type UIData } from './Renderer'
+import { WebGLRenderer } from './webgl/WebGLRenderer'
+
+export type RendererBackend = 'canvas2d' | 'webgl2'
+
+/**
+ * What the game draws a frame with. Everything is drawn in world coordinates through the
+ * transform set on getOverlayContext(), which is how a caller applies its camera.
+ */
+export interface GameRenderer {
+  readonly backend: RendererBackend
+  clear(): void
+  renderBackground(background?: BackgroundSetting, camera?: { x: number; y: number }): void
+  renderLevel(level: Level, alpha?: number): void
+  renderEntity(entity: Entity): void
+  renderGhost(ghost: Ghost, alpha?: number): void
+  renderUI(data: UIData): void
+  renderParticle(x: number, y: number, type: string, life?: number): void
+  renderDialog(dialog: Dialog): void
+  /**
+   * 2D context drawn over everything else - the canvas's own with Canvas2D. Its transform is the
+   * camera for every render call
+   */
+  getOverlayContext(): CanvasRenderingContext2D
+  /**
+   * Finish the frame
+   */
+  present(): void
+  resize(width: number, height: number): void
+}
+
+/**
+ * A renderer for `canvas` - WebGL2 when asked for and available, Canvas2D otherwise
+ */
+export function createRenderer(canvas: HTMLCanvasElement, backend: RendererBackend = 'canvas2d'): GameRenderer {
+  if (backend === 'webgl2') {
+    const renderer = WebGLRenderer.create(canvas)
+    if (renderer) {
+      console.log('🖼️ Rendering with WebGL2')
+      return renderer
+    }
+    console.warn('⚠️ WebGL2 is not available, falling back to Canvas2D rendering')
+  }
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to get 2D rendering context from canvas')
+  }
+  return new Renderer(ctx, canvas.width, canvas.height)
+}
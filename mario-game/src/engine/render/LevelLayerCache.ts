@@ -0,0 +1,186 @@
+import { type Bounds } from '../physics/Geometry'
+import { type Level } from '../level/Level'
+
+// Size of one cached piece of the level (px) - big enough that a screen needs only a handful
+export const CHUNK_SIZE = 512
+
+// Chunks kept at most (about 1 MB each) - the ones seen longest ago are dropped first
+const MAX_CHUNKS = 24
+
+// How far a drawing may reach past the shape it belongs to (outlines, pipe rims)
+const OVERDRAW = 16
+
+// Dropped chunk canvases kept for reuse rather than allocating new ones
+const MAX_SPARE_CANVASES = 4
+
+interface Chunk {
+  cx: number
+  cy: number
+  canvas: HTMLCanvasElement | null // null - nothing static in it
+  dirty: boolean
+  lastDrawn: number // frame it was last put on screen
+}
+
+/**
+ * Draws the static geometry overlapping `region` into `ctx`, which is already set up in
+ * world coordinates - returns whether there was anything to draw
+ */
+export type DrawRegion = (ctx: CanvasRenderingContext2D, level: Level, region: Bounds) => boolean
+
+/**
+ * The level's static geometry - every polygon and the platforms that never move or change -
+ * drawn once into chunk canvases, then copied to the screen each frame.
+ *
+ * A chunk is only drawn again when the geometry in it changes (see Level.markGeometryChanged),
+ * e.g. a brick breaks, or when sprites finish loading. Chunks are drawn the first time they
+ * come into view, so a huge traced level costs nothing for the parts nobody has scrolled to.
+ */
+export class LevelLayerCache {
+  private drawRegion: DrawRegion
+  private chunks = new Map<string, Chunk>()
+  private spareCanvases: HTMLCanvasElement[] = []
+  private level: Level | null = null
+  private revision = 0
+  private spriteVersion = -1
+  private frame = 0
+
+  constructor(drawRegion: DrawRegion) {
+    this.drawRegion = drawRegion
+  }
+
+  /**
+   * Put the chunks covering `view` (world coordinates) on `target`, redrawing the stale ones first
+   */
+  public draw(target: CanvasRenderingContext2D, level: Level, view: Bounds, spriteVersion: number) {
+    this.sync(level, spriteVersion)
+    this.frame++
+
+    // Without scaling, line chunks up with whole screen pixels so no seams show between them
+    const transform = target.getTransform()
+    const snap = transform.a === 1 && transform.d === 1 && transform.b === 0 && transform.c === 0
+
+    const minCX = Math.floor(view.left / CHUNK_SIZE)
+    const maxCX = Math.floor(view.right / CHUNK_SIZE)
+    const minCY = Math.floor(view.top / CHUNK_SIZE)
+    const maxCY = Math.floor(view.bottom / CHUNK_SIZE)
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        const chunk = this.getChunk(cx, cy)
+        chunk.lastDrawn = this.frame
+        if (chunk.dirty) this.renderChunk(chunk, level)
+        if (!chunk.canvas) continue
+
+        const x = cx * CHUNK_SIZE
+        const y = cy * CHUNK_SIZE
+        if (snap) {
+          target.drawImage(chunk.canvas, Math.round(transform.e + x) - transform.e, Math.round(transform.f + y) - transform.f)
+        } else {
+          target.drawImage(chunk.canvas, x, y)
+        }
+      }
+    }
+
+    this.evict()
+  }
+
+  /**
+   * Mark the chunks overlapping `bounds` (or all of them) to be drawn again
+   */
+  public invalidate(bounds?: Bounds) {
+    const region = bounds ? expand(bounds, OVERDRAW) : null
+    this.chunks.forEach(chunk => {
+      if (!region || overlapsChunk(region, chunk)) chunk.dirty = true
+    })
+  }
+
+  // Catch up with what changed in the level since the last frame
+  private sync(level: Level, spriteVersion: number) {
+    if (level !== this.level || spriteVersion !== this.spriteVersion) {
+      this.level = level
+      this.spriteVersion = spriteVersion
+      this.revision = level.getGeometryRevision()
+      this.invalidate()
+      return
+    }
+
+    const changes = level.getGeometryChangesSince(this.revision)
+    this.revision = level.getGeometryRevision()
+    if (changes === null) {
+      this.invalidate()
+    } else {
+      changes.forEach(bounds => this.invalidate(bounds))
+    }
+  }
+
+  private getChunk(cx: number, cy: number): Chunk {
+    const key = `${cx},${cy}`
+    let chunk = this.chunks.get(key)
+    if (!chunk) {
+      chunk = { cx, cy, canvas: null, dirty: true, lastDrawn: 0 }
+      this.chunks.set(key, chunk)
+    }
+    return chunk
+  }
+
+  private renderChunk(chunk: Chunk, level: Level) {
+    const canvas = chunk.canvas ?? this.spareCanvases.pop() ?? createChunkCanvas()
+    const ctx = canvas.getContext('2d')!
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, CHUNK_SIZE, CHUNK_SIZE)
+    ctx.translate(-chunk.cx * CHUNK_SIZE, -chunk.cy * CHUNK_SIZE)
+
+    // Shapes just outside the chunk can still reach into it with their outlines
+    const region = expand(chunkBounds(chunk), OVERDRAW)
+    chunk.canvas = canvas
+    chunk.dirty = false
+    if (!this.drawRegion(ctx, level, region)) {
+      this.release(chunk)
+    }
+  }
+
+  private evict() {
+    if (this.chunks.size <= MAX_CHUNKS) return
+    const stale = [...this.chunks.entries()]
+      .filter(([, chunk]) => chunk.lastDrawn < this.frame)
+      .sort(([, a], [, b]) => a.lastDrawn - b.lastDrawn)
+    for (const [key, chunk] of stale) {
+      if (this.chunks.size <= MAX_CHUNKS) break
+      this.release(chunk)
+      this.chunks.delete(key)
+    }
+  }
+
+  private release(chunk: Chunk) {
+    if (chunk.canvas && this.spareCanvases.length < MAX_SPARE_CANVASES) {
+      this.spareCanvases.push(chunk.canvas)
+    }
+    chunk.canvas = null
+  }
+}
+
+function createChunkCanvas(): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = CHUNK_SIZE
+  canvas.height = CHUNK_SIZE
+  return canvas
+}
+
+function chunkBounds(chunk: Chunk): Bounds {
+  const left = chunk.cx * CHUNK_SIZE
+  const top = chunk.cy * CHUNK_SIZE
+  return { left, top, right: left + CHUNK_SIZE, bottom: top + CHUNK_SIZE }
+}
+
+function overlapsChunk(bounds: Bounds, chunk: Chunk): boolean {
+  const area = chunkBounds(chunk)
+  return bounds.left < area.right && bounds.right > area.left && bounds.top < area.bottom && bounds.bottom > area.top
+}
+
+function expand(bounds: Bounds, margin: number): Bounds {
+  return {
+    left: Math.min(bounds.left, bounds.right) - margin,
+    top: Math.min(bounds.top, bounds.bottom) - margin,
+    right: Math.max(bounds.left, bounds.right) + margin,
+    bottom: Math.max(bounds.top, bounds.bottom) + margin
+  }
+}
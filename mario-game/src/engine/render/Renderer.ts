@@ -3,19 +3,39 @@ import { Level } from '../level/Level'
 import { SpriteLoader } from '../sprites/SpriteLoader'
 import { DebugMode } from '../debug/DebugMode'
 import { type Dialog } from '../ui/DialogManager'
+import { type Ghost } from '../replay/Ghost'
+import { type Bounds } from '../physics/Geometry'
+import { MATERIALS, type MaterialName } from '../physics/Materials'
+import {
+  DEFAULT_BACKGROUND,
+  drawBuiltInSprite,
+  forEachBackgroundCopy,
+  getBackgroundLayerSize,
+  resolveBackground,
+  type BackgroundLayer,
+  type BackgroundSetting
+} from './Backgrounds'
+import { LevelLayerCache } from './LevelLayerCache'
+import { getViewBounds } from './Camera'
+import { type GameRenderer, type RendererBackend } from './GameRenderer'
 
 export interface UIData {
   elapsed_time: number
   num_deaths: number
   coins: number
+  lives: number | null // null = unlimited
 }
 
-export class Renderer {
+/**
+ * Canvas2D renderer - the default backend, and what the level editor draws with
+ */
+export class Renderer implements GameRenderer {
+  public readonly backend: RendererBackend = 'canvas2d'
   private ctx: CanvasRenderingContext2D
   private width: number
   private height: number
   private backgroundColor = '#5C94FC' // Mario sky blue
-  private layers: Map<string, HTMLCanvasElement> = new Map()
+  private levelCache: LevelLayerCache // static platforms and polygons, pre-rendered in chunks
   private spriteLoader: SpriteLoader
   private debugMode: DebugMode
 
@@ -25,18 +45,19 @@ export class Renderer {
     this.height = height
     this.spriteLoader = SpriteLoader.getInstance()
     this.debugMode = DebugMode.getInstance()
-    this.initializeLayers()
+    this.levelCache = new LevelLayerCache((ctx, level, region) => this.renderStaticGeometry(ctx, level, region))
   }
 
-  private initializeLayers() {
-    // Create off-screen canvases for different layers
-    const layers = ['background', 'platforms', 'entities', 'effects', 'ui']
-    layers.forEach(layer => {
-      const canvas = document.createElement('canvas')
-      canvas.width = this.width
-      canvas.height = this.height
-      this.layers.set(layer, canvas)
-    })
+  public getOverlayContext(): CanvasRenderingContext2D {
+    return this.ctx
+  }
+
+  // Drawing went straight to the canvas, nothing left to do
+  public present() {}
+
+  public resize(width: number, height: number) {
+    this.width = width
+    this.height = height
   }
 
   public clear() {
@@ -44,55 +65,71 @@ export class Renderer {
     this.ctx.fillRect(0, 0, this.width, this.height)
   }
 
-  public renderBackground() {
-    // Sky gradient
-    const gradient = this.ctx.createLinearGradient(0, 0, 0, this.height)
-    gradient.addColorStop(0, '#5C94FC')
-    gradient.addColorStop(1, '#87CEEB')
-    this.ctx.fillStyle = gradient
-    this.ctx.fillRect(0, 0, this.width * 3, this.height)
-
-    // Draw background mountains
-    this.spriteLoader.drawSprite(this.ctx, 'mountain', 0, 50, this.height - 200, 128, 128)
-    this.spriteLoader.drawSprite(this.ctx, 'mountain', 0, 300, this.height - 180, 128, 128)
-    this.spriteLoader.drawSprite(this.ctx, 'mountain', 0, 550, this.height - 220, 128, 128)
-
-    // Draw background trees
-    this.spriteLoader.drawSprite(this.ctx, 'tree', 0, 150, this.height - 160, 64, 96)
-    this.spriteLoader.drawSprite(this.ctx, 'tree', 0, 400, this.height - 140, 64, 96)
-    this.spriteLoader.drawSprite(this.ctx, 'tree', 0, 650, this.height - 180, 64, 96)
-
-    // Draw clouds
-    this.drawCloud(100, 100)
-    this.drawCloud(300, 150)
-    this.drawCloud(500, 80)
-    this.drawCloud(700, 120)
-    this.drawCloud(900, 160)
+  /**
+   * Draw a level's background, back layer first.
+   * @param camera - Top-left of the view in world coordinates, i.e. the offset the level is drawn
+   * with - layers are placed on screen from it by their scroll factor
+   */
+  public renderBackground(background: BackgroundSetting = DEFAULT_BACKGROUND, camera: { x: number; y: number } = { x: 0, y: 0 }) {
+    resolveBackground(background).layers.forEach(layer => {
+      this.renderBackgroundLayer(layer, camera)
+    })
   }
 
-  private drawCloud(x: number, y: number) {
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
-    // Draw cloud using circles
-    this.ctx.beginPath()
-    this.ctx.arc(x, y, 25, 0, Math.PI * 2)
-    this.ctx.arc(x + 25, y, 35, 0, Math.PI * 2)
-    this.ctx.arc(x + 50, y, 25, 0, Math.PI * 2)
-    this.ctx.arc(x + 25, y - 15, 25, 0, Math.PI * 2)
-    this.ctx.fill()
-  }
+  private renderBackgroundLayer(layer: BackgroundLayer, camera: { x: number; y: number }) {
+    const screen = { width: this.width, height: this.height }
+    const size = getBackgroundLayerSize(layer, screen, this.spriteLoader)
+    if (!size) return
 
-  public renderLevel(level: Level) {
-    // Render platforms
-    const platforms = level.getPlatforms()
-    platforms.forEach(platform => {
-      this.renderPlatform(platform)
+    this.ctx.save()
+    if (layer.opacity !== undefined) {
+      this.ctx.globalAlpha = Math.max(0, Math.min(1, layer.opacity))
+    }
+    forEachBackgroundCopy(layer, size, camera, screen, (x, y) => {
+      this.drawBackgroundCopy(layer, x, y, size.width, size.height)
     })
+    this.ctx.restore()
+  }
 
-    // Render polygons
-    const polygons = level.getPolygons()
-    polygons.forEach(polygon => {
-      this.renderPolygon(polygon)
-    })
+  private drawBackgroundCopy(layer: BackgroundLayer, x: number, y: number, width: number, height: number) {
+    if (layer.image) {
+      const image = this.spriteLoader.requestImage(layer.image)
+      if (image) this.ctx.drawImage(image, x, y, width, height)
+    } else if (layer.sprite) {
+      if (!drawBuiltInSprite(this.ctx, layer.sprite, x, y, width, height)) {
+        this.spriteLoader.drawSprite(this.ctx, layer.sprite, 0, x, y, width, height)
+      }
+    } else if (layer.color) {
+      if (Array.isArray(layer.color)) {
+        const gradient = this.ctx.createLinearGradient(0, y, 0, y + height)
+        layer.color.forEach((color, i, colors) => {
+          gradient.addColorStop(colors.length > 1 ? i / (colors.length - 1) : 0, color)
+        })
+        this.ctx.fillStyle = gradient
+      } else {
+        this.ctx.fillStyle = layer.color
+      }
+      this.ctx.fillRect(x, y, width, height)
+    }
+  }
+
+  /**
+   * @param alpha - How far between the last two ticks to draw moving platforms (like entities)
+   */
+  public renderLevel(level: Level, alpha = 1) {
+    if (this.debugMode.enabled) {
+      // Debug overlays (collision boxes, sprite logging) are drawn fresh, so skip the cache
+      level.getPlatforms().forEach(platform => this.renderPlatform(platform, alpha))
+      level.getPolygons().forEach(polygon => this.renderPolygon(polygon))
+    } else {
+      // Static geometry comes from the cache, whatever moves or changes is drawn on top of it
+      // A little extra for blocks drawn above their position while bumped
+      const view = getViewBounds(this.ctx, this.width, this.height, 16)
+      this.levelCache.draw(this.ctx, level, view, this.spriteLoader.getVersion())
+      level.queryPlatforms(view).forEach(platform => {
+        if (platform.isAnimated()) this.renderPlatform(platform, alpha)
+      })
+    }
 
     // Render goal star
     const goal = level.getGoal()
@@ -101,13 +138,35 @@ export class Renderer {
     }
   }
 
+  // Draws one region of the cache: the platforms that never change, then the polygons over them
+  private renderStaticGeometry(ctx: CanvasRenderingContext2D, level: Level, region: Bounds): boolean {
+    const platforms = level.queryPlatforms(region)
+      .filter(platform => !platform.isAnimated() && !platform.invisible && overlaps(platform.getBounds(), region))
+    const polygons = level.queryPolygons(region).filter(polygon => overlaps(polygon.getBounds(), region))
+    if (platforms.length === 0 && polygons.length === 0) return false
+
+    const screen = this.ctx
+    this.ctx = ctx
+    try {
+      platforms.forEach(platform => this.renderPlatform(platform))
+      polygons.forEach(polygon => this.renderPolygon(polygon))
+    } finally {
+      this.ctx = screen
+    }
+    return true
+  }
+
   private renderPolygon(polygon: any) {
     this.ctx.save()
 
-    // Set polygon style
-    this.ctx.fillStyle = '#666666' // Gray for now, can be customized
-    this.ctx.strokeStyle = '#444444'
+    // Set polygon style - surfaces made of a material take its color
+    const material = polygon.material ? MATERIALS[polygon.material as MaterialName] : null
+    this.ctx.fillStyle = material?.color ?? '#666666'
+    this.ctx.strokeStyle = material ? 'rgba(0, 0, 0, 0.35)' : '#444444'
     this.ctx.lineWidth = 6 // Increased from 2 to 6 for thicker outline
+    if (material?.liquid) {
+      this.ctx.globalAlpha = 0.55
+    }
 
     // Draw polygon
     this.ctx.beginPath()
@@ -167,7 +226,7 @@ export class Renderer {
     this.ctx.restore()
   }
 
-  private renderPlatform(platform: any) {
+  private renderPlatform(platform: any, alpha = 1) {
     // Skip rendering invisible platforms
     if (platform.invisible) {
       return
@@ -175,7 +234,35 @@ export class Renderer {
 
     this.ctx.save()
 
-    switch(platform.type) {
+    // Bumped blocks pop up for a moment
+    const bumpOffset = platform.getBumpOffset()
+    if (bumpOffset > 0) {
+      this.ctx.translate(0, -bumpOffset)
+    }
+    // Moving platforms are drawn between their last two positions, crumbling ones wobble
+    this.ctx.translate(platform.getShakeOffset() - platform.deltaX * (1 - alpha), -platform.deltaY * (1 - alpha))
+
+    // Emptied question blocks (and revealed hidden ones) all look the same,
+    // platforms made of a material look like the material
+    switch(platform.used ? 'used' : platform.material ? 'material' : platform.type) {
+
+      case 'material':
+        this.renderMaterialRect(platform.material, platform.x, platform.y, platform.width, platform.height)
+        break
+
+      case 'used':
+        this.ctx.fillStyle = '#A0522D'
+        this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
+        this.ctx.strokeStyle = '#5A2D0C'
+        this.ctx.lineWidth = 3
+        this.ctx.strokeRect(platform.x, platform.y, platform.width, platform.height)
+        // Rivets in the corners
+        this.ctx.fillStyle = '#5A2D0C'
+        this.ctx.fillRect(platform.x + 4, platform.y + 4, 3, 3)
+        this.ctx.fillRect(platform.x + platform.width - 7, platform.y + 4, 3, 3)
+        this.ctx.fillRect(platform.x + 4, platform.y + platform.height - 7, 3, 3)
+        this.ctx.fillRect(platform.x + platform.width - 7, platform.y + platform.height - 7, 3, 3)
+        break
 
       case 'brick':
         let brickSuccess = true
@@ -393,6 +480,67 @@ export class Renderer {
         this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
         break
 
+      case 'oneway':
+        // Thin ledge on posts - only the top is solid
+        this.ctx.fillStyle = '#DEB887'
+        this.ctx.fillRect(platform.x, platform.y, platform.width, Math.min(8, platform.height))
+        this.ctx.fillStyle = '#A0522D'
+        this.ctx.fillRect(platform.x + 4, platform.y + 8, 4, platform.height - 8)
+        this.ctx.fillRect(platform.x + platform.width - 8, platform.y + 8, 4, platform.height - 8)
+        break
+
+      case 'moving':
+        // Lift: a girder with bolts
+        this.ctx.fillStyle = '#E0E0E0'
+        this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
+        this.ctx.strokeStyle = '#808080'
+        this.ctx.lineWidth = 2
+        this.ctx.strokeRect(platform.x + 1, platform.y + 1, platform.width - 2, platform.height - 2)
+        this.ctx.fillStyle = '#808080'
+        for (let x = 8; x < platform.width - 4; x += 16) {
+          this.ctx.beginPath()
+          this.ctx.arc(platform.x + x, platform.y + platform.height / 2, 2, 0, Math.PI * 2)
+          this.ctx.fill()
+        }
+        break
+
+      case 'crumbling':
+        this.ctx.fillStyle = '#C8A165'
+        this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
+        // Cracks
+        this.ctx.strokeStyle = '#7A5A2E'
+        this.ctx.lineWidth = 2
+        this.ctx.beginPath()
+        for (let x = 12; x < platform.width; x += 24) {
+          this.ctx.moveTo(platform.x + x, platform.y)
+          this.ctx.lineTo(platform.x + x + 4, platform.y + platform.height / 2)
+          this.ctx.lineTo(platform.x + x - 2, platform.y + platform.height)
+        }
+        this.ctx.stroke()
+        break
+
+      case 'springboard': {
+        // The coil squashes for a moment when something lands
+        const squash = platform.getCompression() * platform.height * 0.4
+        const top = platform.y + squash
+        this.ctx.fillStyle = '#B22222'
+        this.ctx.fillRect(platform.x, top, platform.width, 6)
+        this.ctx.fillRect(platform.x, platform.y + platform.height - 6, platform.width, 6)
+        this.ctx.strokeStyle = '#C0C0C0'
+        this.ctx.lineWidth = 3
+        this.ctx.beginPath()
+        const coilTop = top + 6
+        const coilHeight = platform.y + platform.height - 6 - coilTop
+        for (let i = 0; i <= 4; i++) {
+          const x = platform.x + (i % 2 === 0 ? 6 : platform.width - 6)
+          const y = coilTop + (coilHeight * i) / 4
+          if (i === 0) this.ctx.moveTo(x, y)
+          else this.ctx.lineTo(x, y)
+        }
+        this.ctx.stroke()
+        break
+      }
+
       case 'castle':
         this.ctx.fillStyle = '#696969'
         this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
@@ -442,6 +590,55 @@ export class Renderer {
     this.ctx.restore()
   }
 
+  private renderMaterialRect(name: MaterialName, x: number, y: number, width: number, height: number) {
+    const material = MATERIALS[name]
+    this.ctx.fillStyle = material.color
+    if (material.liquid) {
+      this.ctx.globalAlpha = 0.55
+    }
+    this.ctx.fillRect(x, y, width, height)
+
+    switch (name) {
+      case 'water':
+      case 'lava':
+        // Lighter surface line
+        this.ctx.fillStyle = name === 'water' ? '#9CC3FF' : '#FFD23F'
+        this.ctx.fillRect(x, y, width, Math.min(3, height))
+        break
+      case 'ice':
+        // Shine along the top
+        this.ctx.fillStyle = '#FFFFFF'
+        this.ctx.fillRect(x, y, width, Math.min(3, height))
+        break
+      case 'mud':
+        this.ctx.fillStyle = '#5A3A20'
+        for (let i = 6; i < width; i += 14) {
+          this.ctx.fillRect(x + i, y + 2 + (i % 3) * 2, 4, 3)
+        }
+        break
+      case 'bouncy':
+        this.ctx.fillStyle = '#FFFFFF'
+        this.ctx.fillRect(x, y + Math.min(4, height / 3), width, 2)
+        break
+      case 'conveyor':
+      case 'conveyor_left': {
+        // Chevrons pointing the way the belt runs
+        const direction = Math.sign(material.conveyor ?? 1)
+        this.ctx.strokeStyle = '#333333'
+        this.ctx.lineWidth = 2
+        this.ctx.beginPath()
+        const middle = y + Math.min(height, 16) / 2
+        for (let i = 8; i < width - 4; i += 16) {
+          this.ctx.moveTo(x + i - 3 * direction, middle - 4)
+          this.ctx.lineTo(x + i + 3 * direction, middle)
+          this.ctx.lineTo(x + i - 3 * direction, middle + 4)
+        }
+        this.ctx.stroke()
+        break
+      }
+    }
+  }
+
   public renderEntity(entity: Entity) {
     entity.render(this.ctx)
 
@@ -465,18 +662,60 @@ export class Renderer {
     )
   }
 
+  public renderGhost(ghost: Ghost, alpha = 1) {
+    const position = ghost.getInterpolatedPosition(alpha)
+
+    this.ctx.save()
+    this.ctx.globalAlpha = 0.4
+
+    // Same draw size and alignment as Player.render
+    const drawHeight = ghost.isBig ? 40 : 28
+    const drawWidth = ghost.isBig ? 26 : 18
+    const drawX = position.x + (ghost.width - drawWidth) / 2
+    const drawY = position.y + (ghost.height - drawHeight)
+
+    const spriteDrawn = this.spriteLoader.drawSprite(
+      this.ctx,
+      ghost.getSpriteName(),
+      0,
+      drawX,
+      drawY,
+      drawWidth,
+      drawHeight
+    )
+
+    if (!spriteDrawn) {
+      this.ctx.fillStyle = '#FFFFFF'
+      this.ctx.fillRect(drawX, drawY, drawWidth, drawHeight)
+    }
+
+    // Label above the ghost
+    this.ctx.fillStyle = '#FFFFFF'
+    this.ctx.font = 'bold 10px Arial'
+    this.ctx.textAlign = 'center'
+    this.ctx.textBaseline = 'bottom'
+    this.ctx.fillText(ghost.label, drawX + drawWidth / 2, drawY - 4)
+
+    this.ctx.restore()
+  }
+
   public renderUI(data: UIData) {
     // Update DOM elements instead of drawing on canvas
     const elapsed_timeElement = document.getElementById('elapsed_time')
     const num_deathsElement = document.getElementById('num_deaths')
     const coinsElement = document.getElementById('coins')
+    const livesElement = document.getElementById('lives')
 
     if (elapsed_timeElement) elapsed_timeElement.textContent = data.elapsed_time.toFixed(2)
     if (num_deathsElement) num_deathsElement.textContent = data.num_deaths.toString()
     if (coinsElement) coinsElement.textContent = data.coins.toString()
+    if (livesElement) livesElement.textContent = data.lives === null ? '∞' : data.lives.toString()
   }
 
-  public renderParticle(x: number, y: number, type: string) {
+  /**
+   * @param life - Remaining life from 1 (just spawned) to 0, fades the particle out
+   */
+  public renderParticle(x: number, y: number, type: string, life = 1) {
     this.ctx.save()
 
     switch(type) {
@@ -511,6 +750,42 @@ export class Renderer {
           this.ctx.fill()
         }
         break
+
+      case 'blockCoin': {
+        // Coin jumping out of a block: up, then back down as it fades
+        const rise = Math.sin((1 - life) * Math.PI) * 48
+        this.ctx.globalAlpha = Math.min(1, life * 2)
+        this.ctx.fillStyle = '#FFD700'
+        this.ctx.beginPath()
+        this.ctx.ellipse(x, y - rise, 6 * Math.abs(Math.cos((1 - life) * Math.PI * 4)) + 2, 10, 0, 0, Math.PI * 2)
+        this.ctx.fill()
+        break
+      }
+
+      case 'fire':
+        // Ember left behind by a fireball
+        this.ctx.globalAlpha = life
+        this.ctx.fillStyle = '#FF8C00'
+        this.ctx.beginPath()
+        this.ctx.arc(x, y, 2 + life * 3, 0, Math.PI * 2)
+        this.ctx.fill()
+        break
+
+      case 'fireballBurst': {
+        // Ring of sparks that grows as it fades
+        const radius = 4 + (1 - life) * 14
+        this.ctx.globalAlpha = life
+        this.ctx.fillStyle = '#FFD700'
+        for (let i = 0; i < 6; i++) {
+          const angle = (i / 6) * Math.PI * 2
+          this.ctx.fillRect(x + Math.cos(angle) * radius - 2, y + Math.sin(angle) * radius - 2, 4, 4)
+        }
+        this.ctx.fillStyle = '#FF4500'
+        this.ctx.beginPath()
+        this.ctx.arc(x, y, 4 * life, 0, Math.PI * 2)
+        this.ctx.fill()
+        break
+      }
     }
 
     this.ctx.restore()
@@ -617,4 +892,8 @@ export class Renderer {
   //   this.ctx.quadraticCurveTo(x, y, x + radius, y)
   //   this.ctx.closePath()
   // }
+}
+
+function overlaps(a: Bounds, b: Bounds): boolean {
+  return a.left <= b.right && a.right >= b.left && a.top <= b.bottom && a.bottom >= b.top
 }
\ No newline at end of file
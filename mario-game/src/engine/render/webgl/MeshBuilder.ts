@@ -0,0 +1,180 @@
+import { type AtlasRegion, type TextureAtlas } from './TextureAtlas'
+
+// RGBA, each 0-1, not premultiplied
+export type Color = [number, number, number, number]
+
+export const WHITE: Color = [1, 1, 1, 1]
+
+// x, y, u, v, r, g, b, a
+export const FLOATS_PER_VERTEX = 8
+
+// A run of triangles drawn with one texture
+export interface MeshSegment {
+  texture: WebGLTexture
+  first: number // first vertex
+  count: number
+}
+
+/**
+ * Collects textured, colored triangles in world coordinates, split into segments wherever the
+ * texture changes, so a whole batch goes to the GPU in one buffer and a few draw calls.
+ * Plain fills sample the atlas' white texel, so they batch with sprites from the same page.
+ */
+export class MeshBuilder {
+  public segments: MeshSegment[] = []
+  private data: number[] = []
+  private atlas: TextureAtlas
+
+  constructor(atlas: TextureAtlas) {
+    this.atlas = atlas
+  }
+
+  public get vertexCount(): number {
+    return this.data.length / FLOATS_PER_VERTEX
+  }
+
+  public clear() {
+    this.data.length = 0
+    this.segments = []
+  }
+
+  public toArray(): Float32Array {
+    return new Float32Array(this.data)
+  }
+
+  public rect(x: number, y: number, width: number, height: number, color: Color) {
+    this.sprite(this.atlas.solid, x, y, width, height, color)
+  }
+
+  // Fill with a top-to-bottom gradient through `colors`, evenly spaced like Canvas2D color stops
+  public gradientRect(x: number, y: number, width: number, height: number, colors: Color[], opacity = 1) {
+    if (colors.length === 1) {
+      this.rect(x, y, width, height, fade(colors[0], opacity))
+      return
+    }
+    const band = height / (colors.length - 1)
+    for (let i = 0; i + 1 < colors.length; i++) {
+      const top = fade(colors[i], opacity)
+      const bottom = fade(colors[i + 1], opacity)
+      const y0 = y + band * i
+      const y1 = y0 + band
+      const { u0, v0, u1, v1, texture } = this.atlas.solid
+      this.vertex(texture, x, y0, u0, v0, top)
+      this.vertex(texture, x + width, y0, u1, v0, top)
+      this.vertex(texture, x, y1, u0, v1, bottom)
+      this.vertex(texture, x + width, y0, u1, v0, top)
+      this.vertex(texture, x + width, y1, u1, v1, bottom)
+      this.vertex(texture, x, y1, u0, v1, bottom)
+    }
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number, lineWidth: number, color: Color) {
+    const half = lineWidth / 2
+    this.rect(x - half, y - half, width + lineWidth, lineWidth, color)
+    this.rect(x - half, y + height - half, width + lineWidth, lineWidth, color)
+    this.rect(x - half, y + half, lineWidth, height - lineWidth, color)
+    this.rect(x + width - half, y + half, lineWidth, height - lineWidth, color)
+  }
+
+  public sprite(region: AtlasRegion, x: number, y: number, width: number, height: number, color: Color = WHITE) {
+    const { u0, v0, u1, v1, texture } = region
+    this.vertex(texture, x, y, u0, v0, color)
+    this.vertex(texture, x + width, y, u1, v0, color)
+    this.vertex(texture, x, y + height, u0, v1, color)
+    this.vertex(texture, x + width, y, u1, v0, color)
+    this.vertex(texture, x + width, y + height, u1, v1, color)
+    this.vertex(texture, x, y + height, u0, v1, color)
+  }
+
+  /**
+   * A whole texture (not from the atlas), e.g. a background image
+   */
+  public image(texture: WebGLTexture, x: number, y: number, width: number, height: number, color: Color = WHITE) {
+    this.sprite({ texture, u0: 0, v0: 0, u1: 1, v1: 1 }, x, y, width, height, color)
+  }
+
+  /**
+   * Triangles over `points` (indices three per triangle, see triangulate), offset by (dx, dy)
+   */
+  public triangles(points: number[][], indices: number[], color: Color, dx = 0, dy = 0) {
+    const { u0, v0, texture } = this.atlas.solid
+    for (const index of indices) {
+      this.vertex(texture, points[index][0] + dx, points[index][1] + dy, u0, v0, color)
+    }
+  }
+
+  // A segment `width` thick, with square ends so joined segments leave no gaps at the corners
+  public line(x1: number, y1: number, x2: number, y2: number, width: number, color: Color) {
+    const length = Math.hypot(x2 - x1, y2 - y1)
+    if (length === 0) return
+    const half = width / 2
+    // Along and across the segment, half the width long
+    const ax = ((x2 - x1) / length) * half
+    const ay = ((y2 - y1) / length) * half
+    const nx = -ay
+    const ny = ax
+    const { u0, v0, texture } = this.atlas.solid
+    const corners = [
+      [x1 - ax + nx, y1 - ay + ny],
+      [x2 + ax + nx, y2 + ay + ny],
+      [x2 + ax - nx, y2 + ay - ny],
+      [x1 - ax - nx, y1 - ay - ny]
+    ]
+    for (const index of [0, 1, 2, 0, 2, 3]) {
+      this.vertex(texture, corners[index][0], corners[index][1], u0, v0, color)
+    }
+  }
+
+  private vertex(texture: WebGLTexture, x: number, y: number, u: number, v: number, color: Color) {
+    const last = this.segments[this.segments.length - 1]
+    if (last && last.texture === texture) {
+      last.count++
+    } else {
+      this.segments.push({ texture, first: this.vertexCount, count: 1 })
+    }
+    this.data.push(x, y, u, v, color[0], color[1], color[2], color[3])
+  }
+}
+
+const colorCache = new Map<string, Color>()
+let colorContext: CanvasRenderingContext2D | null = null
+
+/**
+ * A CSS color as RGBA - hex and rgb()/rgba() directly, anything else (names, hsl) through a canvas
+ */
+export function parseColor(css: string): Color {
+  const cached = colorCache.get(css)
+  if (cached) return cached
+
+  let color = parseCanonicalColor(css)
+  if (!color) {
+    colorContext ??= document.createElement('canvas').getContext('2d')
+    if (colorContext) {
+      colorContext.fillStyle = '#000000'
+      colorContext.fillStyle = css
+      color = parseCanonicalColor(String(colorContext.fillStyle))
+    }
+  }
+  const result = color ?? [0, 0, 0, 1]
+  colorCache.set(css, result)
+  return result
+}
+
+export function fade(color: Color, opacity: number): Color {
+  return opacity === 1 ? color : [color[0], color[1], color[2], color[3] * opacity]
+}
+
+function parseCanonicalColor(css: string): Color | null {
+  const value = css.trim()
+  const hex = /^#([0-9a-f]{3,8})$/i.exec(value)?.[1]
+  if (hex && (hex.length === 3 || hex.length === 6 || hex.length === 8)) {
+    const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex
+    const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255
+    return [channel(0), channel(1), channel(2), full.length === 8 ? channel(3) : 1]
+  }
+  const rgb = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(value)
+  if (rgb) {
+    return [Number(rgb[1]) / 255, Number(rgb[2]) / 255, Number(rgb[3]) / 255, rgb[4] === undefined ? 1 : Number(rgb[4])]
+  }
+  return null
+}
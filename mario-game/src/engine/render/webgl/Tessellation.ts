@@ -0,0 +1,67 @@
+/**
+ * Split a polygon outline into triangles by ear clipping. Returns indices into `points`, three
+ * per triangle. Any simple outline works, whichever way it winds; for a self-intersecting one
+ * (a messy trace) whatever can't be clipped is filled with a fan, like a canvas would roughly do.
+ */
+export function triangulate(points: number[][]): number[] {
+  if (points.length < 3) return []
+
+  // Walk the outline so that convex corners turn left
+  const remaining = points.map((_, i) => i)
+  if (signedArea(points) < 0) remaining.reverse()
+
+  const triangles: number[] = []
+  let i = 0
+  let misses = 0
+  while (remaining.length > 3 && misses < remaining.length) {
+    const count = remaining.length
+    const a = remaining[(i + count - 1) % count]
+    const b = remaining[i % count]
+    const c = remaining[(i + 1) % count]
+    if (isEar(points, remaining, a, b, c)) {
+      triangles.push(a, b, c)
+      remaining.splice(i % count, 1)
+      misses = 0
+    } else {
+      i++
+      misses++
+    }
+    i %= remaining.length
+  }
+
+  for (let j = 1; j + 1 < remaining.length; j++) {
+    triangles.push(remaining[0], remaining[j], remaining[j + 1])
+  }
+  return triangles
+}
+
+// Shoelace formula - positive or negative depending on which way the outline winds
+function signedArea(points: number[][]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % points.length]
+    area += x1 * y2 - x2 * y1
+  }
+  return area / 2
+}
+
+function cross(a: number[], b: number[], c: number[]): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])
+}
+
+// A convex corner with no other point of the outline inside the triangle it cuts off
+function isEar(points: number[][], remaining: number[], a: number, b: number, c: number): boolean {
+  const pa = points[a]
+  const pb = points[b]
+  const pc = points[c]
+  if (cross(pa, pb, pc) <= 0) return false
+
+  for (const index of remaining) {
+    if (index === a || index === b || index === c) continue
+    const p = points[index]
+    if ((p[0] === pa[0] && p[1] === pa[1]) || (p[0] === pb[0] && p[1] === pb[1]) || (p[0] === pc[0] && p[1] === pc[1])) continue
+    if (cross(pa, pb, p) >= 0 && cross(pb, pc, p) >= 0 && cross(pc, pa, p) >= 0) return false
+  }
+  return true
+}
@@ -0,0 +1,155 @@
+import { type SpriteLoader } from '../../sprites/SpriteLoader'
+import { BUILT_IN_SPRITES, BUILT_IN_SPRITE_SIZES, drawBuiltInSprite } from '../Backgrounds'
+
+// A spot on one of the atlas' textures, in texture coordinates
+export interface AtlasRegion {
+  texture: WebGLTexture
+  u0: number
+  v0: number
+  u1: number
+  v1: number
+}
+
+const PAGE_SIZE = 1024
+const PADDING = 2 // between packed images, filled with their edge pixels so filtering doesn't bleed
+
+interface Page {
+  canvas: HTMLCanvasElement
+  ctx: CanvasRenderingContext2D
+  texture: WebGLTexture // filled in once everything is packed
+  shelfX: number
+  shelfY: number
+  shelfHeight: number
+}
+
+/**
+ * Every SpriteLoader sprite (its first frame, the one the renderers draw) and the built-in
+ * background drawings, packed onto as few 1024px textures as they fit on, so the level's
+ * tiles draw in a handful of calls. Repacked whenever more sprites have loaded.
+ */
+export class TextureAtlas {
+  public solid!: AtlasRegion // a white texel, for plain color fills
+  private gl: WebGL2RenderingContext
+  private pages: Page[] = []
+  private regions = new Map<string, AtlasRegion>()
+  private version = -1
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl
+  }
+
+  public get(name: string): AtlasRegion | null {
+    return this.regions.get(name) ?? null
+  }
+
+  /**
+   * Repack if sprites have loaded since the last time - returns whether it did, since every
+   * region changes
+   */
+  public sync(spriteLoader: SpriteLoader): boolean {
+    const version = spriteLoader.getVersion()
+    if (version === this.version) return false
+    this.version = version
+    this.rebuild(spriteLoader)
+    return true
+  }
+
+  private rebuild(spriteLoader: SpriteLoader) {
+    this.pages.forEach(page => this.gl.deleteTexture(page.texture))
+    this.pages = []
+    this.regions.clear()
+
+    const white = this.pack(4, 4, (ctx, x, y) => {
+      ctx.fillStyle = '#FFFFFF'
+      ctx.fillRect(x, y, 4, 4)
+    })
+    // Sample the middle of it, never the edge
+    const middleU = (white.u0 + white.u1) / 2
+    const middleV = (white.v0 + white.v1) / 2
+    Object.assign(white, { u0: middleU, u1: middleU, v0: middleV, v1: middleV })
+    this.solid = white
+
+    spriteLoader.getSpriteNames().forEach(name => {
+      const sprite = spriteLoader.getSprite(name)
+      const frame = sprite?.frames[0]
+      if (!sprite || !frame) return
+      if (frame.width > PAGE_SIZE - PADDING * 2 || frame.height > PAGE_SIZE - PADDING * 2) {
+        console.warn(`⚠️ Sprite '${name}' is too big for the texture atlas, skipping it`)
+        return
+      }
+      this.regions.set(name, this.pack(frame.width, frame.height, (ctx, x, y) => {
+        ctx.drawImage(sprite.image, frame.x, frame.y, frame.width, frame.height, x, y, frame.width, frame.height)
+      }))
+    })
+
+    // Built-in drawings win over loaded sprites of the same name, as in the Canvas2D renderer
+    BUILT_IN_SPRITES.forEach(name => {
+      const { width, height } = BUILT_IN_SPRITE_SIZES[name]
+      this.regions.set(name, this.pack(width, height, (ctx, x, y) => {
+        drawBuiltInSprite(ctx, name, x, y, width, height)
+      }))
+    })
+
+    this.pages.forEach(page => uploadTexture(this.gl, page.canvas, page.texture))
+  }
+
+  // Find room on a page - simple shelf packing, plenty for a few dozen sprites
+  private pack(width: number, height: number, draw: (ctx: CanvasRenderingContext2D, x: number, y: number) => void): AtlasRegion {
+    let page = this.pages[this.pages.length - 1]
+    if (page && page.shelfX + width + PADDING * 2 > PAGE_SIZE) {
+      page.shelfY += page.shelfHeight
+      page.shelfX = 0
+      page.shelfHeight = 0
+    }
+    if (!page || page.shelfY + height + PADDING * 2 > PAGE_SIZE) {
+      page = createPage(this.gl)
+      this.pages.push(page)
+    }
+
+    const x = page.shelfX + PADDING
+    const y = page.shelfY + PADDING
+    draw(page.ctx, x, y)
+    extrudeEdges(page.ctx, x, y, width, height)
+    page.shelfX += width + PADDING * 2
+    page.shelfHeight = Math.max(page.shelfHeight, height + PADDING * 2)
+
+    return {
+      texture: page.texture,
+      u0: x / PAGE_SIZE,
+      v0: y / PAGE_SIZE,
+      u1: (x + width) / PAGE_SIZE,
+      v1: (y + height) / PAGE_SIZE
+    }
+  }
+}
+
+/**
+ * Upload a canvas or image as a texture (premultiplied, smoothed, clamped) - into `texture` if given
+ */
+export function uploadTexture(gl: WebGL2RenderingContext, source: TexImageSource, texture?: WebGLTexture): WebGLTexture {
+  const target = texture ?? gl.createTexture()!
+  gl.bindTexture(gl.TEXTURE_2D, target)
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true)
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  return target
+}
+
+function createPage(gl: WebGL2RenderingContext): Page {
+  const canvas = document.createElement('canvas')
+  canvas.width = PAGE_SIZE
+  canvas.height = PAGE_SIZE
+  return { canvas, ctx: canvas.getContext('2d')!, texture: gl.createTexture()!, shelfX: 0, shelfY: 0, shelfHeight: 0 }
+}
+
+// Copy the outermost pixels one step out, so smoothing at a tile's edge samples the tile itself
+function extrudeEdges(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) {
+  const canvas = ctx.canvas
+  ctx.drawImage(canvas, x, y, width, 1, x, y - 1, width, 1)
+  ctx.drawImage(canvas, x, y + height - 1, width, 1, x, y + height, width, 1)
+  ctx.drawImage(canvas, x, y - 1, 1, height + 2, x - 1, y - 1, 1, height + 2)
+  ctx.drawImage(canvas, x + width - 1, y - 1, 1, height + 2, x + width, y - 1, 1, height + 2)
+}
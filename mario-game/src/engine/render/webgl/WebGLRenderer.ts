@@ -0,0 +1,612 @@
+import { type Entity } from '../../entities/Entity'
+import { type Level } from '../../level/Level'
+import { type Platform } from '../../level/Platform'
+import { type Polygon } from '../../level/Polygon'
+import { type Dialog } from '../../ui/DialogManager'
+import { type Ghost } from '../../replay/Ghost'
+import { SpriteLoader } from '../../sprites/SpriteLoader'
+import { DebugMode } from '../../debug/DebugMode'
+import { MATERIALS, type MaterialName } from '../../physics/Materials'
+import { DEFAULT_BACKGROUND, forEachBackgroundCopy, getBackgroundLayerSize, resolveBackground, type BackgroundSetting } from '../Backgrounds'
+import { getViewBounds } from '../Camera'
+import { Renderer, type UIData } from '../Renderer'
+import { type GameRenderer, type RendererBackend } from '../GameRenderer'
+import { TextureAtlas, uploadTexture } from './TextureAtlas'
+import { FLOATS_PER_VERTEX, MeshBuilder, WHITE, fade, parseColor, type Color, type MeshSegment } from './MeshBuilder'
+import { triangulate } from './Tessellation'
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+in vec2 a_uv;
+in vec4 a_color;
+uniform mat3 u_matrix;
+out vec2 v_uv;
+out vec4 v_color;
+void main() {
+  vec3 position = u_matrix * vec3(a_position, 1.0);
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+  v_uv = a_uv;
+  v_color = a_color;
+}`
+
+// Textures are premultiplied, vertex colors aren't - the output is premultiplied again
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+in vec4 v_color;
+uniform sampler2D u_texture;
+out vec4 outColor;
+void main() {
+  vec4 texel = texture(u_texture, v_uv);
+  outColor = vec4(texel.rgb * v_color.rgb, texel.a) * v_color.a;
+}`
+
+const SKY_BLUE = '#5C94FC'
+const GOAL_PIPE_TINT: Color = [1, 0.85, 0.45, 1] // stands in for the Canvas2D renderer's golden filter
+
+// A vertex buffer and the attribute layout that reads it
+interface VertexBuffer {
+  buffer: WebGLBuffer
+  vertexArray: WebGLVertexArrayObject
+}
+
+/**
+ * WebGL2 renderer. The background and the level - what grows with the size of the map - are
+ * drawn on the GPU: sprites come from a texture atlas in a few batched draw calls, polygons are
+ * tessellated into triangles, and the level's static geometry stays in a vertex buffer until it
+ * changes. Entities, particles, the ghost and dialogs draw themselves with the Canvas 2D API, so
+ * they go on a 2D overlay canvas, which is uploaded and laid over the frame once in present().
+ */
+export class WebGLRenderer implements GameRenderer {
+  public readonly backend: RendererBackend = 'webgl2'
+  private gl: WebGL2RenderingContext
+  private width: number
+  private height: number
+  private program: WebGLProgram
+  private matrixLocation: WebGLUniformLocation | null
+  private dynamicBuffer: VertexBuffer
+  private levelBuffer: VertexBuffer
+  private atlas: TextureAtlas
+  private batch: MeshBuilder // drawn and emptied by flush()
+  private levelMesh: MeshBuilder // the level's static geometry, kept until it changes
+  private levelSegments: MeshSegment[] = []
+  private meshedLevel: Level | null = null
+  private meshedRevision = -1
+  private atlasChanged = true
+  private polygonTriangles = new WeakMap<Polygon, { contours: number[][]; indices: number[] }>()
+  private imageTextures = new Map<HTMLImageElement, WebGLTexture | null>()
+  private overlayCanvas: HTMLCanvasElement
+  private overlayCtx: CanvasRenderingContext2D
+  private overlay: Renderer
+  private overlayTexture: WebGLTexture
+  private spriteLoader: SpriteLoader
+  private debugMode: DebugMode
+
+  /**
+   * A WebGL2 renderer for `canvas`, or null if the browser can't give it a WebGL2 context
+   */
+  public static create(canvas: HTMLCanvasElement): WebGLRenderer | null {
+    const gl = canvas.getContext('webgl2', { alpha: false, antialias: true })
+    return gl ? new WebGLRenderer(gl, canvas.width, canvas.height) : null
+  }
+
+  private constructor(gl: WebGL2RenderingContext, width: number, height: number) {
+    this.gl = gl
+    this.width = width
+    this.height = height
+    this.spriteLoader = SpriteLoader.getInstance()
+    this.debugMode = DebugMode.getInstance()
+
+    this.program = createProgram(gl)
+    this.matrixLocation = gl.getUniformLocation(this.program, 'u_matrix')
+    this.dynamicBuffer = createVertexBuffer(gl)
+    this.levelBuffer = createVertexBuffer(gl)
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+
+    this.atlas = new TextureAtlas(gl)
+    this.atlas.sync(this.spriteLoader)
+    this.batch = new MeshBuilder(this.atlas)
+    this.levelMesh = new MeshBuilder(this.atlas)
+
+    this.overlayCanvas = document.createElement('canvas')
+    this.overlayCanvas.width = width
+    this.overlayCanvas.height = height
+    this.overlayCtx = this.overlayCanvas.getContext('2d')!
+    this.overlay = new Renderer(this.overlayCtx, width, height)
+    this.overlayTexture = gl.createTexture()!
+  }
+
+  public getOverlayContext(): CanvasRenderingContext2D {
+    return this.overlayCtx
+  }
+
+  public resize(width: number, height: number) {
+    this.width = width
+    this.height = height
+    this.overlayCanvas.width = width
+    this.overlayCanvas.height = height
+    this.overlay.resize(width, height)
+  }
+
+  public clear() {
+    const { gl } = this
+    if (this.atlas.sync(this.spriteLoader)) {
+      this.atlasChanged = true
+    }
+
+    gl.viewport(0, 0, this.width, this.height)
+    const [r, g, b] = parseColor(SKY_BLUE)
+    gl.clearColor(r, g, b, 1)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+
+    this.overlayCtx.save()
+    this.overlayCtx.setTransform(1, 0, 0, 1, 0, 0)
+    this.overlayCtx.clearRect(0, 0, this.width, this.height)
+    this.overlayCtx.restore()
+  }
+
+  /**
+   * @param camera - Top-left of the view in world coordinates (see Renderer.renderBackground)
+   */
+  public renderBackground(background: BackgroundSetting = DEFAULT_BACKGROUND, camera: { x: number; y: number } = { x: 0, y: 0 }) {
+    const screen = { width: this.width, height: this.height }
+    resolveBackground(background).layers.forEach(layer => {
+      const size = getBackgroundLayerSize(layer, screen, this.spriteLoader)
+      if (!size) return
+      const opacity = Math.max(0, Math.min(1, layer.opacity ?? 1))
+      const tint = fade(WHITE, opacity)
+
+      let draw: (x: number, y: number) => void
+      if (layer.image) {
+        const image = this.spriteLoader.requestImage(layer.image)
+        const texture = image ? this.getImageTexture(image) : null
+        if (!texture) return
+        draw = (x, y) => this.batch.image(texture, x, y, size.width, size.height, tint)
+      } else if (layer.sprite) {
+        const region = this.atlas.get(layer.sprite)
+        if (!region) return
+        draw = (x, y) => this.batch.sprite(region, x, y, size.width, size.height, tint)
+      } else if (layer.color) {
+        const colors = (Array.isArray(layer.color) ? layer.color : [layer.color]).map(parseColor)
+        if (colors.length === 0) return
+        draw = (x, y) => this.batch.gradientRect(x, y, size.width, size.height, colors, opacity)
+      } else {
+        return
+      }
+      forEachBackgroundCopy(layer, size, camera, screen, draw)
+    })
+    this.flush()
+  }
+
+  /**
+   * @param alpha - How far between the last two ticks to draw moving platforms (like entities)
+   */
+  public renderLevel(level: Level, alpha = 1) {
+    if (this.debugMode.enabled) {
+      // Collision boxes and labels are Canvas2D drawings - the slow path is fine while debugging
+      this.overlay.renderLevel(level, alpha)
+      return
+    }
+
+    this.syncLevelMesh(level)
+    this.drawSegments(this.levelBuffer, this.levelSegments, this.getWorldMatrix())
+
+    // Whatever moves or changes is meshed fresh each frame, and only where it's on screen
+    const view = getViewBounds(this.overlayCtx, this.width, this.height, 16)
+    level.queryPlatforms(view).forEach(platform => {
+      if (platform.isAnimated()) this.meshPlatform(this.batch, platform, alpha)
+    })
+    const goal = level.getGoal()
+    if (goal) {
+      this.meshGoalStar(this.batch, goal.x, goal.y)
+    }
+    this.flush()
+  }
+
+  public renderEntity(entity: Entity) {
+    this.overlay.renderEntity(entity)
+  }
+
+  public renderGhost(ghost: Ghost, alpha = 1) {
+    this.overlay.renderGhost(ghost, alpha)
+  }
+
+  public renderUI(data: UIData) {
+    this.overlay.renderUI(data)
+  }
+
+  public renderParticle(x: number, y: number, type: string, life = 1) {
+    this.overlay.renderParticle(x, y, type, life)
+  }
+
+  public renderDialog(dialog: Dialog) {
+    this.overlay.renderDialog(dialog)
+  }
+
+  /**
+   * Lay the overlay - everything drawn with the Canvas 2D API this frame - over the GPU drawing
+   */
+  public present() {
+    uploadTexture(this.gl, this.overlayCanvas, this.overlayTexture)
+    this.batch.image(this.overlayTexture, 0, 0, this.width, this.height)
+    this.flush(this.getScreenMatrix())
+  }
+
+  // ==================== LEVEL GEOMETRY ====================
+
+  // Re-mesh the static geometry when the level, its geometry or the atlas changed
+  private syncLevelMesh(level: Level) {
+    const revision = level.getGeometryRevision()
+    if (level === this.meshedLevel && revision === this.meshedRevision && !this.atlasChanged) return
+    this.meshedLevel = level
+    this.meshedRevision = revision
+    this.atlasChanged = false
+
+    const mesh = this.levelMesh
+    mesh.clear()
+    level.getPlatforms().forEach(platform => {
+      if (!platform.isAnimated()) this.meshPlatform(mesh, platform)
+    })
+    level.getPolygons().forEach(polygon => this.meshPolygon(mesh, polygon))
+
+    const { gl } = this
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.levelBuffer.buffer)
+    gl.bufferData(gl.ARRAY_BUFFER, mesh.toArray(), gl.STATIC_DRAW)
+    this.levelSegments = mesh.segments
+    mesh.clear()
+  }
+
+  private meshPolygon(mesh: MeshBuilder, polygon: Polygon) {
+    const points = polygon.contours
+    if (points.length < 2) return
+
+    // Surfaces made of a material take its color, liquids are see-through
+    const material = polygon.material ? MATERIALS[polygon.material] : null
+    const opacity = material?.liquid ? 0.55 : 1
+    const fill = fade(parseColor(material?.color ?? '#666666'), opacity)
+    const outline = fade(parseColor(material ? 'rgba(0, 0, 0, 0.35)' : '#444444'), opacity)
+
+    mesh.triangles(points, this.getTriangles(polygon), fill)
+    for (let i = 0; i < points.length; i++) {
+      const [x1, y1] = points[i]
+      const [x2, y2] = points[(i + 1) % points.length]
+      mesh.line(x1, y1, x2, y2, 6, outline)
+    }
+  }
+
+  // Tessellating is the slow part of re-meshing, so each polygon keeps its triangles
+  private getTriangles(polygon: Polygon): number[] {
+    const cached = this.polygonTriangles.get(polygon)
+    if (cached && cached.contours === polygon.contours) return cached.indices
+    const indices = triangulate(polygon.contours)
+    this.polygonTriangles.set(polygon, { contours: polygon.contours, indices })
+    return indices
+  }
+
+  // Mirrors Renderer.renderPlatform, with sprites from the atlas and the same fallbacks
+  private meshPlatform(mesh: MeshBuilder, platform: Platform, alpha = 1) {
+    if (platform.invisible) return
+
+    // Moving platforms are drawn between their last two positions, crumbling ones wobble, bumped blocks pop up
+    const x = platform.x + platform.getShakeOffset() - platform.deltaX * (1 - alpha)
+    const y = platform.y - platform.getBumpOffset() - platform.deltaY * (1 - alpha)
+    const { width, height } = platform
+
+    switch (platform.used ? 'used' : platform.material ? 'material' : platform.type) {
+      case 'material':
+        this.meshMaterialRect(mesh, platform.material!, x, y, width, height)
+        break
+
+      case 'used':
+        mesh.rect(x, y, width, height, parseColor('#A0522D'))
+        mesh.strokeRect(x, y, width, height, 3, parseColor('#5A2D0C'))
+        // Rivets in the corners
+        for (const [rx, ry] of [[4, 4], [width - 7, 4], [4, height - 7], [width - 7, height - 7]]) {
+          mesh.rect(x + rx, y + ry, 3, 3, parseColor('#5A2D0C'))
+        }
+        break
+
+      case 'brick':
+        if (!this.meshTiles(mesh, 'brick', x, y, width, height)) {
+          mesh.rect(x, y, width, height, parseColor('#8B4513'))
+          for (let row = 0; row < height; row += 16) {
+            for (let column = 0; column < width; column += 32) {
+              const offset = (row / 16) % 2 === 0 ? 0 : 16
+              mesh.strokeRect(x + column + offset, y + row, 32, 16, 2, parseColor('#654321'))
+            }
+          }
+        }
+        break
+
+      case 'question':
+        if (!this.meshTiles(mesh, 'question', x, y, width, height)) {
+          mesh.rect(x, y, width, height, parseColor('#FFA500'))
+          mesh.strokeRect(x, y, width, height, 3, parseColor('#FF8C00'))
+        }
+        break
+
+      case 'pipe':
+        if (!this.meshPipe(mesh, x, y, width, height, WHITE)) {
+          mesh.rect(x, y, width, height, parseColor('#00AA00'))
+          mesh.rect(x - 8, y, width + 16, 32, parseColor('#00CC00'))
+          mesh.line(x + 5, y + 32, x + 5, y + height, 2, parseColor('#00FF00'))
+        }
+        break
+
+      case 'goal_pipe':
+        this.meshPipe(mesh, x, y, width, height, GOAL_PIPE_TINT)
+        meshStar(mesh, x + width / 2, y + 45, 8, 3.5, WHITE)
+        break
+
+      case 'ground':
+      case 'platform': {
+        const grass = this.atlas.get('grass')
+        const terrain = this.atlas.get('terrain')
+        if (grass && terrain) {
+          for (let column = 0; column < width; column += 32) {
+            mesh.sprite(grass, x + column, y, Math.min(32, width - column), 32)
+          }
+          for (let column = 0; column < width; column += 32) {
+            for (let row = 10; row < height; row += 32) {
+              mesh.sprite(terrain, x + column, y + row, Math.min(32, width - column), Math.min(32, height - row))
+            }
+          }
+        } else {
+          mesh.rect(x, y + 10, width, height - 10, parseColor('#8B4513'))
+          mesh.rect(x, y, width, 10, parseColor('#228B22'))
+        }
+        break
+      }
+
+      case 'underground':
+        mesh.rect(x, y, width, height, parseColor('#2F4F4F'))
+        break
+
+      case 'oneway':
+        // Thin ledge on posts - only the top is solid
+        mesh.rect(x, y, width, Math.min(8, height), parseColor('#DEB887'))
+        mesh.rect(x + 4, y + 8, 4, height - 8, parseColor('#A0522D'))
+        mesh.rect(x + width - 8, y + 8, 4, height - 8, parseColor('#A0522D'))
+        break
+
+      case 'moving':
+        // Lift: a girder with bolts
+        mesh.rect(x, y, width, height, parseColor('#E0E0E0'))
+        mesh.strokeRect(x + 1, y + 1, width - 2, height - 2, 2, parseColor('#808080'))
+        for (let bolt = 8; bolt < width - 4; bolt += 16) {
+          mesh.rect(x + bolt - 2, y + height / 2 - 2, 4, 4, parseColor('#808080'))
+        }
+        break
+
+      case 'crumbling':
+        mesh.rect(x, y, width, height, parseColor('#C8A165'))
+        // Cracks
+        for (let crack = 12; crack < width; crack += 24) {
+          mesh.line(x + crack, y, x + crack + 4, y + height / 2, 2, parseColor('#7A5A2E'))
+          mesh.line(x + crack + 4, y + height / 2, x + crack - 2, y + height, 2, parseColor('#7A5A2E'))
+        }
+        break
+
+      case 'springboard': {
+        // The coil squashes for a moment when something lands
+        const top = y + platform.getCompression() * height * 0.4
+        mesh.rect(x, top, width, 6, parseColor('#B22222'))
+        mesh.rect(x, y + height - 6, width, 6, parseColor('#B22222'))
+        const coilTop = top + 6
+        const coilHeight = y + height - 6 - coilTop
+        for (let i = 0; i < 4; i++) {
+          const x1 = x + (i % 2 === 0 ? 6 : width - 6)
+          const x2 = x + (i % 2 === 0 ? width - 6 : 6)
+          mesh.line(x1, coilTop + (coilHeight * i) / 4, x2, coilTop + (coilHeight * (i + 1)) / 4, 3, parseColor('#C0C0C0'))
+        }
+        break
+      }
+
+      case 'castle':
+        mesh.rect(x, y, width, height, parseColor('#696969'))
+        // Castle brick pattern
+        for (let row = 0; row < height; row += 20) {
+          for (let column = 0; column < width; column += 40) {
+            const offset = (row / 20) % 2 === 0 ? 0 : 20
+            mesh.strokeRect(x + column + offset, y + row, 40, 20, 1, parseColor('#4A4A4A'))
+          }
+        }
+        break
+
+      case 'bridge':
+        for (let plank = 0; plank < width; plank += 20) {
+          mesh.rect(x + plank, y, 15, height, parseColor('#8B4513'))
+        }
+        break
+
+      default:
+        // Unknown platform type - make it obvious (debug mode labels it)
+        mesh.rect(x, y, width, height, parseColor('#FF00FF'))
+    }
+  }
+
+  private meshMaterialRect(mesh: MeshBuilder, name: MaterialName, x: number, y: number, width: number, height: number) {
+    const material = MATERIALS[name]
+    const opacity = material.liquid ? 0.55 : 1
+    const color = (css: string) => fade(parseColor(css), opacity)
+    mesh.rect(x, y, width, height, color(material.color))
+
+    switch (name) {
+      case 'water':
+      case 'lava':
+        // Lighter surface line
+        mesh.rect(x, y, width, Math.min(3, height), color(name === 'water' ? '#9CC3FF' : '#FFD23F'))
+        break
+      case 'ice':
+        // Shine along the top
+        mesh.rect(x, y, width, Math.min(3, height), color('#FFFFFF'))
+        break
+      case 'mud':
+        for (let i = 6; i < width; i += 14) {
+          mesh.rect(x + i, y + 2 + (i % 3) * 2, 4, 3, color('#5A3A20'))
+        }
+        break
+      case 'bouncy':
+        mesh.rect(x, y + Math.min(4, height / 3), width, 2, color('#FFFFFF'))
+        break
+      case 'conveyor':
+      case 'conveyor_left': {
+        // Chevrons pointing the way the belt runs
+        const direction = Math.sign(material.conveyor ?? 1)
+        const middle = y + Math.min(height, 16) / 2
+        for (let i = 8; i < width - 4; i += 16) {
+          mesh.line(x + i - 3 * direction, middle - 4, x + i + 3 * direction, middle, 2, color('#333333'))
+          mesh.line(x + i + 3 * direction, middle, x + i - 3 * direction, middle + 4, 2, color('#333333'))
+        }
+        break
+      }
+    }
+  }
+
+  // Fill the box with a sprite in 32px tiles - false if the sprite isn't loaded
+  private meshTiles(mesh: MeshBuilder, name: string, x: number, y: number, width: number, height: number): boolean {
+    const region = this.atlas.get(name)
+    if (!region) return false
+    for (let column = 0; column < width; column += 32) {
+      for (let row = 0; row < height; row += 32) {
+        mesh.sprite(region, x + column, y + row, Math.min(32, width - column), Math.min(32, height - row))
+      }
+    }
+    return true
+  }
+
+  private meshPipe(mesh: MeshBuilder, x: number, y: number, width: number, height: number, tint: Color): boolean {
+    const top = this.atlas.get('pipe_top')
+    const body = this.atlas.get('pipe_body')
+    if (!top || !body) return false
+    mesh.sprite(top, x - 8, y, width + 16, 32, tint)
+    for (let row = 32; row < height; row += 32) {
+      mesh.sprite(body, x, y + row, width, Math.min(32, height - row), tint)
+    }
+    return true
+  }
+
+  private meshGoalStar(mesh: MeshBuilder, x: number, y: number) {
+    // A faint halo stands in for the Canvas2D renderer's glow
+    meshStar(mesh, x + 16, y + 16, 26, 11, [0, 1, 0, 0.25])
+    meshStar(mesh, x + 16, y + 16, 20, 8, parseColor('#00FF00'), parseColor('#00AA00'))
+  }
+
+  // ==================== GPU ====================
+
+  private getImageTexture(image: HTMLImageElement): WebGLTexture | null {
+    if (!this.imageTextures.has(image)) {
+      try {
+        this.imageTextures.set(image, uploadTexture(this.gl, image))
+      } catch (error) {
+        // A cross-origin image without CORS can be drawn on a canvas, but not uploaded
+        console.warn(`⚠️ Can't use background image ${image.src} with WebGL:`, error)
+        this.imageTextures.set(image, null)
+      }
+    }
+    return this.imageTextures.get(image) ?? null
+  }
+
+  // Draw what's in the batch and empty it
+  private flush(matrix = this.getWorldMatrix()) {
+    if (this.batch.vertexCount === 0) return
+    const { gl } = this
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.dynamicBuffer.buffer)
+    gl.bufferData(gl.ARRAY_BUFFER, this.batch.toArray(), gl.STREAM_DRAW)
+    this.drawSegments(this.dynamicBuffer, this.batch.segments, matrix)
+    this.batch.clear()
+  }
+
+  private drawSegments(vertexBuffer: VertexBuffer, segments: MeshSegment[], matrix: Float32Array) {
+    if (segments.length === 0) return
+    const { gl } = this
+    gl.useProgram(this.program)
+    gl.uniformMatrix3fv(this.matrixLocation, false, matrix)
+    gl.bindVertexArray(vertexBuffer.vertexArray)
+    gl.activeTexture(gl.TEXTURE0)
+    segments.forEach(segment => {
+      gl.bindTexture(gl.TEXTURE_2D, segment.texture)
+      gl.drawArrays(gl.TRIANGLES, segment.first, segment.count)
+    })
+    gl.bindVertexArray(null)
+  }
+
+  // World to clip space, through the transform the caller set on the overlay (its camera)
+  private getWorldMatrix(): Float32Array {
+    const { a, b, c, d, e, f } = this.overlayCtx.getTransform()
+    return toClipMatrix(a, b, c, d, e, f, this.width, this.height)
+  }
+
+  private getScreenMatrix(): Float32Array {
+    return toClipMatrix(1, 0, 0, 1, 0, 0, this.width, this.height)
+  }
+}
+
+// A 2D transform (canvas style: pixels, y down) followed by pixels to clip space, as a column-major mat3
+function toClipMatrix(a: number, b: number, c: number, d: number, e: number, f: number, width: number, height: number): Float32Array {
+  const sx = 2 / width
+  const sy = -2 / height
+  return new Float32Array([
+    a * sx, b * sy, 0,
+    c * sx, d * sy, 0,
+    e * sx - 1, f * sy + 1, 1
+  ])
+}
+
+function meshStar(mesh: MeshBuilder, centerX: number, centerY: number, outerRadius: number, innerRadius: number, fill: Color, outline?: Color) {
+  const spikes = 5
+  const points: number[][] = []
+  for (let i = 0; i < spikes * 2; i++) {
+    const radius = i % 2 === 0 ? outerRadius : innerRadius
+    const angle = (i * Math.PI) / spikes
+    points.push([centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius])
+  }
+  mesh.triangles(points, triangulate(points), fill)
+  if (outline) {
+    points.forEach(([x1, y1], i) => {
+      const [x2, y2] = points[(i + 1) % points.length]
+      mesh.line(x1, y1, x2, y2, 2, outline)
+    })
+  }
+}
+
+function createProgram(gl: WebGL2RenderingContext): WebGLProgram {
+  const program = gl.createProgram()!
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER))
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER))
+  gl.bindAttribLocation(program, 0, 'a_position')
+  gl.bindAttribLocation(program, 1, 'a_uv')
+  gl.bindAttribLocation(program, 2, 'a_color')
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Failed to link WebGL program: ${gl.getProgramInfoLog(program)}`)
+  }
+  return program
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Failed to compile WebGL shader: ${gl.getShaderInfoLog(shader)}`)
+  }
+  return shader
+}
+
+function createVertexBuffer(gl: WebGL2RenderingContext): VertexBuffer {
+  const buffer = gl.createBuffer()!
+  const vertexArray = gl.createVertexArray()!
+  const stride = FLOATS_PER_VERTEX * 4
+  gl.bindVertexArray(vertexArray)
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+  gl.enableVertexAttribArray(0)
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, stride, 0)
+  gl.enableVertexAttribArray(1)
+  gl.vertexAttribPointer(1, 2, gl.FLOAT, false, stride, 8)
+  gl.enableVertexAttribArray(2)
+  gl.vertexAttribPointer(2, 4, gl.FLOAT, false, stride, 16)
+  gl.bindVertexArray(null)
+  return { buffer, vertexArray }
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { HeadlessSimulation } from '../headless/HeadlessSimulation'
+import { Ghost } from './Ghost'
+import { GhostStore } from './GhostStore'
+import { flatLevel } from '../../test/fixtures'
+
+// Serve the leaderboard's top run with the given replay payload
+function stubLeaderboard(replay: unknown) {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const body = url.includes('/replay')
+      ? { replay }
+      : { success: true, leaderboard: [{ record_id: 1, player: { nickname: 'Speedy' } }] }
+    return new Response(JSON.stringify(body), { status: 200 })
+  }))
+}
+
+describe('Ghost', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('follows the recorded trajectory tick by tick', () => {
+    const ghost = new Ghost([0, 100, 0, 5, 100, 0, 10, 90, 1])
+    expect(ghost.position).toEqual({ x: 0, y: 100 })
+    ghost.update(1 / 60)
+    expect(ghost.position).toEqual({ x: 5, y: 100 })
+    expect(ghost.state).toBe('running')
+    ghost.update(1 / 60)
+    expect(ghost.position).toEqual({ x: 10, y: 90 })
+    expect(ghost.isBig).toBe(true)
+  })
+
+  it('races a recorded run in step with the player', () => {
+    const recorded = HeadlessSimulation.fromLevelData(flatLevel())
+    recorded.runUntilVictory(600, { right: true, run: true })
+
+    const sim = HeadlessSimulation.fromLevelData(flatLevel())
+    const engine = sim.getEngine()
+    expect(engine.setGhost(recorded.getReplay(), 'Best')).toBe(true)
+    const state = sim.run(40, { right: true, run: true })
+    expect(engine.getGhost()!.position.x).toBeCloseTo(state.player!.x, 1)
+  })
+
+  it('only offers personal bests for levels that have them enabled', async () => {
+    const stored = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value)
+    })
+    const recorded = HeadlessSimulation.fromLevelData(flatLevel())
+    recorded.runUntilVictory(600, { right: true, run: true })
+    expect(GhostStore.savePersonalBest(recorded.getReplay()!)).toBe(true)
+
+    const engine = HeadlessSimulation.fromLevelData(flatLevel()).getEngine()
+    expect(await engine.loadGhost('personal-best')).toBe(false)
+    engine.enablePersonalBests()
+    expect(await engine.loadGhost('personal-best')).toBe(true)
+    expect(engine.getGhost()?.label).toBe('Personal Best')
+  })
+
+  it('loads the leaderboard ghost', async () => {
+    const recorded = HeadlessSimulation.fromLevelData(flatLevel())
+    recorded.runUntilVictory(600, { right: true, run: true })
+    stubLeaderboard(recorded.getReplay())
+
+    const engine = HeadlessSimulation.fromLevelData(flatLevel()).getEngine()
+    expect(await engine.loadGhost('leaderboard')).toBe(true)
+    expect(engine.getGhost()?.label).toBe('#1 Speedy')
+  })
+
+  it('ignores a malformed leaderboard replay', async () => {
+    stubLeaderboard({ version: 1, levelId: 0, seed: 1, speedMultiplier: 1, tickRate: 60, inputs: [[0, 1]], trajectory: 'broken' })
+
+    const engine = HeadlessSimulation.fromLevelData(flatLevel()).getEngine()
+    expect(await engine.loadGhost('leaderboard')).toBe(false)
+    expect(engine.getGhost()).toBeNull()
+  })
+})
@@ -0,0 +1,111 @@
+import { AnimationController, AnimationPresets, getPlayerAnimationName, getPlayerSpriteName } from '../sprites/Animation'
+import { type PlayerState } from '../entities/Player'
+import { TRAJECTORY_STRIDE, type ReplayData } from './Replay'
+
+/**
+ * A translucent copy of the player that follows a recorded trajectory tick by tick
+ */
+export class Ghost {
+  public position = { x: 0, y: 0 }
+  public width = 32
+  public height = 32
+  public state: PlayerState = 'idle'
+  public isBig = false
+  public label: string
+
+  private trajectory: number[]
+  private tick = 0
+  private previous = { x: 0, y: 0 }
+  private facing: 'left' | 'right' = 'right'
+  private animationController: AnimationController
+
+  constructor(trajectory: number[], label = 'Ghost') {
+    this.trajectory = trajectory
+    this.label = label
+    this.animationController = AnimationPresets.createPlayerAnimationController()
+    this.applyFrame(0)
+    this.previous = { ...this.position }
+  }
+
+  /**
+   * Create a ghost from a replay, or null when the replay has no trajectory
+   */
+  public static fromReplay(replay: ReplayData, label?: string): Ghost | null {
+    if (!replay.trajectory || replay.trajectory.length < TRAJECTORY_STRIDE) {
+      return null
+    }
+    return new Ghost(replay.trajectory, label)
+  }
+
+  /**
+   * Advance the ghost by one simulation tick
+   */
+  public update(dt: number): void {
+    this.previous = { ...this.position }
+    this.tick++
+    this.applyFrame(this.tick)
+
+    // Derive the movement state from the recorded motion, mirroring Player.update
+    const vx = this.position.x - this.previous.x
+    const vy = this.position.y - this.previous.y
+    if (vy < -0.5) {
+      this.state = 'jumping'
+    } else if (vy > 0.5) {
+      this.state = 'falling'
+    } else if (Math.abs(vx) > 0.5) {
+      this.state = 'running'
+    } else {
+      this.state = 'idle'
+    }
+
+    if (vx > 0) this.facing = 'right'
+    else if (vx < 0) this.facing = 'left'
+
+    const animName = getPlayerAnimationName(this.state, this.facing)
+    if (this.animationController.getCurrentAnimationName() !== animName) {
+      this.animationController.playAnimation(animName)
+    }
+    this.animationController.update(dt)
+  }
+
+  /**
+   * Position blended between the previous and current tick
+   */
+  public getInterpolatedPosition(alpha: number): { x: number; y: number } {
+    return {
+      x: this.previous.x + (this.position.x - this.previous.x) * alpha,
+      y: this.previous.y + (this.position.y - this.previous.y) * alpha
+    }
+  }
+
+  public getSpriteName(): string {
+    return getPlayerSpriteName(this.animationController)
+  }
+
+  public isFinished(): boolean {
+    return this.tick >= this.getLength() - 1
+  }
+
+  public getLength(): number {
+    return Math.floor(this.trajectory.length / TRAJECTORY_STRIDE)
+  }
+
+  public rewind(): void {
+    this.tick = 0
+    this.state = 'idle'
+    this.facing = 'right'
+    this.applyFrame(0)
+    this.previous = { ...this.position }
+    this.animationController.playAnimation('idle_right')
+  }
+
+  private applyFrame(tick: number): void {
+    // Hold the final pose once the run is over
+    const frame = Math.min(tick, this.getLength() - 1)
+    const offset = frame * TRAJECTORY_STRIDE
+    this.position.x = this.trajectory[offset]
+    this.position.y = this.trajectory[offset + 1]
+    this.isBig = this.trajectory[offset + 2] === 1
+    this.height = this.isBig ? 64 : 32
+  }
+}
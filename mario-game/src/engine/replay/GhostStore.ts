@@ -0,0 +1,47 @@
+import { isValidReplay, type ReplayData } from './Replay'
+
+/**
+ * Persists the player's personal best run per level in localStorage
+ */
+export class GhostStore {
+  private static keyPrefix = 'mario_ghost_best_'
+
+  static getPersonalBest(levelId: number): ReplayData | null {
+    try {
+      const stored = localStorage.getItem(this.keyPrefix + levelId)
+      if (!stored) return null
+
+      const replay = JSON.parse(stored)
+      return isValidReplay(replay) ? replay : null
+    } catch (error) {
+      console.warn('⚠️ Failed to read personal best ghost:', error)
+      return null
+    }
+  }
+
+  /**
+   * Save the replay if it beats the stored personal best
+   * @returns true if the replay became the new personal best
+   */
+  static savePersonalBest(replay: ReplayData): boolean {
+    if (!replay.trajectory || replay.trajectory.length === 0) return false
+
+    const current = this.getPersonalBest(replay.levelId)
+    if (current && current.totalTicks <= replay.totalTicks) {
+      return false
+    }
+
+    try {
+      localStorage.setItem(this.keyPrefix + replay.levelId, JSON.stringify(replay))
+      console.log(`👻 New personal best saved for level ${replay.levelId} (${replay.totalTicks} ticks)`)
+      return true
+    } catch (error) {
+      console.warn('⚠️ Failed to save personal best ghost:', error)
+      return false
+    }
+  }
+
+  static clearPersonalBest(levelId: number): void {
+    localStorage.removeItem(this.keyPrefix + levelId)
+  }
+}
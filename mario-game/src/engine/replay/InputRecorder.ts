@@ -0,0 +1,87 @@
+import { type InputState } from '../input/InputManager'
+import { REPLAY_VERSION, encodeInput, type ReplayData, type ReplayResult } from './Replay'
+
+export interface RecordingOptions {
+  levelId: number
+  seed: number
+  speedMultiplier: number
+  tickRate: number
+}
+
+/**
+ * Captures the per-tick input stream of a run
+ */
+export class InputRecorder {
+  private recording = false
+  private options: RecordingOptions | null = null
+  private inputs: Array<[number, number]> = []
+  private trajectory: number[] = []
+  private totalTicks = 0
+
+  public start(options: RecordingOptions): void {
+    this.options = options
+    this.inputs = []
+    this.trajectory = []
+    this.totalTicks = 0
+    this.recording = true
+  }
+
+  /**
+   * Record the input applied on one simulation tick
+   */
+  public record(input: InputState): void {
+    if (!this.recording) return
+
+    const mask = encodeInput(input)
+    const last = this.inputs[this.inputs.length - 1]
+    if (last && last[0] === mask) {
+      last[1]++
+    } else {
+      this.inputs.push([mask, 1])
+    }
+    this.totalTicks++
+  }
+
+  /**
+   * Record where the player ended up on the current tick (used to race a ghost)
+   */
+  public recordPosition(x: number, y: number, isBig: boolean): void {
+    if (!this.recording) return
+
+    // One decimal place is plenty for drawing and keeps uploads small
+    this.trajectory.push(Math.round(x * 10) / 10, Math.round(y * 10) / 10, isBig ? 1 : 0)
+  }
+
+  /**
+   * Stop recording and return the finished replay
+   */
+  public finish(result?: ReplayResult): ReplayData | null {
+    if (!this.recording || !this.options) return null
+
+    this.recording = false
+    return {
+      version: REPLAY_VERSION,
+      levelId: this.options.levelId,
+      seed: this.options.seed,
+      speedMultiplier: this.options.speedMultiplier,
+      tickRate: this.options.tickRate,
+      inputs: this.inputs.map(run => [run[0], run[1]] as [number, number]),
+      trajectory: this.trajectory.slice(),
+      totalTicks: this.totalTicks,
+      result,
+      recordedAt: new Date().toISOString()
+    }
+  }
+
+  public cancel(): void {
+    this.recording = false
+    this.options = null
+    this.inputs = []
+    this.trajectory = []
+    this.totalTicks = 0
+  }
+
+  public isRecording(): boolean {
+    return this.recording
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { HeadlessSimulation, type SimulationState } from '../headless/HeadlessSimulation'
+import { LevelSchema, type LevelDocument } from '../level/LevelSchema'
+import { type InputState } from '../input/InputManager'
+import { InputRecorder } from './InputRecorder'
+import { ReplayPlayer } from './ReplayPlayer'
+import { TICK_RATE, decodeInput, encodeInput, isValidReplay } from './Replay'
+
+const NO_INPUT: InputState = { left: false, right: false, up: false, down: false, jump: false, run: false, action: false }
+
+// Coins to pick up, a gap to jump and an enemy in the way
+function courseLevel(): LevelDocument {
+  const level = LevelSchema.createEmpty()
+  level.starts = [{ x: 50, y: 400 }]
+  level.goals = [{ x: 1100, y: 436 }]
+  level.platforms.push({ x: 0, y: 500, width: 500, height: 50 })
+  level.platforms.push({ x: 580, y: 500, width: 700, height: 50 })
+  level.coins.push({ x: 200, y: 460 }, { x: 300, y: 460 }, { x: 700, y: 460 })
+  level.enemies.push({ x: 900, y: 468, type: 'goomba' })
+  return level
+}
+
+// Run right, jumping the gap and the goomba
+const script = (_tick: number, state: SimulationState) => {
+  const x = state.player?.x ?? 0
+  return { right: true, run: true, jump: (x > 420 && x < 480) || (x > 780 && x < 840) }
+}
+
+describe('Replay encoding', () => {
+  it('round-trips every button combination', () => {
+    for (let mask = 0; mask < 128; mask++) {
+      expect(encodeInput(decodeInput(mask))).toBe(mask)
+    }
+    expect(encodeInput(NO_INPUT)).toBe(0)
+  })
+
+  it('run-length encodes held buttons', () => {
+    const recorder = new InputRecorder()
+    recorder.start({ levelId: 1, seed: 7, speedMultiplier: 1, tickRate: TICK_RATE })
+    const held = { ...NO_INPUT, right: true }
+    for (let i = 0; i < 10; i++) recorder.record(held)
+    for (let i = 0; i < 5; i++) recorder.record(NO_INPUT)
+    const replay = recorder.finish()!
+
+    expect(replay.inputs).toEqual([[encodeInput(held), 10], [0, 5]])
+    expect(replay.totalTicks).toBe(15)
+    expect(isValidReplay(replay)).toBe(true)
+
+    const player = new ReplayPlayer(replay)
+    const played: InputState[] = []
+    for (let input = player.next(); input; input = player.next()) played.push(input)
+    expect(played).toHaveLength(15)
+    expect(played[9]).toEqual(held)
+    expect(played[10]).toEqual(NO_INPUT)
+    expect(player.isFinished()).toBe(true)
+  })
+
+  it('rejects malformed replays', () => {
+    expect(isValidReplay(null)).toBe(false)
+    expect(isValidReplay({ version: 1 })).toBe(false)
+    const replay = { version: 1, levelId: 1, seed: 1, speedMultiplier: 1, tickRate: TICK_RATE, inputs: [[0, 0]], totalTicks: 0, recordedAt: '' }
+    expect(isValidReplay(replay)).toBe(false) // a run of zero ticks
+    expect(isValidReplay({ ...replay, inputs: [[0, 3]] })).toBe(true)
+    expect(isValidReplay({ ...replay, inputs: [[0, 3]], trajectory: [50, 400, 0] })).toBe(true)
+    expect(isValidReplay({ ...replay, inputs: [[0, 3]], trajectory: [50, 400] })).toBe(false)
+    expect(isValidReplay({ ...replay, inputs: [[0, 3]], trajectory: [50, '400', 0] })).toBe(false)
+    expect(isValidReplay({ ...replay, inputs: [[0, 3]], trajectory: 'abc' })).toBe(false)
+  })
+})
+
+describe('Replay playback', () => {
+  it('re-simulates a recorded run to the same result', () => {
+    const sim = HeadlessSimulation.fromLevelData(courseLevel(), { seed: 42 })
+    const live = sim.runUntilVictory(1200, script)
+    expect(live.reached).toBe(true)
+    const replay = sim.getReplay()!
+    expect(replay.result?.coins).toBe(live.state.coins)
+
+    const replayed = HeadlessSimulation.fromLevelData(courseLevel()).runReplay(replay)
+    expect(replayed.victory).toBe(true)
+    expect(replayed.tick).toBe(live.state.tick)
+    expect(replayed.coins).toBe(live.state.coins)
+    expect(replayed.player?.x).toBe(live.state.player?.x)
+    expect(replayed.player?.y).toBe(live.state.player?.y)
+  })
+
+  it('records the trajectory one frame per tick, from the spawn', () => {
+    const sim = HeadlessSimulation.fromLevelData(courseLevel())
+    const midway = sim.run(100, script).player!
+    sim.runUntilVictory(1200, script)
+    const trajectory = sim.getReplay()!.trajectory!
+    expect(trajectory.slice(0, 2)).toEqual([50, 400])
+    expect(trajectory[100 * 3]).toBeCloseTo(midway.x, 1)
+    expect(trajectory[100 * 3 + 1]).toBeCloseTo(midway.y, 1)
+  })
+})
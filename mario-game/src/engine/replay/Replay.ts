@@ -0,0 +1,95 @@
+import { type InputState } from '../input/InputManager'
+
+/**
+ * Replay format
+ * A run is fully described by the level, the seed, the speed multiplier and the
+ * per-tick input stream, because the simulation advances in fixed ticks.
+ */
+
+export const REPLAY_VERSION = 1
+
+// Simulation ticks per second. Gravity, speeds, cooldowns and every *_TICKS constant are per
+// tick, so this is the game's speed - replays recorded at another rate can't be played back.
+export const TICK_RATE = 60
+
+export interface ReplayResult {
+  ticks: number
+  deaths: number
+  coins: number
+  completionTime: number // milliseconds
+}
+
+export interface ReplayData {
+  version: number
+  levelId: number
+  seed: number
+  speedMultiplier: number
+  tickRate: number
+  // Run-length encoded input stream: [input bitmask, number of ticks]
+  inputs: Array<[number, number]>
+  // Player trajectory for ghost racing, flattened as [x, y, isBig] per tick
+  trajectory?: number[]
+  totalTicks: number
+  result?: ReplayResult
+  recordedAt: string
+}
+
+// Values stored per tick in ReplayData.trajectory
+export const TRAJECTORY_STRIDE = 3
+
+// Bit assigned to each input in the encoded stream
+const INPUT_BITS: Array<[keyof InputState, number]> = [
+  ['left', 1],
+  ['right', 2],
+  ['up', 4],
+  ['down', 8],
+  ['jump', 16],
+  ['run', 32],
+  ['action', 64]
+]
+
+export function encodeInput(input: InputState): number {
+  let mask = 0
+  for (const [key, bit] of INPUT_BITS) {
+    if (input[key]) mask |= bit
+  }
+  return mask
+}
+
+export function decodeInput(mask: number): InputState {
+  const input: InputState = {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    jump: false,
+    run: false,
+    action: false
+  }
+  for (const [key, bit] of INPUT_BITS) {
+    input[key] = (mask & bit) !== 0
+  }
+  return input
+}
+
+/**
+ * Check that an unknown value (e.g. downloaded JSON) is a replay this version can play
+ */
+export function isValidReplay(data: any): data is ReplayData {
+  if (!data || typeof data !== 'object') return false
+  if (data.version !== REPLAY_VERSION) return false
+  if (typeof data.levelId !== 'number' || typeof data.seed !== 'number') return false
+  if (typeof data.speedMultiplier !== 'number' || data.tickRate !== TICK_RATE) return false
+  if (!Array.isArray(data.inputs)) return false
+  // The ghost reads the trajectory straight off the array every tick
+  if (data.trajectory !== undefined && !(
+    Array.isArray(data.trajectory) &&
+    data.trajectory.length % TRAJECTORY_STRIDE === 0 &&
+    data.trajectory.every((value: any) => Number.isFinite(value))
+  )) return false
+
+  return data.inputs.every((run: any) =>
+    Array.isArray(run) && run.length === 2 &&
+    Number.isInteger(run[0]) && Number.isInteger(run[1]) && run[1] > 0
+  )
+}
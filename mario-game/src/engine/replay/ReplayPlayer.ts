@@ -0,0 +1,51 @@
+import { type InputState } from '../input/InputManager'
+import { decodeInput, type ReplayData } from './Replay'
+
+/**
+ * Feeds a recorded input stream back into the simulation, one tick at a time
+ */
+export class ReplayPlayer {
+  private replay: ReplayData
+  private runIndex = 0
+  private runTick = 0
+  private tick = 0
+
+  constructor(replay: ReplayData) {
+    this.replay = replay
+  }
+
+  /**
+   * Input for the next tick, or null once the recording is exhausted
+   */
+  public next(): InputState | null {
+    const run = this.replay.inputs[this.runIndex]
+    if (!run) return null
+
+    const input = decodeInput(run[0])
+    this.tick++
+    this.runTick++
+    if (this.runTick >= run[1]) {
+      this.runIndex++
+      this.runTick = 0
+    }
+    return input
+  }
+
+  public isFinished(): boolean {
+    return this.runIndex >= this.replay.inputs.length
+  }
+
+  public getTick(): number {
+    return this.tick
+  }
+
+  public getReplay(): ReplayData {
+    return this.replay
+  }
+
+  public rewind(): void {
+    this.runIndex = 0
+    this.runTick = 0
+    this.tick = 0
+  }
+}
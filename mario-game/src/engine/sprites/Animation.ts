@@ -113,6 +113,62 @@ export class AnimationPresets {
       { frameIndex: 1, duration: 400 }
     ])
   }
+
+  /**
+   * Controller with the directional idle/run/jump animations used by the player (and its ghost)
+   */
+  public static createPlayerAnimationController(): AnimationController {
+    const controller = new AnimationController()
+    controller.addAnimation('idle_right', AnimationPresets.createPlayerIdleRightAnimation())
+    controller.addAnimation('idle_left', AnimationPresets.createPlayerIdleLeftAnimation())
+    controller.addAnimation('running_right', AnimationPresets.createPlayerRunRightAnimation())
+    controller.addAnimation('running_left', AnimationPresets.createPlayerRunLeftAnimation())
+    controller.addAnimation('jumping', AnimationPresets.createPlayerJumpAnimation())
+
+    // Start with idle animation facing right
+    controller.playAnimation('idle_right')
+    return controller
+  }
+}
+
+/**
+ * Map a player movement state and facing direction to an animation name
+ */
+export function getPlayerAnimationName(
+  state: 'idle' | 'running' | 'jumping' | 'falling',
+  facing: 'left' | 'right'
+): string {
+  switch (state) {
+    case 'idle':
+      return facing === 'left' ? 'idle_left' : 'idle_right'
+    case 'running':
+      return facing === 'left' ? 'running_left' : 'running_right'
+    case 'jumping':
+    case 'falling':
+      return 'jumping'
+  }
+}
+
+/**
+ * Map the current player animation frame to a sprite name
+ */
+export function getPlayerSpriteName(controller: AnimationController): string {
+  // Each running frame is a separate image, so alternate between them
+  const frame = controller.getCurrentFrame()
+
+  switch (controller.getCurrentAnimationName()) {
+    case 'idle_left':
+      return 'player_idle_left'
+    case 'running_left':
+      return frame === 0 ? 'player_run_left_01' : 'player_run_left_02'
+    case 'running_right':
+      return frame === 0 ? 'player_run_right_01' : 'player_run_right_02'
+    case 'jumping':
+      return 'player_jump'
+    case 'idle_right':
+    default:
+      return 'player_idle_right' // default fallback
+  }
 }
 
 export class AnimationController {
@@ -14,6 +14,8 @@ export class SpriteLoader {
   private static instance: SpriteLoader
   private sprites: Map<string, SpriteData> = new Map()
   private loadedImages: Map<string, HTMLImageElement> = new Map()
+  private requestedImages: Set<string> = new Set()
+  private version = 0 // bumped as sprites arrive, so drawings cached before that can be redone
 
   private constructor() {}
 
@@ -44,16 +46,42 @@ export class SpriteLoader {
     })
   }
 
+  /**
+   * The image at `path` if it has loaded - otherwise starts loading it (once) and returns null,
+   * for things drawn every frame that can simply skip it until it arrives
+   */
+  public requestImage(path: string): HTMLImageElement | null {
+    const image = this.loadedImages.get(path)
+    if (image) return image
+    if (!this.requestedImages.has(path)) {
+      this.requestedImages.add(path)
+      this.loadImage(path).catch(() => {}) // loadImage already logged it, and it isn't retried
+    }
+    return null
+  }
+
   public async loadSprite(name: string, path: string, frames: SpriteFrame[]): Promise<void> {
     try {
       const image = await this.loadImage(path)
       this.sprites.set(name, { image, frames })
+      this.version++
     } catch (error) {
       console.warn(`🚨 Failed to load sprite '${name}' from '${path}':`, error)
       // Don't throw - let the game continue with fallback rendering
     }
   }
 
+  /**
+   * Changes whenever a sprite finishes loading
+   */
+  public getVersion(): number {
+    return this.version
+  }
+
+  public getSpriteNames(): string[] {
+    return [...this.sprites.keys()]
+  }
+
   public getSprite(name: string): SpriteData | null {
     return this.sprites.get(name) || null
   }
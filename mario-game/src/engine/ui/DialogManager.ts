@@ -87,4 +87,8 @@ export class DialogManager {
   public stopTTS(): void {
     this.ttsManager.stop()
   }
+
+  public getTextToSpeech(): TextToSpeechManager {
+    return this.ttsManager
+  }
 }
\ No newline at end of file
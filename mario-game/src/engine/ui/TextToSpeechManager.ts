@@ -3,10 +3,12 @@ export class TextToSpeechManager {
   private voices: SpeechSynthesisVoice[] = []
   private enabled = true
   private currentVoice: SpeechSynthesisVoice | null = null
+  private volume = 1
+  private speakingListener: ((speaking: boolean) => void) | null = null
 
   constructor() {
-    // Check if browser supports speech synthesis
-    if ('speechSynthesis' in window) {
+    // Check if browser supports speech synthesis (there is no window when running headless)
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
       this.synth = window.speechSynthesis
       this.loadVoices()
 
@@ -69,8 +71,13 @@ export class TextToSpeechManager {
         utterance.pitch = 0.9
     }
 
-    // Set volume (slightly reduced to not be too intrusive)
-    utterance.volume = 1.0
+    // Set volume (the AudioManager's voice bus)
+    utterance.volume = this.volume
+
+    // Let the music duck while we talk - cancel() above ends the previous utterance first
+    utterance.onstart = () => this.speakingListener?.(true)
+    utterance.onend = () => this.speakingListener?.(false)
+    utterance.onerror = () => this.speakingListener?.(false)
 
     // Speak the text
     this.synth.speak(utterance)
@@ -93,6 +100,20 @@ export class TextToSpeechManager {
     return this.enabled
   }
 
+  /**
+   * Volume of whatever is said from now on (0-1)
+   */
+  public setVolume(volume: number): void {
+    this.volume = volume
+  }
+
+  /**
+   * Called with true when speech starts and false when it ends
+   */
+  public onSpeakingChange(listener: ((speaking: boolean) => void) | null): void {
+    this.speakingListener = listener
+  }
+
   public getAvailableVoices(): SpeechSynthesisVoice[] {
     return this.voices
   }
@@ -1,35 +1,15 @@
 import { MapScaler } from './utils/MapScaler'
 import { CanvasScaler } from './utils/CanvasScaler'
+import {
+  LevelSchema,
+  LevelValidationError,
+  type LevelDocument,
+  type LevelValidationResult
+} from './engine/level/LevelSchema'
+import { OfflineStore } from './engine/offline/OfflineStore'
 
-export interface LevelData {
-  starting_points: Array<{
-    coordinates: [number, number]
-  }>
-  end_points: Array<{
-    coordinates: [number, number]
-  }>
-  rigid_bodies: Array<{
-    contour_points: Array<[number, number]>
-  }>
-  coins?: Array<{
-    x: number
-    y: number
-  }>
-  enemies?: Array<{
-    x: number
-    y: number
-    type: string
-  }>
-  spikes?: Array<{
-    coordinates: [number, number]
-  }>
-  // Add metadata for game privacy status
-  metadata?: {
-    is_public: boolean
-    level_id: string
-    title?: string
-  }
-}
+// Recognized levels are laid out on the standard 1024x576 canvas
+const STANDARD_LEVEL_BOUNDS = { width: 1024, height: 576 }
 
 export interface LevelPackData {
   id: number
@@ -116,7 +96,7 @@ export class LevelLoader {
   /**
    * Get map data from API
    */
-  static async fetchLevelData(levelId: string, apiUrl?: string): Promise<LevelData> {
+  static async fetchLevelData(levelId: string, apiUrl?: string): Promise<LevelDocument> {
     const baseUrl = apiUrl || this.apiBaseUrl
 
     try {
@@ -165,19 +145,28 @@ export class LevelLoader {
         }
       }
 
-      // 先进行智能缩放，再进行验证
-      const scaledData = this.detectAndScaleMapData(data)
-      const validatedData = this.validateLevelData(scaledData)
+      const level = this.parseLevelData(data)
 
       // Add metadata to the level data
       if (gameMetadata) {
-        validatedData.metadata = gameMetadata
+        level.metadata = gameMetadata
       }
 
-      return validatedData
+      // 缓存关卡，离线时仍可游玩
+      await OfflineStore.getInstance().saveLevel(levelId, level).catch(cacheError => {
+        console.warn('⚠️ Could not cache level for offline play:', cacheError)
+      })
+
+      return level
     } catch (error) {
       console.error('❌ Failed to fetch level data:', error)
 
+      const cached = await OfflineStore.getInstance().getLevel(levelId)
+      if (cached) {
+        console.warn(`📴 Using the copy of level ${levelId} cached ${new Date(cached.cachedAt).toLocaleString()}`)
+        return cached.level
+      }
+
       // Return default level data as fallback
       return this.getDefaultLevelData()
     }
@@ -186,7 +175,7 @@ export class LevelLoader {
   /**
    * Load compressed data directly from URL parameters (fallback method)
    */
-  static loadFromURL(): LevelData | null {
+  static loadFromURL(): LevelDocument | null {
     const urlParams = new URLSearchParams(window.location.search)
     const data = urlParams.get('data')
 
@@ -198,9 +187,7 @@ export class LevelLoader {
       const levelData = JSON.parse(decompressed)
 
       console.log('📋 Level data loaded from URL:', levelData)
-      // 先进行智能缩放，再进行验证
-      const scaledData = this.detectAndScaleMapData(levelData)
-      return this.validateLevelData(scaledData)
+      return this.parseLevelData(levelData)
     } catch (error) {
       console.error('❌ Failed to parse URL data:', error)
       return null
@@ -356,128 +343,49 @@ export class LevelLoader {
   }
 
   /**
-   * Validate and normalize map data
+   * Convert level data in any supported format (see LevelSchema) to the canonical document,
+   * scaling recognized levels to the standard canvas first.
+   * @throws LevelValidationError if the data cannot be loaded
    */
-  static validateLevelData(data: any): LevelData {
-    const validated: LevelData = {
-      starting_points: [],
-      end_points: [],
-      rigid_bodies: []
-    }
-
-    // Validate starting points
-    if (data.starting_points && Array.isArray(data.starting_points)) {
-      validated.starting_points = data.starting_points
-        .filter((point: any) => point.coordinates && Array.isArray(point.coordinates))
-        .map((point: any) => ({
-          coordinates: [
-            Math.max(0, Math.min(1024, point.coordinates[0])),
-            Math.max(0, Math.min(576, point.coordinates[1]))
-          ] as [number, number]
-        }))
-
-      console.log('🎯 Processed starting points:', validated.starting_points)
-    }
-
-    // Validate end points
-    if (data.end_points && Array.isArray(data.end_points)) {
-      validated.end_points = data.end_points
-        .filter((point: any) => point.coordinates && Array.isArray(point.coordinates))
-        .map((point: any) => ({
-          coordinates: [
-            Math.max(0, Math.min(1024, point.coordinates[0])),
-            Math.max(0, Math.min(576, point.coordinates[1]))
-          ] as [number, number]
-        }))
-
-      console.log('🏁 Processed end points:', validated.end_points)
-    }
-
-    // Validate rigid bodies (walls and platforms)
-    if (data.rigid_bodies && Array.isArray(data.rigid_bodies)) {
-      console.log('🔷 Processing rigid bodies:', data.rigid_bodies.length, 'found')
-
-      validated.rigid_bodies = data.rigid_bodies
-        .filter((body: any) => body.contour_points && Array.isArray(body.contour_points))
-        .map((body: any) => ({
-          contour_points: body.contour_points
-            .filter((point: any) => Array.isArray(point) && point.length >= 2)
-            .map((point: any) => [
-              Math.max(0, Math.min(1024, point[0])),
-              Math.max(0, Math.min(576, point[1]))
-            ] as [number, number])
-        }))
-        .filter((body: any) => body.contour_points.length >= 3) // At least 3 points to form a polygon
-
-      console.log('🔷 Processed rigid bodies:', validated.rigid_bodies.length, 'valid polygons')
-    }
-
-    // Validate coins (optional)
-    if (data.coins && Array.isArray(data.coins)) {
-      validated.coins = data.coins
-        .filter((coin: any) => {
-          // Support both formats: {x, y} and {coordinates: [x, y]}
-          return (typeof coin.x === 'number' && typeof coin.y === 'number') ||
-                 (coin.coordinates && Array.isArray(coin.coordinates) && coin.coordinates.length >= 2)
-        })
-        .map((coin: any) => {
-          // Handle both formats
-          let x, y
-          if (coin.coordinates && Array.isArray(coin.coordinates)) {
-            [x, y] = coin.coordinates
-          } else {
-            x = coin.x
-            y = coin.y
-          }
-          return {
-            x: Math.max(0, Math.min(1024, x)),
-            y: Math.max(0, Math.min(576, y))
-          }
-        })
-
-      console.log('🪙 Processed coins:', validated.coins?.length || 0, 'found')
-    }
-
-    // Validate spikes (optional, learn from local engine logic)
-    if (data.spikes && Array.isArray(data.spikes)) {
-      validated.spikes = data.spikes
-        .filter((spike: any) => {
-          // Support coordinates format from image recognition, like local engine
-          return spike.coordinates && Array.isArray(spike.coordinates) && spike.coordinates.length >= 2
-        })
-        .map((spike: any) => {
-          const [x, y] = spike.coordinates
-          return {
-            coordinates: [
-              Math.max(0, Math.min(1024, x)),
-              Math.max(0, Math.min(576, y))
-            ] as [number, number]
-          }
-        })
+  static parseLevelData(data: any, options: { scale?: boolean } = {}): LevelDocument {
+    // Backend responses may nest the level under level_data
+    const levelData = data && typeof data === 'object' && data.level_data ? data.level_data : data
+
+    // 先进行智能缩放，再进行验证
+    const scale = options.scale ?? true
+    const prepared = scale && LevelSchema.detectFormat(levelData) === 'rigid_bodies'
+      ? this.detectAndScaleMapData(levelData)
+      : levelData
+
+    const result = this.validateLevelData(prepared)
+    result.issues.forEach(issue => {
+      const log = issue.severity === 'error' ? console.error : console.warn
+      log(`${issue.severity === 'error' ? '❌' : '⚠️'} [${issue.code}] ${issue.path || 'level'}: ${issue.message}`)
+    })
 
-      console.log('🔺 Processed spikes:', validated.spikes?.length || 0, 'found')
+    if (!result.level) {
+      throw new LevelValidationError(result.issues)
     }
 
-    // Validate enemies (optional)
-    if (data.enemies && Array.isArray(data.enemies)) {
-      validated.enemies = data.enemies
-        .filter((enemy: any) => typeof enemy.x === 'number' && typeof enemy.y === 'number')
-        .map((enemy: any) => ({
-          x: Math.max(0, Math.min(1024, enemy.x)),
-          y: Math.max(0, Math.min(576, enemy.y)),
-          type: enemy.type || 'goomba'
-        }))
-    }
+    console.log(`✅ Level data validated (${result.format}):`, result.level)
+    return result.level
+  }
 
-    console.log('✅ Level data validated:', validated)
-    return validated
+  /**
+   * Validate and normalize map data
+   * Returns the normalized level together with every issue found. Malformed entries are
+   * dropped and recognized levels are clamped to the standard canvas, each with a warning.
+   */
+  static validateLevelData(data: unknown): LevelValidationResult {
+    const bounds = LevelSchema.detectFormat(data) === 'rigid_bodies' ? STANDARD_LEVEL_BOUNDS : undefined
+    return LevelSchema.validate(data, { bounds })
   }
 
   /**
    * Get default level data (fallback)
    */
-  static getDefaultLevelData(): LevelData {
-    return {
+  static getDefaultLevelData(): LevelDocument {
+    return LevelSchema.fromRigidBodyLevel({
       starting_points: [{ coordinates: [100, 400] }],
       end_points: [{ coordinates: [900, 400] }],
       rigid_bodies: [
@@ -504,7 +412,7 @@ export class LevelLoader {
         { x: 350, y: 400 },
         { x: 500, y: 300 }
       ]
-    }
+    })
   }
 
   /**
@@ -518,7 +426,7 @@ export class LevelLoader {
   /**
    * Load level data directly from JSON URL
    */
-  static async loadFromJSONUrl(jsonUrl: string): Promise<LevelData> {
+  static async loadFromJSONUrl(jsonUrl: string): Promise<LevelDocument> {
     try {
       console.log(`🌐 Loading level from JSON URL: ${jsonUrl}`)
 
@@ -536,13 +444,8 @@ export class LevelLoader {
       const data = await response.json()
       console.log('📋 Level data loaded from JSON URL:', data)
 
-      // Check if data has a nested level_data structure (from your backend)
-      const levelData = data.level_data || data
-      console.log('📋 Extracted level data:', levelData)
-
-      // 先进行智能缩放，再进行验证
-      const scaledData = this.detectAndScaleMapData(levelData)
-      return this.validateLevelData(scaledData)
+      // Nested level_data structures (from the backend) are unwrapped by parseLevelData
+      return this.parseLevelData(data)
     } catch (error) {
       console.error('❌ Failed to load from JSON URL:', error)
       throw error
@@ -553,7 +456,7 @@ export class LevelLoader {
   /**
    * Main loading function - automatically select best loading method
    */
-  static async loadLevelData(apiUrl?: string): Promise<LevelData> {
+  static async loadLevelData(apiUrl?: string): Promise<LevelDocument> {
     const urlParams = new URLSearchParams(window.location.search)
 
     console.log('🔍 Checking URL params:', window.location.search)
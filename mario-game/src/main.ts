@@ -2,6 +2,8 @@ import './style.css'
 import { GameAPI } from './engine'
 import { MobileDetector } from './utils/MobileDetector'
 import { SpeedSelector } from './ui/SpeedSelector'
+import { LevelLoader } from './levelLoader'
+import { LevelSchema } from './engine/level/LevelSchema'
 
 // Default level data (embedded to avoid deployment issues)
 const levelData = {
@@ -88,30 +90,17 @@ app.innerHTML = `
   </div>
 `
 
+// Convert the embedded level to the unified level format (already at standard size, no scaling)
+const level = LevelLoader.parseLevelData(levelData, { scale: false })
+
 // Add starting point (Mario spawn location) from level_data.json
-const startPoint = levelData.starting_points[0]
-let startX: number | undefined
-let startY: number | undefined
-if (startPoint) {
-  const [x, y] = startPoint.coordinates
-  startX = x
-  startY = y
-  console.log(`Original Start Point: (${startX}, ${startY})`)
-} else {
-  startX = 100
-  startY = 400
-  console.log('No starting point found in level_data.json, using default (100, 400)')
-}
+const { x: startX, y: startY } = LevelSchema.getPlayerStart(level)
+console.log(`Original Start Point: (${startX}, ${startY})`)
 
-// Add end point (goal pipe) from level_data.json
-const endPoint = levelData.end_points[0]
-let scaledEndX: number | undefined
-let scaledEndY: number | undefined
-if (endPoint) {
-  const [endX, endY] = endPoint.coordinates
-  scaledEndX = endX
-  scaledEndY = endY - 30
-}
+// Add end point (goal) from level_data.json
+const endPoint = LevelSchema.getGoal(level)
+const scaledEndX = endPoint?.x
+const scaledEndY = endPoint?.y
 
 // Get mobile detector instance for device detection only
 const mobileDetector = MobileDetector.getInstance()
@@ -140,9 +129,9 @@ try {
   throw new Error('Game initialization failed. Please check the console for details.')
 }
 
-gameAPI.setPlayerStart(startX!, startY!)
+gameAPI.setPlayerStart(startX, startY)
 
-// Set default level ID for main game mode (local level, no leaderboard)
+// Set default level ID for main game mode (local level, no leaderboard, no personal-best ghosts)
 gameAPI.getEngine().setLevelId(1)
 gameAPI.getEngine().enableLeaderboard(false)  // 本地关卡不支持排行榜
 
@@ -276,48 +265,8 @@ async function initializeGame() {
 
   // gameAPI.buildLevel().startGame()
 
-  const coins = levelData.coins
-  coins.forEach((coin: any) => {
-    const [coinX, coinY] = coin.coordinates
-    gameAPI.addCoin(coinX, coinY)
-  })
-
-  const spikes = levelData.spikes
-  spikes.forEach((spike: any) => {
-    const [spikeX, spikeY] = spike.coordinates
-    gameAPI.addSpike(spikeX, spikeY, 32) // Standard 32x32 spike
-  })
-
-  // Add ground platform for safety
-  // gameAPI.addPlatform(0, 550, 1024, 26, 'ground')
-
-  // Add demo spikes to showcase the new addSpike functionality
-  // // Large spike (64x64)
-  // gameAPI.addSpike(300, 400, 64)
-  // // Medium spike (48x48)
-  // gameAPI.addSpike(400, 416, 48)
-  // // Standard spike (32x32)
-  // gameAPI.addSpike(500, 432, 32)
-
-  // Add rigid bodies as polygons from level_data.json
-  levelData.rigid_bodies.forEach((rigidBody: any) => {
-    // Scale contour points to fit game world
-    const scaledContours = rigidBody.contour_points.map((point: any) => {
-      const [x, y] = point
-      return [
-        x, y
-      ]
-    })
-
-    // Add polygon with scaled coordinates
-    gameAPI.addPolygon(scaledContours, 'polygon')
-  })
-  // loadCustomLevel(gameAPI.getEngine())
-  if (scaledEndX !== undefined && scaledEndY !== undefined) {
-    gameAPI.addGoal(scaledEndX, scaledEndY)
-  }
-  gameAPI.buildLevel()
-  gameAPI.getEngine().setLevelData(gameAPI.builder.levelData)
+  // Coins, spikes, rigid bodies and goal from level_data.json
+  gameAPI.loadLevel(level)
 
   // Show speed selector before starting game
   console.log('🎮 Showing speed selector...')
@@ -1,12 +1,14 @@
 import './style.css'
-import { GameAPI } from './engine'
-import { LevelLoader, type LevelData } from './levelLoader'
+import { GameAPI, type VictoryEvent } from './engine'
+import { LevelLoader } from './levelLoader'
+import { LevelSchema, type LevelDocument } from './engine/level/LevelSchema'
 import { SpeedSelector } from './ui/SpeedSelector'
 import { LevelPackManager } from './engine/LevelPackManager'
 import { LevelPackProgressUI } from './ui/LevelPackProgressUI'
+import { SyncQueue } from './engine/offline/SyncQueue'
 
 // Global variable to store level data with privacy status
-let currentLevelData: LevelData | null = null
+let currentLevelData: LevelDocument | null = null
 
 // Level pack mode globals
 let packManager: LevelPackManager | null = null
@@ -28,6 +30,9 @@ async function initializePlayGame() {
   try {
     console.log('🔧 Initializing play game...')
 
+    // 上次离线时排队的进度和成绩
+    void SyncQueue.getInstance().flush()
+
     // Check required DOM elements
     const canvas = document.getElementById('game-canvas') as HTMLCanvasElement
     if (!canvas) {
@@ -70,16 +75,14 @@ async function initializePlayGame() {
     let startX = 100, startY = 400
     let goalX: number | undefined, goalY: number | undefined
 
-    if (levelData.starting_points && levelData.starting_points.length > 0) {
-      const startPoint = levelData.starting_points[0]
-      startX = startPoint.coordinates[0]
-      startY = startPoint.coordinates[1]
-    }
+    const start = LevelSchema.getPlayerStart(levelData)
+    startX = start.x
+    startY = start.y
 
-    if (levelData.end_points && levelData.end_points.length > 0) {
-      const endPoint = levelData.end_points[0]
-      goalX = endPoint.coordinates[0]
-      goalY = endPoint.coordinates[1] - 30
+    const goal = LevelSchema.getGoal(levelData)
+    if (goal) {
+      goalX = goal.x
+      goalY = goal.y
     }
 
     // 创建游戏API实例，使用标准固定尺寸
@@ -91,13 +94,15 @@ async function initializePlayGame() {
       goal_x: goalX,
       goal_y: goalY,
       start_x: startX,
-      start_y: startY
+      start_y: startY,
+      lives: 3
     })
 
     // 设置关卡ID（从URL参数获取或使用默认值）
     const levelIdParam = urlParams.get('levelId') || urlParams.get('id')
     const levelId = levelIdParam ? parseInt(levelIdParam, 10) : 2 // Play模式默认关卡ID=2
     gameAPI.getEngine().setLevelId(levelId)
+    gameAPI.getEngine().enablePersonalBests(levelIdParam !== null) // 默认ID不是真实关卡，不保存个人最佳幽灵
     gameAPI.getEngine().enableLeaderboard(true)  // Play模式支持排行榜（从API加载关卡）
     console.log(`🎮 设置关卡ID: ${levelId}，排行榜已启用`)
 
@@ -106,6 +111,7 @@ async function initializePlayGame() {
     ;(window as any).GameAPI = gameAPI // 与本地引擎保持一致
     ;(window as any).MarioGameAPI = gameAPI // 别名兼容
 
+    bindGameEvents()
     console.log('✅ Game API initialized')
     
     // Log physics engine configuration
@@ -133,6 +139,12 @@ async function initializePlayGame() {
       console.log(`✅ Player speed set to ${selectedSpeed}x`)
     }
 
+    // 幽灵赛跑：默认使用个人最佳，?ghost=top 使用排行榜第一名，?ghost=off 关闭
+    const ghostParam = urlParams.get('ghost')
+    if (ghostParam !== 'off') {
+      await gameAPI.loadGhost(ghostParam === 'top' ? 'leaderboard' : 'personal-best')
+    }
+
     // 启动游戏
     await gameAPI.startGame()
 
@@ -195,16 +207,14 @@ async function initializePackMode(packId: number) {
     let startX = 100, startY = 400
     let goalX: number | undefined, goalY: number | undefined
 
-    if (levelData.starting_points && levelData.starting_points.length > 0) {
-      const startPoint = levelData.starting_points[0]
-      startX = startPoint.coordinates[0]
-      startY = startPoint.coordinates[1]
-    }
+    const start = LevelSchema.getPlayerStart(levelData)
+    startX = start.x
+    startY = start.y
 
-    if (levelData.end_points && levelData.end_points.length > 0) {
-      const endPoint = levelData.end_points[0]
-      goalX = endPoint.coordinates[0]
-      goalY = endPoint.coordinates[1] - 30
+    const goal = LevelSchema.getGoal(levelData)
+    if (goal) {
+      goalX = goal.x
+      goalY = goal.y
     }
 
     // Create game API instance
@@ -216,7 +226,8 @@ async function initializePackMode(packId: number) {
       goal_x: goalX,
       goal_y: goalY,
       start_x: startX,
-      start_y: startY
+      start_y: startY,
+      lives: 3
     })
 
     // Disable leaderboard in pack mode (pack has its own completion tracking)
@@ -228,6 +239,10 @@ async function initializePackMode(packId: number) {
     ;(window as any).GameAPI = gameAPI
     ;(window as any).MarioGameAPI = gameAPI
 
+    // Pack progress first - the victory handler reads it
+    packManager.trackEvents(gameAPI.getEvents())
+    bindGameEvents()
+
     console.log('✅ Game API initialized for pack mode')
 
     // Build the level
@@ -255,10 +270,7 @@ async function initializePackMode(packId: number) {
       console.log(`✅ Player speed set to ${selectedSpeed}x`)
     }
 
-    // Start level timer
-    packManager.startLevelTimer()
-
-    // Start game
+    // Start game (the pack's level timer starts with the first tick)
     await gameAPI.startGame()
 
     console.log('🎮 Level pack game started successfully!')
@@ -380,104 +392,15 @@ async function promptPlayerNickname(): Promise<string | null> {
   })
 }
 
-async function buildGameFromLevelData(levelData: LevelData) {
+async function buildGameFromLevelData(levelData: LevelDocument) {
   console.log('🏗️ Building game from level data...', levelData)
 
-  // 清空现有关卡
+  // 清空现有关卡并按统一关卡格式构建（起点、终点、刚体、金币、钉刺、敌人）
   gameAPI.clearLevel()
+  gameAPI.loadLevel(levelData)
 
-  // 设置玩家起始位置（已在引擎初始化中设置，这里再次确认）
-  if (levelData.starting_points && levelData.starting_points.length > 0) {
-    const startPoint = levelData.starting_points[0]
-    gameAPI.setPlayerStart(startPoint.coordinates[0], startPoint.coordinates[1])
-    console.log(`👨 Player start set to: (${startPoint.coordinates[0]}, ${startPoint.coordinates[1]})`)
-  } else {
-    gameAPI.setPlayerStart(100, 400) // Default position
-  }
-
-  // 添加终点（使用 addGoal 而不是 addGoalPipe，与本地引擎保持一致）
-  if (levelData.end_points && levelData.end_points.length > 0) {
-    const endPoint = levelData.end_points[0]
-    gameAPI.addGoal(endPoint.coordinates[0], endPoint.coordinates[1] - 30)
-    console.log(`🏁 Goal added at: (${endPoint.coordinates[0]}, ${endPoint.coordinates[1] - 30})`)
-  }
-
-  // 添加刚体（墙壁和平台）
-  let polygonCount = 0
-  if (levelData.rigid_bodies && levelData.rigid_bodies.length > 0) {
-    levelData.rigid_bodies.forEach((body, index) => {
-      if (body.contour_points && body.contour_points.length >= 3) {
-        try {
-          // 确定多边形类型
-          let polygonType = 'polygon'
-          if (body.contour_points.length === 3) {
-            polygonType = 'triangle'
-          } else if (body.contour_points.length === 5) {
-            polygonType = 'pentagon'
-          } else if (body.contour_points.length === 6) {
-            polygonType = 'hexagon'
-          }
-
-          gameAPI.addPolygon(body.contour_points, polygonType)
-          polygonCount++
-          console.log(`🔷 Added ${polygonType} with ${body.contour_points.length} points`)
-        } catch (error) {
-          console.warn(`⚠️ Failed to add polygon ${index}:`, error)
-        }
-      }
-    })
-  }
-
-  // 添加金币（如果有）
-  let coinCount = 0
-  if (levelData.coins && levelData.coins.length > 0) {
-    levelData.coins.forEach((coin, index) => {
-      try {
-        gameAPI.addCoin(coin.x, coin.y)
-        coinCount++
-        console.log(`🪙 Added coin at: (${coin.x}, ${coin.y})`)
-      } catch (error) {
-        console.warn(`⚠️ Failed to add coin ${index}:`, error)
-      }
-    })
-  }
-
-  // 添加钉刺（学习本地引擎逻辑）
-  let spikeCount = 0
-  if (levelData.spikes && levelData.spikes.length > 0) {
-    levelData.spikes.forEach((spike, index) => {
-      try {
-        const [spikeX, spikeY] = spike.coordinates
-        gameAPI.addSpike(spikeX, spikeY, 32) // Standard 32x32 spike
-        spikeCount++
-        console.log(`🔺 Added spike at: (${spikeX}, ${spikeY})`)
-      } catch (error) {
-        console.warn(`⚠️ Failed to add spike ${index}:`, error)
-      }
-    })
-  }
-
-  // 添加敌人（如果有）
-  let enemyCount = 0
-  if (levelData.enemies && levelData.enemies.length > 0) {
-    levelData.enemies.forEach((enemy, index) => {
-      try {
-        gameAPI.addEnemy(enemy.x, enemy.y, enemy.type)
-        enemyCount++
-        console.log(`👾 Added ${enemy.type} at: (${enemy.x}, ${enemy.y})`)
-      } catch (error) {
-        console.warn(`⚠️ Failed to add enemy ${index}:`, error)
-      }
-    })
-  }
-
-  // 构建关卡
-  await gameAPI.buildLevel()
-
-  // 设置关卡数据到引擎（重要：来自本地引擎的改进）
-  gameAPI.getEngine().setLevelData(gameAPI.builder.levelData)
-
-  console.log(`✅ Level built: ${polygonCount} platforms, ${coinCount} coins, ${spikeCount} spikes, ${enemyCount} enemies`)
+  const spikeCount = levelData.enemies.filter(enemy => enemy.type === 'spike').length
+  console.log(`✅ Level built: ${levelData.polygons.length + levelData.platforms.length} platforms, ${levelData.coins.length} coins, ${spikeCount} spikes, ${levelData.enemies.length - spikeCount} enemies`)
 
   // 配置AI对话系统（学习本地引擎）
   await configureAIDialogSystem(gameAPI)
@@ -538,8 +461,23 @@ document.addEventListener('keydown', (event) => {
 })
 
 // 监听游戏事件
-window.addEventListener('gameWin', async (event: any) => {
-  console.log('🎉 Game won!', event.detail)
+function bindGameEvents() {
+  gameAPI.on('victory', handleVictory)
+  gameAPI.on('death', ({ deaths }) => {
+    // The pack manager has already counted it
+    if (isPackMode && packProgressUI) {
+      packProgressUI.update()
+      console.log(`💀 Death ${deaths} recorded in pack progress`)
+    }
+  })
+  gameAPI.on('gameOver', ({ deaths, coins }) => {
+    // The engine shows the continue/retry screen
+    console.log(`💀 Game over after ${deaths} deaths with ${coins} coins`)
+  })
+}
+
+async function handleVictory(event: VictoryEvent) {
+  console.log('🎉 Game won!', event)
 
   // ============================================================================
   // Level Pack Mode - Handle level progression
@@ -547,10 +485,7 @@ window.addEventListener('gameWin', async (event: any) => {
   if (isPackMode && packManager && packProgressUI) {
     console.log('📦 Pack mode - handling level completion...')
 
-    // Stop level timer and record stats
-    packManager.stopLevelTimer()
-    packManager.markCurrentLevelComplete()
-
+    // The pack manager has already stopped the level timer and marked the level complete
     const currentLevel = packManager.getCurrentLevelNumber()
     const totalLevels = packManager.getTotalLevels()
 
@@ -595,12 +530,9 @@ window.addEventListener('gameWin', async (event: any) => {
       // Update progress UI
       packProgressUI.update()
 
-      // Reset and restart game
+      // Reset and restart game (the level timer restarts with the first tick)
       gameAPI.resetGame()
 
-      // Start level timer
-      packManager.startLevelTimer()
-
       console.log(`✅ Level ${nextLevelNum} loaded and started!`)
     }
 
@@ -638,30 +570,7 @@ window.addEventListener('gameWin', async (event: any) => {
       }
     }, isPublicGame ? 2000 : 500) // Longer delay if score upload was shown
   }, 1000)
-})
-
-window.addEventListener('gameOver', (event: any) => {
-  console.log('💀 Game over!', event.detail)
-
-  // Record death in pack mode
-  if (isPackMode && packManager && packProgressUI) {
-    packManager.recordDeath()
-    packProgressUI.update()
-    console.log('💀 Death recorded in pack progress')
-  }
-
-  setTimeout(() => {
-    if (confirm('Game over! Restart the game?')) {
-      if (gameAPI) {
-        gameAPI.resetGame()
-        // Restart level timer in pack mode
-        if (isPackMode && packManager) {
-          packManager.startLevelTimer()
-        }
-      }
-    }
-  }, 1000)
-})
+}
 
 // 页面可见性变化时自动暂停
 document.addEventListener('visibilitychange', () => {
@@ -0,0 +1,17 @@
+// Collision broadphase off and on, over one second of play on a 12000px drawingLevel.
+// Run with `npm run bench` - brute force takes seconds per iteration, so each runs once.
+import { bench, describe } from 'vitest'
+import { HeadlessSimulation } from '../engine/headless/HeadlessSimulation'
+import { DRAWING_RUN, drawingLevel } from './fixtures'
+
+const TICKS = 60
+const ONCE = { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 }
+const level = drawingLevel()
+
+describe(`broadphase (${level.polygons.length} polygons, ${level.coins.length} coins, ${level.enemies.length} enemies, ${TICKS} ticks)`, () => {
+  for (const broadphase of [false, true]) {
+    bench(broadphase ? 'spatial grid' : 'brute force', () => {
+      HeadlessSimulation.fromLevelData(level, { seed: 1, broadphase }).run(TICKS, DRAWING_RUN)
+    }, ONCE)
+  }
+})
@@ -0,0 +1,115 @@
+// Levels and helpers shared by the engine's tests - only test files import this module
+import { HeadlessSimulation, type HeadlessLevel, type HeadlessOptions, type InputScript, type SimulationState } from '../engine/headless/HeadlessSimulation'
+import { LevelSchema, type LevelDocument, type LevelPlatform } from '../engine/level/LevelSchema'
+import { type PathStep } from '../engine/analysis/SolvabilityChecker'
+import { SeededRandom } from '../engine/generation/SeededRandom'
+
+export const RAMP_START = 400
+export const RAMP_WIDTH = 300
+
+// Ticks for a freshly spawned player to drop onto the ground below
+const SETTLE_TICKS = 20
+
+/**
+ * Flat ground with the player at the left end and the goal 200px from the right
+ */
+export function flatLevel(width = 800): LevelDocument {
+  const level = LevelSchema.createEmpty()
+  level.starts = [{ x: 50, y: 400 }]
+  level.goals = [{ x: width - 200, y: 436 }]
+  level.platforms.push({ x: 0, y: 500, width, height: 50 })
+  return level
+}
+
+/**
+ * Just `platform`, with the player dropped onto it at `startX` and nothing else under them
+ */
+export function platformLevel(platform: LevelPlatform, startX = platform.x + 10): LevelDocument {
+  const level = LevelSchema.createEmpty()
+  level.starts = [{ x: startX, y: platform.y - 40 }]
+  level.goals = [{ x: 2000, y: 436 }]
+  level.platforms.push(platform)
+  return level
+}
+
+/**
+ * 2000px of ground with a ramp of `degrees` rising to the right from RAMP_START, then a drop
+ */
+export function rampLevel(degrees: number): LevelDocument {
+  const level = platformLevel({ x: 0, y: 500, width: 2000, height: 50 }, 200)
+  level.goals = [{ x: 1900, y: 436 }]
+  level.polygons.push({ points: [[RAMP_START, 500], [RAMP_START + RAMP_WIDTH, rampSurface(degrees, RAMP_START + RAMP_WIDTH)], [RAMP_START + RAMP_WIDTH, 500]] })
+  return level
+}
+
+/**
+ * Height of rampLevel's surface at x
+ */
+export function rampSurface(degrees: number, x: number): number {
+  const along = Math.max(0, Math.min(RAMP_WIDTH, x - RAMP_START))
+  return 500 - Math.tan(degrees * Math.PI / 180) * along
+}
+
+export interface DrawingLevelOptions {
+  polygons?: number // small traced shapes scattered over the level, default 200
+  coins?: number // default 200
+  enemies?: number // goombas walking the ground, default 20
+  width?: number // level width in px, default 12000
+}
+
+/**
+ * A level shaped like a large traced drawing: hundreds of small contours floating over
+ * the ground, lots of coins and a few enemies - what the collision broadphase is for
+ */
+export function drawingLevel(options: DrawingLevelOptions = {}): LevelDocument {
+  const random = new SeededRandom('broadphase-benchmark')
+  const width = options.width ?? 12000
+  const groundY = 500
+  const level = LevelSchema.createEmpty()
+
+  level.starts = [{ x: 100, y: groundY - 40 }]
+  level.goals = [{ x: width - 100, y: groundY - 32 }]
+  level.platforms.push({ x: 0, y: groundY, width, height: 100, type: 'ground' })
+
+  for (let i = 0; i < (options.polygons ?? 200); i++) {
+    const x = random.range(300, width - 300)
+    const y = random.range(80, groundY - 140)
+    const size = random.range(16, 48)
+    level.polygons.push({
+      points: [[x, y], [x + size, y + size * 0.3], [x + size * 0.8, y + size], [x + size * 0.1, y + size * 0.8]]
+    })
+  }
+
+  for (let i = 0; i < (options.coins ?? 200); i++) {
+    level.coins.push({ x: random.range(200, width - 200), y: random.range(60, groundY - 30) })
+  }
+
+  for (let i = 0; i < (options.enemies ?? 20); i++) {
+    level.enemies.push({ x: random.range(600, width - 200), y: groundY - 32, type: 'goomba' })
+  }
+
+  return level
+}
+
+// Runs right through a drawingLevel, hopping now and then
+export const DRAWING_RUN: InputScript = (tick) => ({ right: true, run: true, jump: tick % 90 < 20 })
+
+/**
+ * A simulation whose player has already landed
+ */
+export function settled(level: HeadlessLevel, options: HeadlessOptions = {}): HeadlessSimulation {
+  const sim = HeadlessSimulation.fromLevelData(level, options)
+  sim.run(SETTLE_TICKS)
+  return sim
+}
+
+/**
+ * Play a solvability witness path's buttons through the engine, tick by tick
+ */
+export function replayWitness(level: HeadlessLevel, path: PathStep[]): SimulationState {
+  const sim = HeadlessSimulation.fromLevelData(level)
+  for (const input of path.flatMap(step => step.inputs)) {
+    if (!sim.step(input)) break
+  }
+  return sim.run(120) // let the last jump land
+}
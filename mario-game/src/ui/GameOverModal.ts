@@ -0,0 +1,112 @@
+/**
+ * 游戏结束弹窗组件
+ * 生命耗尽时显示本局数据，提供继续（从检查点）和重新开始
+ */
+
+export interface GameOverData {
+  deaths: number          // 死亡次数
+  coins: number           // 收集金币数
+  elapsedTime: number     // 游戏时间(秒)
+  hasCheckpoint: boolean  // 是否已到达检查点
+}
+
+export class GameOverModal {
+  private modal: HTMLDivElement | null = null
+  private onContinue?: () => void
+  private onRetry?: () => void
+
+  /**
+   * 显示游戏结束弹窗
+   */
+  show(data: GameOverData, options?: {
+    onContinue?: () => void
+    onRetry?: () => void
+  }): void {
+    this.hide()
+    this.onContinue = options?.onContinue
+    this.onRetry = options?.onRetry
+
+    this.createModal(data)
+    requestAnimationFrame(() => {
+      this.modal?.classList.add('show')
+    })
+  }
+
+  /**
+   * 隐藏弹窗
+   */
+  hide(): void {
+    document.removeEventListener('keydown', this.handleKeyDown)
+    if (this.modal) {
+      this.modal.remove()
+      this.modal = null
+    }
+  }
+
+  /**
+   * 创建弹窗DOM结构
+   */
+  private createModal(data: GameOverData): void {
+    this.modal = document.createElement('div')
+    this.modal.className = 'game-over-overlay'
+
+    this.modal.innerHTML = `
+      <div class="game-over-modal">
+        <h2>💀 Game Over</h2>
+        <div class="game-over-stats">
+          <div class="stat-item">
+            <span class="stat-label">Time:</span>
+            <span class="stat-value">${data.elapsedTime.toFixed(1)}s</span>
+          </div>
+          <div class="stat-item">
+            <span class="stat-label">Deaths:</span>
+            <span class="stat-value">${data.deaths}</span>
+          </div>
+          <div class="stat-item">
+            <span class="stat-label">Coins:</span>
+            <span class="stat-value">${data.coins}</span>
+          </div>
+        </div>
+        <div class="game-over-actions">
+          <button class="action-btn primary" data-action="continue">
+            ▶️ Continue${data.hasCheckpoint ? ' from Checkpoint' : ''}
+          </button>
+          <button class="action-btn secondary" data-action="retry">
+            🔄 Retry Level
+          </button>
+        </div>
+        <p class="game-over-hint">Enter: continue · R: retry</p>
+      </div>
+    `
+
+    this.modal.addEventListener('click', (e) => {
+      const action = (e.target as HTMLElement).closest('[data-action]')?.getAttribute('data-action')
+      if (action === 'continue') this.handleContinue()
+      if (action === 'retry') this.handleRetry()
+    })
+    document.addEventListener('keydown', this.handleKeyDown)
+
+    document.body.appendChild(this.modal)
+  }
+
+  /**
+   * 处理键盘事件
+   */
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Enter') {
+      this.handleContinue()
+    } else if (e.key === 'r' || e.key === 'R') {
+      this.handleRetry()
+    }
+  }
+
+  private handleContinue(): void {
+    this.hide()
+    this.onContinue?.()
+  }
+
+  private handleRetry(): void {
+    this.hide()
+    this.onRetry?.()
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { LeaderboardClient, LeaderboardManager, type ScoreSubmission } from '../engine/api/LeaderboardClient'
+import { SyncQueue } from '../engine/offline/SyncQueue'
+import { isValidReplay, type ReplayData } from '../engine/replay/Replay'
 
 export interface VictoryData {
   completionTime: number  // 完成时间(毫秒)
@@ -11,6 +13,7 @@ export interface VictoryData {
   coins: number           // 收集金币数
   score: number           // 游戏得分
   levelId: number         // 关卡ID
+  replay?: ReplayData     // 本局输入回放
 }
 
 export class VictoryModal {
@@ -18,6 +21,7 @@ export class VictoryModal {
   private leaderboardManager: LeaderboardManager
   private onClose?: () => void
   private onRestart?: () => void
+  private onWatchReplay?: (replay: ReplayData) => void
 
   constructor() {
     this.leaderboardManager = new LeaderboardManager()
@@ -29,9 +33,11 @@ export class VictoryModal {
   async show(victoryData: VictoryData, options?: {
     onClose?: () => void
     onRestart?: () => void
+    onWatchReplay?: (replay: ReplayData) => void
   }): Promise<void> {
     this.onClose = options?.onClose
     this.onRestart = options?.onRestart
+    this.onWatchReplay = options?.onWatchReplay
 
     this.createModal(victoryData)
     this.showModal()
@@ -144,6 +150,10 @@ export class VictoryModal {
           <button class="action-btn primary" data-action="restart">
             🔄 Restart
           </button>
+          ${this.onWatchReplay ? `
+          <button class="action-btn secondary" data-action="watch-replay">
+            🎬 Watch Best Run
+          </button>` : ''}
           <button class="action-btn secondary" data-action="close">
             ❌ Close
           </button>
@@ -191,6 +201,9 @@ export class VictoryModal {
         case 'skip':
           this.handleSkip()
           break
+        case 'watch-replay':
+          this.handleWatchReplay(victoryData.levelId)
+          break
       }
     })
 
@@ -227,28 +240,30 @@ export class VictoryModal {
       return
     }
 
+    const playerData = {
+      email: playerEmail || undefined,
+      country_code: playerCountry || undefined
+    }
+    const submission: ScoreSubmission = {
+      level_id: victoryData.levelId,
+      player_nickname: playerName,
+      completion_time_ms: victoryData.completionTime,
+      score: victoryData.score,
+      deaths_count: victoryData.deaths,
+      coins_collected: victoryData.coins,
+      attempts_count: 1,
+      replay: victoryData.replay
+    }
+    const client = new LeaderboardClient()
+
     // 显示加载状态
     this.showLoading(true)
 
     try {
       // 设置当前玩家
-      await this.leaderboardManager.setCurrentPlayer(playerName, {
-        email: playerEmail || undefined,
-        country_code: playerCountry || undefined
-      })
+      await this.leaderboardManager.setCurrentPlayer(playerName, playerData)
 
       // 提交成绩
-      const submission: ScoreSubmission = {
-        level_id: victoryData.levelId,
-        player_nickname: playerName,
-        completion_time_ms: victoryData.completionTime,
-        score: victoryData.score,
-        deaths_count: victoryData.deaths,
-        coins_collected: victoryData.coins,
-        attempts_count: 1
-      }
-
-      const client = new LeaderboardClient()
       const result = await client.submitScore(submission)
 
       // 显示提交结果和排名
@@ -260,6 +275,20 @@ export class VictoryModal {
       console.log('✅ 成绩提交成功:', result)
     } catch (error) {
       console.error('❌ 提交成绩失败:', error)
+
+      // 离线：成绩进入同步队列，恢复网络后自动提交
+      if (!navigator.onLine || error instanceof TypeError) {
+        try {
+          // 存入队列即可返回，投递在后台进行
+          await SyncQueue.getInstance().enqueue({ kind: 'score', baseUrl: client.getBaseUrl(), submission, player: playerData }, false)
+          this.showQueuedResult(playerName)
+          return
+        } catch (queueError) {
+          // 本地存储也失败时按普通提交失败提示
+          console.error('❌ 成绩加入同步队列失败:', queueError)
+        }
+      }
+
       let errorMessage = 'Failed to submit score. Please try again later.'
       if (error instanceof Error) {
         const message = error.message.toLowerCase()
@@ -279,6 +308,27 @@ export class VictoryModal {
     }
   }
 
+  /**
+   * 显示离线排队结果
+   */
+  private showQueuedResult(playerName: string): void {
+    const rankingInfo = this.modal?.querySelector('#ranking-info')
+    if (rankingInfo) {
+      // Built as nodes - the name is whatever the player typed
+      const message = document.createElement('div')
+      message.className = 'submission-success'
+      const heading = document.createElement('h4')
+      heading.textContent = `📴 ${playerName}, you're offline - your score is saved and will be submitted when you reconnect.`
+      message.appendChild(heading)
+      rankingInfo.replaceChildren(message)
+    }
+
+    const playerForm = this.modal?.querySelector('.player-form') as HTMLElement
+    if (playerForm) {
+      playerForm.style.display = 'none'
+    }
+  }
+
   /**
    * 显示提交结果
    */
@@ -287,7 +337,7 @@ export class VictoryModal {
     if (rankingInfo) {
       rankingInfo.innerHTML = `
         <div class="submission-success">
-          <h4>🎉 ${playerName}, score submitted successfully!</h4>
+          <h4>🎉 ${escapeHtml(playerName)}, score submitted successfully!</h4>
           <div class="ranking-stats">
             <div class="rank-item">
               <span class="rank-label">Time Rank:</span>
@@ -334,8 +384,8 @@ export class VictoryModal {
               <div class="leaderboard-entry rank-${entry.rank}">
                 <div class="rank">#${entry.rank}</div>
                 <div class="player-info">
-                  <span class="nickname">${entry.player.nickname}</span>
-                  ${entry.player.country_code ? `<span class="country">${entry.player.country_code}</span>` : ''}
+                  <span class="nickname">${escapeHtml(entry.player.nickname)}</span>
+                  ${entry.player.country_code ? `<span class="country">${escapeHtml(entry.player.country_code)}</span>` : ''}
                 </div>
                 <div class="performance">
                   <span class="time">${entry.performance.completion_time_formatted}</span>
@@ -393,6 +443,38 @@ export class VictoryModal {
     this.onClose?.()
   }
 
+  /**
+   * 加载关卡最佳记录的回放并播放
+   */
+  private async handleWatchReplay(levelId: number): Promise<void> {
+    this.showLoading(true)
+
+    try {
+      const client = new LeaderboardClient()
+      const leaderboard = await client.getLevelLeaderboard(levelId, {
+        sort_by: 'time',
+        limit: 1
+      })
+
+      const best = leaderboard.leaderboard[0]
+      const replay = best ? await client.getReplay(best.record_id) : null
+
+      if (!replay || !isValidReplay(replay)) {
+        alert('No replay is available for the best run on this level yet.')
+        return
+      }
+
+      document.removeEventListener('keydown', this.handleKeyDown)
+      this.hide()
+      this.onWatchReplay?.(replay)
+    } catch (error) {
+      console.error('❌ 加载回放失败:', error)
+      alert('Failed to load the best run. Please try again later.')
+    } finally {
+      this.showLoading(false)
+    }
+  }
+
   /**
    * 处理重新开始
    */
@@ -435,4 +517,11 @@ export class VictoryModal {
       return `${seconds}.${milliseconds.toString().padStart(3, '0')}s`
     }
   }
+}
+
+// Player names come from other players - never let them into innerHTML as markup
+function escapeHtml(text: string): string {
+  const node = document.createElement('span')
+  node.textContent = text
+  return node.innerHTML
 }
\ No newline at end of file
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL?: string
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string // comma separated, '*' for any; embed.html accepts its own origin only when unset
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import { resolve } from 'path'
 
 export default defineConfig({
@@ -14,9 +14,17 @@ export default defineConfig({
         main: resolve(__dirname, 'index.html'),
         play: resolve(__dirname, 'play.html'),
         embed: resolve(__dirname, 'embed.html'),
+        editor: resolve(__dirname, 'editor.html'),
       },
     },
   },
   // Ensure assets are properly handled
   assetsInclude: ['**/*.png', '**/*.jpg', '**/*.jpeg', '**/*.gif', '**/*.svg'],
+  test: {
+    // Engine tests run headless - no DOM needed
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // The engine logs every jump and level build - only show warnings and errors
+    onConsoleLog: (_log, type) => type === 'stderr',
+  },
 })
\ No newline at end of file